@@ -0,0 +1,193 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import { normalizeAddress, validateAddress } from "@/utils/shipping/addresses";
+import type { UserAddress, UserAddressInput } from "@/types";
+
+export interface AddressActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  address?: UserAddress;
+}
+
+const MAX_ADDRESSES = 10;
+
+/**
+ * The current user's saved addresses, default first
+ */
+export async function getMyAddresses(): Promise<UserAddress[]> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("user_addresses")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("is_default", { ascending: false })
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching addresses:", error);
+    return [];
+  }
+}
+
+/**
+ * Add an address to the current user's address book, or update one
+ *
+ * The first address saved becomes the default. Orders already placed keep
+ * the address they were placed with.
+ *
+ * @param addressId - Address to update, or null to add one
+ */
+export async function saveMyAddress(
+  addressId: string | null,
+  input: UserAddressInput,
+): Promise<AddressActionResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Please sign in to manage your addresses" };
+    }
+
+    const invalid = validateAddress(input);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const { count } = await supabase
+      .from("user_addresses")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+
+    if (!addressId && (count || 0) >= MAX_ADDRESSES) {
+      return { success: false, error: `You can save up to ${MAX_ADDRESSES} addresses` };
+    }
+
+    const address = {
+      ...normalizeAddress(input),
+      label: input.label.trim() || "Home",
+      is_default: input.is_default || count === 0,
+    };
+
+    // Clearing the previous default is done by a trigger
+    const { data: saved, error } = addressId
+      ? await supabase
+          .from("user_addresses")
+          .update({ ...address, updated_at: new Date().toISOString() })
+          .eq("id", addressId)
+          .eq("user_id", user.id)
+          .select("*")
+          .single()
+      : await supabase
+          .from("user_addresses")
+          .insert({ ...address, user_id: user.id })
+          .select("*")
+          .single();
+
+    if (error) throw error;
+
+    revalidatePath("/shop/addresses");
+    return { success: true, message: `"${address.label}" saved`, address: saved };
+  } catch (error) {
+    console.error("Error saving address:", error);
+    return { success: false, error: "Failed to save address" };
+  }
+}
+
+/**
+ * Make one of the current user's addresses the default
+ */
+export async function setDefaultAddress(addressId: string): Promise<AddressActionResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Please sign in to manage your addresses" };
+    }
+
+    const { data: saved, error } = await supabase
+      .from("user_addresses")
+      .update({ is_default: true, updated_at: new Date().toISOString() })
+      .eq("id", addressId)
+      .eq("user_id", user.id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!saved) {
+      return { success: false, error: "Address not found" };
+    }
+
+    revalidatePath("/shop/addresses");
+    return { success: true, message: `"${saved.label}" is now your default address`, address: saved };
+  } catch (error) {
+    console.error("Error setting default address:", error);
+    return { success: false, error: "Failed to update address" };
+  }
+}
+
+/**
+ * Remove an address from the current user's address book
+ * When it was the default, the oldest remaining address takes over.
+ */
+export async function deleteMyAddress(addressId: string): Promise<AddressActionResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Please sign in to manage your addresses" };
+    }
+
+    const { data: deleted, error } = await supabase
+      .from("user_addresses")
+      .delete()
+      .eq("id", addressId)
+      .eq("user_id", user.id)
+      .select("label, is_default")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!deleted) {
+      return { success: false, error: "Address not found" };
+    }
+
+    if (deleted.is_default) {
+      const { data: next } = await supabase
+        .from("user_addresses")
+        .select("id")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (next) {
+        await supabase
+          .from("user_addresses")
+          .update({ is_default: true, updated_at: new Date().toISOString() })
+          .eq("id", next.id);
+      }
+    }
+
+    revalidatePath("/shop/addresses");
+    return { success: true, message: `"${deleted.label}" removed` };
+  } catch (error) {
+    console.error("Error deleting address:", error);
+    return { success: false, error: "Failed to remove address" };
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Address Book Page
+ *
+ * Customer can save labelled delivery addresses, choose a default and
+ * edit or remove them. Checkout offers these addresses so they don't have
+ * to be typed again.
+ * Access: Authenticated users only
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useUser } from "@/context/UserContext";
+import {
+  getMyAddresses,
+  saveMyAddress,
+  setDefaultAddress,
+  deleteMyAddress,
+} from "./action";
+import { MapPin, Plus, Star, XCircle } from "lucide-react";
+import type { UserAddress, UserAddressInput } from "@/types";
+import { NIGERIAN_STATES } from "@/utils/shipping/nigeria";
+import { formatPostalAddress } from "@/utils/shipping/addresses";
+
+const EMPTY_FORM: UserAddressInput = {
+  label: "",
+  full_name: "",
+  phone: "",
+  street: "",
+  city: "",
+  lga: "",
+  state: "",
+  is_default: false,
+};
+
+export default function AddressBookPage() {
+  const router = useRouter();
+  const user = useUser();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [addresses, setAddresses] = useState<UserAddress[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<UserAddressInput | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      router.push("/shop/auth?redirect=/shop/addresses");
+      return;
+    }
+    loadAddresses();
+  }, [user, router]);
+
+  async function loadAddresses() {
+    setLoading(true);
+    setAddresses(await getMyAddresses());
+    setLoading(false);
+  }
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  function openAddress(address: UserAddress | null) {
+    setEditingId(address?.id || null);
+    setForm(
+      address
+        ? {
+            label: address.label,
+            full_name: address.full_name,
+            phone: address.phone,
+            street: address.street,
+            city: address.city,
+            lga: address.lga,
+            state: address.state,
+            is_default: address.is_default,
+          }
+        : EMPTY_FORM
+    );
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form) return;
+
+    setSaving(true);
+    const result = await saveMyAddress(editingId, form);
+    setSaving(false);
+
+    if (result.success) {
+      showMessage("success", result.message || "Address saved");
+      setForm(null);
+      loadAddresses();
+    } else {
+      showMessage("error", result.error || "Failed to save address");
+    }
+  }
+
+  async function handleSetDefault(address: UserAddress) {
+    const result = await setDefaultAddress(address.id);
+    showMessage(result.success ? "success" : "error", result.message || result.error || "");
+    if (result.success) loadAddresses();
+  }
+
+  async function handleDelete(address: UserAddress) {
+    if (!confirm(`Remove "${address.label}" from your address book?`)) return;
+
+    const result = await deleteMyAddress(address.id);
+    showMessage(result.success ? "success" : "error", result.message || result.error || "");
+    if (result.success) loadAddresses();
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+          <p className="mt-4 text-gray-600">Redirecting to login...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-radiance-creamBackgroundColor py-12">
+      <div className="max-w-4xl mx-auto px-6">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">Address Book</h1>
+            <p className="text-gray-600 mt-1">Addresses you can pick at checkout</p>
+          </div>
+          <button
+            onClick={() => openAddress(null)}
+            className="flex items-center gap-2 bg-radiance-goldColor text-white px-4 py-2 rounded-xl font-bold hover:bg-radiance-charcoalTextColor transition-colors"
+          >
+            <Plus size={18} /> Add Address
+          </button>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-6 p-4 rounded-xl ${
+              message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading addresses...</p>
+          </div>
+        ) : addresses.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-2xl shadow-sm">
+            <MapPin size={64} className="mx-auto text-gray-300 mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">No saved addresses</h2>
+            <p className="text-gray-600">Add one now or save it when you check out</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {addresses.map((address) => (
+              <div
+                key={address.id}
+                className={`bg-white rounded-2xl shadow-sm border p-5 ${
+                  address.is_default ? "border-radiance-goldColor" : "border-gray-200"
+                }`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-bold text-gray-900">{address.label}</h3>
+                  {address.is_default && (
+                    <span className="flex items-center gap-1 text-xs font-medium text-radiance-goldColor">
+                      <Star size={12} /> Default
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-900">{address.full_name}</p>
+                <p className="text-sm text-gray-600">{formatPostalAddress(address)}</p>
+                <p className="text-sm text-gray-600">{address.phone}</p>
+                <div className="flex gap-3 mt-4 text-sm">
+                  <button
+                    onClick={() => openAddress(address)}
+                    className="font-medium text-radiance-goldColor hover:underline"
+                  >
+                    Edit
+                  </button>
+                  {!address.is_default && (
+                    <button
+                      onClick={() => handleSetDefault(address)}
+                      className="font-medium text-gray-600 hover:underline"
+                    >
+                      Make default
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(address)}
+                    className="font-medium text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Address Modal */}
+      {form && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleSave} className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold flex items-center gap-2">
+                <MapPin size={20} className="text-radiance-goldColor" />
+                {editingId ? "Edit Address" : "New Address"}
+              </h2>
+              <button type="button" onClick={() => setForm(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <XCircle size={24} />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+              <input
+                type="text"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                placeholder="e.g. Home, Office"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Recipient *</label>
+                <input
+                  type="text"
+                  value={form.full_name}
+                  onChange={(e) => setForm({ ...form, full_name: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Phone Number *</label>
+                <input
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Street Address *</label>
+              <textarea
+                value={form.street}
+                onChange={(e) => setForm({ ...form, street: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                rows={2}
+                placeholder="House number, street, landmark"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">State *</label>
+                <select
+                  value={form.state}
+                  onChange={(e) => setForm({ ...form, state: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                  required
+                >
+                  <option value="">Select state</option>
+                  {NIGERIAN_STATES.map((state) => (
+                    <option key={state} value={state}>
+                      {state}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">LGA *</label>
+                <input
+                  type="text"
+                  value={form.lga}
+                  onChange={(e) => setForm({ ...form, lga: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">City / Town *</label>
+                <input
+                  type="text"
+                  value={form.city}
+                  onChange={(e) => setForm({ ...form, city: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                  required
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_default}
+                onChange={(e) => setForm({ ...form, is_default: e.target.checked })}
+                className="accent-radiance-goldColor"
+              />
+              Use as my default address
+            </label>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-radiance-goldColor text-white py-3 rounded-xl font-bold hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Address"}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
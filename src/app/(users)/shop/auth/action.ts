@@ -2,11 +2,26 @@
 
 import { createClient } from "@/utils/supabase/server";
 import { AuthState } from "@/types/index";
+import { claimGuestOrders } from "@/utils/orders/guest";
+
+/**
+ * Attach orders placed as a guest with this email to the account
+ * Never fails the sign-in; the orders can be claimed next time.
+ */
+async function claimOrdersFor(user: Parameters<typeof claimGuestOrders>[0] | null) {
+  if (!user) return;
+  try {
+    await claimGuestOrders(user);
+  } catch (error) {
+    console.error("Error claiming guest orders:", error);
+  }
+}
 
 /**
  * Handle user signup
  * All users start as 'customer' role
  * Profile created automatically via database trigger
+ * Guest orders placed with the same email are claimed once it is confirmed
  */
 export async function signup(
   prevState: AuthState | null,
@@ -65,6 +80,9 @@ export async function signup(
       };
     }
 
+    // Signed in straight away, so the email is already confirmed
+    await claimOrdersFor(data.user);
+
     // Client handle success
     return { error: null, message: "Signup successful" };
   } catch (error) {
@@ -82,6 +100,7 @@ export async function signup(
  * Handle user login
  * Works for both customers and admins
  * Role check happens in middleware
+ * Claims any guest orders placed with the account's confirmed email
  */
 export async function login(
   prevState: AuthState | null,
@@ -103,12 +122,14 @@ export async function login(
       password,
     };
 
-    const { error } = await supabase.auth.signInWithPassword(data);
+    const { data: session, error } = await supabase.auth.signInWithPassword(data);
 
     if (error) {
       return { error: error.message };
     }
 
+    await claimOrdersFor(session.user);
+
     // Don't redirect here - let the client handle success
     return { error: null, message: "Login successful" };
   } catch (error) {
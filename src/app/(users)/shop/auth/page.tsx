@@ -29,8 +29,10 @@ function AuthLoadingFallback() {
 }
 
 function AuthContent() {
-  // Toggle between Login and Signup
-  const [isLogin, setIsLogin] = useState(true);
+  const searchParams = useSearchParams();
+
+  // Toggle between Login and Signup (?mode=signup opens on Signup)
+  const [isLogin, setIsLogin] = useState(searchParams.get("mode") !== "signup");
 
   // useActionState handles the server response (errors/success) automatically
   const [state, formAction, isPending] = useActionState(
@@ -39,7 +41,6 @@ function AuthContent() {
   );
 
   const router = useRouter();
-  const searchParams = useSearchParams();
   const redirectTo = searchParams.get("redirect") || "/shop";
   const isConfirmed = searchParams.get("confirmed") === "true";
 
@@ -0,0 +1,662 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+import { createClient } from "@/utils/supabase/server";
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { getEnabledPaymentProviders, getPaymentProvider } from "@/utils/payments";
+import { settlePaymentReference } from "@/utils/payments/settlement";
+import type { BankTransferInstructions, PaymentProviderName } from "@/utils/payments/types";
+import {
+  buildCheckoutQuote,
+  buildGuestCheckoutQuote,
+  getEstimatedDeliveryDate,
+  getGuestCartError,
+  quotesMatch,
+  readSignedQuote,
+  signCheckoutQuote,
+} from "@/utils/checkout/quote";
+import { isBlockingIssue, validateCartLines } from "@/utils/checkout/cart-validation";
+import { getReservationMinutes } from "@/utils/orders/reservations";
+import { getPaymentWindowMinutes } from "@/utils/orders/payment-window";
+import { buildPaymentReference } from "@/utils/orders/order-number";
+import { isNigerianState } from "@/utils/shipping/nigeria";
+import {
+  formatPostalAddress,
+  normalizeAddress,
+  validateAddress,
+} from "@/utils/shipping/addresses";
+import { generatePickupCode } from "@/utils/orders/pickup-code";
+import { createOrderLookupToken, verifyOrderLookupToken } from "@/utils/orders/lookup-token";
+import { sendGuestOrderEmail } from "@/utils/orders/guest";
+import { saveMyAddress } from "../addresses/action";
+import type {
+  CartIssue,
+  CartValidationLine,
+  CheckoutFulfilment,
+  GuestCartLine,
+  Order,
+  PaymentStatus,
+  PickupPoint,
+  PlaceOrderInput,
+  PostalAddress,
+  SignedCheckoutQuote,
+  UserAddress,
+} from "@/types";
+
+export interface CheckoutQuoteResult {
+  success: boolean;
+  error?: string;
+  quote?: SignedCheckoutQuote;
+}
+
+export interface CartValidationResult {
+  success: boolean;
+  error?: string;
+  issues?: CartIssue[];
+}
+
+export interface PlaceOrderResult {
+  success: boolean;
+  error?: string;
+  // Present when items became unavailable or short of stock; fix them first
+  issues?: CartIssue[];
+  order?: Pick<Order, "id" | "order_number" | "total_amount">;
+  // Present when the submitted quote was stale; show it and ask to confirm again
+  quote?: SignedCheckoutQuote;
+  // Guest orders only: proves ownership when paying or looking the order up
+  lookupToken?: string;
+}
+
+export interface PaymentMethod {
+  name: PaymentProviderName;
+  label: string;
+}
+
+export interface PaymentInitResult {
+  success: boolean;
+  error?: string;
+  reference?: string;
+  // Hosted payment page to send the customer to; absent for bank transfer
+  authorizationUrl?: string | null;
+  instructions?: BankTransferInstructions;
+}
+
+export interface PaymentVerifyResult {
+  success: boolean;
+  error?: string;
+  paymentStatus?: PaymentStatus;
+  // Guest orders only: lookup page to show the order on afterwards
+  lookupPath?: string;
+}
+
+const GUEST_PAYMENT_COOKIE_PREFIX = "guest_payment_";
+
+/**
+ * Remember a guest's lookup token in this browser for the payment callback,
+ * so the token never goes to the gateway in the callback URL
+ */
+async function rememberGuestPayment(orderId: string, lookupToken: string): Promise<void> {
+  (await cookies()).set(`${GUEST_PAYMENT_COOKIE_PREFIX}${orderId}`, lookupToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/shop/checkout/callback",
+    maxAge: getPaymentWindowMinutes() * 60,
+  });
+}
+
+/**
+ * The lookup token remembered for a guest order being paid in this browser
+ */
+async function readGuestPayment(orderId: string): Promise<string | null> {
+  return (await cookies()).get(`${GUEST_PAYMENT_COOKIE_PREFIX}${orderId}`)?.value || null;
+}
+
+/**
+ * Price the current user's cart on the server
+ * The client renders this quote as-is and sends it back with the order.
+ * Shipping is priced once a delivery state (and LGA) is given; store
+ * pickup is free.
+ *
+ * @param fulfilment - Delivery destination or pickup point, if chosen yet
+ * @param guestItems - Browser cart, when checking out without an account
+ * @param couponCode - Discount code entered or followed from a recovery link
+ */
+export async function getCheckoutQuote(
+  fulfilment?: CheckoutFulfilment | null,
+  guestItems?: GuestCartLine[] | null,
+  couponCode?: string | null,
+): Promise<CheckoutQuoteResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user && !guestItems) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const quote = user
+      ? await buildCheckoutQuote(supabase, user.id, fulfilment, couponCode)
+      : await buildGuestCheckoutQuote(supabase, guestItems || [], fulfilment, couponCode);
+    return { success: true, quote: signCheckoutQuote(quote) };
+  } catch (error) {
+    console.error("Error building checkout quote:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to price your cart",
+    };
+  }
+}
+
+/**
+ * A signed-in user's cart lines, for validation
+ */
+async function readCartLines(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+): Promise<CartValidationLine[]> {
+  const { data, error } = await supabase
+    .from("cart_items")
+    .select("product_id, variant_id, quantity, added_unit_price")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Check the current cart against live prices and stock
+ * Runs when the cart is opened and at checkout; nothing is changed here,
+ * the customer applies each issue's fix.
+ *
+ * @param guestLines - Browser cart, when not signed in
+ */
+export async function validateCart(
+  guestLines?: CartValidationLine[] | null,
+): Promise<CartValidationResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user && !guestLines) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const invalidCart = user ? null : getGuestCartError(guestLines);
+    if (invalidCart) {
+      return { success: false, error: invalidCart };
+    }
+
+    const lines = user ? await readCartLines(supabase, user.id) : guestLines || [];
+    return { success: true, issues: await validateCartLines(lines) };
+  } catch (error) {
+    console.error("Error validating cart:", error);
+    return { success: false, error: "Failed to check your cart" };
+  }
+}
+
+/**
+ * Pickup points the customer can collect from instead of delivery
+ */
+export async function getPickupPoints(): Promise<PickupPoint[]> {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("pickup_points")
+      .select("*")
+      .eq("is_active", true)
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching pickup points:", error);
+    return [];
+  }
+}
+
+/**
+ * Place an order from a previously issued quote
+ *
+ * The quote must carry a valid signature, be unexpired, and still match
+ * current prices and cart contents. Anything else is rejected with a fresh
+ * quote so the customer can review the new total before paying. A coupon
+ * priced into the quote is redeemed with the order.
+ *
+ * Guests (no session, `input.guest` set) are emailed a lookup link and get
+ * its token back so they can pay straight away.
+ */
+export async function placeOrder(input: PlaceOrderInput): Promise<PlaceOrderResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const guest = user ? null : input.guest;
+    if (!user && !guest) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    // Checked before the cart is looked up, so an anonymous caller can't send any size
+    const invalidCart = guest ? getGuestCartError(guest.items || []) : null;
+    if (invalidCart) {
+      return { success: false, error: invalidCart };
+    }
+
+    const guestEmail = guest?.email?.trim().toLowerCase() || "";
+    if (guest && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(guestEmail)) {
+      return { success: false, error: "Enter a valid email address so we can send your order details" };
+    }
+
+    if (!input.contact?.full_name?.trim() || !input.contact?.phone?.trim()) {
+      return { success: false, error: "Name and phone number are required" };
+    }
+
+    const fulfilment = input.fulfilment;
+    if (fulfilment?.method === "delivery") {
+      if (!input.shipping_address?.trim()) {
+        return { success: false, error: "Shipping address is required" };
+      }
+      if (!isNigerianState(fulfilment.destination?.state)) {
+        return { success: false, error: "Choose the state we are delivering to" };
+      }
+      if (!fulfilment.destination.lga?.trim() || !fulfilment.destination.city?.trim()) {
+        return { success: false, error: "LGA and city are required" };
+      }
+    } else if (fulfilment?.method !== "pickup" || !fulfilment.pickup_point_id) {
+      return { success: false, error: "Choose delivery or a pickup point" };
+    }
+
+    const issued = readSignedQuote(input.quote);
+    if (issued.user_id !== (user?.id ?? null)) {
+      return { success: false, error: "Checkout quote could not be verified" };
+    }
+
+    // Checked again here: the cart may have changed since it was last shown
+    const cartLines = user
+      ? await readCartLines(supabase, user.id)
+      : (guest?.items || []).map((item) => ({ ...item, added_unit_price: null }));
+    const blocking = (await validateCartLines(cartLines)).filter(isBlockingIssue);
+    if (blocking.length > 0) {
+      return {
+        success: false,
+        error: "Some items in your cart need attention before you can order.",
+        issues: blocking,
+      };
+    }
+
+    const current = user
+      ? await buildCheckoutQuote(supabase, user.id, fulfilment, input.coupon_code)
+      : await buildGuestCheckoutQuote(supabase, guest?.items || [], fulfilment);
+    if (current.lines.length === 0) {
+      return { success: false, error: "Your cart is empty" };
+    }
+
+    if (new Date(issued.expires_at).getTime() < Date.now() || !quotesMatch(issued, current)) {
+      return {
+        success: false,
+        error: "Your cart or prices changed since checkout started. Please review the updated total.",
+        quote: signCheckoutQuote(current),
+      };
+    }
+
+    // Where the order goes, as stored on the order
+    let shippingAddress: string;
+    let shippingSnapshot: PostalAddress;
+    let shippingDetails: Record<string, unknown>;
+
+    if (fulfilment.method === "pickup" && current.pickup_point) {
+      const point = current.pickup_point;
+      shippingAddress = `Pickup: ${point.name}, ${point.address}, ${point.city}, ${point.state}`;
+      shippingSnapshot = normalizeAddress({
+        ...input.contact,
+        street: point.address,
+        city: point.city,
+        lga: "",
+        state: point.state,
+      });
+      shippingDetails = {
+        fulfilment_method: "pickup",
+        state: point.state,
+        city: point.city,
+        pickup_point_id: point.id,
+        pickup_code: generatePickupCode(),
+      };
+    } else if (fulfilment.method === "delivery" && current.shipping) {
+      shippingSnapshot = normalizeAddress({
+        ...input.contact,
+        ...fulfilment.destination,
+        street: input.shipping_address || "",
+      });
+      const invalid = validateAddress(shippingSnapshot);
+      if (invalid) {
+        return { success: false, error: invalid };
+      }
+
+      shippingAddress = formatPostalAddress(shippingSnapshot);
+      shippingDetails = {
+        fulfilment_method: "delivery",
+        state: shippingSnapshot.state,
+        lga: shippingSnapshot.lga,
+        city: shippingSnapshot.city,
+        zone_id: current.shipping.zone_id,
+        estimated_delivery_date: getEstimatedDeliveryDate(current),
+      };
+    } else {
+      return { success: false, error: current.shipping_error || "We can't deliver to this address yet" };
+    }
+
+    // Billing: a saved address, a typed one, or the delivery address
+    let billingAddress = shippingAddress;
+    let billingSnapshot: PostalAddress | null =
+      fulfilment.method === "delivery" ? shippingSnapshot : null;
+
+    if (input.billing_address_id && user) {
+      const { data: saved } = await supabase
+        .from("user_addresses")
+        .select("*")
+        .eq("id", input.billing_address_id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!saved) {
+        return { success: false, error: "That billing address is no longer in your address book" };
+      }
+
+      billingSnapshot = normalizeAddress(saved as UserAddress);
+      billingAddress = formatPostalAddress(billingSnapshot);
+    } else if (input.billing_address?.trim()) {
+      billingAddress = input.billing_address.trim();
+      billingSnapshot = null;
+    }
+
+    shippingDetails.address = shippingSnapshot;
+    shippingDetails.billing_address = billingSnapshot;
+
+    const serviceClient = createServiceClient();
+
+    // Sequence-backed, so unique however many orders are placed at once
+    const { data: orderNumber, error: numberError } = await serviceClient.rpc("next_order_number");
+    if (numberError) throw numberError;
+
+    // Stock check, stock decrement, order, items and cart clear-out happen
+    // in one database transaction
+    const { data: order, error: orderError } = await serviceClient.rpc(
+      "place_order",
+      {
+        p_user_id: user?.id ?? null,
+        p_order_number: orderNumber,
+        p_subtotal: current.subtotal,
+        p_tax: current.tax,
+        p_shipping_cost: current.shipping_cost,
+        p_total_amount: current.total_amount,
+        p_shipping_address: shippingAddress,
+        p_billing_address: billingAddress,
+        p_items: current.lines,
+        p_reservation_minutes: getReservationMinutes(),
+        p_shipping: shippingDetails,
+        p_guest: user ? null : { email: guestEmail, phone: input.contact.phone.trim() },
+        p_discount: current.coupon
+          ? { coupon_id: current.coupon.id, amount: current.discount_applied }
+          : null,
+      },
+    );
+
+    if (orderError) throw orderError;
+
+    if (!user) {
+      // The order is placed either way; the lookup token is also returned below
+      try {
+        await sendGuestOrderEmail(order);
+      } catch (emailError) {
+        console.error("Error emailing guest order link:", emailError);
+      }
+
+      return {
+        success: true,
+        order: {
+          id: order.id,
+          order_number: order.order_number,
+          total_amount: order.total_amount,
+        },
+        lookupToken: createOrderLookupToken(order.id),
+      };
+    }
+
+    // The order is placed either way; a failed save only costs retyping next time
+    if (input.save_address && fulfilment.method === "delivery") {
+      const saved = await saveMyAddress(null, {
+        ...shippingSnapshot,
+        label: input.save_address.label,
+        is_default: input.save_address.is_default,
+      });
+      if (!saved.success) {
+        console.error("Error saving checkout address:", saved.error);
+      }
+    }
+
+    revalidatePath("/shop/history");
+    return {
+      success: true,
+      order: {
+        id: order.id,
+        order_number: order.order_number,
+        total_amount: order.total_amount,
+      },
+    };
+  } catch (error) {
+    console.error("Error placing order:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to place order",
+    };
+  }
+}
+
+/**
+ * Payment methods the customer can choose from at checkout
+ */
+export async function getPaymentMethods(): Promise<PaymentMethod[]> {
+  return getEnabledPaymentProviders().map((provider) => ({
+    name: provider.name,
+    label: provider.label,
+  }));
+}
+
+/**
+ * Start a payment attempt for one of the current user's orders
+ * Issues a fresh reference and fixes the amount server-side so the
+ * browser cannot choose what it pays. Also used to retry payment for an
+ * unpaid or failed order from order history, within the payment window.
+ *
+ * @param orderId - Order to pay for
+ * @param providerName - Payment method chosen at checkout
+ * @param lookupToken - Guest orders: token from the order's lookup link
+ */
+export async function initializeOrderPayment(
+  orderId: string,
+  providerName: PaymentProviderName,
+  lookupToken?: string | null,
+): Promise<PaymentInitResult> {
+  try {
+    if (!getEnabledPaymentProviders().some((p) => p.name === providerName)) {
+      return { success: false, error: "This payment method is not available" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const isGuest = !!lookupToken && verifyOrderLookupToken(orderId, lookupToken);
+    if (!user && !isGuest) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    // Guest orders have no owner for RLS to match, so the token stands in
+    const query = (isGuest ? createServiceClient() : supabase)
+      .from("orders")
+      .select("id, order_number, total_amount, payment_status, guest_email, payment_transactions (reference, status)")
+      .eq("id", orderId);
+
+    const { data: order, error: orderError } = await (isGuest
+      ? query.is("user_id", null)
+      : query.eq("user_id", user!.id)
+    ).single();
+
+    if (orderError || !order) {
+      return { success: false, error: "Order not found" };
+    }
+
+    if (order.payment_status !== "pending" && order.payment_status !== "failed") {
+      return { success: false, error: "This order is no longer awaiting payment" };
+    }
+
+    // An earlier attempt may have gone through after all (e.g. the customer
+    // paid, then closed the tab before returning)
+    const earlier = (order.payment_transactions || []).filter(
+      (tx: { status: string }) => tx.status === "pending",
+    );
+    for (const tx of earlier) {
+      const settled = await settlePaymentReference(tx.reference, "payment_retry");
+      if (settled.paymentStatus === "completed") {
+        revalidatePath("/shop/history");
+        return { success: false, error: "This order has already been paid" };
+      }
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Supersedes earlier attempts and re-takes stock if the hold has lapsed
+    const { error: reopenError } = await serviceClient.rpc("reopen_order_payment", {
+      p_order_id: order.id,
+      p_reservation_minutes: getReservationMinutes(),
+      p_window_minutes: getPaymentWindowMinutes(),
+    });
+
+    if (reopenError) throw reopenError;
+
+    const reference = buildPaymentReference(
+      order.order_number,
+      (order.payment_transactions?.length || 0) + 1,
+    );
+
+    const { error: txError } = await serviceClient
+      .from("payment_transactions")
+      .insert({
+        order_id: order.id,
+        provider: providerName,
+        reference,
+        amount: order.total_amount,
+        currency: "NGN",
+      });
+
+    if (txError?.code === "23505") {
+      return { success: false, error: "A payment is already being started for this order. Please try again." };
+    }
+    if (txError) throw txError;
+
+    // Pay on delivery: keep the stock until the agent collects, with no payment window
+    const isPayOnDelivery = providerName === "cash_on_delivery";
+    await serviceClient
+      .from("orders")
+      .update({
+        payment_provider: providerName,
+        ...(isPayOnDelivery && { payment_status: "pay_on_delivery", reservation_expires_at: null }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", order.id)
+      .eq("payment_status", "pending");
+
+    if (isGuest) await rememberGuestPayment(order.id, lookupToken!);
+
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://jradianceco.com";
+    const payment = await getPaymentProvider(providerName).initialize({
+      orderId: order.id,
+      reference,
+      amount: Number(order.total_amount),
+      currency: "NGN",
+      email: (isGuest ? order.guest_email : user?.email) || "",
+      callbackUrl: isGuest
+        ? `${siteUrl}/shop/checkout/callback?order=${order.id}&guest=1`
+        : `${siteUrl}/shop/checkout/callback?order=${order.id}`,
+    });
+
+    return {
+      success: true,
+      reference,
+      authorizationUrl: payment.authorizationUrl,
+      instructions: payment.instructions,
+    };
+  } catch (error) {
+    console.error("Error initializing payment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to initialize payment",
+    };
+  }
+}
+
+/**
+ * Verify a payment attempt after the gateway reports completion
+ * The gateway is asked directly; the browser's word is not taken for it.
+ * Guests are recognised by the cookie set when they started paying.
+ */
+export async function verifyOrderPayment(
+  orderId: string,
+  reference: string,
+): Promise<PaymentVerifyResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const lookupToken = await readGuestPayment(orderId);
+    const isGuest = !!lookupToken && verifyOrderLookupToken(orderId, lookupToken);
+    if (!user && !isGuest) {
+      return { success: false, error: "Open the link in your order email to check this payment" };
+    }
+
+    // Reference must belong to an order owned by the caller (or the guest
+    // holding its lookup link)
+    const query = (isGuest ? createServiceClient() : supabase)
+      .from("payment_transactions")
+      .select("id, orders!inner (id, user_id)")
+      .eq("reference", reference)
+      .eq("order_id", orderId);
+
+    const { data: transaction } = await (isGuest
+      ? query.is("orders.user_id", null)
+      : query.eq("orders.user_id", user!.id)
+    ).maybeSingle();
+
+    if (!transaction) {
+      return { success: false, error: "Payment reference not found" };
+    }
+
+    const result = await settlePaymentReference(reference, "checkout_callback");
+
+    revalidatePath("/shop/history");
+    return {
+      success: result.success,
+      error: result.error,
+      paymentStatus: result.paymentStatus,
+      lookupPath: isGuest
+        ? `/shop/orders/lookup?order=${orderId}&token=${lookupToken}`
+        : undefined,
+    };
+  } catch (error) {
+    console.error("Error verifying payment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to verify payment",
+    };
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Payment Callback Page
+ *
+ * Hosted payment pages (Paystack, Flutterwave) send the customer back here.
+ * The payment is verified on the server before the customer is told it
+ * succeeded, then they are taken to the order in their history (guests go
+ * back to the lookup page).
+ *
+ * Access: Authenticated users, or guests who started paying in this browser
+ */
+
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useUser } from "@/context/UserContext";
+import { verifyOrderPayment } from "../action";
+import { Loader2 } from "lucide-react";
+
+function PaymentCallbackContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const user = useUser();
+  const [message, setMessage] = useState("Confirming your payment...");
+
+  const orderId = searchParams.get("order");
+  // Paystack returns ?reference=, Flutterwave returns ?tx_ref=
+  const reference = searchParams.get("reference") || searchParams.get("tx_ref");
+  const isGuest = searchParams.get("guest") === "1";
+
+  useEffect(() => {
+    if (!user && !isGuest) return;
+
+    if (!orderId || !reference) {
+      router.replace(isGuest ? "/shop" : "/shop/history");
+      return;
+    }
+
+    verifyOrderPayment(orderId, reference).then((result) => {
+      if (result.success && result.paymentStatus === "completed") {
+        setMessage("Payment successful! Your order has been placed.");
+      } else if (result.success && result.paymentStatus === "pending") {
+        setMessage("We're still confirming your payment. Your order history will update shortly.");
+      } else {
+        setMessage(result.error || "Payment could not be verified. Please contact support.");
+      }
+      // A guest paying in another browser follows their order email instead
+      if (isGuest && !result.lookupPath) return;
+      router.replace(result.lookupPath || `/shop/history?order=${orderId}`);
+    });
+  }, [user, orderId, reference, isGuest, router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="text-center">
+        <Loader2 size={48} className="animate-spin mx-auto text-radiance-goldColor" />
+        <p className="mt-4 text-gray-600">{message}</p>
+      </div>
+    </div>
+  );
+}
+
+export default function PaymentCallbackPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+      </div>
+    }>
+      <PaymentCallbackContent />
+    </Suspense>
+  );
+}
@@ -2,92 +2,329 @@
  * Checkout Page
  * 
  * Customer checkout flow with:
- * - Delivery information form
- * - Payment integration (Paystack)
+ * - Delivery information form (state, LGA and city pick the shipping zone),
+ *   filled from the address book or saved to it, or a store pickup point
+ *   with free shipping
+ * - Payment method selection (card gateways, bank transfer or pay on delivery)
  * - Order creation
+ * - Guest checkout from the browser cart, with an emailed order link
+ * - Cart validation against live prices and stock, with one-click fixes
+ * - Discount codes, prefilled from ?coupon= in cart recovery links
  * 
- * Access: Authenticated users only
+ * Access: Public (signed-in customers check out their saved cart)
  */
 
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useUser } from "@/context/UserContext";
-import { getCartItems, clearCart, createOrder } from "@/utils/supabase/services";
-import { CreditCard, Truck, User, MapPin, Phone, Loader2 } from "lucide-react";
-import type { CartItem as CartItemType } from "@/types";
+import { useCart } from "@/context/CartContext";
+import {
+  getCheckoutQuote,
+  getPaymentMethods,
+  getPickupPoints,
+  placeOrder,
+  initializeOrderPayment,
+} from "./action";
+import type { PaymentMethod } from "./action";
+import { getMyAddresses } from "../addresses/action";
+import {
+  CreditCard,
+  Truck,
+  User,
+  MapPin,
+  Mail,
+  Phone,
+  Loader2,
+  AlertCircle,
+  Landmark,
+  Banknote,
+  Store,
+  Tag,
+} from "lucide-react";
+import type {
+  CartIssue,
+  CheckoutFulfilment,
+  FulfilmentMethod,
+  Order,
+  PickupPoint,
+  ShippingDestination,
+  SignedCheckoutQuote,
+  UserAddress,
+} from "@/types";
+import { NIGERIAN_STATES } from "@/utils/shipping/nigeria";
+import { formatPostalAddress } from "@/utils/shipping/addresses";
+import { clearBrowserCart, getBrowserCartLines } from "@/utils/cart/browser-cart";
+import { getLineKey } from "@/utils/products/variants";
+import type { BankTransferInstructions } from "@/utils/payments/types";
 
 export default function CheckoutPage() {
   const router = useRouter();
   const user = useUser();
+  const { refresh: refreshCart, issues: cartIssues, validate: validateCart, fixIssues } = useCart();
+  const [fixingCart, setFixingCart] = useState(false);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
-  const [cartItems, setCartItems] = useState<CartItemType[]>([]);
+  const [quote, setQuote] = useState<SignedCheckoutQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod["name"] | null>(null);
+  const [transfer, setTransfer] = useState<{
+    order: Pick<Order, "id" | "order_number" | "total_amount">;
+    instructions: BankTransferInstructions;
+    orderUrl: string;
+  } | null>(null);
   const [formData, setFormData] = useState({
+    email: "",
     full_name: "",
     phone: "",
     shipping_address: "",
+    state: "",
+    lga: "",
+    city: "",
     billing_address: "",
   });
+  const [pricingShipping, setPricingShipping] = useState(false);
+  const [fulfilmentMethod, setFulfilmentMethod] = useState<FulfilmentMethod>("delivery");
+  const [pickupPoints, setPickupPoints] = useState<PickupPoint[]>([]);
+  const [pickupPointId, setPickupPointId] = useState("");
+  const [addresses, setAddresses] = useState<UserAddress[]>([]);
+  // Saved address the form was filled from; "" while typing a new one
+  const [addressId, setAddressId] = useState("");
+  const [saveAddress, setSaveAddress] = useState({ save: false, label: "", is_default: false });
+  // "same" as delivery, "other" to type one, or a saved address id
+  const [billingChoice, setBillingChoice] = useState("same");
+  // Code the quote is priced with, and what's typed in the coupon field
+  const [couponCode, setCouponCode] = useState("");
+  const [couponInput, setCouponInput] = useState("");
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
 
+  // Reloads when the visitor signs in, switching to their saved cart
   useEffect(() => {
-    if (!user) {
-      router.push("/shop/auth?redirect=/shop/checkout");
-      return;
-    }
-    loadCart();
-  }, [user, router]);
+    loadQuote();
+  }, [user]);
+
+  // Guests send their browser cart; signed-in customers are priced from the database
+  function guestItems() {
+    return user ? null : getBrowserCartLines();
+  }
+
+  // Prices, tax and shipping are computed on the server; we only display them
+  async function loadQuote() {
+    // Recovery emails link here with ?coupon=CODE
+    const code = couponCode || new URLSearchParams(window.location.search).get("coupon") || "";
+    setCouponCode(code);
+    setCouponInput(code);
 
-  async function loadCart() {
-    if (!user) return;
-    const items = await getCartItems(user.id);
-    setCartItems(items);
+    const [result, methods, points, saved] = await Promise.all([
+      getCheckoutQuote(null, guestItems(), code),
+      getPaymentMethods(),
+      getPickupPoints(),
+      user ? getMyAddresses() : Promise.resolve([]),
+      validateCart(),
+    ]);
+    setPaymentMethods(methods);
+    setPickupPoints(points);
+    setAddresses(saved);
+    setPaymentMethod((current) => current || methods[0]?.name || null);
+    if (result.success && result.quote) {
+      setQuote(result.quote);
+      setQuoteError(null);
+    } else {
+      setQuoteError(result.error || "Failed to load your cart");
+    }
     setLoading(false);
+
+    const preferred = saved.find((address) => address.is_default);
+    if (result.success && preferred) {
+      fillFromAddress(preferred);
+    }
+  }
+
+  // Fill the form from the address book and price delivery there
+  function fillFromAddress(address: UserAddress | null) {
+    setAddressId(address?.id || "");
+    setFormData((current) => ({
+      ...current,
+      full_name: address?.full_name || current.full_name,
+      phone: address?.phone || current.phone,
+      shipping_address: address?.street || "",
+      state: address?.state || "",
+      lga: address?.lga || "",
+      city: address?.city || "",
+    }));
+    if (address) {
+      priceShipping({
+        method: "delivery",
+        destination: { state: address.state, lga: address.lga, city: address.city },
+      });
+    }
+  }
+
+  // Re-price when the destination changes; shipping depends on the zone
+  async function priceShipping(fulfilment: CheckoutFulfilment) {
+    if (fulfilment.method === "delivery" && !fulfilment.destination.state) return;
+    if (fulfilment.method === "pickup" && !fulfilment.pickup_point_id) return;
+    setPricingShipping(true);
+    const result = await getCheckoutQuote(fulfilment, guestItems(), couponCode);
+    if (result.success && result.quote) {
+      setQuote(result.quote);
+    } else {
+      setQuoteError(result.error || "Failed to price your cart");
+    }
+    setPricingShipping(false);
+  }
+
+  const destination: ShippingDestination = {
+    state: formData.state,
+    lga: formData.lga,
+    city: formData.city,
+  };
+
+  const fulfilment: CheckoutFulfilment =
+    fulfilmentMethod === "pickup"
+      ? { method: "pickup", pickup_point_id: pickupPointId }
+      : { method: "delivery", destination };
+
+  function chooseFulfilment(method: FulfilmentMethod) {
+    setFulfilmentMethod(method);
+    priceShipping(
+      method === "pickup"
+        ? { method: "pickup", pickup_point_id: pickupPointId }
+        : { method: "delivery", destination }
+    );
   }
 
-  const subtotal = cartItems.reduce((acc, item) => {
-    const price = item.product?.discount_price || item.product?.price || 0;
-    return acc + price * item.quantity;
-  }, 0);
+  // Price the cart again for the chosen fulfilment, if any
+  async function requote(code: string) {
+    const ready =
+      fulfilment.method === "pickup" ? !!fulfilment.pickup_point_id : !!fulfilment.destination.state;
+    const result = await getCheckoutQuote(ready ? fulfilment : null, guestItems(), code);
+    if (result.success && result.quote) {
+      setQuote(result.quote);
+      setQuoteError(null);
+    } else {
+      setQuoteError(result.error || "Failed to price your cart");
+    }
+  }
+
+  // Apply cart fixes, then price the corrected cart
+  async function handleFixCart(toFix: CartIssue[]) {
+    setFixingCart(true);
+    await fixIssues(toFix);
+    await requote(couponCode);
+    setFixingCart(false);
+  }
+
+  // The server decides whether a code applies; the quote says why not
+  async function applyCoupon(code: string) {
+    setApplyingCoupon(true);
+    setCouponCode(code);
+    setCouponInput(code);
+    await requote(code);
+    setApplyingCoupon(false);
+  }
 
-  const tax = subtotal * 0.075; // 7.5% VAT
-  const shipping = subtotal > 50000 ? 0 : 2500; // Free shipping above ₦50,000
-  const total = subtotal + tax + shipping;
+  const lines = quote?.quote.lines || [];
+  const subtotal = quote?.quote.subtotal || 0;
+  const tax = quote?.quote.tax || 0;
+  const discount = quote?.quote.discount_applied || 0;
+  const appliedCoupon = quote?.quote.coupon || null;
+  const couponError = quote?.quote.coupon_error || null;
+  const shipping = quote?.quote.shipping_cost || 0;
+  const shippingQuote = quote?.quote.shipping || null;
+  const pickupQuote = quote?.quote.pickup_point || null;
+  const isPriced = fulfilmentMethod === "pickup" ? !!pickupQuote : !!shippingQuote;
+  const shippingError = quote?.quote.shipping_error || null;
+  const total = quote?.quote.total_amount || 0;
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!user) return;
+    if (!quote) return;
+    if (!paymentMethod) {
+      alert("Please choose a payment method");
+      return;
+    }
 
     setProcessing(true);
 
     try {
-      // Create order items
-      const orderItems = cartItems.map((item) => ({
-        product_id: item.product_id,
-        quantity: item.quantity,
-        unit_price: item.product?.discount_price || item.product?.price || 0,
-      }));
-
-      // Create order
-      const order = await createOrder(user.id, {
-        items: orderItems,
-        subtotal,
-        tax,
-        shipping_cost: shipping,
-        total_amount: total,
+      const result = await placeOrder({
+        quote,
+        fulfilment,
+        contact: { full_name: formData.full_name, phone: formData.phone },
         shipping_address: formData.shipping_address,
-        billing_address: formData.billing_address || formData.shipping_address,
+        billing_address_id: addresses.some((a) => a.id === billingChoice) ? billingChoice : null,
+        billing_address:
+          billingChoice === "other" || addresses.length === 0 ? formData.billing_address : undefined,
+        save_address:
+          user && fulfilmentMethod === "delivery" && !addressId && saveAddress.save
+            ? { label: saveAddress.label, is_default: saveAddress.is_default }
+            : null,
+        guest: user ? null : { email: formData.email, items: getBrowserCartLines() },
+        coupon_code: couponCode || null,
       });
 
-      if (!order) {
-        alert("Failed to create order. Please try again.");
+      // Prices or cart changed - show the new total and let the customer confirm
+      if (result.quote) {
+        setQuote(result.quote);
+      }
+
+      // Items went unavailable or short of stock; show them with their fixes
+      if (result.issues) {
+        validateCart();
+      }
+
+      if (!result.success || !result.order) {
+        alert(result.error || "Failed to create order. Please try again.");
+        setProcessing(false);
+        return;
+      }
+
+      const order = result.order;
+      const lookupToken = result.lookupToken;
+
+      // Guests follow the emailed lookup link instead of order history
+      const orderUrl = lookupToken
+        ? `/shop/orders/lookup?order=${order.id}&token=${encodeURIComponent(lookupToken)}`
+        : `/shop/history?order=${order.id}`;
+      // The order empties the cart it was placed from
+      if (lookupToken) {
+        clearBrowserCart();
+      } else {
+        refreshCart();
+      }
+
+      // Reference and amount are issued by the server, never computed here
+      const payment = await initializeOrderPayment(order.id, paymentMethod, lookupToken);
+      if (!payment.success) {
+        alert(
+          payment.error ||
+            (lookupToken
+              ? "Could not start payment. You can retry from the link in your email."
+              : "Could not start payment. You can retry from your order history.")
+        );
+        router.push(orderUrl);
+        return;
+      }
+
+      // Hosted gateway page; it returns to /shop/checkout/callback
+      if (payment.authorizationUrl) {
+        window.location.href = payment.authorizationUrl;
+        return;
+      }
+
+      if (payment.instructions) {
+        setTransfer({ order, instructions: payment.instructions, orderUrl });
         setProcessing(false);
         return;
       }
 
-      // Initialize Paystack payment
-      initializePayment(order);
+      // Pay on delivery - nothing more to do online
+      alert("Order placed! Please have cash or your card ready when your order arrives.");
+      router.push(orderUrl);
     } catch (error) {
       console.error("Checkout error:", error);
       alert("An error occurred during checkout");
@@ -95,72 +332,117 @@ export default function CheckoutPage() {
     }
   }
 
-  function initializePayment(order: any) {
-    // Check if Paystack is available
-    if (typeof window === "undefined" || !(window as any).PaystackPop) {
-      alert("Payment gateway not available. Please try again.");
-      return;
-    }
-
-    const handler = (window as any).PaystackPop.setup({
-      key: process.env.NEXT_PUBLIC_PAYSTACK_PUBLIC_KEY,
-      email: user?.email || "",
-      amount: total * 100, // Paystack expects amount in kobo
-      currency: "NGN",
-      ref: `ORD-${Date.now()}`,
-      metadata: {
-        order_id: order.id,
-        custom_fields: [
-          {
-            display_name: "Customer Name",
-            variable_name: "customer_name",
-            value: formData.full_name,
-          },
-          {
-            display_name: "Phone Number",
-            variable_name: "phone_number",
-            value: formData.phone,
-          },
-        ],
-      },
-      callback: async (response: any) => {
-        // Payment successful
-        alert("Payment successful! Your order has been placed.");
-        await clearCart(user!.id);
-        router.push(`/shop/history?order=${order.id}`);
-      },
-      onClose: () => {
-        alert("Payment cancelled. Please complete your order.");
-        setProcessing(false);
-      },
-    });
-
-    handler.openIframe();
-  }
-
-  if (!user) {
+  if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <Loader2 size={48} className="animate-spin mx-auto text-radiance-goldColor" />
-          <p className="mt-4 text-gray-600">Redirecting to login...</p>
+          <p className="mt-4 text-gray-600">Loading cart...</p>
         </div>
       </div>
     );
   }
 
-  if (loading) {
+  const blockingIssues = cartIssues.filter((issue) => issue.kind !== "price_changed");
+
+  const cartIssuesPanel = cartIssues.length > 0 && (
+    <div className="bg-yellow-50 rounded-2xl border border-yellow-200 p-4 text-left">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <p className="font-bold text-gray-900 flex items-center gap-2">
+          <AlertCircle size={18} className="text-yellow-600" />
+          Your cart has changed
+        </p>
+        {cartIssues.length > 1 && (
+          <button
+            onClick={() => handleFixCart(cartIssues)}
+            disabled={fixingCart}
+            className="text-sm font-bold text-radiance-goldColor hover:underline disabled:opacity-50"
+          >
+            Fix all
+          </button>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {cartIssues.map((issue) => (
+          <li key={`${getLineKey(issue)}-${issue.kind}`} className="flex items-center justify-between gap-4 text-sm">
+            <span className={issue.kind === "price_changed" ? "text-gray-700" : "text-red-700"}>
+              {issue.message}
+            </span>
+            <button
+              onClick={() => handleFixCart([issue])}
+              disabled={fixingCart}
+              className="shrink-0 px-3 py-1 rounded-lg bg-white border border-gray-300 text-xs font-medium hover:border-radiance-goldColor disabled:opacity-50"
+            >
+              {issue.fix_label}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  if (quoteError) {
     return (
       <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center">
-          <Loader2 size={48} className="animate-spin mx-auto text-radiance-goldColor" />
-          <p className="mt-4 text-gray-600">Loading cart...</p>
+        <div className="text-center max-w-md">
+          <AlertCircle size={48} className="mx-auto text-red-500 mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">We couldn't price your cart</h1>
+          <p className="text-gray-600 mb-6">{quoteError}</p>
+          {cartIssuesPanel && <div className="mb-6">{cartIssuesPanel}</div>}
+          <button
+            onClick={() => router.push("/shop")}
+            className="bg-radiance-goldColor text-white px-8 py-3 rounded-xl font-bold hover:bg-radiance-charcoalTextColor transition-colors"
+          >
+            Continue Shopping
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (transfer) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-6">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center">
+          <Landmark size={48} className="mx-auto text-radiance-goldColor mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Complete your bank transfer</h1>
+          <p className="text-gray-600 mb-6">
+            Order {transfer.order.order_number} is reserved. Transfer exactly ₦
+            {Number(transfer.order.total_amount).toLocaleString()} and quote the reference below.
+          </p>
+          <dl className="text-left space-y-3 bg-radiance-creamBackgroundColor rounded-xl p-4 mb-6">
+            <div className="flex justify-between gap-4">
+              <dt className="text-gray-500">Bank</dt>
+              <dd className="font-medium">{transfer.instructions.bankName}</dd>
+            </div>
+            <div className="flex justify-between gap-4">
+              <dt className="text-gray-500">Account number</dt>
+              <dd className="font-mono font-medium">{transfer.instructions.accountNumber}</dd>
+            </div>
+            <div className="flex justify-between gap-4">
+              <dt className="text-gray-500">Account name</dt>
+              <dd className="font-medium">{transfer.instructions.accountName}</dd>
+            </div>
+            <div className="flex justify-between gap-4">
+              <dt className="text-gray-500">Reference</dt>
+              <dd className="font-mono font-medium">{transfer.instructions.narration}</dd>
+            </div>
+          </dl>
+          <p className="text-xs text-gray-500 mb-6">
+            Your order is confirmed once our team sees the transfer arrive.
+          </p>
+          <button
+            onClick={() => router.push(transfer.orderUrl)}
+            className="bg-radiance-goldColor text-white px-8 py-3 rounded-xl font-bold hover:bg-radiance-charcoalTextColor transition-colors"
+          >
+            View Order
+          </button>
         </div>
       </div>
     );
   }
 
-  if (cartItems.length === 0) {
+  if (lines.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -191,6 +473,33 @@ export default function CheckoutPage() {
             </h2>
 
             <form onSubmit={handleSubmit} className="space-y-4">
+              {!user && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email *
+                  </label>
+                  <div className="relative">
+                    <Mail size={18} className="absolute left-3 top-3.5 text-gray-400" />
+                    <input
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                      className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                      required
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    We'll email you a link to track your order. Have an account?{" "}
+                    <Link
+                      href="/shop/auth?redirect=/shop/checkout"
+                      className="font-medium text-radiance-goldColor hover:underline"
+                    >
+                      Sign in
+                    </Link>
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Full Name *
@@ -223,42 +532,329 @@ export default function CheckoutPage() {
                 </div>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Shipping Address *
-                </label>
-                <div className="relative">
-                  <MapPin size={18} className="absolute left-3 top-3.5 text-gray-400" />
-                  <textarea
-                    value={formData.shipping_address}
-                    onChange={(e) => setFormData({ ...formData, shipping_address: e.target.value })}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
-                    rows={3}
-                    placeholder="Street address, city, state"
-                    required
-                  />
+              {pickupPoints.length > 0 && (
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700 mb-2">
+                    How would you like to get your order? *
+                  </legend>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(["delivery", "pickup"] as const).map((method) => (
+                      <label
+                        key={method}
+                        className={`flex items-center gap-3 p-3 border rounded-xl cursor-pointer transition-colors ${
+                          fulfilmentMethod === method
+                            ? "border-radiance-goldColor bg-radiance-creamBackgroundColor"
+                            : "border-gray-300"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="fulfilment_method"
+                          value={method}
+                          checked={fulfilmentMethod === method}
+                          onChange={() => chooseFulfilment(method)}
+                          className="accent-radiance-goldColor"
+                        />
+                        {method === "delivery" ? (
+                          <Truck size={18} className="text-gray-500" />
+                        ) : (
+                          <Store size={18} className="text-gray-500" />
+                        )}
+                        <span className="font-medium text-gray-900">
+                          {method === "delivery" ? "Deliver to me" : "Pick up in store"}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              )}
+
+              {fulfilmentMethod === "pickup" ? (
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700 mb-2">
+                    Pickup Point *
+                  </legend>
+                  <div className="space-y-2">
+                    {pickupPoints.map((point) => (
+                      <label
+                        key={point.id}
+                        className={`flex items-start gap-3 p-3 border rounded-xl cursor-pointer transition-colors ${
+                          pickupPointId === point.id
+                            ? "border-radiance-goldColor bg-radiance-creamBackgroundColor"
+                            : "border-gray-300"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="pickup_point"
+                          value={point.id}
+                          checked={pickupPointId === point.id}
+                          onChange={() => {
+                            setPickupPointId(point.id);
+                            priceShipping({ method: "pickup", pickup_point_id: point.id });
+                          }}
+                          className="accent-radiance-goldColor mt-1"
+                          required
+                        />
+                        <div>
+                          <p className="font-medium text-gray-900">{point.name}</p>
+                          <p className="text-sm text-gray-600">
+                            {[point.address, point.city, point.state].filter(Boolean).join(", ")}
+                          </p>
+                          {point.opening_hours && (
+                            <p className="text-xs text-gray-500 mt-1">{point.opening_hours}</p>
+                          )}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              ) : (
+                <>
+                {addresses.length > 0 && (
+                  <fieldset>
+                    <legend className="block text-sm font-medium text-gray-700 mb-2">
+                      Deliver to
+                    </legend>
+                    <div className="space-y-2">
+                      {addresses.map((address) => (
+                        <label
+                          key={address.id}
+                          className={`flex items-start gap-3 p-3 border rounded-xl cursor-pointer transition-colors ${
+                            addressId === address.id
+                              ? "border-radiance-goldColor bg-radiance-creamBackgroundColor"
+                              : "border-gray-300"
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="saved_address"
+                            value={address.id}
+                            checked={addressId === address.id}
+                            onChange={() => fillFromAddress(address)}
+                            className="accent-radiance-goldColor mt-1"
+                          />
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {address.label}
+                              {address.is_default && (
+                                <span className="ml-2 text-xs text-radiance-goldColor">Default</span>
+                              )}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {address.full_name} · {formatPostalAddress(address)}
+                            </p>
+                          </div>
+                        </label>
+                      ))}
+                      <label
+                        className={`flex items-center gap-3 p-3 border rounded-xl cursor-pointer transition-colors ${
+                          addressId === ""
+                            ? "border-radiance-goldColor bg-radiance-creamBackgroundColor"
+                            : "border-gray-300"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="saved_address"
+                          value=""
+                          checked={addressId === ""}
+                          onChange={() => fillFromAddress(null)}
+                          className="accent-radiance-goldColor"
+                        />
+                        <span className="font-medium text-gray-900">A new address</span>
+                      </label>
+                    </div>
+                  </fieldset>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Street Address *
+                  </label>
+                  <div className="relative">
+                    <MapPin size={18} className="absolute left-3 top-3.5 text-gray-400" />
+                    <textarea
+                      value={formData.shipping_address}
+                      onChange={(e) => setFormData({ ...formData, shipping_address: e.target.value })}
+                      className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                      rows={2}
+                      placeholder="House number, street, landmark"
+                      required
+                    />
+                  </div>
                 </div>
-              </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      State *
+                    </label>
+                    <select
+                      value={formData.state}
+                      onChange={(e) => {
+                        setFormData({ ...formData, state: e.target.value });
+                        priceShipping({
+                          method: "delivery",
+                          destination: { ...destination, state: e.target.value },
+                        });
+                      }}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                      required
+                    >
+                      <option value="">Select state</option>
+                      {NIGERIAN_STATES.map((state) => (
+                        <option key={state} value={state}>
+                          {state}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      LGA *
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.lga}
+                      onChange={(e) => setFormData({ ...formData, lga: e.target.value })}
+                      onBlur={() => priceShipping({ method: "delivery", destination })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                      placeholder="e.g. Ikeja"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      City / Town *
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.city}
+                      onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                      required
+                    />
+                  </div>
+                </div>
+
+                {user && !addressId && (
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={saveAddress.save}
+                        onChange={(e) => setSaveAddress({ ...saveAddress, save: e.target.checked })}
+                        className="accent-radiance-goldColor"
+                      />
+                      Save this address to my address book
+                    </label>
+                    {saveAddress.save && (
+                      <div className="flex items-center gap-4 pl-6">
+                        <input
+                          type="text"
+                          value={saveAddress.label}
+                          onChange={(e) => setSaveAddress({ ...saveAddress, label: e.target.value })}
+                          className="flex-1 px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                          placeholder="Label, e.g. Home or Office"
+                        />
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={saveAddress.is_default}
+                            onChange={(e) => setSaveAddress({ ...saveAddress, is_default: e.target.checked })}
+                            className="accent-radiance-goldColor"
+                          />
+                          Make default
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                )}
+                </>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Billing Address
                 </label>
-                <div className="relative">
-                  <MapPin size={18} className="absolute left-3 top-3.5 text-gray-400" />
-                  <textarea
-                    value={formData.billing_address}
-                    onChange={(e) => setFormData({ ...formData, billing_address: e.target.value })}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
-                    rows={3}
-                    placeholder="Same as shipping (leave blank)"
-                  />
-                </div>
+                {addresses.length > 0 && (
+                  <select
+                    value={billingChoice}
+                    onChange={(e) => setBillingChoice(e.target.value)}
+                    className="w-full px-4 py-3 mb-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                  >
+                    <option value="same">
+                      {fulfilmentMethod === "pickup" ? "Same as pickup point" : "Same as delivery address"}
+                    </option>
+                    {addresses.map((address) => (
+                      <option key={address.id} value={address.id}>
+                        {address.label}: {formatPostalAddress(address)}
+                      </option>
+                    ))}
+                    <option value="other">Another address</option>
+                  </select>
+                )}
+                {(addresses.length === 0 || billingChoice === "other") && (
+                  <div className="relative">
+                    <MapPin size={18} className="absolute left-3 top-3.5 text-gray-400" />
+                    <textarea
+                      value={formData.billing_address}
+                      onChange={(e) => setFormData({ ...formData, billing_address: e.target.value })}
+                      className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                      rows={3}
+                      placeholder="Same as shipping (leave blank)"
+                    />
+                  </div>
+                )}
               </div>
 
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700 mb-2">
+                  Payment Method *
+                </legend>
+                {paymentMethods.length === 0 ? (
+                  <p className="text-sm text-red-600">
+                    Online payment is currently unavailable. Please try again later.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {paymentMethods.map((method) => (
+                      <label
+                        key={method.name}
+                        className={`flex items-center gap-3 p-3 border rounded-xl cursor-pointer transition-colors ${
+                          paymentMethod === method.name
+                            ? "border-radiance-goldColor bg-radiance-creamBackgroundColor"
+                            : "border-gray-300"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="payment_method"
+                          value={method.name}
+                          checked={paymentMethod === method.name}
+                          onChange={() => setPaymentMethod(method.name)}
+                          className="accent-radiance-goldColor"
+                        />
+                        {method.name === "bank_transfer" ? (
+                          <Landmark size={18} className="text-gray-500" />
+                        ) : method.name === "cash_on_delivery" ? (
+                          <Banknote size={18} className="text-gray-500" />
+                        ) : (
+                          <CreditCard size={18} className="text-gray-500" />
+                        )}
+                        <span className="font-medium text-gray-900">{method.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </fieldset>
+
               <button
                 type="submit"
-                disabled={processing}
+                disabled={
+                  processing || pricingShipping || fixingCart || !paymentMethod || !isPriced || blockingIssues.length > 0
+                }
                 className="w-full bg-radiance-goldColor text-white py-4 rounded-xl font-bold text-lg hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 {processing ? (
@@ -269,7 +865,9 @@ export default function CheckoutPage() {
                 ) : (
                   <>
                     <CreditCard size={20} />
-                    Pay ₦{total.toLocaleString()}
+                    {paymentMethod === "cash_on_delivery"
+                      ? `Place Order (₦${total.toLocaleString()} on delivery)`
+                      : `Pay ₦${total.toLocaleString()}`}
                   </>
                 )}
               </button>
@@ -278,6 +876,8 @@ export default function CheckoutPage() {
 
           {/* Order Summary */}
           <div className="space-y-6">
+            {cartIssuesPanel}
+
             <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
               <h2 className="text-xl font-bold mb-6 flex items-center gap-2">
                 <Truck size={20} className="text-radiance-goldColor" />
@@ -285,14 +885,15 @@ export default function CheckoutPage() {
               </h2>
 
               <div className="space-y-4">
-                {cartItems.map((item) => (
-                  <div key={item.id} className="flex justify-between items-start">
+                {lines.map((line) => (
+                  <div key={getLineKey(line)} className="flex justify-between items-start">
                     <div>
-                      <p className="font-medium text-gray-900">{item.product?.name}</p>
-                      <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
+                      <p className="font-medium text-gray-900">{line.product_name}</p>
+                      {line.variant_name && <p className="text-sm text-gray-500">{line.variant_name}</p>}
+                      <p className="text-sm text-gray-500">Qty: {line.quantity}</p>
                     </div>
                     <p className="font-medium text-radiance-goldColor">
-                      ₦{((item.product?.discount_price || item.product?.price || 0) * item.quantity).toLocaleString()}
+                      ₦{line.total_price.toLocaleString()}
                     </p>
                   </div>
                 ))}
@@ -303,14 +904,88 @@ export default function CheckoutPage() {
                   <span>Subtotal</span>
                   <span>₦{subtotal.toLocaleString()}</span>
                 </div>
+                {discount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>
+                      Discount{appliedCoupon && ` (${appliedCoupon.code}, ${appliedCoupon.percent_off}% off)`}
+                    </span>
+                    <span>-₦{discount.toLocaleString()}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-gray-600">
                   <span>Tax (7.5%)</span>
                   <span>₦{tax.toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between text-gray-600">
                   <span>Shipping</span>
-                  <span>{shipping === 0 ? "FREE" : `₦${shipping.toLocaleString()}`}</span>
+                  <span>
+                    {pricingShipping ? (
+                      <Loader2 size={16} className="animate-spin inline" />
+                    ) : !isPriced ? (
+                      fulfilmentMethod === "pickup" ? "Select a pickup point" : "Select your state"
+                    ) : shipping === 0 ? (
+                      "FREE"
+                    ) : (
+                      `₦${shipping.toLocaleString()}`
+                    )}
+                  </span>
                 </div>
+                {shippingError && <p className="text-sm text-red-600">{shippingError}</p>}
+                {pickupQuote && (
+                  <p className="text-sm text-gray-500">
+                    Collect from {pickupQuote.name}, {pickupQuote.address}. Your pickup code will
+                    be in {user ? "your order history" : "your order email"}.
+                  </p>
+                )}
+                {fulfilmentMethod === "delivery" && shippingQuote && (
+                  <p className="text-sm text-gray-500">
+                    Delivery in {shippingQuote.min_delivery_days === shippingQuote.max_delivery_days
+                      ? shippingQuote.max_delivery_days
+                      : `${shippingQuote.min_delivery_days}–${shippingQuote.max_delivery_days}`}{" "}
+                    day(s)
+                    {shipping > 0 && shippingQuote.free_shipping_threshold !== null &&
+                      ` · free above ₦${shippingQuote.free_shipping_threshold.toLocaleString()}`}
+                  </p>
+                )}
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    applyCoupon(couponInput.trim());
+                  }}
+                  className="pt-1"
+                >
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Tag size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                      <input
+                        type="text"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                        placeholder="Discount code"
+                        className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-xl text-sm focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                      />
+                    </div>
+                    {appliedCoupon ? (
+                      <button
+                        type="button"
+                        onClick={() => applyCoupon("")}
+                        disabled={applyingCoupon}
+                        className="px-4 py-2 text-sm font-bold text-gray-600 hover:text-red-600 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    ) : (
+                      <button
+                        type="submit"
+                        disabled={applyingCoupon || !couponInput.trim()}
+                        className="px-4 py-2 text-sm font-bold bg-radiance-charcoalTextColor text-white rounded-xl disabled:opacity-50"
+                      >
+                        {applyingCoupon ? <Loader2 size={16} className="animate-spin" /> : "Apply"}
+                      </button>
+                    )}
+                  </div>
+                  {couponError && <p className="text-sm text-red-600 mt-1">{couponError}</p>}
+                </form>
                 <div className="border-t border-gray-200 pt-4 flex justify-between text-lg font-bold">
                   <span>Total</span>
                   <span className="text-radiance-goldColor">₦{total.toLocaleString()}</span>
@@ -325,7 +1000,7 @@ export default function CheckoutPage() {
                 <div>
                   <p className="font-bold text-green-900 text-sm">Secure Payment</p>
                   <p className="text-xs text-green-700 mt-1">
-                    Your payment is secured with Paystack. We never store your card details.
+                    Card payments are handled by our payment partners. We never store your card details.
                   </p>
                 </div>
               </div>
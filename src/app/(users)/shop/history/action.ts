@@ -0,0 +1,240 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { uploadMultipleFilesToFTP } from "@/utils/ftp-upload";
+import { issueRefund } from "@/utils/payments/refunds";
+import { settlePaymentReference } from "@/utils/payments/settlement";
+import {
+  CUSTOMER_CANCELLABLE_STATUSES,
+  CUSTOMER_RETURNABLE_STATUSES,
+  validateStatusTransition,
+} from "@/utils/orders/status-machine";
+
+export interface OrderActionResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+}
+
+const MAX_RETURN_PHOTOS = 5;
+const MAX_RETURN_PHOTO_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Cancel one of the current user's orders before it ships
+ *
+ * Reserved stock is released and, if the order was already paid, the
+ * payment is refunded through the provider it came from. Unfinished payment
+ * attempts are checked with their provider first, so a charge that went
+ * through but hasn't been reported yet is refunded too; one completed after
+ * cancelling is refunded when it settles.
+ */
+export async function cancelMyOrder(
+  orderId: string,
+  reason: string,
+): Promise<OrderActionResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Please sign in to manage your orders" };
+    }
+
+    const service = createServiceClient();
+    const loadOrder = () =>
+      service
+        .from("orders")
+        .select("id, order_number, status, payment_status")
+        .eq("id", orderId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+    let { data: order } = await loadOrder();
+    if (!order) {
+      return { success: false, error: "Order not found" };
+    }
+
+    const { data: pending } = await service
+      .from("payment_transactions")
+      .select("reference")
+      .eq("order_id", order.id)
+      .eq("status", "pending");
+
+    if (pending && pending.length > 0) {
+      for (const tx of pending) {
+        await settlePaymentReference(tx.reference, "customer_cancellation");
+      }
+
+      ({ data: order } = await loadOrder());
+      if (!order) {
+        return { success: false, error: "Order not found" };
+      }
+    }
+
+    if (!CUSTOMER_CANCELLABLE_STATUSES.includes(order.status)) {
+      return {
+        success: false,
+        error: "This order has already shipped. You can request a return once it's delivered.",
+      };
+    }
+
+    const note = `Cancelled by customer: ${reason.trim()}`;
+    const invalid = validateStatusTransition(order, "cancelled", { note: reason });
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const wasPaid = order.payment_status === "completed" || order.payment_status === "partially_refunded";
+
+    const { error } = await service.rpc("transition_order_status", {
+      p_order_id: order.id,
+      p_from: order.status,
+      p_to: "cancelled",
+      p_changed_by: null,
+      p_note: note,
+    });
+
+    if (error) throw error;
+
+    await service.from("admin_activity_logs").insert({
+      admin_id: null,
+      action: "order_cancelled_by_customer",
+      resource_type: "order",
+      resource_id: order.id,
+      changes: { customer_id: user.id, old_status: order.status, reason: reason.trim() },
+    });
+
+    revalidatePath("/shop/history");
+
+    if (!wasPaid) {
+      return { success: true, message: `Order ${order.order_number} has been cancelled` };
+    }
+
+    const refund = await issueRefund(
+      { orderId: order.id, reason: "Order cancelled by customer", method: "provider" },
+      null,
+    );
+
+    return {
+      success: true,
+      message: refund.success
+        ? `Order ${order.order_number} has been cancelled and your refund is on its way`
+        : `Order ${order.order_number} has been cancelled. Our team will contact you about your refund.`,
+    };
+  } catch (error) {
+    console.error("Error cancelling order:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to cancel order",
+    };
+  }
+}
+
+/**
+ * Ask to return items from a delivered order
+ *
+ * Expects FormData with orderId, reason, items (JSON array of
+ * { order_item_id, quantity }) and up to five photos.
+ */
+export async function requestReturn(formData: FormData): Promise<OrderActionResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Please sign in to manage your orders" };
+    }
+
+    const orderId = String(formData.get("orderId") || "");
+    const reason = String(formData.get("reason") || "").trim();
+    const photos = (formData.getAll("photos") as File[]).filter((file) => file.size > 0);
+
+    let items: Array<{ order_item_id: string; quantity: number }>;
+    try {
+      items = JSON.parse(String(formData.get("items") || "[]"));
+    } catch {
+      return { success: false, error: "Invalid item selection" };
+    }
+
+    if (!reason) {
+      return { success: false, error: "Please tell us why you're returning these items" };
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return { success: false, error: "Choose at least one item to return" };
+    }
+
+    if (photos.length > MAX_RETURN_PHOTOS) {
+      return { success: false, error: `You can attach up to ${MAX_RETURN_PHOTOS} photos` };
+    }
+
+    if (photos.some((file) => !file.type.startsWith("image/") || file.size > MAX_RETURN_PHOTO_BYTES)) {
+      return { success: false, error: "Photos must be images under 5MB" };
+    }
+
+    const service = createServiceClient();
+    const { data: order } = await service
+      .from("orders")
+      .select("id, order_number, status")
+      .eq("id", orderId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!order) {
+      return { success: false, error: "Order not found" };
+    }
+
+    if (!CUSTOMER_RETURNABLE_STATUSES.includes(order.status)) {
+      return { success: false, error: "Returns can only be requested for delivered orders" };
+    }
+
+    let photoUrls: string[] = [];
+    if (photos.length > 0) {
+      const uploads = await uploadMultipleFilesToFTP(photos, `returns/${order.id}`);
+      if (uploads.some((upload) => !upload.success || !upload.url)) {
+        return { success: false, error: "Failed to upload your photos. Please try again." };
+      }
+      photoUrls = uploads.map((upload) => upload.url!);
+    }
+
+    const { data: request, error } = await service.rpc("create_return_request", {
+      p_order_id: order.id,
+      p_user_id: user.id,
+      p_reason: reason,
+      p_items: items.map((item) => ({
+        order_item_id: item.order_item_id,
+        quantity: Number(item.quantity),
+      })),
+      p_photos: photoUrls,
+    });
+
+    if (error?.code === "23505") {
+      return { success: false, error: "A return is already open for this order" };
+    }
+    if (error) throw error;
+
+    await service.from("admin_activity_logs").insert({
+      admin_id: null,
+      action: "return_requested",
+      resource_type: "order",
+      resource_id: order.id,
+      changes: { customer_id: user.id, return_id: request.id, reason, items: request.items },
+    });
+
+    revalidatePath("/shop/history");
+    return {
+      success: true,
+      message: `Return requested for ${order.order_number}. We'll review it shortly.`,
+    };
+  } catch (error) {
+    console.error("Error requesting return:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to request return",
+    };
+  }
+}
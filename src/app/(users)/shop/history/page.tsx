@@ -1,7 +1,9 @@
 /**
  * Order History Page
  * 
- * Customer can view their order history and track order status.
+ * Customer can view their order history and track order status, complete
+ * payment for orders that are still unpaid, cancel orders before they ship
+ * and request returns once delivered.
  * Access: Authenticated users only
  */
 
@@ -10,11 +12,66 @@
 import { useState, useEffect, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useUser } from "@/context/UserContext";
-import { getUserOrders, getOrderItems } from "@/utils/supabase/services";
-import { ShoppingBag, Package, Clock, Truck, CheckCircle, XCircle, ChevronDown } from "lucide-react";
-import type { Order as OrderType, OrderItem, OrderStatus } from "@/types";
+import {
+  getUserOrders,
+  getOrderItems,
+  getOrderRefunds,
+  getOrderStatusHistory,
+  getOrderReturnRequests,
+  getOrderShipments,
+} from "@/utils/supabase/services";
+import { getPaymentMethods, initializeOrderPayment } from "../checkout/action";
+import type { PaymentMethod } from "../checkout/action";
+import { cancelMyOrder, requestReturn } from "./action";
+import {
+  CUSTOMER_CANCELLABLE_STATUSES,
+  CUSTOMER_RETURNABLE_STATUSES,
+} from "@/utils/orders/status-machine";
+import {
+  ShoppingBag,
+  Package,
+  Clock,
+  Truck,
+  CheckCircle,
+  XCircle,
+  ChevronDown,
+  CreditCard,
+  Loader2,
+  RotateCcw,
+  Store,
+} from "lucide-react";
+import type { BankTransferInstructions } from "@/utils/payments/types";
+import { formatPostalAddress } from "@/utils/shipping/addresses";
+import { getComponentName } from "@/utils/products/bundles";
+import type {
+  Order as OrderType,
+  OrderItem,
+  OrderStatus,
+  OrderStatusHistoryEntry,
+  PaymentStatus,
+  Refund,
+  ReturnRequest,
+  ReturnRequestStatus,
+  Shipment,
+  ShipmentStatus,
+} from "@/types";
 
-type Order = OrderType & { items?: OrderItem[] };
+type Order = OrderType & {
+  items?: OrderItem[];
+  refunds?: Refund[];
+  history?: OrderStatusHistoryEntry[];
+  returns?: ReturnRequest[];
+  shipments?: Shipment[];
+};
+
+const SHIPMENT_STEPS: ShipmentStatus[] = ["shipped", "in_transit", "delivered"];
+
+interface ReturnForm {
+  orderId: string;
+  quantities: Record<string, number>;
+  reason: string;
+  photos: File[];
+}
 
 function OrderHistoryContent() {
   const router = useRouter();
@@ -26,6 +83,14 @@ function OrderHistoryContent() {
   const [selectedOrder, setSelectedOrder] = useState<string | null>(
     searchParams.get("order")
   );
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [retryMethod, setRetryMethod] = useState<PaymentMethod["name"] | null>(null);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [transferInstructions, setTransferInstructions] = useState<
+    Record<string, BankTransferInstructions>
+  >({});
+  const [returnForm, setReturnForm] = useState<ReturnForm | null>(null);
+  const [orderAction, setOrderAction] = useState<string | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -35,6 +100,11 @@ function OrderHistoryContent() {
     loadOrders();
   }, [user, router]);
 
+  useEffect(() => {
+    const order = orders.find((o) => o.id === expandedOrder);
+    if (order && isAwaitingPayment(order)) loadPaymentMethods();
+  }, [expandedOrder, orders]);
+
   useEffect(() => {
     if (selectedOrder) {
       setExpandedOrder(selectedOrder);
@@ -49,8 +119,14 @@ function OrderHistoryContent() {
     // Load items for each order
     const ordersWithItems = await Promise.all(
       userOrders.map(async (order) => {
-        const items = await getOrderItems(order.id);
-        return { ...order, items };
+        const [items, refunds, history, returns, shipments] = await Promise.all([
+          getOrderItems(order.id),
+          getOrderRefunds(order.id),
+          getOrderStatusHistory(order.id),
+          getOrderReturnRequests(order.id),
+          getOrderShipments(order.id),
+        ]);
+        return { ...order, items, refunds, history, returns, shipments };
       })
     );
     
@@ -58,6 +134,85 @@ function OrderHistoryContent() {
     setLoading(false);
   }
 
+  // Only needed once an unpaid order is opened
+  async function loadPaymentMethods() {
+    if (paymentMethods.length > 0) return;
+    const methods = (await getPaymentMethods()).filter((m) => m.name !== "cash_on_delivery");
+    setPaymentMethods(methods);
+    setRetryMethod((current) => current || methods[0]?.name || null);
+  }
+
+  async function handleCompletePayment(order: Order) {
+    if (!retryMethod) return;
+    setRetrying(order.id);
+
+    // A fresh reference is issued for the same order; stock is re-held if needed
+    const payment = await initializeOrderPayment(order.id, retryMethod);
+    if (!payment.success) {
+      alert(payment.error || "Could not start payment. Please try again.");
+      setRetrying(null);
+      loadOrders();
+      return;
+    }
+
+    if (payment.authorizationUrl) {
+      window.location.href = payment.authorizationUrl;
+      return;
+    }
+
+    if (payment.instructions) {
+      setTransferInstructions({ ...transferInstructions, [order.id]: payment.instructions });
+    }
+    setRetrying(null);
+  }
+
+  async function handleCancelOrder(order: Order) {
+    const reason = prompt(`Why would you like to cancel ${order.order_number}?`);
+    if (!reason?.trim()) return;
+
+    setOrderAction(order.id);
+    const result = await cancelMyOrder(order.id, reason);
+    alert(result.message || result.error || "");
+    setOrderAction(null);
+    if (result.success) loadOrders();
+  }
+
+  async function handleRequestReturn(e: React.FormEvent, order: Order) {
+    e.preventDefault();
+    if (!returnForm) return;
+
+    const items = Object.entries(returnForm.quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+    if (items.length === 0) {
+      alert("Choose at least one item to return");
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("orderId", order.id);
+    formData.append("reason", returnForm.reason);
+    formData.append("items", JSON.stringify(items));
+    returnForm.photos.forEach((photo) => formData.append("photos", photo));
+
+    setOrderAction(order.id);
+    const result = await requestReturn(formData);
+    alert(result.message || result.error || "");
+    setOrderAction(null);
+    if (result.success) {
+      setReturnForm(null);
+      loadOrders();
+    }
+  }
+
+  const hasOpenReturn = (order: Order) =>
+    !!order.returns?.some((r) => ["requested", "approved", "received"].includes(r.status));
+
+  const isAwaitingPayment = (order: Order) =>
+    order.status === "pending" &&
+    (order.payment_status === "pending" || order.payment_status === "failed");
+
   const getStatusIcon = (status: OrderStatus) => {
     switch (status) {
       case "pending": return <Clock size={20} className="text-yellow-500" />;
@@ -91,6 +246,24 @@ function OrderHistoryContent() {
     }
   };
 
+  const getReturnStatusLabel = (status: ReturnRequestStatus) => {
+    switch (status) {
+      case "requested": return "Awaiting review";
+      case "approved": return "Approved - please send the items back";
+      case "rejected": return "Not approved";
+      case "received": return "Items received - refund in progress";
+      case "refunded": return "Refunded";
+    }
+  };
+
+  const getPaymentStatusLabel = (status: PaymentStatus) => {
+    switch (status) {
+      case "pay_on_delivery": return "Pay on Delivery";
+      case "partially_refunded": return "Partially Refunded";
+      default: return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+  };
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -176,6 +349,60 @@ function OrderHistoryContent() {
                 {expandedOrder === order.id && (
                   <div className="border-t border-gray-200 p-6 bg-gray-50">
                     <div className="space-y-4">
+                      {/* Complete Payment */}
+                      {isAwaitingPayment(order) && (
+                        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                          {transferInstructions[order.id] ? (
+                            <div className="text-sm text-gray-700 space-y-1">
+                              <p className="font-bold text-gray-900">Transfer ₦{order.total_amount.toLocaleString()} to:</p>
+                              <p>{transferInstructions[order.id].bankName} · {transferInstructions[order.id].accountNumber}</p>
+                              <p>{transferInstructions[order.id].accountName}</p>
+                              <p>
+                                Reference: <span className="font-mono font-medium">{transferInstructions[order.id].narration}</span>
+                              </p>
+                            </div>
+                          ) : (
+                            <>
+                              <p className="font-bold text-gray-900 mb-1">
+                                {order.payment_status === "failed" ? "Your payment didn't go through" : "This order hasn't been paid yet"}
+                              </p>
+                              <p className="text-sm text-gray-600 mb-3">
+                                Complete payment to confirm your order. Unpaid orders are cancelled automatically.
+                              </p>
+                              {paymentMethods.length > 1 && (
+                                <div className="flex flex-wrap gap-2 mb-3">
+                                  {paymentMethods.map((method) => (
+                                    <button
+                                      key={method.name}
+                                      onClick={() => setRetryMethod(method.name)}
+                                      className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                                        retryMethod === method.name
+                                          ? "bg-radiance-goldColor text-white"
+                                          : "bg-white border border-gray-300 text-gray-600"
+                                      }`}
+                                    >
+                                      {method.label}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                              <button
+                                onClick={() => handleCompletePayment(order)}
+                                disabled={retrying === order.id || !retryMethod}
+                                className="bg-radiance-goldColor text-white px-6 py-2 rounded-xl font-bold hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50 flex items-center gap-2"
+                              >
+                                {retrying === order.id ? (
+                                  <Loader2 size={18} className="animate-spin" />
+                                ) : (
+                                  <CreditCard size={18} />
+                                )}
+                                Complete payment
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
+
                       {/* Order Items */}
                       <div>
                         <h3 className="font-bold text-gray-900 mb-3">Order Items</h3>
@@ -187,6 +414,14 @@ function OrderHistoryContent() {
                             >
                               <div>
                                 <p className="font-medium text-gray-900">{item.product_name}</p>
+                                {item.variant_name && (
+                                  <p className="text-sm text-gray-500">{item.variant_name}</p>
+                                )}
+                                {item.bundle_components && (
+                                  <p className="text-xs text-gray-500">
+                                    Includes {item.bundle_components.map((c) => `${c.quantity} × ${getComponentName(c)}`).join(", ")}
+                                  </p>
+                                )}
                                 <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
                               </div>
                               <p className="font-medium text-radiance-goldColor">
@@ -201,18 +436,189 @@ function OrderHistoryContent() {
                       <div className="border-t border-gray-200 pt-4">
                         <div className="flex justify-between text-sm text-gray-600">
                           <span>Subtotal</span>
-                          <span>₦{(order.total_amount - order.tax).toLocaleString()}</span>
+                          <span>₦{order.subtotal.toLocaleString()}</span>
                         </div>
+                        {Number(order.discount_applied) > 0 && (
+                          <div className="flex justify-between text-sm text-green-700">
+                            <span>Discount</span>
+                            <span>-₦{Number(order.discount_applied).toLocaleString()}</span>
+                          </div>
+                        )}
                         <div className="flex justify-between text-sm text-gray-600">
                           <span>Tax</span>
                           <span>₦{order.tax.toLocaleString()}</span>
                         </div>
+                        <div className="flex justify-between text-sm text-gray-600">
+                          <span>Shipping</span>
+                          <span>{order.shipping_cost ? `₦${order.shipping_cost.toLocaleString()}` : "FREE"}</span>
+                        </div>
                         <div className="flex justify-between font-bold text-gray-900 mt-2 pt-2 border-t border-gray-200">
                           <span>Total Paid</span>
                           <span className="text-radiance-goldColor">₦{order.total_amount.toLocaleString()}</span>
                         </div>
                       </div>
 
+                      {/* Cancel / Return */}
+                      {(CUSTOMER_CANCELLABLE_STATUSES.includes(order.status) ||
+                        (CUSTOMER_RETURNABLE_STATUSES.includes(order.status) && !hasOpenReturn(order))) &&
+                        returnForm?.orderId !== order.id && (
+                        <div className="flex gap-2">
+                          {CUSTOMER_CANCELLABLE_STATUSES.includes(order.status) && (
+                            <button
+                              onClick={() => handleCancelOrder(order)}
+                              disabled={orderAction === order.id}
+                              className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-600 rounded-xl text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                            >
+                              <XCircle size={16} />
+                              Cancel order
+                            </button>
+                          )}
+                          {CUSTOMER_RETURNABLE_STATUSES.includes(order.status) && !hasOpenReturn(order) && (
+                            <button
+                              onClick={() => setReturnForm({ orderId: order.id, quantities: {}, reason: "", photos: [] })}
+                              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-xl text-sm font-medium hover:bg-white"
+                            >
+                              <RotateCcw size={16} />
+                              Request a return
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Return Request Form */}
+                      {returnForm?.orderId === order.id && (
+                        <form
+                          onSubmit={(e) => handleRequestReturn(e, order)}
+                          className="p-4 bg-white border border-gray-200 rounded-lg space-y-4"
+                        >
+                          <h3 className="font-bold text-gray-900">Request a return</h3>
+                          <div className="space-y-2">
+                            {order.items?.map((item) => {
+                              const returnable = item.quantity - (item.refunded_quantity || 0);
+                              return (
+                                <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                                  <span className="text-gray-900">
+                                    {item.product_name}
+                                    {item.variant_name && ` (${item.variant_name})`}
+                                  </span>
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    max={returnable}
+                                    disabled={returnable === 0}
+                                    value={returnForm.quantities[item.id] || 0}
+                                    onChange={(e) =>
+                                      setReturnForm({
+                                        ...returnForm,
+                                        quantities: {
+                                          ...returnForm.quantities,
+                                          [item.id]: Math.min(returnable, Math.max(0, Number(e.target.value))),
+                                        },
+                                      })
+                                    }
+                                    className="w-20 border border-gray-300 rounded-lg px-2 py-1 disabled:opacity-50"
+                                  />
+                                </div>
+                              );
+                            })}
+                          </div>
+                          <textarea
+                            value={returnForm.reason}
+                            onChange={(e) => setReturnForm({ ...returnForm, reason: e.target.value })}
+                            placeholder="What's wrong with the items?"
+                            rows={3}
+                            required
+                            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-radiance-goldColor"
+                          />
+                          <div>
+                            <label className="block text-sm text-gray-700 mb-1">Photos (up to 5)</label>
+                            <input
+                              type="file"
+                              accept="image/*"
+                              multiple
+                              onChange={(e) =>
+                                setReturnForm({ ...returnForm, photos: Array.from(e.target.files || []).slice(0, 5) })
+                              }
+                              className="text-sm"
+                            />
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              type="submit"
+                              disabled={orderAction === order.id}
+                              className="bg-radiance-goldColor text-white px-6 py-2 rounded-xl font-bold hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50 flex items-center gap-2"
+                            >
+                              {orderAction === order.id && <Loader2 size={18} className="animate-spin" />}
+                              Submit request
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setReturnForm(null)}
+                              className="px-6 py-2 rounded-xl text-gray-600 hover:bg-gray-100"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </form>
+                      )}
+
+                      {/* Return Requests */}
+                      {order.returns && order.returns.length > 0 && (
+                        <div>
+                          <h3 className="font-bold text-gray-900 mb-3">Returns</h3>
+                          <div className="space-y-2">
+                            {order.returns.map((request) => (
+                              <div key={request.id} className="p-3 bg-white rounded-lg text-sm">
+                                <div className="flex justify-between">
+                                  <span className="text-gray-900">
+                                    {request.items.map((line) => `${line.product_name} × ${line.quantity}`).join(", ")}
+                                  </span>
+                                  <span className="text-xs text-gray-500">
+                                    {new Date(request.created_at).toLocaleDateString()}
+                                  </span>
+                                </div>
+                                <p className="text-xs font-medium text-radiance-goldColor mt-1">
+                                  {getReturnStatusLabel(request.status)}
+                                </p>
+                                {request.admin_note && (
+                                  <p className="text-xs text-gray-500 mt-1">{request.admin_note}</p>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Refunds */}
+                      {order.refunds && order.refunds.length > 0 && (
+                        <div className="border-t border-gray-200 pt-4">
+                          <h3 className="font-bold text-gray-900 mb-3">Refunds</h3>
+                          <div className="space-y-2">
+                            {order.refunds.map((refund) => (
+                              <div key={refund.id} className="p-3 bg-white rounded-lg text-sm">
+                                <div className="flex justify-between">
+                                  <span className="text-gray-900">
+                                    {new Date(refund.created_at).toLocaleDateString()}
+                                    {refund.status === "pending" && (
+                                      <span className="ml-2 text-xs text-yellow-600">Processing</span>
+                                    )}
+                                  </span>
+                                  <span className="font-medium text-green-600">
+                                    -₦{Number(refund.amount).toLocaleString()}
+                                  </span>
+                                </div>
+                                {refund.items.length > 0 && (
+                                  <p className="text-xs text-gray-500 mt-1">
+                                    {refund.items.map((line) => `${line.product_name} × ${line.quantity}`).join(", ")}
+                                  </p>
+                                )}
+                                {refund.reason && <p className="text-xs text-gray-500 mt-1">{refund.reason}</p>}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Payment & Delivery Info */}
                       <div className="grid grid-cols-2 gap-4 mt-4">
                         <div className="p-4 bg-white rounded-lg">
@@ -220,10 +626,17 @@ function OrderHistoryContent() {
                           <p className={`font-bold ${
                             order.payment_status === "completed" ? "text-green-600" :
                             order.payment_status === "pending" ? "text-yellow-600" :
+                            order.payment_status === "pay_on_delivery" ? "text-blue-600" :
+                            order.payment_status === "partially_refunded" ? "text-orange-600" :
                             "text-red-600"
                           }`}>
-                            {order.payment_status.charAt(0).toUpperCase() + order.payment_status.slice(1)}
+                            {getPaymentStatusLabel(order.payment_status)}
                           </p>
+                          {order.collection_method && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Paid on delivery by {order.collection_method === "pos" ? "POS" : "cash"}
+                            </p>
+                          )}
                         </div>
                         <div className="p-4 bg-white rounded-lg">
                           <p className="text-xs text-gray-500 mb-1">
@@ -237,34 +650,139 @@ function OrderHistoryContent() {
                         </div>
                       </div>
 
+                      {/* Delivery Address */}
+                      {order.fulfilment_method === "delivery" && order.shipping_address && (
+                        <div className="mt-6 p-4 bg-white rounded-lg">
+                          <p className="text-xs text-gray-500 mb-1">Delivering To</p>
+                          {order.shipping_address_snapshot ? (
+                            <>
+                              <p className="text-sm font-medium text-gray-900">
+                                {order.shipping_address_snapshot.full_name}
+                              </p>
+                              <p className="text-sm text-gray-600">
+                                {formatPostalAddress(order.shipping_address_snapshot)}
+                              </p>
+                            </>
+                          ) : (
+                            <p className="text-sm text-gray-600">{order.shipping_address}</p>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Store Pickup */}
+                      {order.fulfilment_method === "pickup" && (
+                        <div className="mt-6 p-4 bg-white rounded-lg flex items-start gap-3">
+                          <Store size={20} className="text-radiance-goldColor mt-0.5" />
+                          <div className="flex-1">
+                            <p className="text-xs text-gray-500 mb-1">Store Pickup</p>
+                            <p className="text-sm text-gray-900">
+                              {order.shipping_address?.replace(/^Pickup: /, "")}
+                            </p>
+                            {order.picked_up_at ? (
+                              <p className="text-xs text-gray-500 mt-2">
+                                Collected {new Date(order.picked_up_at).toLocaleString()}
+                              </p>
+                            ) : order.pickup_code && !["cancelled", "returned"].includes(order.status) && (
+                              <div className="mt-3">
+                                <p className="font-mono text-2xl font-bold tracking-widest text-radiance-charcoalTextColor">
+                                  {order.pickup_code}
+                                </p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                  Show this code when collecting your order
+                                </p>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Shipments */}
+                      {order.shipments && order.shipments.length > 0 && (
+                        <div className="mt-6">
+                          <h3 className="font-bold text-gray-900 mb-3">
+                            {order.shipments.length > 1 ? `Shipments (${order.shipments.length})` : "Shipment"}
+                          </h3>
+                          <div className="space-y-3">
+                            {order.shipments.map((shipment) => {
+                              const currentStep = SHIPMENT_STEPS.indexOf(shipment.status);
+                              return (
+                                <div key={shipment.id} className="p-4 bg-white rounded-lg">
+                                  <div className="flex justify-between text-sm">
+                                    <span className="font-medium text-gray-900">{shipment.courier}</span>
+                                    <span className="font-mono text-gray-600">{shipment.tracking_number}</span>
+                                  </div>
+                                  <p className="text-xs text-gray-500 mt-1">
+                                    {shipment.shipment_items
+                                      ?.map((line) => {
+                                        const item = order.items?.find((i) => i.id === line.order_item_id);
+                                        return `${item?.product_name || "Item"} × ${line.quantity}`;
+                                      })
+                                      .join(", ")}
+                                  </p>
+                                  <div className="flex items-center gap-2 mt-3">
+                                    {SHIPMENT_STEPS.map((step, index) => (
+                                      <div key={step} className="flex-1">
+                                        <div
+                                          className={`h-1.5 rounded-full ${
+                                            index <= currentStep ? "bg-radiance-goldColor" : "bg-gray-200"
+                                          }`}
+                                        />
+                                        <p className="text-xs text-gray-500 mt-1 capitalize">{step.replace("_", " ")}</p>
+                                      </div>
+                                    ))}
+                                  </div>
+                                  <p className="text-xs text-gray-500 mt-2">
+                                    Shipped {new Date(shipment.shipped_at).toLocaleDateString()}
+                                    {shipment.delivered_at
+                                      ? ` · delivered ${new Date(shipment.delivered_at).toLocaleDateString()}`
+                                      : shipment.estimated_delivery_date &&
+                                        ` · expected by ${new Date(shipment.estimated_delivery_date).toLocaleDateString()}`}
+                                  </p>
+                                  {shipment.shipment_tracking_events && shipment.shipment_tracking_events.length > 0 && (
+                                    <ul className="mt-3 space-y-1 border-l-2 border-gray-100 pl-3">
+                                      {[...shipment.shipment_tracking_events].reverse().map((event) => (
+                                        <li key={event.id} className="text-xs text-gray-600">
+                                          <span className="text-gray-900">{event.description}</span>
+                                          {event.location && ` · ${event.location}`}
+                                          <span className="text-gray-400"> · {new Date(event.occurred_at).toLocaleString()}</span>
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Status Timeline */}
                       <div className="mt-6">
                         <h3 className="font-bold text-gray-900 mb-4">Order Timeline</h3>
-                        <div className="flex items-center justify-between">
-                          {(["pending", "confirmed", "shipped", "delivered"] as OrderStatus[]).map((status, index) => {
-                            const statusOrder = ["pending", "confirmed", "shipped", "delivered"];
-                            const currentIndex = statusOrder.indexOf(order.status);
-                            const isCompleted = index <= currentIndex;
-                            const isCurrent = index === currentIndex;
-
-                            return (
-                              <div key={status} className="flex flex-col items-center">
-                                <div
-                                  className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                                    isCompleted
-                                      ? isCurrent
-                                        ? "bg-radiance-goldColor text-white"
-                                        : "bg-green-500 text-white"
-                                      : "bg-gray-200 text-gray-400"
-                                  }`}
-                                >
-                                  {getStatusIcon(status)}
-                                </div>
-                                <p className="text-xs text-gray-500 mt-2 capitalize">{status}</p>
-                              </div>
-                            );
-                          })}
-                        </div>
+                        {order.tracking_number && (
+                          <p className="text-sm text-gray-600 mb-4">
+                            Tracking number: <span className="font-mono font-medium">{order.tracking_number}</span>
+                          </p>
+                        )}
+                        <ol className="border-l-2 border-gray-200 ml-3 space-y-4">
+                          {order.history?.map((entry) => (
+                            <li key={entry.id} className="ml-6 relative">
+                              <span className="absolute -left-[37px] top-0 w-8 h-8 rounded-full bg-white flex items-center justify-center">
+                                {getStatusIcon(entry.to_status)}
+                              </span>
+                              <p className="font-medium text-gray-900">
+                                {entry.from_status ? getStatusLabel(entry.to_status) : "Order Placed"}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {new Date(entry.created_at).toLocaleString()}
+                              </p>
+                              {entry.tracking_number && (
+                                <p className="text-xs text-gray-600">Tracking: {entry.tracking_number}</p>
+                              )}
+                              {entry.note && <p className="text-xs text-gray-600">{entry.note}</p>}
+                            </li>
+                          ))}
+                        </ol>
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,84 @@
+"use server";
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { verifyOrderLookupToken } from "@/utils/orders/lookup-token";
+import type { Order, OrderItem, OrderStatusHistoryEntry, Shipment } from "@/types";
+
+export type GuestOrder = Order & {
+  items: OrderItem[];
+  history: OrderStatusHistoryEntry[];
+  shipments: Shipment[];
+};
+
+export interface GuestOrderResult {
+  success: boolean;
+  error?: string;
+  order?: GuestOrder;
+  // The order has since been attached to an account; view it there instead
+  claimed?: boolean;
+}
+
+/**
+ * Load a guest order from its emailed lookup link
+ * The token stands in for a session, so the service client reads the
+ * order only once the token checks out.
+ */
+export async function getGuestOrder(orderId: string, token: string): Promise<GuestOrderResult> {
+  try {
+    if (!orderId || !verifyOrderLookupToken(orderId, token)) {
+      return { success: false, error: "This order link is invalid. Check the link in your email." };
+    }
+
+    const supabase = createServiceClient();
+    const { data: order, error } = await supabase
+      .from("orders")
+      .select("*")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!order) {
+      return { success: false, error: "Order not found" };
+    }
+
+    if (order.user_id) {
+      return {
+        success: false,
+        claimed: true,
+        error: "This order is now in your account. Sign in to see it in your order history.",
+      };
+    }
+
+    const [items, history, shipments] = await Promise.all([
+      supabase.from("order_items").select("*").eq("order_id", orderId),
+      supabase
+        .from("order_status_history")
+        .select("*")
+        .eq("order_id", orderId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("shipments")
+        .select("*, shipment_items (*), shipment_tracking_events (*)")
+        .eq("order_id", orderId)
+        .order("shipped_at", { ascending: true })
+        .order("occurred_at", { referencedTable: "shipment_tracking_events", ascending: true }),
+    ]);
+
+    if (items.error) throw items.error;
+    if (history.error) throw history.error;
+    if (shipments.error) throw shipments.error;
+
+    return {
+      success: true,
+      order: {
+        ...(order as Order),
+        items: items.data || [],
+        history: history.data || [],
+        shipments: shipments.data || [],
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching guest order:", error);
+    return { success: false, error: "Failed to load your order" };
+  }
+}
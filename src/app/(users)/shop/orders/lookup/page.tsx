@@ -0,0 +1,407 @@
+/**
+ * Guest Order Lookup Page
+ *
+ * Opened from the link emailed after a guest checkout. Shows the order's
+ * status, items, delivery or pickup details and shipments, lets the guest
+ * finish paying, and invites them to create an account with the same
+ * email so the order moves into their order history.
+ * Access: Public (the link's token proves the order is theirs)
+ */
+
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { getGuestOrder } from "./action";
+import type { GuestOrder } from "./action";
+import { getPaymentMethods, initializeOrderPayment } from "../../checkout/action";
+import type { PaymentMethod } from "../../checkout/action";
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  CreditCard,
+  Loader2,
+  Package,
+  Store,
+  Truck,
+  UserPlus,
+  XCircle,
+} from "lucide-react";
+import type { BankTransferInstructions } from "@/utils/payments/types";
+import { formatPostalAddress } from "@/utils/shipping/addresses";
+import { getComponentName } from "@/utils/products/bundles";
+import type { OrderStatus, PaymentStatus, ShipmentStatus } from "@/types";
+
+const SHIPMENT_STEPS: ShipmentStatus[] = ["shipped", "in_transit", "delivered"];
+
+function GuestOrderContent() {
+  const searchParams = useSearchParams();
+  const orderId = searchParams.get("order") || "";
+  const token = searchParams.get("token") || "";
+
+  const [loading, setLoading] = useState(true);
+  const [order, setOrder] = useState<GuestOrder | null>(null);
+  const [error, setError] = useState<{ text: string; claimed: boolean } | null>(null);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [payMethod, setPayMethod] = useState<PaymentMethod["name"] | null>(null);
+  const [paying, setPaying] = useState(false);
+  const [transfer, setTransfer] = useState<BankTransferInstructions | null>(null);
+
+  useEffect(() => {
+    loadOrder();
+  }, [orderId, token]);
+
+  async function loadOrder() {
+    setLoading(true);
+    const result = await getGuestOrder(orderId, token);
+    if (result.success && result.order) {
+      setOrder(result.order);
+      setError(null);
+      if (isAwaitingPayment(result.order)) {
+        const methods = (await getPaymentMethods()).filter((m) => m.name !== "cash_on_delivery");
+        setPaymentMethods(methods);
+        setPayMethod((current) => current || methods[0]?.name || null);
+      }
+    } else {
+      setError({ text: result.error || "Failed to load your order", claimed: !!result.claimed });
+    }
+    setLoading(false);
+  }
+
+  async function handlePay() {
+    if (!order || !payMethod) return;
+    setPaying(true);
+
+    const payment = await initializeOrderPayment(order.id, payMethod, token);
+    if (!payment.success) {
+      alert(payment.error || "Could not start payment. Please try again.");
+      setPaying(false);
+      loadOrder();
+      return;
+    }
+
+    if (payment.authorizationUrl) {
+      window.location.href = payment.authorizationUrl;
+      return;
+    }
+
+    if (payment.instructions) {
+      setTransfer(payment.instructions);
+    }
+    setPaying(false);
+  }
+
+  const isAwaitingPayment = (o: GuestOrder) =>
+    o.status === "pending" && (o.payment_status === "pending" || o.payment_status === "failed");
+
+  const getStatusIcon = (status: OrderStatus) => {
+    switch (status) {
+      case "pending": return <Clock size={20} className="text-yellow-500" />;
+      case "confirmed": return <CheckCircle size={20} className="text-blue-500" />;
+      case "shipped": return <Truck size={20} className="text-purple-500" />;
+      case "delivered": return <Package size={20} className="text-green-500" />;
+      case "cancelled": return <XCircle size={20} className="text-red-500" />;
+      case "returned": return <XCircle size={20} className="text-orange-500" />;
+    }
+  };
+
+  const getStatusLabel = (status: OrderStatus) => {
+    switch (status) {
+      case "pending": return "Pending Confirmation";
+      case "confirmed": return "Confirmed";
+      case "shipped": return "Shipped";
+      case "delivered": return "Delivered";
+      case "cancelled": return "Cancelled";
+      case "returned": return "Returned";
+    }
+  };
+
+  const getPaymentStatusLabel = (status: PaymentStatus) => {
+    switch (status) {
+      case "pay_on_delivery": return "Pay on Delivery";
+      case "partially_refunded": return "Partially Refunded";
+      default: return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 size={48} className="animate-spin mx-auto text-radiance-goldColor" />
+          <p className="mt-4 text-gray-600">Loading your order...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-6">
+        <div className="text-center max-w-md">
+          <AlertCircle size={48} className="mx-auto text-radiance-goldColor mb-4" />
+          <p className="text-gray-600 mb-6">{error?.text}</p>
+          <Link
+            href={error?.claimed ? `/shop/auth?redirect=/shop/history?order=${orderId}` : "/shop"}
+            className="bg-radiance-goldColor text-white px-8 py-3 rounded-xl font-bold hover:bg-radiance-charcoalTextColor transition-colors"
+          >
+            {error?.claimed ? "Sign In" : "Continue Shopping"}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-radiance-creamBackgroundColor py-12">
+      <div className="max-w-3xl mx-auto px-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">{order.order_number}</h1>
+            <p className="text-gray-600 mt-1">
+              Placed {new Date(order.created_at).toLocaleDateString()} · {order.guest_email}
+            </p>
+          </div>
+          <span className="flex items-center gap-2 px-3 py-1 rounded-full bg-white text-sm font-medium">
+            {getStatusIcon(order.status)}
+            {getStatusLabel(order.status)}
+          </span>
+        </div>
+
+        {/* Complete Payment */}
+        {isAwaitingPayment(order) && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-2xl">
+            {transfer ? (
+              <div className="text-sm text-gray-700 space-y-1">
+                <p className="font-bold text-gray-900">Transfer ₦{order.total_amount.toLocaleString()} to:</p>
+                <p>{transfer.bankName} · {transfer.accountNumber}</p>
+                <p>{transfer.accountName}</p>
+                <p>
+                  Reference: <span className="font-mono font-medium">{transfer.narration}</span>
+                </p>
+              </div>
+            ) : (
+              <>
+                <p className="font-bold text-gray-900 mb-1">
+                  {order.payment_status === "failed" ? "Your payment didn't go through" : "This order hasn't been paid yet"}
+                </p>
+                <p className="text-sm text-gray-600 mb-3">
+                  Complete payment to confirm your order. Unpaid orders are cancelled automatically.
+                </p>
+                {paymentMethods.length > 1 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {paymentMethods.map((method) => (
+                      <button
+                        key={method.name}
+                        onClick={() => setPayMethod(method.name)}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                          payMethod === method.name
+                            ? "bg-radiance-goldColor text-white"
+                            : "bg-white border border-gray-300 text-gray-600"
+                        }`}
+                      >
+                        {method.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <button
+                  onClick={handlePay}
+                  disabled={paying || !payMethod}
+                  className="bg-radiance-goldColor text-white px-6 py-2 rounded-xl font-bold hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50 flex items-center gap-2"
+                >
+                  {paying ? <Loader2 size={18} className="animate-spin" /> : <CreditCard size={18} />}
+                  Complete payment
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Order Items */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <h2 className="font-bold text-gray-900 mb-3">Order Items</h2>
+          <div className="space-y-2">
+            {order.items.map((item) => (
+              <div key={item.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">{item.product_name}</p>
+                  {item.variant_name && <p className="text-sm text-gray-500">{item.variant_name}</p>}
+                  {item.bundle_components && (
+                    <p className="text-xs text-gray-500">
+                      Includes {item.bundle_components.map((c) => `${c.quantity} × ${getComponentName(c)}`).join(", ")}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
+                </div>
+                <p className="font-medium text-radiance-goldColor">₦{item.total_price.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+          <div className="border-t border-gray-200 mt-4 pt-4 space-y-1 text-sm text-gray-600">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>₦{order.subtotal.toLocaleString()}</span>
+            </div>
+            {Number(order.discount_applied) > 0 && (
+              <div className="flex justify-between text-green-700">
+                <span>Discount</span>
+                <span>-₦{Number(order.discount_applied).toLocaleString()}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>Tax</span>
+              <span>₦{order.tax.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Shipping</span>
+              <span>{order.shipping_cost ? `₦${order.shipping_cost.toLocaleString()}` : "FREE"}</span>
+            </div>
+            <div className="flex justify-between font-bold text-gray-900 pt-2 border-t border-gray-200">
+              <span>Total</span>
+              <span className="text-radiance-goldColor">₦{order.total_amount.toLocaleString()}</span>
+            </div>
+            <p className="pt-2">Payment: {getPaymentStatusLabel(order.payment_status)}</p>
+          </div>
+        </div>
+
+        {/* Delivery Address */}
+        {order.fulfilment_method === "delivery" && order.shipping_address && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+            <p className="text-xs text-gray-500 mb-1">Delivering To</p>
+            {order.shipping_address_snapshot ? (
+              <>
+                <p className="text-sm font-medium text-gray-900">{order.shipping_address_snapshot.full_name}</p>
+                <p className="text-sm text-gray-600">{formatPostalAddress(order.shipping_address_snapshot)}</p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">{order.shipping_address}</p>
+            )}
+            {order.estimated_delivery_date && (
+              <p className="text-xs text-gray-500 mt-2">
+                Estimated delivery {new Date(order.estimated_delivery_date).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Store Pickup */}
+        {order.fulfilment_method === "pickup" && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 flex items-start gap-3">
+            <Store size={20} className="text-radiance-goldColor mt-0.5" />
+            <div className="flex-1">
+              <p className="text-xs text-gray-500 mb-1">Store Pickup</p>
+              <p className="text-sm text-gray-900">{order.shipping_address?.replace(/^Pickup: /, "")}</p>
+              {order.picked_up_at ? (
+                <p className="text-xs text-gray-500 mt-2">
+                  Collected {new Date(order.picked_up_at).toLocaleString()}
+                </p>
+              ) : order.pickup_code && !["cancelled", "returned"].includes(order.status) && (
+                <div className="mt-3">
+                  <p className="font-mono text-2xl font-bold tracking-widest text-radiance-charcoalTextColor">
+                    {order.pickup_code}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">Show this code when collecting your order</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Shipments */}
+        {order.shipments.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-4">
+            <h2 className="font-bold text-gray-900">
+              {order.shipments.length > 1 ? `Shipments (${order.shipments.length})` : "Shipment"}
+            </h2>
+            {order.shipments.map((shipment) => {
+              const currentStep = SHIPMENT_STEPS.indexOf(shipment.status);
+              return (
+                <div key={shipment.id}>
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium text-gray-900">{shipment.courier}</span>
+                    <span className="font-mono text-gray-600">{shipment.tracking_number}</span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-3">
+                    {SHIPMENT_STEPS.map((step, index) => (
+                      <div key={step} className="flex-1">
+                        <div
+                          className={`h-1.5 rounded-full ${
+                            index <= currentStep ? "bg-radiance-goldColor" : "bg-gray-200"
+                          }`}
+                        />
+                        <p className="text-xs text-gray-500 mt-1 capitalize">{step.replace("_", " ")}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {shipment.shipment_tracking_events && shipment.shipment_tracking_events.length > 0 && (
+                    <ul className="mt-3 space-y-1 border-l-2 border-gray-100 pl-3">
+                      {[...shipment.shipment_tracking_events].reverse().map((event) => (
+                        <li key={event.id} className="text-xs text-gray-600">
+                          <span className="text-gray-900">{event.description}</span>
+                          {event.location && ` · ${event.location}`}
+                          <span className="text-gray-400"> · {new Date(event.occurred_at).toLocaleString()}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Status Timeline */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <h2 className="font-bold text-gray-900 mb-4">Order Timeline</h2>
+          <ol className="border-l-2 border-gray-200 ml-3 space-y-4">
+            {order.history.map((entry) => (
+              <li key={entry.id} className="ml-6 relative">
+                <span className="absolute -left-[37px] top-0 w-8 h-8 rounded-full bg-white flex items-center justify-center">
+                  {getStatusIcon(entry.to_status)}
+                </span>
+                <p className="font-medium text-gray-900">
+                  {entry.from_status ? getStatusLabel(entry.to_status) : "Order Placed"}
+                </p>
+                <p className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleString()}</p>
+                {entry.note && <p className="text-xs text-gray-600">{entry.note}</p>}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {/* Account Claim */}
+        <div className="bg-white rounded-2xl shadow-sm border border-radiance-goldColor p-6 flex items-start gap-3">
+          <UserPlus size={20} className="text-radiance-goldColor mt-0.5" />
+          <div>
+            <p className="font-bold text-gray-900">Keep all your orders in one place</p>
+            <p className="text-sm text-gray-600 mt-1">
+              Create an account with {order.guest_email} and this order will appear in your order
+              history, where you can also cancel or return it.
+            </p>
+            <Link
+              href="/shop/auth?mode=signup&redirect=/shop/history"
+              className="inline-block mt-3 text-sm font-bold text-radiance-goldColor hover:underline"
+            >
+              Create an account
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function GuestOrderPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+      </div>
+    }>
+      <GuestOrderContent />
+    </Suspense>
+  );
+}
@@ -211,6 +211,24 @@ export default async function ProductPage({ params }: ProductPageProps) {
               )}
             </div>
 
+            {/* Variant Options */}
+            {product.has_variants &&
+              (product.variant_options || []).map((optionType) => (
+                <div key={optionType.name} className="space-y-2">
+                  <h2 className="text-sm font-medium">{optionType.name}</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {optionType.values.map((value) => (
+                      <span
+                        key={value}
+                        className="px-3 py-1.5 border border-gray-300 rounded-full text-sm"
+                      >
+                        {value}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
             {/* Stock Status */}
             <div className="text-base">
               {product.stock_quantity > 0 ? (
@@ -0,0 +1,59 @@
+"use server";
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import type { Product, SharedWishlist } from "@/types";
+
+/**
+ * Load a wishlist from its share link
+ * The token stands in for the owner's permission, so the service client
+ * reads the wishlist only once the token matches. Visitors see the owner's
+ * first name and the active products, nothing else.
+ */
+export async function getSharedWishlist(
+  token: string,
+): Promise<{ success: boolean; error?: string; wishlist?: SharedWishlist }> {
+  try {
+    if (!token) {
+      return { success: false, error: "This wishlist link is invalid" };
+    }
+
+    const supabase = createServiceClient();
+    const { data: share, error: shareError } = await supabase
+      .from("wishlist_shares")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (shareError) throw shareError;
+    if (!share) {
+      return { success: false, error: "This wishlist is no longer shared" };
+    }
+
+    const [profile, entries] = await Promise.all([
+      supabase.from("profiles").select("full_name").eq("id", share.user_id).maybeSingle(),
+      supabase
+        .from("wishlist")
+        .select("products(*)")
+        .eq("user_id", share.user_id)
+        .order("added_at", { ascending: false }),
+    ]);
+
+    if (profile.error) throw profile.error;
+    if (entries.error) throw entries.error;
+
+    const products = (entries.data || [])
+      .map((entry) => entry.products as unknown as Product | null)
+      .filter((product): product is Product => !!product?.is_active);
+
+    return {
+      success: true,
+      wishlist: {
+        owner_name: profile.data?.full_name?.split(" ")[0] || null,
+        products,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching shared wishlist:", error);
+    return { success: false, error: "Failed to load this wishlist" };
+  }
+}
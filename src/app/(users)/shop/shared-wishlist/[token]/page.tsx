@@ -0,0 +1,82 @@
+/**
+ * Shared Wishlist Page
+ *
+ * Read-only view of a customer's wishlist, opened from the share link on
+ * their wishlist page. Visitors can add the products to their own cart.
+ * Access: Public (the link's token is the owner's permission)
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import ProductCard from "@/components/products/ProductCard";
+import { getSharedWishlist } from "./action";
+import { Heart } from "lucide-react";
+import type { SharedWishlist } from "@/types";
+
+export default function SharedWishlistPage() {
+  const { token } = useParams<{ token: string }>();
+  const [loading, setLoading] = useState(true);
+  const [wishlist, setWishlist] = useState<SharedWishlist | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWishlist();
+  }, [token]);
+
+  async function loadWishlist() {
+    setLoading(true);
+    const result = await getSharedWishlist(token);
+    if (result.success && result.wishlist) {
+      setWishlist(result.wishlist);
+      setError(null);
+    } else {
+      setError(result.error || "Failed to load this wishlist");
+    }
+    setLoading(false);
+  }
+
+  return (
+    <div className="min-h-screen bg-radiance-creamBackgroundColor py-12">
+      <div className="max-w-6xl mx-auto px-6">
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading wishlist...</p>
+          </div>
+        ) : error || !wishlist ? (
+          <div className="text-center py-12 bg-white rounded-2xl shadow-sm">
+            <Heart size={64} className="mx-auto text-gray-300 mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Wishlist unavailable</h2>
+            <p className="text-gray-600">{error}</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">
+                {wishlist.owner_name ? `${wishlist.owner_name}'s Wishlist` : "Shared Wishlist"}
+              </h1>
+              <p className="text-gray-600 mt-1">
+                {wishlist.products.length} {wishlist.products.length === 1 ? "product" : "products"}
+              </p>
+            </div>
+
+            {wishlist.products.length === 0 ? (
+              <div className="text-center py-12 bg-white rounded-2xl shadow-sm">
+                <Heart size={64} className="mx-auto text-gray-300 mb-4" />
+                <p className="text-gray-600">Nothing on this wishlist yet</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                {wishlist.products.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,446 @@
+/**
+ * Wishlist Page
+ *
+ * Products the customer has saved, with live price and stock. Items can be
+ * moved into the cart one at a time or in bulk, opted in to price-drop and
+ * back-in-stock alerts, and the whole list published through a share link.
+ * Access: Authenticated users only
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useUser } from "@/context/UserContext";
+import { useCart } from "@/context/CartContext";
+import {
+  createWishlistShare,
+  deleteWishlistShare,
+  getWishlist,
+  getWishlistShare,
+  moveWishlistToCart,
+  removeFromWishlist,
+  setWishlistAlerts,
+} from "@/utils/supabase/services";
+import { getUnitPrice } from "@/utils/checkout/pricing";
+import {
+  BellRing,
+  Check,
+  Copy,
+  Heart,
+  Link2,
+  PackageCheck,
+  ShoppingBag,
+  ShoppingCart,
+  TrendingDown,
+  Trash2,
+} from "lucide-react";
+import type { WishlistItem, WishlistShare } from "@/types";
+
+function isAvailable(item: WishlistItem): boolean {
+  return !!item.product?.is_active && item.product.stock_quantity > 0;
+}
+
+// Products sold in variants need an option chosen on the product page first
+function canMoveToCart(item: WishlistItem): boolean {
+  return isAvailable(item) && !item.product?.has_variants;
+}
+
 export default function WishListPage() {
+  const router = useRouter();
+  const user = useUser();
+  const { moveItem, refresh } = useCart();
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<string | null>(null);
+  const [bulkMoving, setBulkMoving] = useState(false);
+  const [share, setShare] = useState<WishlistShare | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      router.push("/shop/auth?redirect=/shop/wishlist");
+      return;
+    }
+    loadWishlist();
+    getWishlistShare(user.id).then(setShare);
+  }, [user, router]);
+
+  async function loadWishlist() {
+    if (!user) return;
+    setLoading(true);
+    const wishlist = await getWishlist(user.id);
+    setItems(wishlist);
+    // Drop selections for items that left the list
+    setSelected((current) => new Set(wishlist.filter((i) => current.has(i.product_id)).map((i) => i.product_id)));
+    setLoading(false);
+  }
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  function toggleSelected(productId: string) {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(productId)) {
+        next.delete(productId);
+      } else {
+        next.add(productId);
+      }
+      return next;
+    });
+  }
+
+  async function handleMoveToCart(item: WishlistItem) {
+    setBusy(item.product_id);
+    const moved = await moveItem(item.product_id, "wishlist", "cart");
+    setBusy(null);
+
+    if (moved) {
+      showMessage("success", `${item.product?.name || "Item"} moved to your cart`);
+      loadWishlist();
+    } else {
+      showMessage("error", "Couldn't move this item to your cart");
+    }
+  }
+
+  async function handleBulkMove(productIds: string[]) {
+    if (productIds.length === 0) return;
+    setBulkMoving(true);
+    const moved = await moveWishlistToCart(productIds);
+    setBulkMoving(false);
+
+    if (moved === null) {
+      showMessage("error", "Couldn't move these items to your cart");
+      return;
+    }
+
+    const skipped = productIds.length - moved;
+    showMessage(
+      "success",
+      skipped > 0
+        ? `${moved} moved to your cart; ${skipped} unavailable ${skipped === 1 ? "item stays" : "items stay"} here`
+        : `${moved} ${moved === 1 ? "item" : "items"} moved to your cart`,
+    );
+    await refresh();
+    loadWishlist();
+  }
+
+  async function handleRemove(item: WishlistItem) {
+    if (!user) return;
+    setBusy(item.product_id);
+    const removed = await removeFromWishlist(user.id, item.product_id);
+    setBusy(null);
+
+    if (removed) {
+      loadWishlist();
+    } else {
+      showMessage("error", "Failed to remove from wishlist");
+    }
+  }
+
+  async function handleToggleAlert(item: WishlistItem, alert: "priceDrop" | "backInStock") {
+    const alerts = {
+      priceDrop: item.notify_price_drop,
+      backInStock: item.notify_back_in_stock,
+    };
+    alerts[alert] = !alerts[alert];
+
+    setBusy(item.product_id);
+    const updated = await setWishlistAlerts(item.product_id, alerts);
+    setBusy(null);
+
+    if (updated) {
+      loadWishlist();
+    } else {
+      showMessage("error", "Failed to update alerts");
+    }
+  }
+
+  async function handleShare() {
+    if (!user) return;
+    setSharing(true);
+    const created = await createWishlistShare(user.id);
+    setSharing(false);
+
+    if (created) {
+      setShare(created);
+    } else {
+      showMessage("error", "Couldn't create a share link");
+    }
+  }
+
+  async function handleStopSharing() {
+    if (!user) return;
+    setSharing(true);
+    const deleted = await deleteWishlistShare(user.id);
+    setSharing(false);
+
+    if (deleted) {
+      setShare(null);
+      showMessage("success", "Your wishlist is no longer shared");
+    } else {
+      showMessage("error", "Couldn't stop sharing");
+    }
+  }
+
+  async function handleCopyLink() {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  const shareUrl = share ? `${window.location.origin}/shop/shared-wishlist/${share.token}` : null;
+  const availableIds = items.filter(canMoveToCart).map((i) => i.product_id);
+  const selectedAvailable = availableIds.filter((id) => selected.has(id));
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+          <p className="mt-4 text-gray-600">Redirecting to login...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div>
-      <h1>user wishlist page</h1>
+    <div className="min-h-screen bg-radiance-creamBackgroundColor py-12">
+      <div className="max-w-6xl mx-auto px-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">Wishlist</h1>
+            <p className="text-gray-600 mt-1">Products you&apos;ve saved</p>
+          </div>
+          {items.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => handleBulkMove(selectedAvailable)}
+                disabled={bulkMoving || selectedAvailable.length === 0}
+                className="flex items-center gap-2 bg-white border border-radiance-goldColor text-radiance-goldColor px-4 py-2 rounded-xl text-sm font-bold hover:bg-radiance-goldColor hover:text-white transition-colors disabled:opacity-50"
+              >
+                <ShoppingCart size={16} /> Move selected ({selectedAvailable.length})
+              </button>
+              <button
+                onClick={() => handleBulkMove(availableIds)}
+                disabled={bulkMoving || availableIds.length === 0}
+                className="flex items-center gap-2 bg-radiance-goldColor text-white px-4 py-2 rounded-xl text-sm font-bold hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+              >
+                <ShoppingCart size={16} /> Move all available to cart
+              </button>
+            </div>
+          )}
+        </div>
+
+        {message && (
+          <div
+            className={`mb-6 p-4 rounded-xl ${
+              message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* Share Link */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-4 mb-6">
+          {share && shareUrl ? (
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
+              <Link2 size={20} className="text-radiance-goldColor shrink-0" />
+              <input
+                readOnly
+                value={shareUrl}
+                className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCopyLink}
+                  className="flex items-center gap-1 px-3 py-2 bg-gray-100 rounded-lg text-sm font-medium hover:bg-gray-200"
+                >
+                  {copied ? <Check size={16} /> : <Copy size={16} />} {copied ? "Copied" : "Copy"}
+                </button>
+                <button
+                  onClick={handleStopSharing}
+                  disabled={sharing}
+                  className="px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                >
+                  Stop sharing
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-gray-600">
+                Share a read-only link to your wishlist with friends and family.
+              </p>
+              <button
+                onClick={handleShare}
+                disabled={sharing}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+              >
+                <Link2 size={16} /> Create share link
+              </button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading wishlist...</p>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-2xl shadow-sm">
+            <Heart size={64} className="mx-auto text-gray-300 mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Your wishlist is empty</h2>
+            <p className="text-gray-600">Tap the heart on any product to save it here</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {items.map((item) => {
+              const product = item.product;
+              const available = isAvailable(item);
+              const unitPrice = product ? getUnitPrice(product) : 0;
+              const hasDiscount = !!product && unitPrice < Number(product.price);
+              const droppedSinceAlert =
+                item.alert_unit_price !== null && unitPrice < Number(item.alert_unit_price);
+
+              return (
+                <div
+                  key={item.id}
+                  className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden flex flex-col"
+                >
+                  <div className="relative aspect-square w-full bg-gray-100">
+                    {product?.images?.[0] ? (
+                      <Image
+                        src={product.images[0]}
+                        alt={product.name}
+                        fill
+                        sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+                        className="object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-gray-400">
+                        <ShoppingBag size={48} />
+                      </div>
+                    )}
+                    <label className="absolute top-2 left-2 bg-white/90 rounded-md p-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(item.product_id)}
+                        onChange={() => toggleSelected(item.product_id)}
+                        disabled={!canMoveToCart(item)}
+                        className="accent-radiance-goldColor"
+                      />
+                    </label>
+                    <button
+                      onClick={() => handleRemove(item)}
+                      disabled={busy === item.product_id}
+                      className="absolute top-2 right-2 p-2 bg-white/90 rounded-full text-gray-500 hover:text-red-600 disabled:opacity-50"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                    {!available && (
+                      <div className="absolute inset-0 bg-black/50 flex items-center justify-center pointer-events-none">
+                        <span className="bg-white text-black px-3 py-1 rounded-full text-sm font-bold">
+                          {product?.is_active ? "Out of Stock" : "Unavailable"}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="p-4 space-y-3 flex-1 flex flex-col">
+                    <Link
+                      href={product ? `/shop/products/${product.slug}` : "#"}
+                      className="font-medium text-sm line-clamp-2 hover:text-radiance-goldColor"
+                    >
+                      {product?.name}
+                    </Link>
+
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-radiance-goldColor font-bold">
+                        ₦{unitPrice.toLocaleString()}
+                      </span>
+                      {hasDiscount && (
+                        <span className="text-gray-500 text-sm line-through">
+                          ₦{Number(product?.price).toLocaleString()}
+                        </span>
+                      )}
+                      {droppedSinceAlert && (
+                        <span className="flex items-center gap-1 text-xs font-medium text-green-700">
+                          <TrendingDown size={12} /> Price dropped
+                        </span>
+                      )}
+                    </div>
+
+                    {product?.is_active && (
+                      <p className={`text-xs ${product.stock_quantity > 0 ? "text-green-700" : "text-red-600"}`}>
+                        {product.stock_quantity > 0
+                          ? product.stock_quantity <= 5
+                            ? `Only ${product.stock_quantity} left`
+                            : "In stock"
+                          : "Out of stock"}
+                      </p>
+                    )}
+
+                    {/* Alerts */}
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => handleToggleAlert(item, "priceDrop")}
+                        disabled={busy === item.product_id}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium disabled:opacity-50 ${
+                          item.notify_price_drop
+                            ? "bg-radiance-goldColor text-white"
+                            : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                        }`}
+                      >
+                        <BellRing size={12} /> Price drop
+                      </button>
+                      <button
+                        onClick={() => handleToggleAlert(item, "backInStock")}
+                        disabled={busy === item.product_id}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium disabled:opacity-50 ${
+                          item.notify_back_in_stock
+                            ? "bg-radiance-goldColor text-white"
+                            : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                        }`}
+                      >
+                        <PackageCheck size={12} /> Back in stock
+                      </button>
+                    </div>
+
+                    {product?.has_variants && available ? (
+                      <Link
+                        href={`/shop/products/${product.slug}`}
+                        className="mt-auto w-full flex items-center justify-center gap-2 bg-radiance-goldColor text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-radiance-charcoalTextColor transition-colors"
+                      >
+                        <ShoppingCart size={16} /> Choose options
+                      </Link>
+                    ) : (
+                      <button
+                        onClick={() => handleMoveToCart(item)}
+                        disabled={!available || busy === item.product_id}
+                        className="mt-auto w-full flex items-center justify-center gap-2 bg-radiance-goldColor text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+                      >
+                        <ShoppingCart size={16} /> Move to cart
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,241 @@
+/**
+ * Abandoned Carts Page
+ *
+ * Abandonment rate, recovery messages and recovered revenue, with the
+ * products most often left behind. Carts are detected and messaged by the
+ * recover-abandoned-carts job.
+ * Access: Admin, Chief Admin
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { getAbandonedCartReport, checkPermission } from "../action";
+import { ShoppingCart, Percent, Send, DollarSign, Ticket } from "lucide-react";
+import type { AbandonedCartReport, AbandonedCartStatus } from "@/types";
+
+const STATUS_STYLES: Record<AbandonedCartStatus, string> = {
+  detected: "bg-gray-100 text-gray-700",
+  notified: "bg-blue-100 text-blue-700",
+  recovered: "bg-green-100 text-green-700",
+  expired: "bg-yellow-100 text-yellow-700",
+};
+
+function formatPercent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+export default function AbandonedCartsPage() {
+  const [hasAccess, setHasAccess] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [report, setReport] = useState<AbandonedCartReport | null>(null);
+  const [days, setDays] = useState(30);
+
+  useEffect(() => {
+    checkPermissions();
+    loadReport();
+  }, [days]);
+
+  async function checkPermissions() {
+    const hasPermission = await checkPermission("admin");
+    setHasAccess(hasPermission);
+  }
+
+  async function loadReport() {
+    setLoading(true);
+    const result = await getAbandonedCartReport(days);
+    if (result.success && result.data) {
+      setReport(result.data);
+    }
+    setLoading(false);
+  }
+
+  if (!hasAccess) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold text-red-600">Access Denied</h2>
+        <p className="text-gray-600 mt-2">You don't have permission to view abandoned carts.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">Abandoned Carts</h1>
+          <p className="text-gray-600 mt-1">Signed-in carts left idle, and what recovery brought back</p>
+        </div>
+        <div className="flex gap-2">
+          {[7, 30, 90].map((d) => (
+            <button
+              key={d}
+              onClick={() => setDays(d)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                days === d
+                  ? "bg-radiance-goldColor text-white"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {d} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+        </div>
+      ) : report ? (
+        <>
+          {/* Stats Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-600">Abandonment Rate</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatPercent(report.abandonmentRate)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {report.abandoned} carts · ₦{report.abandonedValue.toLocaleString()}
+                  </p>
+                </div>
+                <Percent size={40} className="text-orange-500" />
+              </div>
+            </div>
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-600">Messages Sent</p>
+                  <p className="text-2xl font-bold text-gray-900">{report.notified}</p>
+                </div>
+                <Send size={40} className="text-blue-500" />
+              </div>
+            </div>
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-600">Recovered Revenue</p>
+                  <p className="text-2xl font-bold text-radiance-goldColor">
+                    ₦{report.recoveredRevenue.toLocaleString()}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {report.recovered} orders · {formatPercent(report.recoveryRate)} of messaged carts
+                  </p>
+                </div>
+                <DollarSign size={40} className="text-green-500" />
+              </div>
+            </div>
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-600">Coupons Redeemed</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {report.couponsRedeemed} / {report.couponsIssued}
+                  </p>
+                </div>
+                <Ticket size={40} className="text-purple-500" />
+              </div>
+            </div>
+          </div>
+
+          {/* Top Abandoned Products */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-bold">Top Abandoned Products</h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {report.topProducts.map((product) => (
+                <div key={product.product_id} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-900">{product.product_name}</span>
+                  <span className="text-gray-600">
+                    {product.carts} carts · {product.quantity} units ·{" "}
+                    <span className="font-bold text-radiance-goldColor">₦{product.value.toLocaleString()}</span>
+                  </span>
+                </div>
+              ))}
+              {report.topProducts.length === 0 && (
+                <p className="px-6 py-3 text-sm text-gray-500">No abandoned carts in this period</p>
+              )}
+            </div>
+          </div>
+
+          {/* Recent Carts */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-bold flex items-center gap-2">
+                <ShoppingCart size={20} className="text-radiance-goldColor" />
+                Recent Carts
+              </h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Items</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Value</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Activity</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Recovered</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.recentCarts.map((cart) => (
+                    <tr key={cart.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {cart.profiles?.full_name || "—"}
+                        <p className="text-xs text-gray-500">{cart.profiles?.email}</p>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {cart.items
+                          .map(
+                            (item) =>
+                              `${item.product_name}${item.variant_name ? ` (${item.variant_name})` : ""} × ${item.quantity}`,
+                          )
+                          .join(", ")}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        ₦{Number(cart.cart_value).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {new Date(cart.last_activity_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[cart.status]}`}>
+                          {cart.status}
+                        </span>
+                        {cart.notified_at && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {cart.channel} · {new Date(cart.notified_at).toLocaleDateString()}
+                            {cart.coupon_code && ` · ${cart.coupon_code}`}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {cart.recovered_revenue != null
+                          ? `₦${Number(cart.recovered_revenue).toLocaleString()}`
+                          : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                  {report.recentCarts.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-6 text-center text-sm text-gray-500">
+                        No abandoned carts in this period
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-12">
+          <p className="text-gray-600">Failed to load the abandoned cart report</p>
+        </div>
+      )}
+    </div>
+  );
+}
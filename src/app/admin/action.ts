@@ -12,8 +12,11 @@
  * - Permission & Access Control
  * - Product Management (CRUD)
  * - Order Management
+ * - Returns
  * - Activity Logs (Audit Trail)
  * - Sales Reports
+ * - Abandoned Cart Report
+ * - Payment Reconciliation
  * 
  * @author Philip Depaytez
  * @version 2.0.0
@@ -23,10 +26,50 @@
 
 import { createClient } from "@/utils/supabase/server";
 import { createStaticClient } from "@/utils/supabase/static-client";
-import type { UserRole, OrderStatus } from "@/types";
+import { createServiceClient } from "@/utils/supabase/service-client";
+import type {
+  UserRole,
+  Order,
+  OrderStatus,
+  CollectionMethod,
+  IssueRefundInput,
+  RefundMethod,
+  ReturnRequestLine,
+  CreateShipmentInput,
+  ShipmentStatus,
+  ShippingZoneInput,
+  PickupPointInput,
+  AbandonedCart,
+  AbandonedCartReport,
+  ProductOptionType,
+  ProductVariant,
+  ProductVariantInput,
+  ProductBundleItem,
+  ProductBundleItemInput,
+} from "@/types";
 import { AuthState } from "@/types/index";
 import { revalidatePath } from "next/cache";
 import { uploadFileToFTP, uploadMultipleFilesToFTP } from "@/utils/ftp-upload";
+import { settleManualPayment } from "@/utils/payments/settlement";
+import { issueRefund } from "@/utils/payments/refunds";
+import {
+  SHIPMENT_DERIVED_STATUSES,
+  SHIPMENT_STATUS_TRANSITIONS,
+  validateStatusTransition,
+  type StatusTransitionInput,
+} from "@/utils/orders/status-machine";
+import {
+  runReconciliation,
+  resolveReconciliationItem,
+  type ReconciliationResolution,
+} from "@/utils/payments/reconciliation";
+import { getCourierProvider, getEnabledCourierProviders } from "@/utils/couriers";
+import { bookCourierShipment, quoteShipment } from "@/utils/couriers/shipping";
+import { syncShipmentTracking } from "@/utils/couriers/tracking";
+import { sortRateTiers, validateShippingZone } from "@/utils/shipping/zones";
+import { isNigerianState } from "@/utils/shipping/nigeria";
+import { getVariantName, validateVariants } from "@/utils/products/variants";
+import { validateBundle } from "@/utils/products/bundles";
 
 /* =============================================================================
    Authentication Actions
@@ -729,6 +772,7 @@ export async function updateProduct(
  * 
  * Removes a product from the catalog.
  * Soft delete recommended for production (set is_active = false).
+ * Products used in a bundle must be taken out of it first.
  * 
  * @param productId - ID of product to delete
  * @returns Result of deletion operation
@@ -748,6 +792,22 @@ export async function deleteProduct(productId: string): Promise<AdminActionResul
       return { success: false, error: "Not authenticated" };
     }
 
+    const { data: inBundle, error: bundleError } = await supabase
+      .from("product_bundle_items")
+      .select("bundle:products!bundle_id(name)")
+      .eq("component_product_id", productId)
+      .limit(1)
+      .maybeSingle();
+
+    if (bundleError) throw bundleError;
+    if (inBundle) {
+      const bundle = inBundle.bundle as unknown as { name: string } | null;
+      return {
+        success: false,
+        error: `This product is in ${bundle ? `the ${bundle.name}` : "a"} bundle; take it out of the bundle first`,
+      };
+    }
+
     const { error } = await supabase
       .from("products")
       .delete()
@@ -835,6 +895,251 @@ export async function toggleProductStatus(productId: string): Promise<AdminActio
   }
 }
 
+/**
+ * Get Product Variants
+ * 
+ * Retrieves every variant of a product, inactive ones included, for the
+ * variant matrix editor.
+ * 
+ * @param productId - ID of the product
+ * @returns Variants in display order
+ * 
+ * @security Agent, Admin, Chief Admin only
+ */
+export async function getProductVariants(
+  productId: string
+): Promise<AdminActionResult & { data: ProductVariant[] | null }> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions", data: null };
+    }
+
+    // Inactive variants are hidden from everyone else under RLS
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from("product_variants")
+      .select("*")
+      .eq("product_id", productId)
+      .order("position", { ascending: true });
+
+    if (error) throw error;
+    return { success: true, data: (data || []) as ProductVariant[] };
+  } catch (error) {
+    console.error("Error fetching product variants:", error);
+    return { success: false, error: "Failed to fetch product variants", data: null };
+  }
+}
+
+/**
+ * Save Product Variants
+ * 
+ * Replaces a product's option types and variant matrix. Variants with an
+ * id are updated, new ones inserted and any left out deleted (removing
+ * them from carts; placed orders keep their variant name and SKU). The
+ * product's stock becomes the sum of its active variants; saving an empty
+ * matrix turns it back into a single product with no stock. Variants a
+ * bundle uses can't be removed, and a product a bundle holds as a whole
+ * can't be given variants, until it is taken out of the bundle.
+ * 
+ * @param productId - ID of the product
+ * @param optionTypes - Option types and their values, e.g. Shade, Size
+ * @param variants - One row per combination sold
+ * @returns Result of save operation
+ * 
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs variant changes
+ * @revalidates /admin/catalog, /shop
+ */
+export async function saveProductVariants(
+  productId: string,
+  optionTypes: ProductOptionType[],
+  variants: ProductVariantInput[]
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const options = optionTypes.map((type) => ({
+      name: type.name.trim(),
+      values: type.values.map((value) => value.trim()).filter(Boolean),
+    }));
+    const rows = variants.map((variant, index) => ({
+      ...variant,
+      name: getVariantName(options, variant.options),
+      sku: variant.sku?.trim() || null,
+      position: index,
+    }));
+
+    const invalid = validateVariants(options, rows);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    // One transaction, so a failed save never leaves the matrix half written
+    const { error } = await createServiceClient().rpc("save_product_variants", {
+      p_product_id: productId,
+      p_options: options,
+      p_variants: rows,
+    });
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: "product_variants_updated",
+      resource_type: "product",
+      resource_id: productId,
+      changes: { options, variants: rows.map((row) => row.name) },
+    });
+
+    revalidatePath("/admin/catalog");
+    revalidatePath("/shop");
+    return { success: true, message: `${rows.length} variant${rows.length === 1 ? "" : "s"} saved` };
+  } catch (error) {
+    console.error("Error saving product variants:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save product variants",
+    };
+  }
+}
+
+/**
+ * Get Product Bundle Items
+ * 
+ * Retrieves the components of a bundle for the bundle builder.
+ * 
+ * @param bundleId - ID of the bundle product
+ * @returns Components in display order
+ * 
+ * @security Agent, Admin, Chief Admin only
+ */
+export async function getProductBundleItems(
+  bundleId: string
+): Promise<AdminActionResult & { data: ProductBundleItem[] | null }> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions", data: null };
+    }
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from("product_bundle_items")
+      .select("*")
+      .eq("bundle_id", bundleId)
+      .order("position", { ascending: true });
+
+    if (error) throw error;
+    return { success: true, data: (data || []) as ProductBundleItem[] };
+  } catch (error) {
+    console.error("Error fetching bundle items:", error);
+    return { success: false, error: "Failed to fetch bundle items", data: null };
+  }
+}
+
+/**
+ * Save Product Bundle
+ * 
+ * Replaces the components of a bundle. The bundle keeps its own price; its
+ * stock becomes the number of sets the components can make. Saving no
+ * components turns it back into a plain product with no stock. Orders
+ * already placed keep the components they were sold with.
+ * 
+ * @param bundleId - ID of the bundle product
+ * @param items - Components with their quantity per bundle
+ * @returns Result of save operation
+ * 
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs bundle changes
+ * @revalidates /admin/catalog, /shop
+ */
+export async function saveProductBundle(
+  bundleId: string,
+  items: ProductBundleItemInput[]
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const service = createServiceClient();
+    const componentIds = [bundleId, ...items.map((item) => item.component_product_id)];
+    const products = await service
+      .from("products")
+      .select("id, name, stock_quantity, is_active, is_bundle, has_variants, variants:product_variants(id, name, stock_quantity, is_active)")
+      .in("id", componentIds);
+    if (products.error) throw products.error;
+
+    const bundle = products.data.find((product) => product.id === bundleId);
+    if (!bundle) {
+      return { success: false, error: "Product not found" };
+    }
+
+    const invalid = validateBundle(bundle, items, products.data);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    const unknownVariant = items.find(
+      (item) =>
+        item.component_variant_id &&
+        !products.data
+          .find((product) => product.id === item.component_product_id)
+          ?.variants.some((variant) => variant.id === item.component_variant_id)
+    );
+    if (unknownVariant) {
+      return { success: false, error: "A chosen variant no longer exists" };
+    }
+
+    // Kept components are updated in place, new ones added and the rest
+    // removed, all in one transaction. The checks above are repeated there
+    // under row locks, along with refusing a bundle that is itself a component.
+    const { error } = await service.rpc("save_product_bundle", {
+      p_bundle_id: bundleId,
+      p_items: items.map((item, index) => ({
+        component_product_id: item.component_product_id,
+        component_variant_id: item.component_variant_id,
+        quantity: item.quantity,
+        position: index,
+      })),
+    });
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: "product_bundle_updated",
+      resource_type: "product",
+      resource_id: bundleId,
+      changes: { items },
+    });
+
+    revalidatePath("/admin/catalog");
+    revalidatePath("/shop");
+    return { success: true, message: `Bundle saved with ${items.length} item${items.length === 1 ? "" : "s"}` };
+  } catch (error) {
+    console.error("Error saving product bundle:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save product bundle",
+    };
+  }
+}
+
 /* =============================================================================
    Media Upload (Agent+ Access)
    ============================================================================= */
@@ -1015,9 +1320,15 @@ export async function getAllOrders() {
           product_name,
           quantity,
           unit_price
-        )
+        ),
+        refunds (*),
+        order_status_history (*),
+        shipments (*, shipment_items (*), shipment_tracking_events (*)),
+        pickup_points (name, address, city)
       `)
-      .order("created_at", { ascending: false });
+      .order("created_at", { ascending: false })
+      .order("created_at", { referencedTable: "order_status_history", ascending: true })
+      .order("occurred_at", { referencedTable: "shipments.shipment_tracking_events", ascending: true });
 
     if (error) throw error;
     return { success: true, data };
@@ -1030,11 +1341,16 @@ export async function getAllOrders() {
 /**
  * Update Order Status
  * 
- * Changes order status through the fulfillment pipeline:
- * pending → confirmed → shipped → delivered
+ * Moves an order through the fulfillment pipeline. Only changes allowed by
+ * the order status state machine are accepted:
+ * pending → confirmed → shipped → delivered, with cancellation before
+ * shipping and returns after it. Shipped and delivered are set through
+ * shipments (createShipment / updateShipmentStatus), or for store pickup
+ * orders by verifyPickupCode.
  * 
  * @param orderId - ID of order to update
  * @param status - New order status
+ * @param details - Tracking number (shipped) or reason (cancelled/returned)
  * @returns Result of update operation
  * 
  * @security Agent, Admin, Chief Admin only
@@ -1043,9 +1359,14 @@ export async function getAllOrders() {
  */
 export async function updateOrderStatus(
   orderId: string,
-  status: OrderStatus
+  status: OrderStatus,
+  details: StatusTransitionInput = {}
 ): Promise<AdminActionResult> {
   try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
     const supabase = await createClient();
 
     const {
@@ -1055,13 +1376,41 @@ export async function updateOrderStatus(
       return { success: false, error: "Not authenticated" };
     }
 
-    const { error } = await supabase
+    const service = createServiceClient();
+    const { data: order, error: orderError } = await service
       .from("orders")
-      .update({ 
-        status,
-        updated_at: new Date().toISOString()
-      })
-      .eq("id", orderId);
+      .select("status, payment_status")
+      .eq("id", orderId)
+      .single();
+
+    if (orderError || !order) {
+      return { success: false, error: "Order not found" };
+    }
+
+    const invalid = validateStatusTransition(order, status, details);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    if (SHIPMENT_DERIVED_STATUSES.includes(status)) {
+      return {
+        success: false,
+        error: "Shipped and delivered follow the order's shipments. Create or update a shipment instead.",
+      };
+    }
+
+    const trackingNumber = details.trackingNumber?.trim() || null;
+    const note = details.note?.trim() || null;
+
+    // Re-checks the current status under a row lock and records the history entry
+    const { error } = await service.rpc("transition_order_status", {
+      p_order_id: orderId,
+      p_from: order.status,
+      p_to: status,
+      p_changed_by: user.id,
+      p_note: note,
+      p_tracking_number: trackingNumber,
+    });
 
     if (error) throw error;
 
@@ -1071,7 +1420,12 @@ export async function updateOrderStatus(
       action: "order_status_updated",
       resource_type: "order",
       resource_id: orderId,
-      changes: { new_status: status },
+      changes: {
+        old_status: order.status,
+        new_status: status,
+        tracking_number: trackingNumber,
+        note,
+      },
     });
 
     revalidatePath("/admin/orders");
@@ -1085,94 +1439,1629 @@ export async function updateOrderStatus(
   }
 }
 
-/* =============================================================================
-   Activity Logs & Audit Trail (Admin+ Access)
-   ============================================================================= */
-
 /**
- * Get Activity Logs
+ * Create Shipment
  * 
- * Retrieves admin activity logs for audit and accountability.
- * Includes admin details and changes made.
+ * Ships some or all of a confirmed order's remaining items with a courier
+ * and tracking number. The first shipment moves the order to "shipped".
+ * With a courierProvider the parcel is booked through that courier's
+ * integration, which issues the tracking number and label; its tracking
+ * is then polled automatically.
  * 
- * @param limit - Maximum number of logs to retrieve (default: 100)
- * @returns List of activity logs with admin details
+ * @param input - Order, items and quantities, courier, tracking number and ETA
+ * @returns Result of shipment creation
  * 
- * @security Admin, Chief Admin only
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs shipment_created
+ * @revalidates /admin/orders, /shop/history
  */
-export async function getActivityLogs(limit: number = 100) {
+export async function createShipment(input: CreateShipmentInput): Promise<AdminActionResult> {
   try {
-    const supabase = createStaticClient();
-    const { data, error } = await supabase
-      .from("admin_activity_logs")
-      .select(`
-        *,
-        admin_staff (
-          profile_id,
-          position
-        ),
-        profiles (
-          email,
-          full_name
-        )
-      `)
-      .order("created_at", { ascending: false })
-      .limit(limit);
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
 
-    if (error) throw error;
-    return { success: true, data };
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const provider = input.courierProvider ? getCourierProvider(input.courierProvider) : null;
+    const courier = provider ? provider.label : input.courier?.trim();
+    let trackingNumber = input.trackingNumber?.trim();
+    let estimatedDeliveryDate = input.estimatedDeliveryDate || null;
+    const items = (input.items || []).filter((item) => item.quantity > 0);
+
+    if (!courier) {
+      return { success: false, error: "Choose a courier" };
+    }
+
+    if (items.length === 0) {
+      return { success: false, error: "Select at least one item to ship" };
+    }
+
+    const service = createServiceClient();
+    const { data: order } = await service
+      .from("orders")
+      .select("status, payment_status, fulfilment_method")
+      .eq("id", input.orderId)
+      .maybeSingle();
+
+    if (!order) {
+      return { success: false, error: "Order not found" };
+    }
+
+    if (order.fulfilment_method === "pickup") {
+      return { success: false, error: "Pickup orders are collected in store, not shipped" };
+    }
+
+    if (!provider && !trackingNumber) {
+      return { success: false, error: "A tracking number is required for every shipment" };
+    }
+
+    // Later shipments of a partly shipped order keep it "shipped"
+    if (order.status !== "shipped") {
+      const invalid = validateStatusTransition(order, "shipped", {
+        trackingNumber: trackingNumber || "pending booking",
+      });
+      if (invalid) {
+        return { success: false, error: invalid };
+      }
+    }
+
+    const booking = provider
+      ? await bookCourierShipment(input.orderId, items, provider.name, input.courierService)
+      : null;
+
+    if (booking) {
+      trackingNumber = booking.trackingNumber;
+      estimatedDeliveryDate = estimatedDeliveryDate || booking.estimatedDeliveryDate;
+    }
+
+    const { data: shipment, error } = await service.rpc("create_shipment", {
+      p_order_id: input.orderId,
+      p_items: items,
+      p_courier: courier,
+      p_tracking_number: trackingNumber,
+      p_estimated_delivery_date: estimatedDeliveryDate,
+      p_created_by: user.id,
+    });
+
+    if (error) {
+      if (booking) {
+        console.error(`Courier booking ${booking.trackingNumber} has no shipment:`, error);
+      }
+      throw error;
+    }
+
+    if (provider && booking) {
+      const { error: bookingError } = await service
+        .from("shipments")
+        .update({
+          courier_provider: provider.name,
+          label_url: booking.labelUrl,
+          shipping_cost: booking.amount,
+          tracking_status: "booked",
+        })
+        .eq("id", shipment.id);
+
+      if (bookingError) throw bookingError;
+    }
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: "shipment_created",
+      resource_type: "order",
+      resource_id: input.orderId,
+      changes: {
+        shipment_id: shipment.id,
+        courier,
+        courier_provider: provider?.name || null,
+        tracking_number: trackingNumber,
+        shipping_cost: booking?.amount ?? null,
+        estimated_delivery_date: estimatedDeliveryDate,
+        items,
+      },
+    });
+
+    revalidatePath("/admin/orders");
+    revalidatePath("/shop/history");
+    return { success: true, message: `Shipment created with ${courier} (${trackingNumber})` };
   } catch (error) {
-    console.error("Error fetching activity logs:", error);
-    return { success: false, error: "Failed to fetch activity logs", data: null };
+    console.error("Error creating shipment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create shipment",
+    };
   }
 }
 
-/* =============================================================================
-   Sales Reports & Analytics (Admin+ Access)
-   ============================================================================= */
-
 /**
- * Get Sales Statistics
+ * Update Shipment Status
  * 
- * Calculates revenue, order counts, and completion rates.
- * Supports filtering by time period.
+ * Moves a shipment to in transit or delivered. The order becomes
+ * "delivered" once every item has shipped and every shipment is delivered.
  * 
- * @param period - Time period: "day", "week", "month", or "all"
- * @returns Sales statistics and order data
+ * @param shipmentId - ID of shipment
+ * @param status - New shipment status
+ * @returns Result of update
  * 
- * @security Admin, Chief Admin only
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs shipment_status_updated
+ * @revalidates /admin/orders, /shop/history
  */
-export async function getSalesStats(
-  period: "day" | "week" | "month" | "all" = "all"
-) {
+export async function updateShipmentStatus(
+  shipmentId: string,
+  status: ShipmentStatus
+): Promise<AdminActionResult> {
   try {
-    const supabase = createStaticClient();
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
 
-    // Get all completed orders
-    const { data: orders, error } = await supabase
-      .from("orders")
-      .select("total_amount, status, created_at")
-      .eq("payment_status", "completed");
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
 
-    if (error) throw error;
+    const service = createServiceClient();
+    const { data: shipment } = await service
+      .from("shipments")
+      .select("id, order_id, status")
+      .eq("id", shipmentId)
+      .maybeSingle();
 
-    // Calculate statistics
-    const totalRevenue = orders?.reduce((sum, order) => sum + order.total_amount, 0) || 0;
-    const totalOrders = orders?.length || 0;
-    const completedOrders = orders?.filter((o) => o.status === "delivered").length || 0;
+    if (!shipment) {
+      return { success: false, error: "Shipment not found" };
+    }
 
-    return {
-      success: true,
-      data: {
-        totalRevenue,
-        totalOrders,
-        completedOrders,
-        orders,
+    if (!SHIPMENT_STATUS_TRANSITIONS[shipment.status as ShipmentStatus]?.includes(status)) {
+      return { success: false, error: `A ${shipment.status} shipment cannot be moved to ${status}` };
+    }
+
+    const { error } = await service.rpc("update_shipment_status", {
+      p_shipment_id: shipmentId,
+      p_status: status,
+      p_changed_by: user.id,
+    });
+
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: "shipment_status_updated",
+      resource_type: "order",
+      resource_id: shipment.order_id,
+      changes: { shipment_id: shipmentId, old_status: shipment.status, new_status: status },
+    });
+
+    revalidatePath("/admin/orders");
+    revalidatePath("/shop/history");
+    return { success: true, message: `Shipment marked ${status.replace("_", " ")}` };
+  } catch (error) {
+    console.error("Error updating shipment status:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update shipment",
+    };
+  }
+}
+
+/**
+ * Get Courier Options
+ * 
+ * Couriers that can be booked through an integration. Couriers without
+ * one are still entered by hand in the shipment form.
+ * 
+ * @returns Courier names and labels
+ * 
+ * @security Agent, Admin, Chief Admin only
+ */
+export async function getCourierOptions() {
+  if (!(await checkPermission("agent"))) {
+    return { success: false, error: "Insufficient permissions", data: [] };
+  }
+
+  const data = getEnabledCourierProviders().map((provider) => ({
+    name: provider.name,
+    label: provider.label,
+  }));
+  return { success: true, data };
+}
+
+/**
+ * Get Courier Quotes
+ * 
+ * Prices the chosen items of an order with every enabled courier,
+ * cheapest first.
+ * 
+ * @param orderId - ID of order
+ * @param items - Items and quantities to ship
+ * @returns Rate quotes
+ * 
+ * @security Agent, Admin, Chief Admin only
+ */
+export async function getCourierQuotes(
+  orderId: string,
+  items: CreateShipmentInput["items"]
+) {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions", data: null };
+    }
+
+    const lines = items.filter((item) => item.quantity > 0);
+    if (lines.length === 0) {
+      return { success: false, error: "Select at least one item to ship", data: null };
+    }
+
+    const data = await quoteShipment(orderId, lines);
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error fetching courier quotes:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch courier quotes",
+      data: null,
+    };
+  }
+}
+
+/**
+ * Refresh Shipment Tracking
+ * 
+ * Pulls the latest tracking events from the courier now, instead of
+ * waiting for the poll-courier-tracking job.
+ * 
+ * @param shipmentId - Shipment booked through a courier integration
+ * @returns Result of refresh
+ * 
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs shipment_tracking_updated when the shipment status changes
+ * @revalidates /admin/orders, /shop/history
+ */
+export async function refreshShipmentTracking(shipmentId: string): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const result = await syncShipmentTracking(shipmentId, user.id);
+
+    revalidatePath("/admin/orders");
+    revalidatePath("/shop/history");
+    return {
+      success: true,
+      message:
+        result.newEvents > 0
+          ? `${result.newEvents} new tracking update(s); shipment is ${result.status.replace("_", " ")}`
+          : "No new tracking updates",
+    };
+  } catch (error) {
+    console.error("Error refreshing shipment tracking:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to refresh tracking",
+    };
+  }
+}
+
+/**
+ * Confirm Bank Transfer
+ * 
+ * Marks a bank-transfer order as paid once the money is seen in the
+ * account. The amount received must match the order total exactly.
+ * 
+ * @param orderId - ID of order paid by transfer
+ * @param amountReceived - Amount that arrived, in naira
+ * @returns Result of confirmation
+ * 
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs manual_payment_confirmed
+ * @revalidates /admin/orders
+ */
+export async function confirmBankTransfer(
+  orderId: string,
+  amountReceived: number
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (!Number.isFinite(amountReceived) || amountReceived <= 0) {
+      return { success: false, error: "Enter the amount received" };
+    }
+
+    // Latest pending transfer attempt for this order (not readable via RLS for staff)
+    const { data: transaction } = await createServiceClient()
+      .from("payment_transactions")
+      .select("reference")
+      .eq("order_id", orderId)
+      .eq("provider", "bank_transfer")
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!transaction) {
+      return { success: false, error: "No pending bank transfer for this order" };
+    }
+
+    const result = await settleManualPayment(transaction.reference, amountReceived, user.id);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    revalidatePath("/admin/orders");
+    return { success: true, message: "Bank transfer confirmed" };
+  } catch (error) {
+    console.error("Error confirming bank transfer:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to confirm bank transfer",
+    };
+  }
+}
+
+/**
+ * Record Cash on Delivery Collection
+ * 
+ * Called by the delivering agent once a pay-on-delivery order has been
+ * paid at the door. The amount collected must match the order total exactly.
+ * 
+ * @param orderId - ID of pay-on-delivery order
+ * @param amountCollected - Amount collected, in naira
+ * @param method - Whether the customer paid in cash or by POS
+ * @returns Result of recording the collection
+ * 
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs cod_payment_collected
+ * @revalidates /admin/orders, /admin/sales-log
+ */
+export async function recordCodCollection(
+  orderId: string,
+  amountCollected: number,
+  method: CollectionMethod
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (method !== "cash" && method !== "pos") {
+      return { success: false, error: "Collection method must be cash or POS" };
+    }
+
+    if (!Number.isFinite(amountCollected) || amountCollected <= 0) {
+      return { success: false, error: "Enter the amount collected" };
+    }
+
+    const { data: transaction } = await createServiceClient()
+      .from("payment_transactions")
+      .select("reference")
+      .eq("order_id", orderId)
+      .eq("provider", "cash_on_delivery")
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!transaction) {
+      return { success: false, error: "This order is not awaiting payment on delivery" };
+    }
+
+    const result = await settleManualPayment(transaction.reference, amountCollected, user.id, method);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    revalidatePath("/admin/orders");
+    revalidatePath("/admin/sales-log");
+    return { success: true, message: `Collection of ₦${amountCollected.toLocaleString()} recorded` };
+  } catch (error) {
+    console.error("Error recording collection:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to record collection",
+    };
+  }
+}
+
+/**
+ * Verify Pickup Code
+ * 
+ * Hands a store pickup order to the customer once the code they show
+ * matches the one on the order. The order must be confirmed and paid, so
+ * record any pay-on-collection payment first. The order becomes delivered.
+ * 
+ * @param orderId - ID of pickup order
+ * @param pickupCode - Code shown by the customer
+ * @returns Result of verification
+ * 
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs order_picked_up
+ * @revalidates /admin/orders
+ */
+export async function verifyPickupCode(
+  orderId: string,
+  pickupCode: string
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (!pickupCode.trim()) {
+      return { success: false, error: "Enter the customer's pickup code" };
+    }
+
+    // Checks the order and code under a row lock and records the status change
+    const { data: order, error } = await createServiceClient().rpc("collect_pickup_order", {
+      p_order_id: orderId,
+      p_pickup_code: pickupCode,
+      p_collected_by: user.id,
+    });
+
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: "order_picked_up",
+      resource_type: "order",
+      resource_id: orderId,
+      changes: {
+        pickup_point_id: order.pickup_point_id,
+        old_status: "confirmed",
+        new_status: "delivered",
       },
+    });
+
+    revalidatePath("/admin/orders");
+    return { success: true, message: `Order ${order.order_number} collected` };
+  } catch (error) {
+    console.error("Error verifying pickup code:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to verify pickup code",
+    };
+  }
+}
+
+/**
+ * Refund Order
+ * 
+ * Issues a whole-order or line-item refund, either through the payment
+ * provider that took the money or recorded as returned manually.
+ * The order's payment status becomes partially_refunded or refunded.
+ * 
+ * @param input - Order, optional line items, reason and refund method
+ * @returns Result of refund
+ * 
+ * @security Admin, Chief Admin only
+ * @audit Logs refund_issued / refund_failed
+ * @revalidates /admin/orders, /admin/sales-log, /shop/history
+ */
+export async function refundOrder(input: IssueRefundInput): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Only admins can issue refunds" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (input.method !== "provider" && input.method !== "manual") {
+      return { success: false, error: "Invalid refund method" };
+    }
+
+    const items = input.items?.filter((item) => item.quantity > 0);
+    if (input.items && (!items || items.length === 0)) {
+      return { success: false, error: "Select at least one item to refund" };
+    }
+
+    const result = await issueRefund({ ...input, items }, user.id);
+
+    revalidatePath("/admin/orders");
+    revalidatePath("/admin/sales-log");
+    revalidatePath("/shop/history");
+
+    if (!result.success || !result.refund) {
+      return { success: false, error: result.error || "Refund failed" };
+    }
+
+    return {
+      success: true,
+      message:
+        result.refund.status === "pending"
+          ? `Refund of ₦${Number(result.refund.amount).toLocaleString()} submitted to the payment provider`
+          : `Refunded ₦${Number(result.refund.amount).toLocaleString()}`,
     };
   } catch (error) {
-    console.error("Error fetching sales stats:", error);
-    return { success: false, error: "Failed to fetch sales statistics", data: null };
+    console.error("Error refunding order:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to refund order",
+    };
+  }
+}
+
+/* =============================================================================
+   Returns (Agent+ Access)
+   ============================================================================= */
+
+/**
+ * Get Return Requests
+ * 
+ * Retrieves the returns queue with order and customer details,
+ * newest first.
+ * 
+ * @returns List of return requests
+ * 
+ * @security Agent, Admin, Chief Admin only
+ */
+export async function getReturnRequests() {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions", data: null };
+    }
+
+    // Return requests are only readable by their customer under RLS
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from("return_requests")
+      .select(`
+        *,
+        orders (order_number, total_amount, payment_status, refunded_amount),
+        profiles!return_requests_user_id_fkey (email, full_name)
+      `)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error fetching return requests:", error);
+    return { success: false, error: "Failed to fetch return requests", data: null };
+  }
+}
+
+/**
+ * Review Return Request
+ * 
+ * Approves or rejects a customer's return request. Rejections need a
+ * note, which the customer sees.
+ * 
+ * @param returnId - ID of return request
+ * @param decision - "approved" or "rejected"
+ * @param note - Message for the customer
+ * @returns Result of review
+ * 
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs return_approved / return_rejected
+ * @revalidates /admin/returns, /shop/history
+ */
+export async function reviewReturnRequest(
+  returnId: string,
+  decision: "approved" | "rejected",
+  note?: string
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (decision !== "approved" && decision !== "rejected") {
+      return { success: false, error: "Invalid decision" };
+    }
+
+    if (decision === "rejected" && !note?.trim()) {
+      return { success: false, error: "Please give the customer a reason for rejecting" };
+    }
+
+    const { data: request, error } = await createServiceClient()
+      .from("return_requests")
+      .update({
+        status: decision,
+        admin_note: note?.trim() || null,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", returnId)
+      .eq("status", "requested")
+      .select("id, order_id")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!request) {
+      return { success: false, error: "This return has already been reviewed" };
+    }
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: decision === "approved" ? "return_approved" : "return_rejected",
+      resource_type: "order",
+      resource_id: request.order_id,
+      changes: { return_id: returnId, note: note?.trim() || null },
+    });
+
+    revalidatePath("/admin/returns");
+    revalidatePath("/shop/history");
+    return { success: true, message: `Return ${decision}` };
+  } catch (error) {
+    console.error("Error reviewing return request:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to review return request",
+    };
+  }
+}
+
+/**
+ * Receive Returned Goods
+ * 
+ * Records an approved return as received and moves the order to
+ * "returned". Restocking adds the returned quantities back to
+ * stock_quantity; leave it off for damaged goods.
+ * 
+ * @param returnId - ID of return request
+ * @param restock - Whether to put the items back in stock
+ * @returns Result of receipt
+ * 
+ * @security Agent, Admin, Chief Admin only
+ * @audit Logs return_received
+ * @revalidates /admin/returns, /admin/orders, /shop/history
+ */
+export async function receiveReturn(
+  returnId: string,
+  restock: boolean
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("agent"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const service = createServiceClient();
+    const { data: request } = await service
+      .from("return_requests")
+      .select("id, reason, orders (status, payment_status)")
+      .eq("id", returnId)
+      .maybeSingle();
+
+    const order = request?.orders as unknown as Pick<Order, "status" | "payment_status"> | null;
+    if (!request || !order) {
+      return { success: false, error: "Return request not found" };
+    }
+
+    const invalid = validateStatusTransition(order, "returned", { note: request.reason });
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const { data: received, error } = await service.rpc("receive_return", {
+      p_return_id: returnId,
+      p_restock: restock,
+      p_received_by: user.id,
+    });
+
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: "return_received",
+      resource_type: "order",
+      resource_id: received.order_id,
+      changes: { return_id: returnId, restocked: restock, items: received.items },
+    });
+
+    revalidatePath("/admin/returns");
+    revalidatePath("/admin/orders");
+    revalidatePath("/shop/history");
+    return {
+      success: true,
+      message: restock ? "Return received and items restocked" : "Return received",
+    };
+  } catch (error) {
+    console.error("Error receiving return:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to receive return",
+    };
+  }
+}
+
+/**
+ * Refund Return
+ * 
+ * Refunds the returned line items once the goods are back.
+ * 
+ * @param returnId - ID of received return request
+ * @param method - Refund through the payment provider or record a manual refund
+ * @returns Result of refund
+ * 
+ * @security Admin, Chief Admin only
+ * @audit Logs refund_issued / refund_failed
+ * @revalidates /admin/returns, /admin/orders, /admin/sales-log, /shop/history
+ */
+export async function refundReturn(
+  returnId: string,
+  method: RefundMethod
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Only admins can issue refunds" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (method !== "provider" && method !== "manual") {
+      return { success: false, error: "Invalid refund method" };
+    }
+
+    const service = createServiceClient();
+    const { data: request } = await service
+      .from("return_requests")
+      .select("*")
+      .eq("id", returnId)
+      .maybeSingle();
+
+    if (!request) {
+      return { success: false, error: "Return request not found" };
+    }
+
+    if (request.status !== "received") {
+      return { success: false, error: "Receive the returned goods before refunding" };
+    }
+
+    const result = await issueRefund(
+      {
+        orderId: request.order_id,
+        items: (request.items as ReturnRequestLine[]).map((line) => ({
+          order_item_id: line.order_item_id,
+          quantity: line.quantity,
+        })),
+        reason: `Return: ${request.reason}`,
+        method,
+      },
+      user.id
+    );
+
+    revalidatePath("/admin/returns");
+    revalidatePath("/admin/orders");
+    revalidatePath("/admin/sales-log");
+    revalidatePath("/shop/history");
+
+    if (!result.success || !result.refund) {
+      return { success: false, error: result.error || "Refund failed" };
+    }
+
+    await service
+      .from("return_requests")
+      .update({
+        status: "refunded",
+        refund_id: result.refund.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", returnId);
+
+    return {
+      success: true,
+      message: `Refunded ₦${Number(result.refund.amount).toLocaleString()} for this return`,
+    };
+  } catch (error) {
+    console.error("Error refunding return:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to refund return",
+    };
+  }
+}
+
+/* =============================================================================
+   Activity Logs & Audit Trail (Admin+ Access)
+   ============================================================================= */
+
+/**
+ * Get Activity Logs
+ * 
+ * Retrieves admin activity logs for audit and accountability.
+ * Includes admin details and changes made.
+ * 
+ * @param limit - Maximum number of logs to retrieve (default: 100)
+ * @returns List of activity logs with admin details
+ * 
+ * @security Admin, Chief Admin only
+ */
+export async function getActivityLogs(limit: number = 100) {
+  try {
+    const supabase = createStaticClient();
+    const { data, error } = await supabase
+      .from("admin_activity_logs")
+      .select(`
+        *,
+        admin_staff (
+          profile_id,
+          position
+        ),
+        profiles (
+          email,
+          full_name
+        )
+      `)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error fetching activity logs:", error);
+    return { success: false, error: "Failed to fetch activity logs", data: null };
+  }
+}
+
+/* =============================================================================
+   Sales Reports & Analytics (Admin+ Access)
+   ============================================================================= */
+
+/**
+ * Get Sales Statistics
+ * 
+ * Calculates revenue (net of refunds), order counts, and completion rates,
+ * plus revenue by payment method and pay-on-delivery money still to be
+ * collected.
+ * Supports filtering by time period.
+ * 
+ * @param period - Time period: "day", "week", "month", or "all"
+ * @returns Sales statistics and order data
+ * 
+ * @security Admin, Chief Admin only
+ */
+export async function getSalesStats(
+  period: "day" | "week" | "month" | "all" = "all"
+) {
+  try {
+    const supabase = createStaticClient();
+
+    // Get all paid orders, including those refunded since
+    const { data: orders, error } = await supabase
+      .from("orders")
+      .select("total_amount, refunded_amount, status, created_at, payment_provider, collection_method")
+      .in("payment_status", ["completed", "partially_refunded", "refunded"]);
+
+    if (error) throw error;
+
+    // Pay-on-delivery orders not yet collected
+    const { data: awaitingCollection, error: awaitingError } = await supabase
+      .from("orders")
+      .select("total_amount")
+      .eq("payment_status", "pay_on_delivery");
+
+    if (awaitingError) throw awaitingError;
+
+    // Calculate statistics
+    // Revenue is net of refunds
+    const totalRefunded = orders?.reduce((sum, order) => sum + Number(order.refunded_amount || 0), 0) || 0;
+    const totalRevenue =
+      (orders?.reduce((sum, order) => sum + order.total_amount, 0) || 0) - totalRefunded;
+    const totalOrders = orders?.length || 0;
+    const completedOrders = orders?.filter((o) => o.status === "delivered").length || 0;
+
+    // Revenue by how it was paid; cash on delivery is split into cash and POS
+    const paymentMethods: Record<string, { orders: number; revenue: number }> = {};
+    orders?.forEach((order) => {
+      const method = order.collection_method
+        ? `cod_${order.collection_method}`
+        : order.payment_provider || "unknown";
+      paymentMethods[method] = paymentMethods[method] || { orders: 0, revenue: 0 };
+      paymentMethods[method].orders += 1;
+      paymentMethods[method].revenue += order.total_amount - Number(order.refunded_amount || 0);
+    });
+
+    const pendingCollection = {
+      orders: awaitingCollection?.length || 0,
+      amount: awaitingCollection?.reduce((sum, order) => sum + order.total_amount, 0) || 0,
+    };
+
+    return {
+      success: true,
+      data: {
+        totalRevenue,
+        totalRefunded,
+        totalOrders,
+        completedOrders,
+        paymentMethods,
+        pendingCollection,
+        orders,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching sales stats:", error);
+    return { success: false, error: "Failed to fetch sales statistics", data: null };
+  }
+}
+
+/* =============================================================================
+   Abandoned Carts (Admin+ Access)
+   ============================================================================= */
+
+/**
+ * Get Abandoned Cart Report
+ * 
+ * Abandonment and recovery for carts detected in the last `days` days.
+ * The abandonment rate compares abandoned carts with orders placed by
+ * signed-in customers over the same period, since guest carts are never
+ * seen by the server.
+ * 
+ * @param days - Reporting period in days (default: 30)
+ * @returns Totals, top abandoned products and recent carts
+ * 
+ * @security Admin, Chief Admin only
+ */
+export async function getAbandonedCartReport(days: number = 30): Promise<{
+  success: boolean;
+  error?: string;
+  data: AbandonedCartReport | null;
+}> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions", data: null };
+    }
+
+    // abandoned_carts is service-role only
+    const supabase = createServiceClient();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const [carts, orders] = await Promise.all([
+      supabase
+        .from("abandoned_carts")
+        .select("*, profiles (email, full_name), coupons (code, redeemed_at)")
+        .gte("detected_at", since)
+        .order("detected_at", { ascending: false }),
+      supabase
+        .from("orders")
+        .select("id", { count: "exact", head: true })
+        .not("user_id", "is", null)
+        .neq("status", "cancelled")
+        .gte("created_at", since),
+    ]);
+
+    if (carts.error) throw carts.error;
+    if (orders.error) throw orders.error;
+
+    const rows = (carts.data || []) as (AbandonedCart & {
+      profiles: { email: string; full_name: string | null } | null;
+      coupons: { code: string; redeemed_at: string | null } | null;
+    })[];
+    const abandoned = rows.length;
+    const notified = rows.filter((cart) => cart.notified_at).length;
+    const recovered = rows.filter((cart) => cart.status === "recovered");
+
+    // Products by how many abandoned carts held them
+    const products = new Map<string, AbandonedCartReport["topProducts"][number]>();
+    for (const cart of rows) {
+      for (const item of cart.items) {
+        const entry = products.get(item.product_id) || {
+          product_id: item.product_id,
+          product_name: item.product_name,
+          carts: 0,
+          quantity: 0,
+          value: 0,
+        };
+        entry.carts += 1;
+        entry.quantity += item.quantity;
+        entry.value += Number(item.unit_price) * item.quantity;
+        products.set(item.product_id, entry);
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        days,
+        abandoned,
+        abandonedValue: rows.reduce((sum, cart) => sum + Number(cart.cart_value), 0),
+        abandonmentRate: abandoned + (orders.count || 0) > 0
+          ? abandoned / (abandoned + (orders.count || 0))
+          : 0,
+        notified,
+        recovered: recovered.length,
+        recoveryRate: notified > 0 ? recovered.length / notified : 0,
+        recoveredRevenue: recovered.reduce((sum, cart) => sum + Number(cart.recovered_revenue || 0), 0),
+        couponsIssued: rows.filter((cart) => cart.coupon_id).length,
+        couponsRedeemed: rows.filter((cart) => cart.coupons?.redeemed_at).length,
+        topProducts: [...products.values()]
+          .sort((a, b) => b.carts - a.carts || b.value - a.value)
+          .slice(0, 10),
+        recentCarts: rows.slice(0, 50).map(({ coupons, ...cart }) => ({
+          ...cart,
+          coupon_code: coupons?.code || null,
+        })),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching abandoned cart report:", error);
+    return { success: false, error: "Failed to fetch abandoned cart report", data: null };
+  }
+}
+
+/* =============================================================================
+   Shipping Zones (Admin+ Access)
+   ============================================================================= */
+
+/**
+ * Get Shipping Zones
+ * 
+ * Retrieves every shipping zone, including inactive ones.
+ * 
+ * @returns List of shipping zones
+ * 
+ * @security Admin, Chief Admin only
+ */
+export async function getShippingZones() {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions", data: null };
+    }
+
+    // Inactive zones are hidden from everyone else under RLS
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from("shipping_zones")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error fetching shipping zones:", error);
+    return { success: false, error: "Failed to fetch shipping zones", data: null };
+  }
+}
+
+/**
+ * Save Shipping Zone
+ * 
+ * Creates a zone, or updates one when zoneId is given. New rates apply
+ * to checkouts from now on; placed orders keep the fee they were quoted.
+ * 
+ * @param zoneId - ID of zone to update, or null to create
+ * @param input - States, LGAs, rate table, free shipping threshold and delivery estimate
+ * @returns Result of save
+ * 
+ * @security Admin, Chief Admin only
+ * @audit Logs shipping_zone_created / shipping_zone_updated
+ * @revalidates /admin/shipping
+ */
+export async function saveShippingZone(
+  zoneId: string | null,
+  input: ShippingZoneInput
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const zone: ShippingZoneInput = {
+      ...input,
+      name: input.name.trim(),
+      states: input.states.filter(isNigerianState),
+      lgas: input.lgas.map((lga) => lga.trim()).filter(Boolean),
+      rate_table: sortRateTiers(input.rate_table),
+    };
+
+    const invalid = validateShippingZone(zone);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const service = createServiceClient();
+    const { data: saved, error } = zoneId
+      ? await service
+          .from("shipping_zones")
+          .update({ ...zone, updated_at: new Date().toISOString() })
+          .eq("id", zoneId)
+          .select("id")
+          .single()
+      : await service.from("shipping_zones").insert(zone).select("id").single();
+
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: zoneId ? "shipping_zone_updated" : "shipping_zone_created",
+      resource_type: "shipping_zone",
+      resource_id: saved.id,
+      changes: zone,
+    });
+
+    revalidatePath("/admin/shipping");
+    return { success: true, message: `Shipping zone "${zone.name}" saved` };
+  } catch (error) {
+    console.error("Error saving shipping zone:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save shipping zone",
+    };
+  }
+}
+
+/**
+ * Toggle Shipping Zone
+ * 
+ * Activates or deactivates a zone. Checkout stops offering delivery to
+ * places only an inactive zone covers.
+ * 
+ * @param zoneId - ID of zone to toggle
+ * @returns Result of toggle operation
+ * 
+ * @security Admin, Chief Admin only
+ * @audit Logs shipping_zone_toggled
+ * @revalidates /admin/shipping
+ */
+export async function toggleShippingZone(zoneId: string): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const service = createServiceClient();
+    const { data: zone } = await service
+      .from("shipping_zones")
+      .select("name, is_active")
+      .eq("id", zoneId)
+      .maybeSingle();
+
+    if (!zone) {
+      return { success: false, error: "Shipping zone not found" };
+    }
+
+    const { error } = await service
+      .from("shipping_zones")
+      .update({ is_active: !zone.is_active, updated_at: new Date().toISOString() })
+      .eq("id", zoneId);
+
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: "shipping_zone_toggled",
+      resource_type: "shipping_zone",
+      resource_id: zoneId,
+      changes: { is_active: !zone.is_active },
+    });
+
+    revalidatePath("/admin/shipping");
+    return {
+      success: true,
+      message: `"${zone.name}" ${zone.is_active ? "deactivated" : "activated"}`,
+    };
+  } catch (error) {
+    console.error("Error toggling shipping zone:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update shipping zone",
+    };
+  }
+}
+
+/* =============================================================================
+   Pickup Points (Admin+ Access)
+   ============================================================================= */
+
+/**
+ * Get Pickup Points
+ * 
+ * Retrieves every store pickup point, including inactive ones.
+ * 
+ * @returns List of pickup points
+ * 
+ * @security Admin, Chief Admin only
+ */
+export async function getPickupPoints() {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions", data: null };
+    }
+
+    // Inactive points are hidden from everyone else under RLS
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from("pickup_points")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error fetching pickup points:", error);
+    return { success: false, error: "Failed to fetch pickup points", data: null };
+  }
+}
+
+/**
+ * Save Pickup Point
+ * 
+ * Creates a pickup point, or updates one when pickupPointId is given.
+ * Orders already placed keep the pickup address they were given.
+ * 
+ * @param pickupPointId - ID of pickup point to update, or null to create
+ * @param input - Name, address, contact phone and opening hours
+ * @returns Result of save
+ * 
+ * @security Admin, Chief Admin only
+ * @audit Logs pickup_point_created / pickup_point_updated
+ * @revalidates /admin/pickup-points
+ */
+export async function savePickupPoint(
+  pickupPointId: string | null,
+  input: PickupPointInput
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const point: PickupPointInput = {
+      name: input.name.trim(),
+      address: input.address.trim(),
+      city: input.city.trim(),
+      state: input.state,
+      phone: input.phone?.trim() || null,
+      opening_hours: input.opening_hours?.trim() || null,
+      is_active: input.is_active,
+    };
+
+    if (!point.name || !point.address || !point.city) {
+      return { success: false, error: "Name, address and city are required" };
+    }
+    if (!isNigerianState(point.state)) {
+      return { success: false, error: "Choose a state" };
+    }
+
+    const service = createServiceClient();
+    const { data: saved, error } = pickupPointId
+      ? await service
+          .from("pickup_points")
+          .update({ ...point, updated_at: new Date().toISOString() })
+          .eq("id", pickupPointId)
+          .select("id")
+          .single()
+      : await service.from("pickup_points").insert(point).select("id").single();
+
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: pickupPointId ? "pickup_point_updated" : "pickup_point_created",
+      resource_type: "pickup_point",
+      resource_id: saved.id,
+      changes: point,
+    });
+
+    revalidatePath("/admin/pickup-points");
+    return { success: true, message: `Pickup point "${point.name}" saved` };
+  } catch (error) {
+    console.error("Error saving pickup point:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save pickup point",
+    };
+  }
+}
+
+/**
+ * Toggle Pickup Point
+ * 
+ * Activates or deactivates a pickup point. Checkout stops offering an
+ * inactive point; orders already placed for it can still be collected.
+ * 
+ * @param pickupPointId - ID of pickup point to toggle
+ * @returns Result of toggle operation
+ * 
+ * @security Admin, Chief Admin only
+ * @audit Logs pickup_point_toggled
+ * @revalidates /admin/pickup-points
+ */
+export async function togglePickupPoint(pickupPointId: string): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const service = createServiceClient();
+    const { data: point } = await service
+      .from("pickup_points")
+      .select("name, is_active")
+      .eq("id", pickupPointId)
+      .maybeSingle();
+
+    if (!point) {
+      return { success: false, error: "Pickup point not found" };
+    }
+
+    const { error } = await service
+      .from("pickup_points")
+      .update({ is_active: !point.is_active, updated_at: new Date().toISOString() })
+      .eq("id", pickupPointId);
+
+    if (error) throw error;
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: user.id,
+      action: "pickup_point_toggled",
+      resource_type: "pickup_point",
+      resource_id: pickupPointId,
+      changes: { is_active: !point.is_active },
+    });
+
+    revalidatePath("/admin/pickup-points");
+    return {
+      success: true,
+      message: `"${point.name}" ${point.is_active ? "deactivated" : "activated"}`,
+    };
+  } catch (error) {
+    console.error("Error toggling pickup point:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update pickup point",
+    };
+  }
+}
+
+/* =============================================================================
+   Payment Reconciliation (Admin+ Access)
+   ============================================================================= */
+
+/**
+ * Run Payment Reconciliation
+ * 
+ * Compares orders with each payment provider's transaction list for a
+ * date range and records any discrepancies.
+ * 
+ * @param from - Start of range (ISO date)
+ * @param to - End of range (ISO date)
+ * @returns Result with number of new discrepancies
+ * 
+ * @security Admin, Chief Admin only
+ * @audit Logs payment_reconciliation_run
+ * @revalidates /admin/reconciliation
+ */
+export async function runPaymentReconciliation(
+  from: string,
+  to: string
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const range = { from: new Date(from), to: new Date(to) };
+    if (isNaN(range.from.getTime()) || isNaN(range.to.getTime()) || range.from >= range.to) {
+      return { success: false, error: "Choose a valid date range" };
+    }
+
+    const result = await runReconciliation(range, user.id);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    revalidatePath("/admin/reconciliation");
+    return {
+      success: true,
+      message: result.mismatches
+        ? `Reconciliation found ${result.mismatches} new discrepancies`
+        : "Reconciliation complete - no new discrepancies",
+    };
+  } catch (error) {
+    console.error("Error running reconciliation:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to run reconciliation",
+    };
+  }
+}
+
+/**
+ * Get Reconciliation Report
+ * 
+ * Retrieves recent reconciliation runs and discrepancies, open first.
+ * 
+ * @returns Recent runs and discrepancies with their orders
+ * 
+ * @security Admin, Chief Admin only
+ */
+export async function getReconciliationReport() {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions", data: null };
+    }
+
+    // Reconciliation tables are service-role only
+    const supabase = createServiceClient();
+
+    const [runs, items] = await Promise.all([
+      supabase
+        .from("reconciliation_runs")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(10),
+      supabase
+        .from("reconciliation_items")
+        .select("*, orders (order_number, payment_status, status)")
+        .order("status", { ascending: true })
+        .order("created_at", { ascending: false })
+        .limit(200),
+    ]);
+
+    if (runs.error) throw runs.error;
+    if (items.error) throw items.error;
+
+    return { success: true, data: { runs: runs.data, items: items.data } };
+  } catch (error) {
+    console.error("Error fetching reconciliation report:", error);
+    return { success: false, error: "Failed to fetch reconciliation report", data: null };
+  }
+}
+
+/**
+ * Resolve Reconciliation Discrepancy
+ * 
+ * "settle" re-verifies the payment and marks the order paid;
+ * "acknowledge" records that staff fixed it by hand.
+ * 
+ * @param itemId - ID of discrepancy
+ * @param resolution - "settle" or "acknowledge"
+ * @param note - Optional explanation
+ * @returns Result of resolution
+ * 
+ * @security Admin, Chief Admin only
+ * @audit Logs reconciliation_resolved
+ * @revalidates /admin/reconciliation, /admin/orders
+ */
+export async function resolveReconciliation(
+  itemId: string,
+  resolution: ReconciliationResolution,
+  note?: string
+): Promise<AdminActionResult> {
+  try {
+    if (!(await checkPermission("admin"))) {
+      return { success: false, error: "Insufficient permissions" };
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (resolution !== "settle" && resolution !== "acknowledge") {
+      return { success: false, error: "Invalid resolution" };
+    }
+
+    const result = await resolveReconciliationItem(itemId, resolution, user.id, note);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    revalidatePath("/admin/reconciliation");
+    revalidatePath("/admin/orders");
+    return {
+      success: true,
+      message: resolution === "settle" ? "Payment settled and order marked paid" : "Discrepancy resolved",
+    };
+  } catch (error) {
+    console.error("Error resolving reconciliation item:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to resolve discrepancy",
+    };
   }
 }
 
@@ -78,7 +78,7 @@ export default function AuditLogPage() {
                       <div className="flex items-center gap-2">
                         <FileText size={16} className="text-gray-400" />
                         <span className="text-sm text-gray-900">
-                          {log.profiles?.email || `Admin ${log.admin_id.slice(0, 8)}`}
+                          {log.profiles?.email || (log.admin_id ? `Admin ${log.admin_id.slice(0, 8)}` : "System")}
                         </span>
                       </div>
                     </td>
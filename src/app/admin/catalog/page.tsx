@@ -1,7 +1,9 @@
 /**
  * Products Catalog Page
  *
- * Admin can create, edit, delete, and manage products.
+ * Admin can create, edit, delete, and manage products, set up a product's
+ * variants (shade, size, scent, ...) in a matrix with one row per
+ * combination sold, and build bundles (gift sets, kits) from other products.
  * Access: Admin, Chief Admin, Agent
  */
 
@@ -9,9 +11,47 @@
 
 import { useState, useEffect, useActionState } from "react";
 import { getProducts } from "@/utils/supabase/services";
-import { createProduct, updateProduct, deleteProduct, toggleProductStatus, checkPermission, uploadProductMedia } from "../action";
-import { Package, Plus, Edit, Trash2, ToggleLeft, Image as ImageIcon, X, Upload, FileVideo } from "lucide-react";
-import type { Product } from "@/types";
+import {
+  createProduct,
+  updateProduct,
+  deleteProduct,
+  toggleProductStatus,
+  checkPermission,
+  uploadProductMedia,
+  getProductVariants,
+  saveProductVariants,
+  getProductBundleItems,
+  saveProductBundle,
+} from "../action";
+import { Package, Plus, Edit, Trash2, ToggleLeft, Image as ImageIcon, X, Upload, FileVideo, Layers, Gift } from "lucide-react";
+import { getBundleSets } from "@/utils/products/bundles";
+import {
+  buildVariantCombinations,
+  getVariantName,
+  isSameSelection,
+  type VariantSelection,
+} from "@/utils/products/variants";
+import type { Product, ProductBundleItemInput, ProductOptionType, ProductVariantInput } from "@/types";
+
+// One row of the variant matrix, with numbers kept as typed
+interface VariantRow {
+  id?: string;
+  options: VariantSelection;
+  sku: string;
+  price: string;
+  discount_price: string;
+  stock_quantity: string;
+  images: string;
+  is_active: boolean;
+}
+
+// Option values are edited as a comma-separated list
+function parseOptionTypes(types: Array<{ name: string; values: string }>): ProductOptionType[] {
+  return types.map((type) => ({
+    name: type.name.trim(),
+    values: type.values.split(",").map((value) => value.trim()).filter(Boolean),
+  }));
+}
 
 export default function ProductsCatalogPage() {
   const [hasAccess, setHasAccess] = useState(false);
@@ -40,6 +80,17 @@ export default function ProductsCatalogPage() {
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [uploading, setUploading] = useState(false);
 
+  // Variant matrix state
+  const [variantProduct, setVariantProduct] = useState<Product | null>(null);
+  const [optionTypes, setOptionTypes] = useState<Array<{ name: string; values: string }>>([]);
+  const [variantRows, setVariantRows] = useState<VariantRow[]>([]);
+  const [variantsLoading, setVariantsLoading] = useState(false);
+
+  // Bundle builder state
+  const [bundleProduct, setBundleProduct] = useState<Product | null>(null);
+  const [bundleRows, setBundleRows] = useState<ProductBundleItemInput[]>([]);
+  const [bundleLoading, setBundleLoading] = useState(false);
+
   useEffect(() => {
     checkPermissions();
     loadProducts();
@@ -131,7 +182,13 @@ export default function ProductsCatalogPage() {
 
       let result;
       if (editingProduct) {
-        result = await updateProduct(editingProduct.id, productData);
+        // Stock of a product with variants or a bundle is worked out from its parts
+        result = await updateProduct(
+          editingProduct.id,
+          editingProduct.has_variants || editingProduct.is_bundle
+            ? { ...productData, stock_quantity: undefined }
+            : productData,
+        );
       } else {
         result = await createProduct(productData);
       }
@@ -173,6 +230,121 @@ export default function ProductsCatalogPage() {
     setTimeout(() => setMessage(null), 3000);
   }
 
+  async function handleOpenVariants(product: Product) {
+    setVariantProduct(product);
+    setOptionTypes(
+      (product.variant_options || []).map((type) => ({ name: type.name, values: type.values.join(", ") })),
+    );
+    setVariantRows([]);
+    setVariantsLoading(true);
+
+    const result = await getProductVariants(product.id);
+    setVariantRows(
+      (result.data || []).map((variant) => ({
+        id: variant.id,
+        options: variant.options,
+        sku: variant.sku || "",
+        price: variant.price.toString(),
+        discount_price: variant.discount_price?.toString() || "",
+        stock_quantity: variant.stock_quantity.toString(),
+        images: variant.images.join(", "),
+        is_active: variant.is_active,
+      })),
+    );
+    setVariantsLoading(false);
+  }
+
+  function handleOptionTypeChange(index: number, field: "name" | "values", value: string) {
+    setOptionTypes((prev) => prev.map((type, i) => (i === index ? { ...type, [field]: value } : type)));
+  }
+
+  // One row per combination; rows already in the matrix keep their details
+  function handleBuildMatrix() {
+    if (!variantProduct) return;
+    const types = parseOptionTypes(optionTypes);
+
+    setVariantRows((prev) =>
+      buildVariantCombinations(types).map(
+        (options) =>
+          prev.find((row) => isSameSelection(types, row.options, options)) || {
+            options,
+            sku: "",
+            price: variantProduct.price.toString(),
+            discount_price: variantProduct.discount_price?.toString() || "",
+            stock_quantity: "0",
+            images: "",
+            is_active: true,
+          },
+      ),
+    );
+  }
+
+  function handleVariantRowChange(index: number, updates: Partial<VariantRow>) {
+    setVariantRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  }
+
+  async function handleSaveVariants() {
+    if (!variantProduct) return;
+    setActionLoading("variants");
+
+    const types = parseOptionTypes(optionTypes);
+    const variants: ProductVariantInput[] = variantRows.map((row, index) => ({
+      id: row.id,
+      name: getVariantName(types, row.options),
+      options: row.options,
+      sku: row.sku.trim() || null,
+      price: parseFloat(row.price),
+      discount_price: row.discount_price ? parseFloat(row.discount_price) : null,
+      stock_quantity: parseInt(row.stock_quantity),
+      images: row.images.split(",").map((url) => url.trim()).filter(Boolean),
+      is_active: row.is_active,
+      position: index,
+    }));
+
+    const result = await saveProductVariants(variantProduct.id, types, variants);
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) {
+      setVariantProduct(null);
+      loadProducts();
+    }
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  async function handleOpenBundle(product: Product) {
+    setBundleProduct(product);
+    setBundleRows([]);
+    setBundleLoading(true);
+
+    const result = await getProductBundleItems(product.id);
+    setBundleRows(
+      (result.data || []).map((item) => ({
+        component_product_id: item.component_product_id,
+        component_variant_id: item.component_variant_id,
+        quantity: item.quantity,
+      })),
+    );
+    setBundleLoading(false);
+  }
+
+  function handleBundleRowChange(index: number, updates: Partial<ProductBundleItemInput>) {
+    setBundleRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  }
+
+  async function handleSaveBundle() {
+    if (!bundleProduct) return;
+    setActionLoading("bundle");
+
+    const result = await saveProductBundle(bundleProduct.id, bundleRows);
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) {
+      setBundleProduct(null);
+      loadProducts();
+    }
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
   function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
     const files = Array.from(e.target.files || []);
     if (files.length > 0) {
@@ -264,7 +436,13 @@ export default function ProductsCatalogPage() {
                         <div className="text-xs text-gray-500 line-through">₦{product.price.toLocaleString()}</div>
                       )}
                     </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">{product.stock_quantity}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {product.stock_quantity}
+                      {product.has_variants && (
+                        <p className="text-xs text-gray-500">{product.variants?.length || 0} variants</p>
+                      )}
+                      {product.is_bundle && <p className="text-xs text-gray-500">sets (bundle)</p>}
+                    </td>
                     <td className="px-6 py-4">
                       <span className={`px-2 py-1 rounded-full text-xs ${product.is_active ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
                         {product.is_active ? "Active" : "Inactive"}
@@ -279,6 +457,24 @@ export default function ProductsCatalogPage() {
                         >
                           <Edit size={18} />
                         </button>
+                        {!product.is_bundle && (
+                          <button
+                            onClick={() => handleOpenVariants(product)}
+                            className="text-purple-600 hover:text-purple-900"
+                            title="Variants"
+                          >
+                            <Layers size={18} />
+                          </button>
+                        )}
+                        {!product.has_variants && (
+                          <button
+                            onClick={() => handleOpenBundle(product)}
+                            className="text-radiance-goldColor hover:text-radiance-charcoalTextColor"
+                            title="Bundle"
+                          >
+                            <Gift size={18} />
+                          </button>
+                        )}
                         <button
                           onClick={() => handleToggleStatus(product.id)}
                           disabled={actionLoading === product.id}
@@ -400,9 +596,16 @@ export default function ProductsCatalogPage() {
                     type="number"
                     value={formData.stock_quantity}
                     onChange={(e) => setFormData({ ...formData, stock_quantity: e.target.value })}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-radiance-goldColor focus:border-transparent disabled:bg-gray-100"
+                    disabled={!!editingProduct?.has_variants || !!editingProduct?.is_bundle}
                     required
                   />
+                  {editingProduct?.has_variants && (
+                    <p className="text-xs text-gray-500 mt-1">Sum of variant stock</p>
+                  )}
+                  {editingProduct?.is_bundle && (
+                    <p className="text-xs text-gray-500 mt-1">Sets the components can make</p>
+                  )}
                 </div>
               </div>
 
@@ -513,6 +716,295 @@ export default function ProductsCatalogPage() {
           </div>
         </div>
       )}
+
+      {/* Modal for Variants */}
+      {variantProduct && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-2xl font-bold">Variants</h2>
+                <p className="text-sm text-gray-600">{variantProduct.name}</p>
+              </div>
+              <button onClick={() => setVariantProduct(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <Plus size={24} className="rotate-45" />
+              </button>
+            </div>
+
+            {/* Option Types */}
+            <div className="space-y-3">
+              <h3 className="font-bold text-gray-900">Options</h3>
+              {optionTypes.map((type, index) => (
+                <div key={index} className="flex gap-3">
+                  <input
+                    type="text"
+                    placeholder="Option, e.g. Shade"
+                    value={type.name}
+                    onChange={(e) => handleOptionTypeChange(index, "name", e.target.value)}
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Values, comma separated, e.g. Ruby, Nude, Coral"
+                    value={type.values}
+                    onChange={(e) => handleOptionTypeChange(index, "values", e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setOptionTypes((prev) => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setOptionTypes((prev) => [...prev, { name: "", values: "" }])}
+                  className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50"
+                >
+                  <Plus size={14} /> Add option
+                </button>
+                <button
+                  type="button"
+                  onClick={handleBuildMatrix}
+                  disabled={variantsLoading}
+                  className="px-3 py-2 bg-radiance-charcoalTextColor text-white rounded-lg text-sm font-medium hover:bg-radiance-goldColor disabled:opacity-50"
+                >
+                  Build matrix
+                </button>
+              </div>
+            </div>
+
+            {/* Variant Matrix */}
+            {variantsLoading ? (
+              <div className="text-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-radiance-goldColor mx-auto"></div>
+              </div>
+            ) : variantRows.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No variants. Add options and build the matrix to sell this product in variants.
+              </p>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 rounded-xl">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">SKU</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price (₦)</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Discount (₦)</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Stock</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Image URLs</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Active</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {variantRows.map((row, index) => (
+                      <tr key={row.id || getVariantName(parseOptionTypes(optionTypes), row.options)}>
+                        <td className="px-3 py-2 font-medium text-gray-900 whitespace-nowrap">
+                          {getVariantName(parseOptionTypes(optionTypes), row.options) ||
+                            Object.values(row.options).join(" / ")}
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="text"
+                            value={row.sku}
+                            onChange={(e) => handleVariantRowChange(index, { sku: e.target.value })}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded-lg"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={row.price}
+                            onChange={(e) => handleVariantRowChange(index, { price: e.target.value })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-lg"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={row.discount_price}
+                            onChange={(e) => handleVariantRowChange(index, { discount_price: e.target.value })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-lg"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            value={row.stock_quantity}
+                            onChange={(e) => handleVariantRowChange(index, { stock_quantity: e.target.value })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-lg"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="text"
+                            value={row.images}
+                            onChange={(e) => handleVariantRowChange(index, { images: e.target.value })}
+                            className="w-48 px-2 py-1 border border-gray-300 rounded-lg"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={row.is_active}
+                            onChange={(e) => handleVariantRowChange(index, { is_active: e.target.checked })}
+                            className="accent-radiance-goldColor"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={() => setVariantProduct(null)}
+                className="flex-1 px-6 py-3 border border-gray-300 rounded-xl font-medium hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveVariants}
+                disabled={actionLoading === "variants" || variantsLoading}
+                className="flex-1 px-6 py-3 bg-radiance-goldColor text-white rounded-xl font-medium hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+              >
+                {actionLoading === "variants" ? "Saving..." : "Save Variants"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Modal for Bundle Builder */}
+      {bundleProduct && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-2xl font-bold">Bundle</h2>
+                <p className="text-sm text-gray-600">
+                  {bundleProduct.name} · sold at ₦{(bundleProduct.discount_price || bundleProduct.price).toLocaleString()}
+                </p>
+              </div>
+              <button onClick={() => setBundleProduct(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <Plus size={24} className="rotate-45" />
+              </button>
+            </div>
+
+            {bundleLoading ? (
+              <div className="text-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-radiance-goldColor mx-auto"></div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {bundleRows.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    No items. Add the products that go in this set; its stock will follow theirs.
+                  </p>
+                )}
+                {bundleRows.map((row, index) => {
+                  const component = products.find((p) => p.id === row.component_product_id);
+                  return (
+                    <div key={index} className="flex gap-3">
+                      <select
+                        value={row.component_product_id}
+                        onChange={(e) =>
+                          handleBundleRowChange(index, { component_product_id: e.target.value, component_variant_id: null })
+                        }
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">Choose a product</option>
+                        {products
+                          .filter((p) => p.id !== bundleProduct.id && !p.is_bundle)
+                          .map((p) => (
+                            <option key={p.id} value={p.id}>
+                              {p.name}
+                            </option>
+                          ))}
+                      </select>
+                      {component?.has_variants && (
+                        <select
+                          value={row.component_variant_id || ""}
+                          onChange={(e) => handleBundleRowChange(index, { component_variant_id: e.target.value || null })}
+                          className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value="">Choose a variant</option>
+                          {(component.variants || []).map((variant) => (
+                            <option key={variant.id} value={variant.id}>
+                              {variant.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <input
+                        type="number"
+                        min={1}
+                        value={row.quantity}
+                        onChange={(e) => handleBundleRowChange(index, { quantity: parseInt(e.target.value) || 0 })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setBundleRows((prev) => prev.filter((_, i) => i !== index))}
+                        className="p-2 text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setBundleRows((prev) => [
+                      ...prev,
+                      { component_product_id: "", component_variant_id: null, quantity: 1 },
+                    ])
+                  }
+                  className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50"
+                >
+                  <Plus size={14} /> Add item
+                </button>
+                {bundleRows.length > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Current stock makes {getBundleSets(bundleRows, products)} sets
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={() => setBundleProduct(null)}
+                className="flex-1 px-6 py-3 border border-gray-300 rounded-xl font-medium hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveBundle}
+                disabled={actionLoading === "bundle" || bundleLoading}
+                className="flex-1 px-6 py-3 bg-radiance-goldColor text-white rounded-xl font-medium hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+              >
+                {actionLoading === "bundle" ? "Saving..." : "Save Bundle"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
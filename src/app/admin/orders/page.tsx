@@ -1,17 +1,65 @@
 /**
  * Orders Manager Page
  * 
- * Admin can view all orders and update order status.
+ * Admin can view all orders, update order status, ship orders in one or
+ * more shipments (booked through a courier integration or entered by
+ * hand), confirm bank transfers, record cash/POS collected on
+ * delivery, hand over store pickup orders against their pickup code and
+ * issue refunds.
  * Access: Admin, Chief Admin, Agent
  */
 
 "use client";
 
 import { useState, useEffect } from "react";
-import { getAllOrders, updateOrderStatus, checkPermission } from "../action";
-import { ShoppingBag, Package, CheckCircle, Clock, Truck, XCircle } from "lucide-react";
-
-type OrderStatus = "pending" | "confirmed" | "shipped" | "delivered" | "cancelled" | "returned";
+import {
+  getAllOrders,
+  updateOrderStatus,
+  createShipment,
+  updateShipmentStatus,
+  getCourierOptions,
+  getCourierQuotes,
+  refreshShipmentTracking,
+  confirmBankTransfer,
+  recordCodCollection,
+  verifyPickupCode,
+  refundOrder,
+  checkPermission,
+} from "../action";
+import {
+  ShoppingBag,
+  Package,
+  CheckCircle,
+  Clock,
+  Truck,
+  XCircle,
+  Landmark,
+  Banknote,
+  RotateCcw,
+  RefreshCw,
+  Printer,
+  Store,
+} from "lucide-react";
+import type {
+  FulfilmentMethod,
+  OrderBundleComponent,
+  OrderStatus,
+  OrderStatusHistoryEntry,
+  PostalAddress,
+  Refund,
+  RefundMethod,
+  Shipment,
+  ShipmentStatus,
+} from "@/types";
+import type { RateQuote } from "@/utils/couriers/types";
+import { isValidOrderNumber, normalizeOrderNumber } from "@/utils/orders/order-number";
+import { formatPostalAddress } from "@/utils/shipping/addresses";
+import { getComponentName } from "@/utils/products/bundles";
+import {
+  getManualTransitions,
+  getRequiredTransitionFields,
+  SHIPMENT_STATUS_TRANSITIONS,
+} from "@/utils/orders/status-machine";
 
 interface Order {
   id: string;
@@ -19,18 +67,54 @@ interface Order {
   total_amount: number;
   status: OrderStatus;
   payment_status: string;
+  payment_provider: string | null;
   created_at: string;
+  // Null for guest orders until claimed by an account
+  user_id: string | null;
   profiles: {
     email: string;
     full_name: string | null;
   } | null;
+  guest_email: string | null;
+  guest_phone: string | null;
+  refunded_amount: number;
   order_items: Array<{
+    id: string;
     product_name: string;
+    variant_name: string | null;
+    bundle_components: OrderBundleComponent[] | null;
     quantity: number;
     unit_price: number;
+    refunded_quantity: number;
   }>;
+  refunds: Refund[];
+  tracking_number: string | null;
+  order_status_history: OrderStatusHistoryEntry[];
+  shipments: Shipment[];
+  shipping_address: string | null;
+  billing_address: string | null;
+  shipping_address_snapshot: PostalAddress | null;
+  fulfilment_method: FulfilmentMethod;
+  picked_up_at: string | null;
+  pickup_points: {
+    name: string;
+    address: string;
+    city: string;
+  } | null;
 }
 
+interface ShipmentForm {
+  quantities: Record<string, number>;
+  // Empty when the courier and tracking number are entered by hand
+  courierProvider: string;
+  courierService: string;
+  courier: string;
+  trackingNumber: string;
+  estimatedDeliveryDate: string;
+}
+
+const COURIERS = ["GIG Logistics", "Kwik Delivery", "DHL", "In-house rider"];
+
 export default function OrdersManagerPage() {
   const [hasAccess, setHasAccess] = useState(false);
   const [orders, setOrders] = useState<Order[]>([]);
@@ -38,11 +122,36 @@ export default function OrdersManagerPage() {
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
   const [statusFilter, setStatusFilter] = useState<"all" | OrderStatus>("all");
+  const [search, setSearch] = useState("");
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [collectingOrder, setCollectingOrder] = useState<Order | null>(null);
+  const [refundingOrder, setRefundingOrder] = useState<Order | null>(null);
+  const [refundForm, setRefundForm] = useState<{
+    scope: "full" | "items";
+    quantities: Record<string, number>;
+    method: RefundMethod;
+    reason: string;
+  }>({ scope: "full", quantities: {}, method: "provider", reason: "" });
+  const [shippingOrder, setShippingOrder] = useState<Order | null>(null);
+  const [shipmentForm, setShipmentForm] = useState<ShipmentForm>({
+    quantities: {},
+    courierProvider: "",
+    courierService: "",
+    courier: "",
+    trackingNumber: "",
+    estimatedDeliveryDate: "",
+  });
+  const [courierOptions, setCourierOptions] = useState<Array<{ name: string; label: string }>>([]);
+  const [quotes, setQuotes] = useState<RateQuote[] | null>(null);
+  const [collection, setCollection] = useState<{ amount: string; method: "cash" | "pos" }>({
+    amount: "",
+    method: "cash",
+  });
 
   useEffect(() => {
     checkPermissions();
     loadOrders();
+    getCourierOptions().then((result) => setCourierOptions(result.data));
   }, []);
 
   async function checkPermissions() {
@@ -55,20 +164,218 @@ export default function OrdersManagerPage() {
     const result = await getAllOrders();
     if (result.success && result.data) {
       setOrders(result.data);
+      // Keep an open details view in step with the refreshed order
+      setSelectedOrder((current) => current && (result.data.find((o: Order) => o.id === current.id) || null));
     }
     setLoading(false);
   }
 
-  async function handleStatusChange(orderId: string, newStatus: OrderStatus) {
-    setActionLoading(orderId);
-    const result = await updateOrderStatus(orderId, newStatus);
+  // Bought, less refunded, less already in a shipment
+  function remainingToShip(order: Order, item: Order["order_items"][number]) {
+    const shipped = (order.shipments || [])
+      .flatMap((shipment) => shipment.shipment_items || [])
+      .filter((line) => line.order_item_id === item.id)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return Math.max(0, item.quantity - (item.refunded_quantity || 0) - shipped);
+  }
+
+  const canShip = (order: Order) =>
+    order.fulfilment_method !== "pickup" &&
+    (order.status === "confirmed" || order.status === "shipped") &&
+    order.order_items?.some((item) => remainingToShip(order, item) > 0);
+
+  function openShipment(order: Order) {
+    setShipmentForm({
+      quantities: Object.fromEntries(order.order_items.map((item) => [item.id, remainingToShip(order, item)])),
+      courierProvider: "",
+      courierService: "",
+      courier: "",
+      trackingNumber: "",
+      estimatedDeliveryDate: "",
+    });
+    setQuotes(null);
+    setShippingOrder(order);
+  }
+
+  function shipmentItems() {
+    return Object.entries(shipmentForm.quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+  }
+
+  async function handleGetQuotes() {
+    if (!shippingOrder) return;
+
+    setActionLoading("quotes");
+    const result = await getCourierQuotes(shippingOrder.id, shipmentItems());
+    if (result.success && result.data) {
+      setQuotes(result.data);
+    } else {
+      setMessage({ type: "error", text: result.error || "Failed to fetch courier quotes" });
+      setTimeout(() => setMessage(null), 3000);
+    }
+    setActionLoading(null);
+  }
+
+  async function handleCreateShipment(e: React.FormEvent) {
+    e.preventDefault();
+    if (!shippingOrder) return;
+
+    setActionLoading(shippingOrder.id);
+    const result = await createShipment({
+      orderId: shippingOrder.id,
+      items: shipmentItems(),
+      courier: shipmentForm.courier,
+      trackingNumber: shipmentForm.trackingNumber,
+      estimatedDeliveryDate: shipmentForm.estimatedDeliveryDate || undefined,
+      courierProvider: shipmentForm.courierProvider || undefined,
+      courierService: shipmentForm.courierService || undefined,
+    });
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) {
+      setShippingOrder(null);
+      loadOrders();
+    }
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  async function handleShipmentStatus(shipment: Shipment, status: ShipmentStatus) {
+    setActionLoading(shipment.id);
+    const result = await updateShipmentStatus(shipment.id, status);
     setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
     if (result.success) loadOrders();
     setActionLoading(null);
     setTimeout(() => setMessage(null), 3000);
   }
 
-  const filteredOrders = statusFilter === "all" ? orders : orders.filter((o) => o.status === statusFilter);
+  async function handleRefreshTracking(shipment: Shipment) {
+    setActionLoading(shipment.id);
+    const result = await refreshShipmentTracking(shipment.id);
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) loadOrders();
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  async function handleStatusChange(order: Order, newStatus: OrderStatus) {
+    const details: { trackingNumber?: string; note?: string } = {};
+    for (const field of getRequiredTransitionFields(newStatus)) {
+      const value = prompt(
+        field === "trackingNumber"
+          ? `Tracking number for ${order.order_number}:`
+          : `Reason for marking ${order.order_number} as ${newStatus}:`
+      );
+      if (!value?.trim()) return;
+      details[field] = value;
+    }
+
+    setActionLoading(order.id);
+    const result = await updateOrderStatus(order.id, newStatus, details);
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) loadOrders();
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  async function handleConfirmTransfer(order: Order) {
+    const input = prompt(
+      `Amount received for ${order.order_number} (order total ₦${order.total_amount.toLocaleString()}):`,
+      String(order.total_amount)
+    );
+    if (input === null) return;
+
+    setActionLoading(order.id);
+    const result = await confirmBankTransfer(order.id, Number(input.replace(/,/g, "")));
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) loadOrders();
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  function openCollection(order: Order) {
+    setCollection({ amount: String(order.total_amount), method: "cash" });
+    setCollectingOrder(order);
+  }
+
+  async function handleRecordCollection(e: React.FormEvent) {
+    e.preventDefault();
+    if (!collectingOrder) return;
+
+    setActionLoading(collectingOrder.id);
+    const result = await recordCodCollection(
+      collectingOrder.id,
+      Number(collection.amount.replace(/,/g, "")),
+      collection.method
+    );
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) {
+      setCollectingOrder(null);
+      loadOrders();
+    }
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  async function handleVerifyPickup(order: Order) {
+    const code = prompt(`Pickup code shown by the customer for ${order.order_number}:`);
+    if (!code?.trim()) return;
+
+    setActionLoading(order.id);
+    const result = await verifyPickupCode(order.id, code);
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) loadOrders();
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  function openRefund(order: Order) {
+    setRefundForm({ scope: "full", quantities: {}, method: "provider", reason: "" });
+    setRefundingOrder(order);
+  }
+
+  async function handleRefund(e: React.FormEvent) {
+    e.preventDefault();
+    if (!refundingOrder) return;
+
+    const items =
+      refundForm.scope === "items"
+        ? Object.entries(refundForm.quantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([order_item_id, quantity]) => ({ order_item_id, quantity }))
+        : undefined;
+
+    const remaining = refundingOrder.total_amount - Number(refundingOrder.refunded_amount || 0);
+    if (
+      refundForm.scope === "full" &&
+      !confirm(`Refund the remaining ₦${remaining.toLocaleString()} on ${refundingOrder.order_number}?`)
+    ) {
+      return;
+    }
+
+    setActionLoading(refundingOrder.id);
+    const result = await refundOrder({
+      orderId: refundingOrder.id,
+      items,
+      reason: refundForm.reason,
+      method: refundForm.method,
+    });
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    if (result.success) setRefundingOrder(null);
+    loadOrders();
+    setActionLoading(null);
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  const searchTerm = normalizeOrderNumber(search);
+  // A complete-looking number read out by a customer should pass its check digit
+  const searchLooksMistyped = /^JR-\d{4}-\d{6,}-\d$/.test(searchTerm) && !isValidOrderNumber(searchTerm);
+
+  const filteredOrders = orders.filter(
+    (o) =>
+      (statusFilter === "all" || o.status === statusFilter) &&
+      (!searchTerm || o.order_number.toUpperCase().includes(searchTerm))
+  );
 
   const getStatusIcon = (status: OrderStatus) => {
     switch (status) {
@@ -117,6 +424,22 @@ export default function OrdersManagerPage() {
         </div>
       )}
 
+      {/* Order Number Search */}
+      <div>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search order number, e.g. JR-2026-000123-3"
+          className="w-full md:w-96 border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+        />
+        {searchLooksMistyped && (
+          <p className="text-xs text-red-600 mt-1">
+            This order number&apos;s check digit doesn&apos;t match. Please confirm it with the customer.
+          </p>
+        )}
+      </div>
+
       {/* Filters */}
       <div className="flex gap-2 overflow-x-auto">
         {(["all", "pending", "confirmed", "shipped", "delivered", "cancelled", "returned"] as const).map((status) => (
@@ -158,12 +481,27 @@ export default function OrdersManagerPage() {
                 {filteredOrders.map((order) => (
                   <tr key={order.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="text-sm font-bold text-gray-900">{order.order_number}</span>
+                      <button
+                        onClick={() => setSelectedOrder(order)}
+                        className="text-sm font-bold text-gray-900 hover:text-radiance-goldColor hover:underline"
+                      >
+                        {order.order_number}
+                      </button>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div>
-                        <p className="text-sm font-medium text-gray-900">{order.profiles?.full_name || "Guest"}</p>
-                        <p className="text-xs text-gray-500">{order.profiles?.email}</p>
+                        <p className="text-sm font-medium text-gray-900">
+                          {order.profiles?.full_name || order.shipping_address_snapshot?.full_name || "Guest"}
+                          {!order.user_id && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-[10px] font-medium text-gray-600">
+                              Guest
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500">{order.profiles?.email || order.guest_email}</p>
+                        {!order.user_id && order.guest_phone && (
+                          <p className="text-xs text-gray-500">{order.guest_phone}</p>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
@@ -181,33 +519,96 @@ export default function OrdersManagerPage() {
                           {order.status}
                         </span>
                       </div>
+                      {order.fulfilment_method === "pickup" && (
+                        <p className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                          <Store size={12} />
+                          Pickup{order.pickup_points ? `: ${order.pickup_points.name}` : ""}
+                        </p>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                         order.payment_status === "completed" ? "bg-green-100 text-green-800" :
                         order.payment_status === "pending" ? "bg-yellow-100 text-yellow-800" :
+                        order.payment_status === "pay_on_delivery" ? "bg-blue-100 text-blue-800" :
+                        order.payment_status === "partially_refunded" ? "bg-orange-100 text-orange-800" :
                         "bg-red-100 text-red-800"
                       }`}>
                         {order.payment_status}
                       </span>
+                      {order.payment_provider === "bank_transfer" && order.payment_status === "pending" && (
+                        <button
+                          onClick={() => handleConfirmTransfer(order)}
+                          disabled={actionLoading === order.id}
+                          className="ml-2 inline-flex items-center gap-1 text-xs font-medium text-radiance-goldColor hover:underline disabled:opacity-50"
+                        >
+                          <Landmark size={14} />
+                          Confirm transfer
+                        </button>
+                      )}
+                      {order.payment_status === "pay_on_delivery" && (
+                        <button
+                          onClick={() => openCollection(order)}
+                          disabled={actionLoading === order.id}
+                          className="ml-2 inline-flex items-center gap-1 text-xs font-medium text-radiance-goldColor hover:underline disabled:opacity-50"
+                        >
+                          <Banknote size={14} />
+                          Record collection
+                        </button>
+                      )}
+                      {(order.payment_status === "completed" || order.payment_status === "partially_refunded") && (
+                        <button
+                          onClick={() => openRefund(order)}
+                          disabled={actionLoading === order.id}
+                          className="ml-2 inline-flex items-center gap-1 text-xs font-medium text-red-600 hover:underline disabled:opacity-50"
+                        >
+                          <RotateCcw size={14} />
+                          Refund
+                        </button>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {new Date(order.created_at).toLocaleDateString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
-                      <select
-                        value={order.status}
-                        onChange={(e) => handleStatusChange(order.id, e.target.value as OrderStatus)}
-                        disabled={actionLoading === order.id}
-                        className="text-sm border border-gray-300 rounded-lg px-3 py-1 focus:ring-2 focus:ring-radiance-goldColor disabled:opacity-50"
-                      >
-                        <option value="pending">Pending</option>
-                        <option value="confirmed">Confirmed</option>
-                        <option value="shipped">Shipped</option>
-                        <option value="delivered">Delivered</option>
-                        <option value="cancelled">Cancelled</option>
-                        <option value="returned">Returned</option>
-                      </select>
+                      {canShip(order) && (
+                        <button
+                          onClick={() => openShipment(order)}
+                          disabled={actionLoading === order.id}
+                          className="mr-2 inline-flex items-center gap-1 text-sm font-medium text-radiance-goldColor hover:underline disabled:opacity-50"
+                        >
+                          <Truck size={14} />
+                          Ship
+                        </button>
+                      )}
+                      {order.fulfilment_method === "pickup" && order.status === "confirmed" && !order.picked_up_at && (
+                        <button
+                          onClick={() => handleVerifyPickup(order)}
+                          disabled={actionLoading === order.id || order.payment_status !== "completed"}
+                          title={order.payment_status !== "completed" ? "Record payment before handing over" : undefined}
+                          className="mr-2 inline-flex items-center gap-1 text-sm font-medium text-radiance-goldColor hover:underline disabled:opacity-50"
+                        >
+                          <Store size={14} />
+                          Verify pickup
+                        </button>
+                      )}
+                      {getManualTransitions(order.status).length > 0 ? (
+                        <select
+                          value=""
+                          onChange={(e) => handleStatusChange(order, e.target.value as OrderStatus)}
+                          disabled={actionLoading === order.id}
+                          className="text-sm border border-gray-300 rounded-lg px-3 py-1 focus:ring-2 focus:ring-radiance-goldColor disabled:opacity-50"
+                        >
+                          <option value="" disabled>Move to...</option>
+                          {getManualTransitions(order.status).map((status) => (
+                            <option key={status} value={status}>
+                              {status.charAt(0).toUpperCase() + status.slice(1)}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-xs text-gray-400">Closed</span>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -224,17 +625,527 @@ export default function OrdersManagerPage() {
         </div>
       )}
 
+      {/* Cash on Delivery Collection Modal */}
+      {collectingOrder && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleRecordCollection} className="bg-white rounded-2xl max-w-md w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold">Record Collection</h2>
+              <button type="button" onClick={() => setCollectingOrder(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <XCircle size={24} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              {collectingOrder.order_number} · order total ₦{collectingOrder.total_amount.toLocaleString()}
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount collected (₦)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={collection.amount}
+                onChange={(e) => setCollection({ ...collection, amount: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Paid by</label>
+              <select
+                value={collection.method}
+                onChange={(e) => setCollection({ ...collection, method: e.target.value as "cash" | "pos" })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+              >
+                <option value="cash">Cash</option>
+                <option value="pos">POS</option>
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={actionLoading === collectingOrder.id}
+              className="w-full bg-radiance-goldColor text-white py-2 rounded-lg font-medium hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+            >
+              Record Collection
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Shipment Modal */}
+      {shippingOrder && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleCreateShipment} className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold">Ship {shippingOrder.order_number}</h2>
+              <button type="button" onClick={() => setShippingOrder(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <XCircle size={24} />
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Items in this shipment</p>
+              {shippingOrder.order_items.map((item) => {
+                const remaining = remainingToShip(shippingOrder, item);
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                    <span className="text-gray-900">
+                      {item.product_name}
+                      {item.variant_name && ` (${item.variant_name})`}
+                      <span className="text-gray-500"> · {remaining} of {item.quantity} left to ship</span>
+                      {item.bundle_components?.map((component) => (
+                        <span key={`${component.product_id}:${component.variant_id}`} className="block text-xs text-gray-500">
+                          {component.quantity} × {getComponentName(component)} per set
+                        </span>
+                      ))}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      disabled={remaining === 0}
+                      value={shipmentForm.quantities[item.id] || 0}
+                      onChange={(e) =>
+                        setShipmentForm({
+                          ...shipmentForm,
+                          quantities: {
+                            ...shipmentForm.quantities,
+                            [item.id]: Math.min(remaining, Math.max(0, Number(e.target.value))),
+                          },
+                        })
+                      }
+                      className="w-20 border border-gray-300 rounded-lg px-2 py-1 disabled:opacity-50"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            {courierOptions.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Book with</label>
+                <div className="flex gap-2">
+                  <select
+                    value={shipmentForm.courierProvider}
+                    onChange={(e) =>
+                      setShipmentForm({ ...shipmentForm, courierProvider: e.target.value, courierService: "" })
+                    }
+                    className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                  >
+                    <option value="">Enter courier and tracking manually</option>
+                    {courierOptions.map((option) => (
+                      <option key={option.name} value={option.name}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleGetQuotes}
+                    disabled={actionLoading === "quotes"}
+                    className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Compare rates
+                  </button>
+                </div>
+                {quotes && (
+                  <div className="mt-2 space-y-1">
+                    {quotes.length === 0 && <p className="text-xs text-gray-500">No courier returned a quote.</p>}
+                    {quotes.map((quote) => {
+                      const chosen =
+                        shipmentForm.courierProvider === quote.courier &&
+                        shipmentForm.courierService === quote.service;
+                      return (
+                        <button
+                          type="button"
+                          key={`${quote.courier}-${quote.service}`}
+                          onClick={() =>
+                            setShipmentForm({
+                              ...shipmentForm,
+                              courierProvider: quote.courier,
+                              courierService: quote.service,
+                            })
+                          }
+                          className={`w-full flex items-center justify-between px-3 py-2 border rounded-lg text-sm ${
+                            chosen ? "border-radiance-goldColor bg-radiance-goldColor/10" : "border-gray-200"
+                          }`}
+                        >
+                          <span>
+                            {quote.serviceLabel}
+                            {quote.estimatedDays !== null && (
+                              <span className="text-gray-500">
+                                {" "}· {quote.estimatedDays === 0 ? "same day" : `${quote.estimatedDays} day(s)`}
+                              </span>
+                            )}
+                          </span>
+                          <span className="font-medium">₦{quote.amount.toLocaleString()}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!shipmentForm.courierProvider && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Courier</label>
+                  <input
+                    type="text"
+                    list="couriers"
+                    value={shipmentForm.courier}
+                    onChange={(e) => setShipmentForm({ ...shipmentForm, courier: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                    required
+                  />
+                  <datalist id="couriers">
+                    {COURIERS.map((courier) => (
+                      <option key={courier} value={courier} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tracking number</label>
+                  <input
+                    type="text"
+                    value={shipmentForm.trackingNumber}
+                    onChange={(e) => setShipmentForm({ ...shipmentForm, trackingNumber: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                    required
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Estimated delivery</label>
+              <input
+                type="date"
+                value={shipmentForm.estimatedDeliveryDate}
+                onChange={(e) => setShipmentForm({ ...shipmentForm, estimatedDeliveryDate: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={actionLoading === shippingOrder.id}
+              className="w-full bg-radiance-goldColor text-white py-2 rounded-lg font-medium hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+            >
+              {shipmentForm.courierProvider ? "Book & Create Shipment" : "Create Shipment"}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Refund Modal */}
+      {refundingOrder && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleRefund} className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold">Refund {refundingOrder.order_number}</h2>
+              <button type="button" onClick={() => setRefundingOrder(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <XCircle size={24} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              Paid ₦{refundingOrder.total_amount.toLocaleString()} · refunded so far ₦
+              {Number(refundingOrder.refunded_amount || 0).toLocaleString()}
+            </p>
+
+            <div className="flex gap-2">
+              {(["full", "items"] as const).map((scope) => (
+                <button
+                  key={scope}
+                  type="button"
+                  onClick={() => setRefundForm({ ...refundForm, scope })}
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium ${
+                    refundForm.scope === scope
+                      ? "bg-radiance-goldColor text-white"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                >
+                  {scope === "full" ? "Remaining balance" : "Selected items"}
+                </button>
+              ))}
+            </div>
+
+            {refundForm.scope === "items" && (
+              <div className="space-y-2">
+                {refundingOrder.order_items.map((item) => {
+                  const refundable = item.quantity - (item.refunded_quantity || 0);
+                  return (
+                    <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                      <span className="text-gray-900">
+                        {item.product_name}
+                        {item.variant_name && ` (${item.variant_name})`}
+                        <span className="text-gray-500"> · ₦{item.unit_price.toLocaleString()} × {item.quantity}</span>
+                      </span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={refundable}
+                        disabled={refundable === 0}
+                        value={refundForm.quantities[item.id] || 0}
+                        onChange={(e) =>
+                          setRefundForm({
+                            ...refundForm,
+                            quantities: {
+                              ...refundForm.quantities,
+                              [item.id]: Math.min(refundable, Math.max(0, Number(e.target.value))),
+                            },
+                          })
+                        }
+                        className="w-20 border border-gray-300 rounded-lg px-2 py-1 disabled:opacity-50"
+                      />
+                    </div>
+                  );
+                })}
+                <p className="text-xs text-gray-500">Item refunds are net of any coupon discount and include their share of tax; shipping is not refunded.</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Refund through</label>
+              <select
+                value={refundForm.method}
+                onChange={(e) => setRefundForm({ ...refundForm, method: e.target.value as RefundMethod })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+              >
+                <option value="provider">Payment provider</option>
+                <option value="manual">Already returned manually (record only)</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <input
+                type="text"
+                value={refundForm.reason}
+                onChange={(e) => setRefundForm({ ...refundForm, reason: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                placeholder="e.g. Damaged in transit"
+              />
+            </div>
+
+            {refundingOrder.refunds?.length > 0 && (
+              <div className="border-t border-gray-200 pt-4 space-y-1">
+                <p className="text-sm font-medium text-gray-700">Previous refunds</p>
+                {refundingOrder.refunds.map((refund) => (
+                  <p key={refund.id} className="text-xs text-gray-600">
+                    {new Date(refund.created_at).toLocaleDateString()} · ₦{Number(refund.amount).toLocaleString()} ·{" "}
+                    {refund.method} · {refund.status}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={actionLoading === refundingOrder.id}
+              className="w-full bg-red-600 text-white py-2 rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              Issue Refund
+            </button>
+          </form>
+        </div>
+      )}
+
       {/* Order Details Modal */}
       {selectedOrder && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6">
             <div className="flex items-center justify-between mb-6">
-              <h2 className="text-2xl font-bold">Order Details</h2>
+              <h2 className="text-2xl font-bold">Order {selectedOrder.order_number}</h2>
               <button onClick={() => setSelectedOrder(null)} className="p-2 hover:bg-gray-100 rounded-full">
                 <XCircle size={24} />
               </button>
             </div>
-            {/* Order details content */}
+
+            <div className="space-y-6">
+              <div>
+                <h3 className="font-bold text-gray-900 mb-2">Items</h3>
+                <div className="space-y-1">
+                  {selectedOrder.order_items.map((item) => (
+                    <div key={item.id} className="flex justify-between text-sm">
+                      <span className="text-gray-900">
+                        {item.product_name}
+                        {item.variant_name && ` (${item.variant_name})`} × {item.quantity}
+                        {/* Components to pick for a bundle */}
+                        {item.bundle_components?.map((component) => (
+                          <span
+                            key={`${component.product_id}:${component.variant_id}`}
+                            className="block text-xs text-gray-500"
+                          >
+                            {component.quantity * item.quantity} × {getComponentName(component)}
+                            {component.sku && ` · ${component.sku}`}
+                          </span>
+                        ))}
+                      </span>
+                      <span className="text-gray-600">₦{(item.unit_price * item.quantity).toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+                {selectedOrder.tracking_number && (
+                  <p className="text-sm text-gray-600 mt-3">
+                    Tracking number: <span className="font-mono font-medium">{selectedOrder.tracking_number}</span>
+                  </p>
+                )}
+              </div>
+
+              {/* Delivery Address */}
+              {selectedOrder.fulfilment_method === "delivery" && (
+                <div>
+                  <h3 className="font-bold text-gray-900 mb-2">Delivery Address</h3>
+                  {selectedOrder.shipping_address_snapshot ? (
+                    <div className="text-sm text-gray-600">
+                      <p className="text-gray-900">{selectedOrder.shipping_address_snapshot.full_name}</p>
+                      <p>{formatPostalAddress(selectedOrder.shipping_address_snapshot)}</p>
+                      <p>{selectedOrder.shipping_address_snapshot.phone}</p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-600">{selectedOrder.shipping_address || "—"}</p>
+                  )}
+                  {selectedOrder.billing_address && selectedOrder.billing_address !== selectedOrder.shipping_address && (
+                    <p className="text-sm text-gray-500 mt-2">Billing: {selectedOrder.billing_address}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Store Pickup */}
+              {selectedOrder.fulfilment_method === "pickup" && (
+                <div>
+                  <h3 className="font-bold text-gray-900 mb-2">Store Pickup</h3>
+                  <p className="text-sm text-gray-600">
+                    {selectedOrder.pickup_points
+                      ? `${selectedOrder.pickup_points.name}, ${selectedOrder.pickup_points.address}, ${selectedOrder.pickup_points.city}`
+                      : "Pickup point no longer exists"}
+                  </p>
+                  {selectedOrder.shipping_address_snapshot && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      Collecting: {selectedOrder.shipping_address_snapshot.full_name} · {selectedOrder.shipping_address_snapshot.phone}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-600 mt-1">
+                    {selectedOrder.picked_up_at
+                      ? `Collected ${new Date(selectedOrder.picked_up_at).toLocaleString()}`
+                      : "Awaiting collection"}
+                  </p>
+                </div>
+              )}
+
+              {/* Shipments */}
+              {selectedOrder.shipments?.length > 0 && (
+                <div>
+                  <h3 className="font-bold text-gray-900 mb-2">Shipments</h3>
+                  <div className="space-y-3">
+                    {selectedOrder.shipments.map((shipment) => (
+                      <div key={shipment.id} className="p-3 border border-gray-200 rounded-lg text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-gray-900">
+                            {shipment.courier} · <span className="font-mono">{shipment.tracking_number}</span>
+                          </span>
+                          <span className="text-xs text-gray-500 capitalize">{shipment.status.replace("_", " ")}</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Shipped {new Date(shipment.shipped_at).toLocaleDateString()}
+                          {shipment.estimated_delivery_date &&
+                            ` · ETA ${new Date(shipment.estimated_delivery_date).toLocaleDateString()}`}
+                          {shipment.delivered_at && ` · delivered ${new Date(shipment.delivered_at).toLocaleDateString()}`}
+                          {shipment.shipping_cost !== null && ` · ₦${Number(shipment.shipping_cost).toLocaleString()}`}
+                        </p>
+                        <p className="text-xs text-gray-600 mt-1">
+                          {shipment.shipment_items
+                            ?.map((line) => {
+                              const item = selectedOrder.order_items.find((i) => i.id === line.order_item_id);
+                              return `${item?.product_name || "Item"} × ${line.quantity}`;
+                            })
+                            .join(", ")}
+                        </p>
+                        {shipment.shipment_tracking_events && shipment.shipment_tracking_events.length > 0 && (
+                          <ul className="mt-2 space-y-1 border-l-2 border-gray-100 pl-3">
+                            {shipment.shipment_tracking_events.map((event) => (
+                              <li key={event.id} className="text-xs text-gray-600">
+                                <span className="text-gray-900">{event.description}</span>
+                                {event.location && ` · ${event.location}`}
+                                <span className="text-gray-400"> · {new Date(event.occurred_at).toLocaleString()}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {shipment.courier_provider && (
+                          <div className="flex items-center gap-2 mt-2">
+                            {shipment.label_url && (
+                              <a
+                                href={shipment.label_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                              >
+                                <Printer size={12} /> Print label
+                              </a>
+                            )}
+                            {shipment.status !== "delivered" && (
+                              <button
+                                onClick={() => handleRefreshTracking(shipment)}
+                                disabled={actionLoading === shipment.id}
+                                className="flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200 disabled:opacity-50"
+                              >
+                                <RefreshCw size={12} /> Refresh tracking
+                              </button>
+                            )}
+                            {shipment.last_tracked_at && (
+                              <span className="text-xs text-gray-400">
+                                Checked {new Date(shipment.last_tracked_at).toLocaleString()}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        {SHIPMENT_STATUS_TRANSITIONS[shipment.status].length > 0 && (
+                          <div className="flex gap-2 mt-2">
+                            {SHIPMENT_STATUS_TRANSITIONS[shipment.status].map((status) => (
+                              <button
+                                key={status}
+                                onClick={() => handleShipmentStatus(shipment, status)}
+                                disabled={actionLoading === shipment.id}
+                                className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200 disabled:opacity-50"
+                              >
+                                Mark {status.replace("_", " ")}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Status Timeline */}
+              <div>
+                <h3 className="font-bold text-gray-900 mb-3">Status History</h3>
+                <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+                  {selectedOrder.order_status_history?.map((entry) => (
+                    <li key={entry.id} className="ml-4 relative">
+                      <span className="absolute -left-[23px] top-1 w-3 h-3 rounded-full bg-radiance-goldColor" />
+                      <div className="flex items-center gap-2">
+                        {getStatusIcon(entry.to_status)}
+                        <span className="text-sm font-medium text-gray-900">
+                          {entry.from_status ? `${entry.from_status} → ${entry.to_status}` : "Order placed"}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {new Date(entry.created_at).toLocaleString()}
+                        {entry.from_status && (entry.changed_by ? " · by staff" : " · automatic")}
+                      </p>
+                      {entry.tracking_number && (
+                        <p className="text-xs text-gray-600">Tracking: {entry.tracking_number}</p>
+                      )}
+                      {entry.note && <p className="text-xs text-gray-600">{entry.note}</p>}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
           </div>
         </div>
       )}
@@ -0,0 +1,327 @@
+/**
+ * Pickup Points Page
+ *
+ * Manage the stores customers can collect orders from instead of paying
+ * for delivery. Active points are offered at checkout; staff hand orders
+ * over from /admin/orders once the customer's pickup code checks out.
+ * Access: Admin, Chief Admin
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  checkPermission,
+  getPickupPoints,
+  savePickupPoint,
+  togglePickupPoint,
+} from "../action";
+import { MapPin, Plus, XCircle } from "lucide-react";
+import type { PickupPoint, PickupPointInput } from "@/types";
+import { NIGERIAN_STATES } from "@/utils/shipping/nigeria";
+
+interface PickupPointForm {
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  phone: string;
+  opening_hours: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: PickupPointForm = {
+  name: "",
+  address: "",
+  city: "",
+  state: "",
+  phone: "",
+  opening_hours: "",
+  is_active: true,
+};
+
+export default function PickupPointsPage() {
+  const [hasAccess, setHasAccess] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [points, setPoints] = useState<PickupPoint[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PickupPointForm | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    checkPermissions();
+    loadPoints();
+  }, []);
+
+  async function checkPermissions() {
+    const hasPermission = await checkPermission("admin");
+    setHasAccess(hasPermission);
+  }
+
+  async function loadPoints() {
+    setLoading(true);
+    const result = await getPickupPoints();
+    if (result.success && result.data) {
+      setPoints(result.data);
+    }
+    setLoading(false);
+  }
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  function openPoint(point: PickupPoint | null) {
+    setEditingId(point?.id || null);
+    setForm(
+      point
+        ? {
+            name: point.name,
+            address: point.address,
+            city: point.city,
+            state: point.state,
+            phone: point.phone || "",
+            opening_hours: point.opening_hours || "",
+            is_active: point.is_active,
+          }
+        : EMPTY_FORM
+    );
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form) return;
+
+    setSaving(true);
+    const input: PickupPointInput = {
+      ...form,
+      phone: form.phone || null,
+      opening_hours: form.opening_hours || null,
+    };
+    const result = await savePickupPoint(editingId, input);
+    setSaving(false);
+
+    if (result.success) {
+      showMessage("success", result.message || "Pickup point saved");
+      setForm(null);
+      loadPoints();
+    } else {
+      showMessage("error", result.error || "Failed to save pickup point");
+    }
+  }
+
+  async function handleToggle(point: PickupPoint) {
+    const result = await togglePickupPoint(point.id);
+    showMessage(result.success ? "success" : "error", result.message || result.error || "");
+    if (result.success) loadPoints();
+  }
+
+  if (!hasAccess) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold text-red-600">Access Denied</h2>
+        <p className="text-gray-600 mt-2">You don't have permission to manage pickup points.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">Pickup Points</h1>
+          <p className="text-gray-600 mt-1">Stores customers can collect their orders from for free</p>
+        </div>
+        <button
+          onClick={() => openPoint(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-radiance-goldColor text-white rounded-lg text-sm font-medium hover:bg-radiance-goldColor/90"
+        >
+          <Plus size={16} /> New Pickup Point
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Address</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Phone</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Opening Hours</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {points.map((point) => (
+                  <tr key={point.id} className={`hover:bg-gray-50 ${point.is_active ? "" : "opacity-60"}`}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {point.name}
+                      {!point.is_active && <p className="text-xs text-gray-500">Inactive</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 max-w-xs">
+                      {point.address}
+                      <p className="text-xs text-gray-500">
+                        {point.city}, {point.state}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{point.phone || "—"}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{point.opening_hours || "—"}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => openPoint(point)}
+                          className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggle(point)}
+                          className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                        >
+                          {point.is_active ? "Deactivate" : "Activate"}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {points.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-6 text-center text-sm text-gray-500">
+                      No pickup points yet. Checkout only offers delivery until one is added.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Pickup Point Modal */}
+      {form && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleSave} className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold flex items-center gap-2">
+                <MapPin size={20} className="text-radiance-goldColor" />
+                {editingId ? "Edit Pickup Point" : "New Pickup Point"}
+              </h2>
+              <button type="button" onClick={() => setForm(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <XCircle size={24} />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                placeholder="e.g. JRADIANCE Ikeja Store"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Street Address</label>
+              <textarea
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                rows={2}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">City / Town</label>
+                <input
+                  type="text"
+                  value={form.city}
+                  onChange={(e) => setForm({ ...form, city: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+                <select
+                  value={form.state}
+                  onChange={(e) => setForm({ ...form, state: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                  required
+                >
+                  <option value="">Select state</option>
+                  {NIGERIAN_STATES.map((state) => (
+                    <option key={state} value={state}>
+                      {state}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Phone (optional)</label>
+                <input
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Opening hours (optional)</label>
+                <input
+                  type="text"
+                  value={form.opening_hours}
+                  onChange={(e) => setForm({ ...form, opening_hours: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                  placeholder="e.g. Mon–Sat, 9am–6pm"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_active}
+                onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-radiance-goldColor text-white py-2 rounded-lg font-medium hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Pickup Point"}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * Payment Reconciliation Page
+ *
+ * Compare orders with payment gateway records and resolve discrepancies.
+ * Access: Admin, Chief Admin
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  checkPermission,
+  getReconciliationReport,
+  runPaymentReconciliation,
+  resolveReconciliation,
+} from "../action";
+import { RefreshCw, CheckCircle, AlertTriangle } from "lucide-react";
+
+const KIND_LABELS: Record<string, string> = {
+  paid_order_pending: "Paid at gateway, order unpaid",
+  completed_without_transaction: "Order paid, no gateway charge",
+  amount_mismatch: "Amount mismatch",
+};
+
+function toDateInput(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export default function ReconciliationPage() {
+  const [hasAccess, setHasAccess] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [runs, setRuns] = useState<any[]>([]);
+  const [items, setItems] = useState<any[]>([]);
+  const [from, setFrom] = useState(toDateInput(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [showResolved, setShowResolved] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    checkPermissions();
+    loadReport();
+  }, []);
+
+  async function checkPermissions() {
+    const hasPermission = await checkPermission("admin");
+    setHasAccess(hasPermission);
+  }
+
+  async function loadReport() {
+    setLoading(true);
+    const result = await getReconciliationReport();
+    if (result.success && result.data) {
+      setRuns(result.data.runs || []);
+      setItems(result.data.items || []);
+    }
+    setLoading(false);
+  }
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  async function handleRun() {
+    setRunning(true);
+    // Date inputs are whole days; include all of the end day
+    const end = new Date(to);
+    end.setUTCDate(end.getUTCDate() + 1);
+    const result = await runPaymentReconciliation(new Date(from).toISOString(), end.toISOString());
+    setRunning(false);
+
+    if (result.success) {
+      showMessage("success", result.message || "Reconciliation complete");
+      loadReport();
+    } else {
+      showMessage("error", result.error || "Failed to run reconciliation");
+    }
+  }
+
+  async function handleResolve(itemId: string, resolution: "settle" | "acknowledge") {
+    const note = resolution === "acknowledge"
+      ? prompt("How was this resolved? (optional)") ?? undefined
+      : undefined;
+
+    const result = await resolveReconciliation(itemId, resolution, note);
+    if (result.success) {
+      showMessage("success", result.message || "Discrepancy resolved");
+      loadReport();
+    } else {
+      showMessage("error", result.error || "Failed to resolve discrepancy");
+    }
+  }
+
+  if (!hasAccess) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold text-red-600">Access Denied</h2>
+        <p className="text-gray-600 mt-2">You don't have permission to view payment reconciliation.</p>
+      </div>
+    );
+  }
+
+  const openItems = items.filter((item) => item.status === "open");
+  const visibleItems = showResolved ? items : openItems;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">Payment Reconciliation</h1>
+          <p className="text-gray-600 mt-1">Compare orders with payment gateway records</p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={running || !from || !to}
+            className="flex items-center gap-2 px-4 py-2 bg-radiance-goldColor text-white rounded-lg text-sm font-medium hover:bg-radiance-goldColor/90 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={running ? "animate-spin" : ""} />
+            {running ? "Running..." : "Run"}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+        </div>
+      ) : (
+        <>
+          {/* Discrepancies */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-bold flex items-center gap-2">
+                {openItems.length > 0 ? (
+                  <AlertTriangle size={20} className="text-orange-500" />
+                ) : (
+                  <CheckCircle size={20} className="text-green-500" />
+                )}
+                Discrepancies ({openItems.length} open)
+              </h2>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showResolved}
+                  onChange={(e) => setShowResolved(e.target.checked)}
+                />
+                Show resolved
+              </label>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Order #</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Issue</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Expected</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Gateway</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visibleItems.map((item) => (
+                    <tr key={item.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                        {item.orders?.order_number || "—"}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {KIND_LABELS[item.kind] || item.kind}
+                        <p className="text-xs text-gray-500">{new Date(item.created_at).toLocaleString()}</p>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {item.reference || "—"}
+                        {item.provider && <p className="text-xs text-gray-500">{item.provider}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {item.expected_amount != null ? `₦${Number(item.expected_amount).toLocaleString()}` : "—"}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {item.provider_amount != null ? `₦${Number(item.provider_amount).toLocaleString()}` : "—"}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {item.status === "open" ? (
+                          <div className="flex gap-2">
+                            {item.kind === "paid_order_pending" && (
+                              <button
+                                onClick={() => handleResolve(item.id, "settle")}
+                                className="px-3 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700"
+                              >
+                                Settle
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleResolve(item.id, "acknowledge")}
+                              className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                            >
+                              Acknowledge
+                            </button>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-500">
+                            Resolved: {item.resolution}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {visibleItems.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-6 text-center text-sm text-gray-500">
+                        No discrepancies
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Recent Runs */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-bold">Recent Runs</h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {runs.map((run) => (
+                <div key={run.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <div>
+                    <span className="font-medium text-gray-900">
+                      {new Date(run.range_from).toLocaleDateString()} – {new Date(run.range_to).toLocaleDateString()}
+                    </span>
+                    <p className="text-xs text-gray-500">
+                      {new Date(run.created_at).toLocaleString()} · {run.triggered_by ? "manual" : "scheduled"}
+                    </p>
+                  </div>
+                  <span className="text-gray-600">
+                    {run.status === "completed"
+                      ? `${run.summary?.orders_checked ?? 0} checked · ${run.summary?.new_mismatches ?? 0} new discrepancies`
+                      : run.status === "failed"
+                        ? <span className="text-red-600">Failed: {run.summary?.error}</span>
+                        : "Running..."}
+                  </span>
+                </div>
+              ))}
+              {runs.length === 0 && (
+                <p className="px-6 py-3 text-sm text-gray-500">No reconciliation runs yet</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+/**
+ * Returns Queue Page
+ *
+ * Review customer return requests, receive returned goods (optionally
+ * restocking them) and refund the returned items.
+ * Access: Admin, Chief Admin, Agent (refunds: Admin, Chief Admin)
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  getReturnRequests,
+  reviewReturnRequest,
+  receiveReturn,
+  refundReturn,
+  checkPermission,
+} from "../action";
+import { RotateCcw, XCircle, CheckCircle, PackageCheck, Image as ImageIcon } from "lucide-react";
+import type { RefundMethod, ReturnRequest, ReturnRequestStatus } from "@/types";
+
+type ReturnRow = ReturnRequest & {
+  orders: { order_number: string; total_amount: number; payment_status: string; refunded_amount: number } | null;
+  profiles: { email: string; full_name: string | null } | null;
+};
+
+export default function ReturnsPage() {
+  const [hasAccess, setHasAccess] = useState(false);
+  const [canRefund, setCanRefund] = useState(false);
+  const [requests, setRequests] = useState<ReturnRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [statusFilter, setStatusFilter] = useState<"all" | ReturnRequestStatus>("requested");
+  const [receiving, setReceiving] = useState<ReturnRow | null>(null);
+  const [restock, setRestock] = useState(true);
+  const [refunding, setRefunding] = useState<ReturnRow | null>(null);
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>("provider");
+
+  useEffect(() => {
+    checkPermissions();
+    loadRequests();
+  }, []);
+
+  async function checkPermissions() {
+    const [agent, admin] = await Promise.all([checkPermission("agent"), checkPermission("admin")]);
+    setHasAccess(agent);
+    setCanRefund(admin);
+  }
+
+  async function loadRequests() {
+    setLoading(true);
+    const result = await getReturnRequests();
+    if (result.success && result.data) {
+      setRequests(result.data);
+    }
+    setLoading(false);
+  }
+
+  function showResult(result: { success: boolean; message?: string; error?: string }) {
+    setMessage({ type: result.success ? "success" : "error", text: result.message || result.error || "" });
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  async function handleReview(request: ReturnRow, decision: "approved" | "rejected") {
+    const note = prompt(
+      decision === "approved"
+        ? "Note for the customer (optional), e.g. where to send the items:"
+        : "Reason for rejecting (shown to the customer):"
+    );
+    if (note === null) return;
+
+    setActionLoading(request.id);
+    const result = await reviewReturnRequest(request.id, decision, note);
+    showResult(result);
+    if (result.success) loadRequests();
+    setActionLoading(null);
+  }
+
+  async function handleReceive(e: React.FormEvent) {
+    e.preventDefault();
+    if (!receiving) return;
+
+    setActionLoading(receiving.id);
+    const result = await receiveReturn(receiving.id, restock);
+    showResult(result);
+    if (result.success) {
+      setReceiving(null);
+      loadRequests();
+    }
+    setActionLoading(null);
+  }
+
+  async function handleRefund(e: React.FormEvent) {
+    e.preventDefault();
+    if (!refunding) return;
+
+    setActionLoading(refunding.id);
+    const result = await refundReturn(refunding.id, refundMethod);
+    showResult(result);
+    if (result.success) setRefunding(null);
+    loadRequests();
+    setActionLoading(null);
+  }
+
+  const filteredRequests = requests.filter((r) => statusFilter === "all" || r.status === statusFilter);
+
+  const getStatusColor = (status: ReturnRequestStatus) => {
+    switch (status) {
+      case "requested": return "bg-yellow-100 text-yellow-800";
+      case "approved": return "bg-blue-100 text-blue-800";
+      case "rejected": return "bg-red-100 text-red-800";
+      case "received": return "bg-purple-100 text-purple-800";
+      case "refunded": return "bg-green-100 text-green-800";
+    }
+  };
+
+  if (!hasAccess) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold text-red-600">Access Denied</h2>
+        <p className="text-gray-600 mt-2">You don't have permission to manage returns.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">Returns</h1>
+          <p className="text-gray-600 mt-1">Review return requests and process returned goods</p>
+        </div>
+        <RotateCcw className="text-radiance-goldColor" size={32} />
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-xl ${message.type === "success" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
+          {message.text}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex gap-2 overflow-x-auto">
+        {(["requested", "approved", "received", "refunded", "rejected", "all"] as const).map((status) => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap ${
+              statusFilter === status
+                ? "bg-radiance-goldColor text-white"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+            }`}
+          >
+            {status.charAt(0).toUpperCase() + status.slice(1)}
+            {status !== "all" && ` (${requests.filter((r) => r.status === status).length})`}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+        </div>
+      ) : filteredRequests.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-xl">
+          <RotateCcw size={48} className="mx-auto text-gray-400 mb-4" />
+          <p className="text-gray-600">No return requests</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredRequests.map((request) => (
+            <div key={request.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-bold text-gray-900">{request.orders?.order_number}</span>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(request.status)}`}>
+                      {request.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {request.profiles?.full_name || request.profiles?.email} · requested{" "}
+                    {new Date(request.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  {request.status === "requested" && (
+                    <>
+                      <button
+                        onClick={() => handleReview(request, "approved")}
+                        disabled={actionLoading === request.id}
+                        className="flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckCircle size={16} />
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReview(request, "rejected")}
+                        disabled={actionLoading === request.id}
+                        className="flex items-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 disabled:opacity-50"
+                      >
+                        <XCircle size={16} />
+                        Reject
+                      </button>
+                    </>
+                  )}
+                  {request.status === "approved" && (
+                    <button
+                      onClick={() => {
+                        setRestock(true);
+                        setReceiving(request);
+                      }}
+                      disabled={actionLoading === request.id}
+                      className="flex items-center gap-1 px-3 py-2 bg-radiance-goldColor text-white rounded-lg text-sm hover:bg-radiance-charcoalTextColor disabled:opacity-50"
+                    >
+                      <PackageCheck size={16} />
+                      Receive goods
+                    </button>
+                  )}
+                  {request.status === "received" && canRefund && (
+                    <button
+                      onClick={() => {
+                        setRefundMethod("provider");
+                        setRefunding(request);
+                      }}
+                      disabled={actionLoading === request.id}
+                      className="flex items-center gap-1 px-3 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:opacity-50"
+                    >
+                      <RotateCcw size={16} />
+                      Refund
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Items</p>
+                  {request.items.map((line) => (
+                    <p key={line.order_item_id} className="text-gray-900">
+                      {line.product_name} × {line.quantity}
+                    </p>
+                  ))}
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Reason</p>
+                  <p className="text-gray-900">{request.reason}</p>
+                  {request.admin_note && (
+                    <p className="text-xs text-gray-500 mt-1">Staff note: {request.admin_note}</p>
+                  )}
+                  {request.received_at && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Received {new Date(request.received_at).toLocaleDateString()}
+                      {request.restocked ? " · restocked" : " · not restocked"}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {request.photos.length > 0 && (
+                <div className="mt-4 flex gap-2 flex-wrap">
+                  {request.photos.map((url) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="w-20 h-20 rounded-lg overflow-hidden border border-gray-200 bg-gray-50 flex items-center justify-center"
+                    >
+                      <img src={url} alt="Return photo" className="w-full h-full object-cover" />
+                    </a>
+                  ))}
+                </div>
+              )}
+              {request.photos.length === 0 && (
+                <p className="mt-4 text-xs text-gray-400 flex items-center gap-1">
+                  <ImageIcon size={14} />
+                  No photos attached
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Receive Modal */}
+      {receiving && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleReceive} className="bg-white rounded-2xl max-w-md w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold">Receive Return</h2>
+              <button type="button" onClick={() => setReceiving(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <XCircle size={24} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              {receiving.orders?.order_number} will be marked as returned.
+            </p>
+            <div className="space-y-1 text-sm">
+              {receiving.items.map((line) => (
+                <p key={line.order_item_id}>{line.product_name} × {line.quantity}</p>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+              Return these items to stock
+            </label>
+            <button
+              type="submit"
+              disabled={actionLoading === receiving.id}
+              className="w-full bg-radiance-goldColor text-white py-2 rounded-lg font-medium hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+            >
+              Confirm Receipt
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Refund Modal */}
+      {refunding && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleRefund} className="bg-white rounded-2xl max-w-md w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold">Refund Return</h2>
+              <button type="button" onClick={() => setRefunding(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <XCircle size={24} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              Refunds the returned items on {refunding.orders?.order_number}, net of any coupon discount and including their share of tax.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Refund through</label>
+              <select
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value as RefundMethod)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+              >
+                <option value="provider">Payment provider</option>
+                <option value="manual">Already returned manually (record only)</option>
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={actionLoading === refunding.id}
+              className="w-full bg-red-600 text-white py-2 rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              Issue Refund
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,15 +9,27 @@
 
 import { useState, useEffect } from "react";
 import { getSalesStats, checkPermission } from "../action";
-import { DollarSign, ShoppingCart, CheckCircle, TrendingUp } from "lucide-react";
+import { DollarSign, ShoppingCart, CheckCircle, TrendingUp, Banknote } from "lucide-react";
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  paystack: "Paystack",
+  flutterwave: "Flutterwave",
+  bank_transfer: "Bank Transfer",
+  cod_cash: "Cash on Delivery",
+  cod_pos: "POS on Delivery",
+  unknown: "Unrecorded",
+};
 
 export default function SalesLogPage() {
   const [hasAccess, setHasAccess] = useState(false);
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<{
     totalRevenue: number;
+    totalRefunded: number;
     totalOrders: number;
     completedOrders: number;
+    paymentMethods: Record<string, { orders: number; revenue: number }>;
+    pendingCollection: { orders: number; amount: number };
     orders: any[];
   } | null>(null);
   const [period, setPeriod] = useState<"day" | "week" | "month" | "all">("all");
@@ -89,6 +101,11 @@ export default function SalesLogPage() {
                   <p className="text-2xl font-bold text-radiance-goldColor">
                     ₦{stats.totalRevenue.toLocaleString()}
                   </p>
+                  {stats.totalRefunded > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      after ₦{stats.totalRefunded.toLocaleString()} refunded
+                    </p>
+                  )}
                 </div>
                 <DollarSign size={40} className="text-green-500" />
               </div>
@@ -124,6 +141,32 @@ export default function SalesLogPage() {
             </div>
           </div>
 
+          {/* Payment Methods */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-bold">Revenue by Payment Method</h2>
+              {stats.pendingCollection.orders > 0 && (
+                <span className="flex items-center gap-2 text-sm text-blue-700">
+                  <Banknote size={16} />
+                  ₦{stats.pendingCollection.amount.toLocaleString()} awaiting collection ({stats.pendingCollection.orders} orders)
+                </span>
+              )}
+            </div>
+            <div className="divide-y divide-gray-200">
+              {Object.entries(stats.paymentMethods).map(([method, totals]) => (
+                <div key={method} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-900">{PAYMENT_METHOD_LABELS[method] || method}</span>
+                  <span className="text-gray-600">
+                    {totals.orders} orders · <span className="font-bold text-radiance-goldColor">₦{totals.revenue.toLocaleString()}</span>
+                  </span>
+                </div>
+              ))}
+              {Object.keys(stats.paymentMethods).length === 0 && (
+                <p className="px-6 py-3 text-sm text-gray-500">No paid orders yet</p>
+              )}
+            </div>
+          </div>
+
           {/* Recent Orders */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
             <div className="px-6 py-4 border-b border-gray-200">
@@ -0,0 +1,456 @@
+/**
+ * Shipping Zones Page
+ *
+ * Manage where we deliver, what it costs and how long it takes. Each zone
+ * covers states (optionally narrowed to LGAs) with a weight- or item-based
+ * rate table, a free-shipping threshold and a delivery estimate.
+ * Access: Admin, Chief Admin
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  checkPermission,
+  getShippingZones,
+  saveShippingZone,
+  toggleShippingZone,
+} from "../action";
+import { Plus, Trash2, XCircle, Truck } from "lucide-react";
+import type { ShippingRateBasis, ShippingZone } from "@/types";
+import { NIGERIAN_STATES } from "@/utils/shipping/nigeria";
+import { sortRateTiers } from "@/utils/shipping/zones";
+
+interface ZoneForm {
+  name: string;
+  states: string[];
+  lgas: string;
+  rate_basis: ShippingRateBasis;
+  // Kept as strings while editing; "" upper limit means "and above"
+  rates: Array<{ up_to: string; fee: string }>;
+  free_shipping_threshold: string;
+  min_delivery_days: string;
+  max_delivery_days: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: ZoneForm = {
+  name: "",
+  states: [],
+  lgas: "",
+  rate_basis: "weight",
+  rates: [{ up_to: "", fee: "" }],
+  free_shipping_threshold: "",
+  min_delivery_days: "1",
+  max_delivery_days: "3",
+  is_active: true,
+};
+
+function describeRates(zone: ShippingZone) {
+  const unit = zone.rate_basis === "weight" ? "kg" : " item(s)";
+  return sortRateTiers(zone.rate_table)
+    .map((tier) =>
+      `${tier.up_to === null ? "above" : `≤ ${tier.up_to}${unit}`}: ₦${Number(tier.fee).toLocaleString()}`
+    )
+    .join(" · ");
+}
+
+export default function ShippingZonesPage() {
+  const [hasAccess, setHasAccess] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ZoneForm | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    checkPermissions();
+    loadZones();
+  }, []);
+
+  async function checkPermissions() {
+    const hasPermission = await checkPermission("admin");
+    setHasAccess(hasPermission);
+  }
+
+  async function loadZones() {
+    setLoading(true);
+    const result = await getShippingZones();
+    if (result.success && result.data) {
+      setZones(result.data);
+    }
+    setLoading(false);
+  }
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 3000);
+  }
+
+  function openZone(zone: ShippingZone | null) {
+    setEditingId(zone?.id || null);
+    setForm(
+      zone
+        ? {
+            name: zone.name,
+            states: zone.states,
+            lgas: zone.lgas.join(", "),
+            rate_basis: zone.rate_basis,
+            rates: sortRateTiers(zone.rate_table).map((tier) => ({
+              up_to: tier.up_to === null ? "" : String(tier.up_to),
+              fee: String(tier.fee),
+            })),
+            free_shipping_threshold:
+              zone.free_shipping_threshold === null ? "" : String(zone.free_shipping_threshold),
+            min_delivery_days: String(zone.min_delivery_days),
+            max_delivery_days: String(zone.max_delivery_days),
+            is_active: zone.is_active,
+          }
+        : EMPTY_FORM
+    );
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form) return;
+
+    setSaving(true);
+    const result = await saveShippingZone(editingId, {
+      name: form.name,
+      states: form.states,
+      lgas: form.lgas.split(","),
+      rate_basis: form.rate_basis,
+      rate_table: form.rates.map((rate) => ({
+        up_to: rate.up_to.trim() === "" ? null : Number(rate.up_to),
+        fee: Number(rate.fee),
+      })),
+      free_shipping_threshold:
+        form.free_shipping_threshold.trim() === "" ? null : Number(form.free_shipping_threshold),
+      min_delivery_days: Number(form.min_delivery_days),
+      max_delivery_days: Number(form.max_delivery_days),
+      is_active: form.is_active,
+    });
+    setSaving(false);
+
+    if (result.success) {
+      showMessage("success", result.message || "Shipping zone saved");
+      setForm(null);
+      loadZones();
+    } else {
+      showMessage("error", result.error || "Failed to save shipping zone");
+    }
+  }
+
+  async function handleToggle(zone: ShippingZone) {
+    const result = await toggleShippingZone(zone.id);
+    showMessage(result.success ? "success" : "error", result.message || result.error || "");
+    if (result.success) loadZones();
+  }
+
+  function toggleState(state: string) {
+    if (!form) return;
+    setForm({
+      ...form,
+      states: form.states.includes(state)
+        ? form.states.filter((s) => s !== state)
+        : [...form.states, state],
+    });
+  }
+
+  function updateRate(index: number, field: "up_to" | "fee", value: string) {
+    if (!form) return;
+    setForm({
+      ...form,
+      rates: form.rates.map((rate, i) => (i === index ? { ...rate, [field]: value } : rate)),
+    });
+  }
+
+  if (!hasAccess) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold text-red-600">Access Denied</h2>
+        <p className="text-gray-600 mt-2">You don't have permission to manage shipping zones.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-radiance-charcoalTextColor">Shipping Zones</h1>
+          <p className="text-gray-600 mt-1">Delivery areas, rates and delivery estimates used at checkout</p>
+        </div>
+        <button
+          onClick={() => openZone(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-radiance-goldColor text-white rounded-lg text-sm font-medium hover:bg-radiance-goldColor/90"
+        >
+          <Plus size={16} /> New Zone
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-radiance-goldColor mx-auto"></div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Zone</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Covers</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rates</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Free Above</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Delivery</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {zones.map((zone) => (
+                  <tr key={zone.id} className={`hover:bg-gray-50 ${zone.is_active ? "" : "opacity-60"}`}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {zone.name}
+                      {!zone.is_active && <p className="text-xs text-gray-500">Inactive</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 max-w-xs">
+                      {zone.states.length === NIGERIAN_STATES.length ? "All states" : zone.states.join(", ")}
+                      {zone.lgas.length > 0 && (
+                        <p className="text-xs text-gray-500">LGAs: {zone.lgas.join(", ")}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{describeRates(zone)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {zone.free_shipping_threshold !== null
+                        ? `₦${Number(zone.free_shipping_threshold).toLocaleString()}`
+                        : "—"}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {zone.min_delivery_days}–{zone.max_delivery_days} days
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => openZone(zone)}
+                          className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggle(zone)}
+                          className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                        >
+                          {zone.is_active ? "Deactivate" : "Activate"}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {zones.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-6 text-center text-sm text-gray-500">
+                      No shipping zones yet. Checkout cannot take orders until one is set up.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Zone Modal */}
+      {form && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleSave} className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold flex items-center gap-2">
+                <Truck size={20} className="text-radiance-goldColor" />
+                {editingId ? "Edit Shipping Zone" : "New Shipping Zone"}
+              </h2>
+              <button type="button" onClick={() => setForm(null)} className="p-2 hover:bg-gray-100 rounded-full">
+                <XCircle size={24} />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                placeholder="e.g. Lagos Mainland"
+                required
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">States</label>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      states: form.states.length === NIGERIAN_STATES.length ? [] : [...NIGERIAN_STATES],
+                    })
+                  }
+                  className="text-xs text-radiance-goldColor hover:underline"
+                >
+                  {form.states.length === NIGERIAN_STATES.length ? "Clear all" : "Select all"}
+                </button>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-1 max-h-40 overflow-y-auto border border-gray-200 rounded-lg p-2">
+                {NIGERIAN_STATES.map((state) => (
+                  <label key={state} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.states.includes(state)}
+                      onChange={() => toggleState(state)}
+                    />
+                    {state}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">LGAs (optional)</label>
+              <input
+                type="text"
+                value={form.lgas}
+                onChange={(e) => setForm({ ...form, lgas: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                placeholder="Comma separated, e.g. Ikeja, Surulere"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Leave blank to cover the whole of each state. A zone naming the customer's LGA takes priority.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Price by</label>
+              <select
+                value={form.rate_basis}
+                onChange={(e) => setForm({ ...form, rate_basis: e.target.value as ShippingRateBasis })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+              >
+                <option value="weight">Parcel weight (kg)</option>
+                <option value="item_count">Number of items</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Rate table</label>
+              {form.rates.map((rate, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-500">Up to</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={rate.up_to}
+                    onChange={(e) => updateRate(index, "up_to", e.target.value)}
+                    className="w-24 border border-gray-300 rounded-lg px-2 py-1"
+                    placeholder="no limit"
+                  />
+                  <span className="text-gray-500">{form.rate_basis === "weight" ? "kg" : "items"}: ₦</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={rate.fee}
+                    onChange={(e) => updateRate(index, "fee", e.target.value)}
+                    className="w-28 border border-gray-300 rounded-lg px-2 py-1"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, rates: form.rates.filter((_, i) => i !== index) })}
+                    disabled={form.rates.length === 1}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, rates: [...form.rates, { up_to: "", fee: "" }] })}
+                className="text-xs text-radiance-goldColor hover:underline"
+              >
+                + Add rate
+              </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Free above (₦)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.free_shipping_threshold}
+                  onChange={(e) => setForm({ ...form, free_shipping_threshold: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                  placeholder="Never"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Min days</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.min_delivery_days}
+                  onChange={(e) => setForm({ ...form, min_delivery_days: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max days</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.max_delivery_days}
+                  onChange={(e) => setForm({ ...form, max_delivery_days: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-radiance-goldColor"
+                  required
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_active}
+                onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-radiance-goldColor text-white py-2 rounded-lg font-medium hover:bg-radiance-charcoalTextColor transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Zone"}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * Local Courier Simulator: Shipping Label
+ *
+ * Printable stand-in for a courier waybill (COURIERS_MODE=simulate), so the
+ * "Print label" flow in /admin/orders works offline.
+ * Disabled in production.
+ */
+
+import { NextResponse } from "next/server";
+import { isSimulatedCouriersMode } from "@/utils/couriers";
+
+function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+export async function GET(request: Request) {
+  if (!isSimulatedCouriersMode()) return notFound();
+
+  const tracking = new URL(request.url).searchParams.get("tracking") || "";
+  if (!tracking.startsWith("SIM-")) return notFound();
+
+  const html = `<!doctype html>
+<html><body style="font-family:monospace;max-width:420px;margin:64px auto;border:2px dashed #000;padding:24px">
+  <h1>SIMULATED WAYBILL</h1>
+  <p>Tracking number:</p>
+  <p style="font-size:20px"><strong>${escapeHtml(tracking)}</strong></p>
+  <p>Not valid for real shipments.</p>
+</body></html>`;
+
+  return new NextResponse(html, { headers: { "Content-Type": "text/html" } });
+}
@@ -0,0 +1,72 @@
+/**
+ * Local Fake Gateway: Hosted Payment Page
+ *
+ * Where fake providers send the customer instead of a real gateway
+ * (PAYMENTS_MODE=fake). Pick an outcome and you are redirected back to the
+ * checkout callback exactly like a real gateway would. "Underpay" charges
+ * less than the order total to rehearse tampered payments.
+ * Disabled in production.
+ */
+
+import { NextResponse } from "next/server";
+import { getFakeLedger } from "@/utils/payments/fake";
+import { isFakePaymentsMode } from "@/utils/payments";
+
+function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+export async function GET(request: Request) {
+  if (!isFakePaymentsMode()) return notFound();
+
+  const reference = new URL(request.url).searchParams.get("reference") || "";
+  const transaction = getFakeLedger().get(reference);
+  if (!transaction) return notFound();
+
+  const outcomes = [
+    ["success", "Pay"],
+    ["underpay", "Underpay"],
+    ["failed", "Decline"],
+  ]
+    .map(
+      ([value, label]) =>
+        `<button name="outcome" value="${value}" style="margin:4px;padding:8px 16px">${label}</button>`,
+    )
+    .join("");
+
+  const html = `<!doctype html>
+<html><body style="font-family:sans-serif;max-width:420px;margin:64px auto">
+  <h1>Fake ${escapeHtml(transaction.provider)} checkout</h1>
+  <p>Reference: <strong>${escapeHtml(reference)}</strong></p>
+  <p>Amount: <strong>${escapeHtml(transaction.currency)} ${transaction.amount.toLocaleString()}</strong></p>
+  <form method="post">
+    <input type="hidden" name="reference" value="${escapeHtml(reference)}" />
+    ${outcomes}
+  </form>
+</body></html>`;
+
+  return new NextResponse(html, { headers: { "Content-Type": "text/html" } });
+}
+
+export async function POST(request: Request) {
+  if (!isFakePaymentsMode()) return notFound();
+
+  const form = await request.formData();
+  const reference = String(form.get("reference") || "");
+  const outcome = String(form.get("outcome") || "failed");
+
+  const transaction = getFakeLedger().get(reference);
+  if (!transaction) return notFound();
+
+  transaction.status = outcome === "failed" ? "failed" : "success";
+  transaction.amountPaid =
+    outcome === "success" ? transaction.amount : outcome === "underpay" ? transaction.amount / 2 : 0;
+
+  const callback = new URL(transaction.callbackUrl, request.url);
+  callback.searchParams.set("reference", reference);
+  return NextResponse.redirect(callback, 303);
+}
@@ -0,0 +1,26 @@
+/**
+ * Job: Cancel Unpaid Orders
+ *
+ * Cancels orders left unpaid past ORDER_PAYMENT_WINDOW_MINUTES and releases
+ * their stock. Schedule hourly with `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/utils/jobs/auth";
+import { cancelUnpaidOrders } from "@/utils/orders/payment-window";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const cancelled = await cancelUnpaidOrders();
+    return NextResponse.json({ success: true, cancelled });
+  } catch (error) {
+    console.error("Error cancelling unpaid orders:", error);
+    return NextResponse.json({ success: false, error: "Job failed" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
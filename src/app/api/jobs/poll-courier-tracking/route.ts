@@ -0,0 +1,28 @@
+/**
+ * Job: Poll Courier Tracking
+ *
+ * Fetches tracking events for undelivered shipments booked through a
+ * courier integration and advances shipments and orders as the courier
+ * scans them. Schedule every 30 minutes with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/utils/jobs/auth";
+import { pollCourierTracking } from "@/utils/couriers/tracking";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { polled, updated } = await pollCourierTracking();
+    return NextResponse.json({ success: true, polled, updated });
+  } catch (error) {
+    console.error("Error polling courier tracking:", error);
+    return NextResponse.json({ success: false, error: "Job failed" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,40 @@
+/**
+ * Job: Payment Reconciliation
+ *
+ * Compares orders with each gateway's transaction list and records
+ * discrepancies for /admin/reconciliation. Schedule daily with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * Query parameters (ISO dates, optional):
+ * - from: start of range (default: 25 hours ago)
+ * - to: end of range (default: 1 hour ago, so in-flight payments can settle)
+ */
+
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/utils/jobs/auth";
+import { runReconciliation } from "@/utils/payments/reconciliation";
+
+const HOUR = 60 * 60 * 1000;
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const to = params.get("to") ? new Date(params.get("to")!) : new Date(Date.now() - HOUR);
+  const from = params.get("from") ? new Date(params.get("from")!) : new Date(to.getTime() - 24 * HOUR);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+  }
+
+  const result = await runReconciliation({ from, to }, null);
+  if (!result.success) {
+    return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, runId: result.runId, mismatches: result.mismatches });
+}
+
+export const POST = GET;
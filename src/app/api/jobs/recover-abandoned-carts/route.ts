@@ -0,0 +1,28 @@
+/**
+ * Job: Recover Abandoned Carts
+ *
+ * Records carts idle past ABANDONED_CART_HOURS, sends their owners a
+ * recovery message (with a coupon when CART_RECOVERY_COUPON_PERCENT is set)
+ * and attributes orders placed after a message. Schedule hourly with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/utils/jobs/auth";
+import { recoverAbandonedCarts } from "@/utils/cart/abandoned";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await recoverAbandonedCarts();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error recovering abandoned carts:", error);
+    return NextResponse.json({ success: false, error: "Job failed" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,26 @@
+/**
+ * Job: Release Expired Stock Reservations
+ *
+ * Returns stock held by unpaid orders past their reservation window.
+ * Schedule every few minutes with `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/utils/jobs/auth";
+import { releaseExpiredReservations } from "@/utils/orders/reservations";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const released = await releaseExpiredReservations();
+    return NextResponse.json({ success: true, released });
+  } catch (error) {
+    console.error("Error releasing reservations:", error);
+    return NextResponse.json({ success: false, error: "Job failed" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,27 @@
+/**
+ * Job: Send Wishlist Alerts
+ *
+ * Messages customers whose opted-in wishlist items dropped in price or came
+ * back in stock since they last saw them. Schedule hourly with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/utils/jobs/auth";
+import { sendWishlistAlerts } from "@/utils/wishlist/alerts";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sendWishlistAlerts();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error sending wishlist alerts:", error);
+    return NextResponse.json({ success: false, error: "Job failed" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
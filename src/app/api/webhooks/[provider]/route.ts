@@ -0,0 +1,54 @@
+/**
+ * Payment Gateway Webhook Endpoint
+ *
+ * Receives charge and refund events so orders are reconciled even when the
+ * customer closes the tab before returning from the gateway. Configure
+ * https://<domain>/api/webhooks/<provider> in each gateway's dashboard,
+ * e.g. /api/webhooks/paystack or /api/webhooks/flutterwave.
+ *
+ * Responses:
+ * - 401 when the delivery's signature is invalid
+ * - 500 when processing failed, so the gateway retries the delivery
+ * - 503 while another delivery of the same event is still being applied,
+ *   so the gateway retries until it has been
+ * - 200 otherwise (including duplicates and events we don't act on)
+ */
+
+import { NextResponse } from "next/server";
+import { getPaymentProvider, isPaymentProviderName } from "@/utils/payments";
+import { handlePaymentEvent } from "@/utils/payments/events";
+import type { ParsedWebhookEvent } from "@/utils/payments/types";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ provider: string }> },
+) {
+  const { provider: providerName } = await params;
+  if (!isPaymentProviderName(providerName)) {
+    return NextResponse.json({ error: "Unknown provider" }, { status: 404 });
+  }
+
+  const rawBody = await request.text();
+
+  let event: ParsedWebhookEvent | null;
+  try {
+    event = getPaymentProvider(providerName).parseWebhook(rawBody, request.headers);
+  } catch {
+    return NextResponse.json({ error: "Malformed payload" }, { status: 400 });
+  }
+
+  if (!event) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  try {
+    const outcome = await handlePaymentEvent(providerName, event);
+    if (outcome === "processing") {
+      return NextResponse.json({ error: "Event is being processed" }, { status: 503 });
+    }
+    return NextResponse.json({ received: true, outcome });
+  } catch (error) {
+    console.error(`Error processing ${providerName} webhook:`, error);
+    return NextResponse.json({ error: "Processing failed" }, { status: 500 });
+  }
+}
@@ -1,9 +1,9 @@
 import type { Metadata } from "next";
 import "./globals.css";
-import Script from "next/script";
 import BottomNavBar from "@/components/BottomNavBar";
 import TopBar from "@/components/TopBar";
 import { UserProvider } from "@/context/UserContext";
+import { CartProvider } from "@/context/CartContext";
 import { createBaseMetadata } from "@/utils/seo/metadata-factory";
 
 const bodyClasses = `
@@ -66,24 +66,19 @@ export default function RootLayout({
         />
       </head>
       <body className={`${bodyClasses}`}>
-        {/* Load Paystack inline script globally */}
-        <Script
-          src="https://js.paystack.co/v1/inline.js"
-          strategy="beforeInteractive"
-          async
-        />
-
         <UserProvider>
-          {/* Top Bar */}
-          <TopBar />
+          <CartProvider>
+            {/* Top Bar */}
+            <TopBar />
 
-          {/* Main content */}
-          <main className="pb-20 md:pb-0">
-            <div className="mx-auto max-w-6xl px-6 py-12">{children}</div>
-          </main>
+            {/* Main content */}
+            <main className="pb-20 md:pb-0">
+              <div className="mx-auto max-w-6xl px-6 py-12">{children}</div>
+            </main>
 
-          {/* Nav bar */}
-          <BottomNavBar />
+            {/* Nav bar */}
+            <BottomNavBar />
+          </CartProvider>
         </UserProvider>
       </body>
     </html>
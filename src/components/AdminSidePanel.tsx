@@ -17,6 +17,11 @@ import {
   LogOut,
   ChevronDown,
   ChevronRight,
+  Scale,
+  RotateCcw,
+  Truck,
+  MapPin,
+  ShoppingCart,
 } from "lucide-react";
 
 // Navigation Structure
@@ -35,6 +40,8 @@ const adminNavItems = [
     icon: LayoutDashboard,
     subItems: [
       { label: "Sales Log", href: "/admin/sales-log", icon: ClipboardList },
+      { label: "Abandoned Carts", href: "/admin/abandoned-carts", icon: ShoppingCart },
+      { label: "Reconciliation", href: "/admin/reconciliation", icon: Scale },
       { label: "Audit Log", href: "/admin/audit-log", icon: History },
       {
         label: "Products Catalog",
@@ -45,6 +52,9 @@ const adminNavItems = [
     ],
   },
   { title: "Orders Manager", href: "/admin/orders", icon: ShoppingBag },
+  { title: "Returns", href: "/admin/returns", icon: RotateCcw },
+  { title: "Shipping Zones", href: "/admin/shipping", icon: Truck },
+  { title: "Pickup Points", href: "/admin/pickup-points", icon: MapPin },
 ];
 
 export default function AdminSidePanel() {
@@ -11,7 +11,8 @@ import {
   GalleryVerticalEnd,
 } from "lucide-react";
 import CartOverlay from "./CartOverlay";
-import type { CartItem } from "@/types";
+import { useCart } from "@/context/CartContext";
+import { useUser } from "@/context/UserContext";
 
 // Navigation component for all pages except pages with "/admin/*"
 export default function BottomNavBar() {
@@ -21,41 +22,35 @@ export default function BottomNavBar() {
   // State to manage the cart overlay visibility
   const [isCartOpen, setIsCartOpen] = useState(false);
 
-  // State for cart items
-  const [cart, setCart] = useState<CartItem[]>([]);
+  // Same cart as checkout: browser storage when signed out, the account when signed in
+  const {
+    items: cart,
+    saved,
+    issues,
+    updateQuantity,
+    removeItem,
+    moveItem,
+    removeSavedItem,
+    validate,
+    fixIssues,
+  } = useCart();
+  // Saving for later and the wishlist need an account
+  const user = useUser();
 
-  // Effect to load cart data from localStorage
+  // Prices and stock may have moved since items were added
   useEffect(() => {
-    const savedCart = localStorage.getItem("cart");
-    if (savedCart) {
-      try {
-        setCart(JSON.parse(savedCart));
-      } catch (e) {
-        console.error("Error loading cart:", e);
-      }
-    }
-  }, []);
+    if (isCartOpen) validate();
+  }, [isCartOpen, validate]);
 
   // Handler to update product quantities
   const handleUpdateQuantity = (id: string, delta: number) => {
-    const updatedCart = cart
-      .map((item) => {
-        if (item.id === id) {
-          return { ...item, quantity: Math.max(0, item.quantity + delta) };
-        }
-        return item;
-      })
-      .filter((item) => item.quantity > 0);
-
-    setCart(updatedCart);
-    localStorage.setItem("cart", JSON.stringify(updatedCart));
+    const item = cart.find((i) => i.id === id);
+    if (item) updateQuantity(id, item.quantity + delta);
   };
 
   // Handler to remove items from cart
   const handleRemoveItem = (id: string) => {
-    const updatedCart = cart.filter((item) => item.id !== id);
-    setCart(updatedCart);
-    localStorage.setItem("cart", JSON.stringify(updatedCart));
+    removeItem(id);
   };
 
   // Logic to hide Home and AboutUs on /shop or /admin routes
@@ -91,8 +86,13 @@ export default function BottomNavBar() {
         isOpen={isCartOpen}
         onClose={() => setIsCartOpen(false)}
         cart={cart}
+        issues={issues}
         onUpdateQuantity={handleUpdateQuantity}
         onRemoveItem={handleRemoveItem}
+        onFixIssues={fixIssues}
+        saved={saved}
+        onMoveItem={user ? moveItem : undefined}
+        onRemoveSavedItem={user ? removeSavedItem : undefined}
       />
 
       {/* Positioning wrapper: flex-col (mobile) -> flex-row (desktop) */}
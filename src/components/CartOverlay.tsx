@@ -1,27 +1,64 @@
 "use client";
-import React from "react";
-import { X, Plus, Minus, Trash2, ShoppingBag } from "lucide-react";
+import React, { useState } from "react";
+import { X, Plus, Minus, Trash2, ShoppingBag, AlertCircle, Bookmark, Heart } from "lucide-react";
 import Link from "next/link";
-import type { CartItem } from "@/types";
+import { getLineKey } from "@/utils/products/variants";
+import type { CartIssue, CartItem, CartList, SavedCartItem } from "@/types";
 
 interface CartOverlayProps {
   isOpen: boolean;
   onClose: () => void;
   cart: CartItem[];
+  // Live price and stock problems, each with a one-click fix
+  issues: CartIssue[];
   onUpdateQuantity: (id: string, delta: number) => void;
   onRemoveItem: (id: string) => void;
+  onFixIssues: (issues: CartIssue[]) => Promise<void>;
+  // Signed in only: lines set aside, and moves between cart, saved and wishlist
+  saved?: SavedCartItem[];
+  onMoveItem?: (
+    productId: string,
+    from: CartList,
+    to: CartList,
+    variantId?: string | null,
+  ) => Promise<boolean>;
+  onRemoveSavedItem?: (savedItemId: string) => void;
 }
 
 export default function CartOverlay({
   isOpen,
   onClose,
   cart,
+  issues,
   onUpdateQuantity,
   onRemoveItem,
+  onFixIssues,
+  saved = [],
+  onMoveItem,
+  onRemoveSavedItem,
 }: CartOverlayProps) {
+  const [fixing, setFixing] = useState(false);
+  // Line being moved, so its buttons can't be pressed twice
+  const [moving, setMoving] = useState<string | null>(null);
+
+  async function handleMove(item: CartItem | SavedCartItem, from: CartList, to: CartList) {
+    if (!onMoveItem) return;
+    setMoving(getLineKey(item));
+    const moved = await onMoveItem(item.product_id, from, to, item.variant_id);
+    setMoving(null);
+    if (!moved) alert("Couldn't move this item. Please try again.");
+  }
+
+  async function handleFix(toFix: CartIssue[]) {
+    setFixing(true);
+    await onFixIssues(toFix);
+    setFixing(false);
+  }
+
   // Calculate total price for all items in cart
   const totalPrice = cart.reduce((acc, item) => {
-    const price = item.product?.discount_price || item.product?.price || 0;
+    const priced = item.variant || item.product;
+    const price = priced?.discount_price || priced?.price || 0;
     return acc + price * item.quantity;
   }, 0);
 
@@ -59,25 +96,149 @@ export default function CartOverlay({
         <div className="flex-1 overflow-y-auto">
           {cart.length > 0 ? (
             <div className="space-y-3">
+              {issues.length > 1 && (
+                <div className="flex items-center justify-between gap-2 p-2 rounded-xl bg-yellow-50 text-xs text-yellow-800">
+                  <span className="flex items-center gap-1">
+                    <AlertCircle size={14} />
+                    {issues.length} items changed since you added them
+                  </span>
+                  <button
+                    onClick={() => handleFix(issues)}
+                    disabled={fixing}
+                    className="font-bold hover:underline disabled:opacity-50"
+                  >
+                    Fix all
+                  </button>
+                </div>
+              )}
               {cart.map((item) => (
                 <div
                   key={item.id}
-                  className="flex items-center gap-2 p-2 rounded-xl border border-gray-50 bg-gray-50/30"
+                  className="rounded-xl border border-gray-50 bg-gray-50/30"
                 >
-                  {/* Product Image */}
-                  {item.product?.images?.[0] ? (
-                    <img
-                      src={item.product.images[0]}
-                      alt={item.product.name}
-                      className="w-12 h-12 object-cover rounded-lg"
-                    />
-                  ) : (
-                    <div className="w-12 h-12 bg-gray-200 rounded-lg flex items-center justify-center">
-                      <ShoppingBag size={16} className="text-gray-400" />
+                  <div className="flex items-center gap-2 p-2">
+                    {/* Product Image */}
+                    {item.variant?.images?.[0] || item.product?.images?.[0] ? (
+                      <img
+                        src={item.variant?.images?.[0] || item.product?.images?.[0]}
+                        alt={item.product?.name}
+                        className="w-12 h-12 object-cover rounded-lg"
+                      />
+                    ) : (
+                      <div className="w-12 h-12 bg-gray-200 rounded-lg flex items-center justify-center">
+                        <ShoppingBag size={16} className="text-gray-400" />
+                      </div>
+                    )}
+
+                    {/* Product Info */}
+                    <Link
+                      href={`/products/${item.product_id}`}
+                      onClick={onClose}
+                      className="flex-1 group"
+                    >
+                      <span className="text-xs font-bold text-radiance-charcoalTextColor group-hover:text-radiance-goldColor transition-colors line-clamp-1">
+                        {item.product?.name}
+                      </span>
+                      {item.variant && (
+                        <span className="block text-[10px] text-gray-500">{item.variant.name}</span>
+                      )}
+                      <span className="text-[10px] text-gray-500 font-medium">
+                        ₦{((item.variant || item.product)?.discount_price || (item.variant || item.product)?.price || 0).toLocaleString()}
+                      </span>
+                    </Link>
+
+                    {/* Quantity Selector */}
+                    <div className="flex items-center gap-1 bg-white border border-gray-100 rounded-lg px-1.5 py-1 shadow-sm">
+                      <button
+                        onClick={() => {
+                          if (item.quantity === 1) {
+                            onRemoveItem(item.id);
+                          } else {
+                            onUpdateQuantity(item.id, -1);
+                          }
+                        }}
+                        className="p-1 text-gray-400 hover:text-radiance-goldColor transition-colors"
+                      >
+                        {item.quantity === 1 ? (
+                          <Trash2 size={12} className="text-red-400" />
+                        ) : (
+                          <Minus size={12} />
+                        )}
+                      </button>
+
+                      <span className="text-xs font-black text-radiance-charcoalTextColor min-w-4 text-center">
+                        {item.quantity}
+                      </span>
+
+                      <button
+                        onClick={() => onUpdateQuantity(item.id, 1)}
+                        className="p-1 text-gray-400 hover:text-radiance-goldColor transition-colors"
+                      >
+                        <Plus size={12} />
+                      </button>
+                    </div>
+                  </div>
+
+                  {onMoveItem && (
+                    <div className="flex gap-3 px-2 pb-2 text-[10px] font-bold text-gray-500">
+                      <button
+                        onClick={() => handleMove(item, "cart", "saved")}
+                        disabled={moving === getLineKey(item)}
+                        className="flex items-center gap-1 hover:text-radiance-goldColor disabled:opacity-50"
+                      >
+                        <Bookmark size={10} />
+                        Save for later
+                      </button>
+                      <button
+                        onClick={() => handleMove(item, "cart", "wishlist")}
+                        disabled={moving === getLineKey(item)}
+                        className="flex items-center gap-1 hover:text-radiance-goldColor disabled:opacity-50"
+                      >
+                        <Heart size={10} />
+                        Move to wishlist
+                      </button>
                     </div>
                   )}
 
-                  {/* Product Info */}
+                  {/* Price and stock changes for this line */}
+                  {issues
+                    .filter((issue) => getLineKey(issue) === getLineKey(item))
+                    .map((issue) => (
+                      <div
+                        key={issue.kind}
+                        className={`flex items-center justify-between gap-2 px-2 pb-2 text-[10px] ${
+                          issue.kind === "price_changed" ? "text-gray-500" : "text-red-600"
+                        }`}
+                      >
+                        <span>{issue.message}</span>
+                        <button
+                          onClick={() => handleFix([issue])}
+                          disabled={fixing}
+                          className="shrink-0 font-bold text-radiance-goldColor hover:underline disabled:opacity-50"
+                        >
+                          {issue.fix_label}
+                        </button>
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <ShoppingBag size={48} className="mx-auto text-gray-300 mb-2" />
+              <p className="text-gray-500 text-sm font-medium">Your cart is empty</p>
+            </div>
+          )}
+
+          {/* Saved for later */}
+          {saved.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-gray-100 space-y-2">
+              <h3 className="text-xs font-bold text-gray-500 flex items-center gap-1">
+                <Bookmark size={12} />
+                Saved for later ({saved.length})
+              </h3>
+              {saved.map((item) => (
+                <div key={item.id} className="flex items-center gap-2 p-2 rounded-xl bg-gray-50/30 border border-gray-50">
                   <Link
                     href={`/products/${item.product_id}`}
                     onClick={onClose}
@@ -86,49 +247,32 @@ export default function CartOverlay({
                     <span className="text-xs font-bold text-radiance-charcoalTextColor group-hover:text-radiance-goldColor transition-colors line-clamp-1">
                       {item.product?.name}
                     </span>
+                    {item.variant && (
+                      <span className="block text-[10px] text-gray-500">{item.variant.name}</span>
+                    )}
                     <span className="text-[10px] text-gray-500 font-medium">
-                      ₦{(item.product?.discount_price || item.product?.price || 0).toLocaleString()}
+                      {item.quantity} × ₦{((item.variant || item.product)?.discount_price || (item.variant || item.product)?.price || 0).toLocaleString()}
+                      {item.product && !item.product.is_active && " · unavailable"}
                     </span>
                   </Link>
-
-                  {/* Quantity Selector */}
-                  <div className="flex items-center gap-1 bg-white border border-gray-100 rounded-lg px-1.5 py-1 shadow-sm">
-                    <button
-                      onClick={() => {
-                        if (item.quantity === 1) {
-                          onRemoveItem(item.id);
-                        } else {
-                          onUpdateQuantity(item.id, -1);
-                        }
-                      }}
-                      className="p-1 text-gray-400 hover:text-radiance-goldColor transition-colors"
-                    >
-                      {item.quantity === 1 ? (
-                        <Trash2 size={12} className="text-red-400" />
-                      ) : (
-                        <Minus size={12} />
-                      )}
-                    </button>
-
-                    <span className="text-xs font-black text-radiance-charcoalTextColor min-w-4 text-center">
-                      {item.quantity}
-                    </span>
-
+                  <button
+                    onClick={() => handleMove(item, "saved", "cart")}
+                    disabled={moving === getLineKey(item) || (item.product && !item.product.is_active)}
+                    className="text-[10px] font-bold text-radiance-goldColor hover:underline disabled:opacity-50"
+                  >
+                    Move to cart
+                  </button>
+                  {onRemoveSavedItem && (
                     <button
-                      onClick={() => onUpdateQuantity(item.id, 1)}
-                      className="p-1 text-gray-400 hover:text-radiance-goldColor transition-colors"
+                      onClick={() => onRemoveSavedItem(item.id)}
+                      className="p-1 text-gray-400 hover:text-red-400"
                     >
-                      <Plus size={12} />
+                      <Trash2 size={12} />
                     </button>
-                  </div>
+                  )}
                 </div>
               ))}
             </div>
-          ) : (
-            <div className="text-center py-8">
-              <ShoppingBag size={48} className="mx-auto text-gray-300 mb-2" />
-              <p className="text-gray-500 text-sm font-medium">Your cart is empty</p>
-            </div>
           )}
         </div>
 
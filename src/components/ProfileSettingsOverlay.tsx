@@ -13,6 +13,7 @@ import {
   ChevronRight,
   LayoutDashboard,
   Shield,
+  MapPin,
 } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -165,6 +166,16 @@ export default function ProfileSettingsOverlay({
             <Headset size={16} className="text-radiance-goldColor" /> Report an
             issue
           </button>
+          {user && (
+            <Link
+              href="/shop/addresses"
+              onClick={onClose}
+              className="w-full flex items-center gap-3 p-3 text-xs font-medium hover:bg-gray-50 rounded-xl transition-colors"
+            >
+              <MapPin size={16} className="text-radiance-goldColor" /> Address
+              Book
+            </Link>
+          )}
           {user && (
             <button className="w-full flex items-center gap-3 p-3 text-xs font-medium hover:bg-gray-50 rounded-xl transition-colors">
               <KeyRound size={16} className="text-radiance-goldColor" /> Reset
@@ -6,12 +6,12 @@ import Link from "next/link";
 import { Star, Heart, ShoppingCart, Plus, Minus } from "lucide-react";
 import { Product } from "@/types";
 import {
-  addToCart,
   addToWishlist,
   removeFromWishlist,
   isInWishlist,
 } from "@/utils/supabase/services";
 import { useUser } from "@/context/UserContext";
+import { useCart } from "@/context/CartContext";
 
 interface ProductCardProps {
   product: Product;
@@ -25,10 +25,18 @@ export default function ProductCard({
   className = "",
 }: ProductCardProps) {
   const user = useUser();
+  const { addItem } = useCart();
   const [quantity, setQuantity] = useState(1);
   const [isWishlisted, setIsWishlisted] = useState(false);
   const [loading, setLoading] = useState(false);
   const [wishlistLoading, setWishlistLoading] = useState(false);
+  // Products sold in variants start on the first one in stock
+  const variants = product.has_variants ? product.variants || [] : [];
+  const [variantId, setVariantId] = useState<string | null>(
+    (variants.find((v) => v.stock_quantity > 0) || variants[0])?.id ?? null,
+  );
+  const variant = variants.find((v) => v.id === variantId) || null;
+  const purchasable = variant || product;
 
   // Check if product is in wishlist on mount
   useEffect(() => {
@@ -38,28 +46,30 @@ export default function ProductCard({
   }, [user, product.id]);
 
   // Calculate display price
-  const displayPrice = product.discount_price || product.price;
+  const displayPrice = purchasable.discount_price || purchasable.price;
   const hasDiscount =
-    product.discount_price && product.discount_price < product.price;
+    purchasable.discount_price &&
+    purchasable.discount_price < purchasable.price;
   const discountPercentage = hasDiscount
     ? Math.round(
-        ((product.price - (product.discount_price || 0)) / product.price) * 100,
+        ((purchasable.price - (purchasable.discount_price || 0)) /
+          purchasable.price) *
+          100,
       )
     : 0;
+  // Variants weren't loaded with this product, so options are chosen on its page
+  const canQuickAdd = !product.has_variants || !!variant;
 
-  // Handle add to cart
+  // Handle add to cart (kept in the browser until the visitor signs in)
   const handleAddToCart = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!user) {
-      alert("Please log in to add items to cart");
-      return;
-    }
-
     setLoading(true);
     try {
-      const success = await addToCart(user.id, product.id, quantity);
+      const success = await addItem(product, quantity, variant);
       if (success) {
-        alert(`Added ${quantity} ${product.name} to cart!`);
+        alert(
+          `Added ${quantity} ${product.name}${variant ? ` (${variant.name})` : ""} to cart!`,
+        );
       } else {
         alert("Failed to add to cart");
       }
@@ -113,9 +123,9 @@ export default function ProductCard({
     >
       {/* Product Image */}
       <div className="relative aspect-square w-full rounded-t-xl overflow-hidden bg-gray-100">
-        {product.images && product.images.length > 0 ? (
+        {variant?.images?.[0] || product.images?.[0] ? (
           <Image
-            src={product.images[0]}
+            src={variant?.images?.[0] || product.images[0]}
             alt={`${product.name} - Image 1`}
             fill
             sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
@@ -135,6 +145,13 @@ export default function ProductCard({
           </div>
         )}
 
+        {/* Bundle Badge */}
+        {product.is_bundle && (
+          <div className="absolute bottom-2 left-2 bg-radiance-goldColor text-white px-2 py-1 rounded-full text-xs font-bold">
+            Gift set
+          </div>
+        )}
+
         {/* Wishlist Button */}
         <button
           onClick={handleWishlistToggle}
@@ -192,13 +209,33 @@ export default function ProductCard({
           </span>
           {hasDiscount && (
             <span className="text-gray-500 text-sm line-through">
-              ₦{product.price.toLocaleString()}
+              ₦{purchasable.price.toLocaleString()}
             </span>
           )}
         </div>
 
+        {/* Variant */}
+        {variants.length > 0 && (
+          <select
+            value={variantId ?? ""}
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+            }}
+            onChange={(e) => setVariantId(e.target.value)}
+            className="w-full border border-gray-200 rounded-lg px-2 py-1.5 text-xs bg-white"
+          >
+            {variants.map((v) => (
+              <option key={v.id} value={v.id} disabled={v.stock_quantity <= 0}>
+                {v.name}
+                {v.stock_quantity <= 0 ? " (sold out)" : ""}
+              </option>
+            ))}
+          </select>
+        )}
+
         {/* Quick Add Section */}
-        {showQuickAdd && product.stock_quantity > 0 && (
+        {showQuickAdd && canQuickAdd && purchasable.stock_quantity > 0 && (
           <div className="space-y-2">
             {/* Quantity Selector */}
             <div className="flex items-center justify-between bg-gray-50 rounded-lg p-2">
@@ -243,8 +280,8 @@ export default function ProductCard({
 
         {/* Stock Status */}
         <div className="text-xs text-gray-500">
-          {product.stock_quantity > 0
-            ? `${product.stock_quantity} in stock`
+          {purchasable.stock_quantity > 0
+            ? `${purchasable.stock_quantity} in stock`
             : "Out of stock"}
         </div>
       </div>
@@ -13,15 +13,21 @@ import {
   ChevronLeft,
   ChevronRight,
 } from "lucide-react";
-import { Product, ProductReview } from "@/types";
+import { Product, ProductBundleItem, ProductReview } from "@/types";
 import {
+  getBundleItems,
   getProductReviews,
-  addToCart,
   addToWishlist,
   removeFromWishlist,
   isInWishlist,
 } from "@/utils/supabase/services";
 import { useUser } from "@/context/UserContext";
+import { useCart } from "@/context/CartContext";
+import {
+  findVariant,
+  isOptionValueAvailable,
+  type VariantSelection,
+} from "@/utils/products/variants";
 import RichViewer from "./RichViewer";
 
 interface ProductDetailProps {
@@ -34,14 +40,23 @@ export default function ProductDetail({
   onClose,
 }: ProductDetailProps) {
   const user = useUser();
+  const { addItem } = useCart();
   const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [bundleItems, setBundleItems] = useState<ProductBundleItem[]>([]);
   const [quantity, setQuantity] = useState(1);
   const [isWishlisted, setIsWishlisted] = useState(false);
   const [currentMediaIndex, setCurrentMediaIndex] = useState(0);
   const [showVideo, setShowVideo] = useState(false);
+  const [selection, setSelection] = useState<VariantSelection>({});
+
+  // Variant matching the chosen options, once every option is chosen
+  const variant = product.has_variants ? findVariant(product, selection) : null;
+  const purchasable = variant || product;
+  const optionsChosen = !product.has_variants || !!variant;
 
-  // Get all media (images + videos)
+  // Get all media (the chosen variant's images first, then images + videos)
   const allMedia = [
+    ...(variant?.images || []),
     ...(product.images || []),
     // Add video URLs if they exist in attributes
     ...(Array.isArray(product.attributes?.videos)
@@ -55,24 +70,26 @@ export default function ProductDetail({
     currentMedia?.includes(".webm") ||
     currentMedia?.includes(".mov");
 
-  // Load reviews and wishlist status
+  // Load reviews, what's in a bundle and wishlist status
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [reviewsData] = await Promise.all([
+        const [reviewsData, bundleData] = await Promise.all([
           getProductReviews(product.id),
+          product.is_bundle ? getBundleItems(product.id) : Promise.resolve([]),
           user
             ? isInWishlist(user.id, product.id).then(setIsWishlisted)
             : Promise.resolve(),
         ]);
         setReviews(reviewsData);
+        setBundleItems(bundleData);
       } catch (error) {
         console.error("Error loading product details:", error);
       }
     };
 
     loadData();
-  }, [product.id, user]);
+  }, [product.id, product.is_bundle, user]);
 
   // Calculate average rating
   const averageRating =
@@ -80,17 +97,23 @@ export default function ProductDetail({
       ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
       : 0;
 
-  // Handle add to cart
+  // Pick one option value; the gallery jumps to the new variant's images
+  const handleSelectOption = (optionName: string, value: string) => {
+    setSelection((current) => ({ ...current, [optionName]: value }));
+    setCurrentMediaIndex(0);
+    setShowVideo(false);
+  };
+
+  // Handle add to cart (kept in the browser until the visitor signs in)
   const handleAddToCart = async () => {
-    if (!user) {
-      alert("Please log in to add items to cart");
-      return;
-    }
+    if (!optionsChosen) return;
 
     try {
-      const success = await addToCart(user.id, product.id, quantity);
+      const success = await addItem(product, quantity, variant);
       if (success) {
-        alert(`Added ${quantity} ${product.name} to cart!`);
+        alert(
+          `Added ${quantity} ${product.name}${variant ? ` (${variant.name})` : ""} to cart!`,
+        );
       } else {
         alert("Failed to add to cart");
       }
@@ -142,12 +165,15 @@ export default function ProductDetail({
   };
 
   // Calculate display price
-  const displayPrice = product.discount_price || product.price;
+  const displayPrice = purchasable.discount_price || purchasable.price;
   const hasDiscount =
-    product.discount_price && product.discount_price < product.price;
+    purchasable.discount_price &&
+    purchasable.discount_price < purchasable.price;
   const discountPercentage = hasDiscount
     ? Math.round(
-        ((product.price - (product.discount_price || 0)) / product.price) * 100,
+        ((purchasable.price - (purchasable.discount_price || 0)) /
+          purchasable.price) *
+          100,
       )
     : 0;
 
@@ -304,8 +330,8 @@ export default function ProductDetail({
                 <p className="text-sm text-gray-500 uppercase tracking-wider">
                   {product.category}
                 </p>
-                {product.sku && (
-                  <p className="text-sm text-gray-500">SKU: {product.sku}</p>
+                {purchasable.sku && (
+                  <p className="text-sm text-gray-500">SKU: {purchasable.sku}</p>
                 )}
               </div>
 
@@ -337,7 +363,7 @@ export default function ProductDetail({
                 {hasDiscount && (
                   <>
                     <span className="text-xl text-gray-500 line-through">
-                      ₦{product.price.toLocaleString()}
+                      ₦{purchasable.price.toLocaleString()}
                     </span>
                     <span className="bg-red-500 text-white px-2 py-1 rounded-full text-sm font-bold">
                       -{discountPercentage}%
@@ -346,11 +372,58 @@ export default function ProductDetail({
                 )}
               </div>
 
+              {/* Variant Options */}
+              {product.has_variants &&
+                (product.variant_options || []).map((optionType) => (
+                  <div key={optionType.name} className="space-y-2">
+                    <p className="text-sm font-medium">
+                      {optionType.name}
+                      {selection[optionType.name] && (
+                        <span className="ml-2 text-gray-600 font-normal">
+                          {selection[optionType.name]}
+                        </span>
+                      )}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {optionType.values.map((value) => {
+                        const available = isOptionValueAvailable(
+                          product,
+                          selection,
+                          optionType.name,
+                          value,
+                        );
+                        const chosen = selection[optionType.name] === value;
+
+                        return (
+                          <button
+                            key={value}
+                            onClick={() =>
+                              handleSelectOption(optionType.name, value)
+                            }
+                            disabled={!available}
+                            className={`px-3 py-1.5 border rounded-lg text-sm transition-colors disabled:opacity-40 disabled:line-through ${
+                              chosen
+                                ? "border-radiance-goldColor bg-radiance-goldColor text-white"
+                                : "border-gray-300 hover:border-radiance-goldColor"
+                            }`}
+                          >
+                            {value}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+
               {/* Stock Status */}
               <div className="text-sm">
-                {product.stock_quantity > 0 ? (
+                {!optionsChosen ? (
+                  <span className="text-gray-600 font-medium">
+                    Choose {(product.variant_options || []).map((type) => type.name.toLowerCase()).join(" and ")} to see availability
+                  </span>
+                ) : purchasable.stock_quantity > 0 ? (
                   <span className="text-green-600 font-medium">
-                    ✓ In Stock ({product.stock_quantity} available)
+                    ✓ In Stock ({purchasable.stock_quantity} available)
                   </span>
                 ) : (
                   <span className="text-red-600 font-medium">
@@ -359,6 +432,23 @@ export default function ProductDetail({
                 )}
               </div>
 
+              {/* Bundle Contents */}
+              {bundleItems.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold text-radiance-charcoalTextColor">
+                    In this set
+                  </h3>
+                  <ul className="space-y-1 text-sm text-gray-600">
+                    {bundleItems.map((item) => (
+                      <li key={item.id}>
+                        {item.quantity} × {item.product?.name}
+                        {item.variant && ` (${item.variant.name})`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Description */}
               {product.description && (
                 <div className="space-y-2">
@@ -422,10 +512,11 @@ export default function ProductDetail({
                   <div className="flex gap-3">
                     <button
                       onClick={handleAddToCart}
-                      className="flex-1 bg-radiance-charcoalTextColor text-white py-3 px-6 rounded-lg font-medium hover:bg-radiance-goldColor transition-colors flex items-center justify-center gap-2"
+                      disabled={!optionsChosen || purchasable.stock_quantity <= 0}
+                      className="flex-1 bg-radiance-charcoalTextColor text-white py-3 px-6 rounded-lg font-medium hover:bg-radiance-goldColor transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:hover:bg-radiance-charcoalTextColor"
                     >
                       <ShoppingCart size={18} />
-                      Add to Cart
+                      {optionsChosen ? "Add to Cart" : "Choose an option"}
                     </button>
                     <button
                       onClick={handleWishlistToggle}
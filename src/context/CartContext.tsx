@@ -0,0 +1,295 @@
+/**
+ * Cart Context Provider
+ * One cart for the whole app: the browser cart while signed out, the
+ * cart_items table once signed in. Signing in merges the browser cart into
+ * the account, and realtime keeps every tab and device in step. Lines are
+ * validated on the server against live prices and stock on request.
+ * Signed-in customers can also set lines aside for later or move them to
+ * and from the wishlist.
+ */
+
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { useUser } from "./UserContext";
+import { validateCart } from "@/app/(users)/shop/checkout/action";
+import {
+  acceptCartItemPrice,
+  addToCart,
+  getCartItems,
+  getSavedCartItems,
+  mergeCartItems,
+  moveCartLine,
+  removeFromCart,
+  removeSavedCartItem,
+  updateCartItemQuantity,
+} from "@/utils/supabase/services";
+import {
+  addToBrowserCart,
+  getBrowserCartValidationLines,
+  onBrowserCartChange,
+  readBrowserCart,
+  setBrowserCartAddedPrice,
+  setBrowserCartQuantity,
+  writeBrowserCart,
+} from "@/utils/cart/browser-cart";
+import type {
+  CartIssue,
+  CartItem,
+  CartList,
+  Product,
+  ProductVariant,
+  SavedCartItem,
+} from "@/types";
+
+interface CartContextValue {
+  items: CartItem[];
+  // Lines saved for later; always empty while signed out
+  saved: SavedCartItem[];
+  // From the last validate(); empty until then
+  issues: CartIssue[];
+  // Products with variants are added as one of them
+  addItem: (product: Product, quantity: number, variant?: ProductVariant | null) => Promise<boolean>;
+  // Zero or less removes the item
+  updateQuantity: (itemId: string, quantity: number) => Promise<boolean>;
+  removeItem: (itemId: string) => Promise<boolean>;
+  // Move a product's line between cart, saved items and wishlist (signed in only)
+  moveItem: (
+    productId: string,
+    from: CartList,
+    to: CartList,
+    variantId?: string | null,
+  ) => Promise<boolean>;
+  removeSavedItem: (savedItemId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+  validate: () => Promise<CartIssue[]>;
+  // Apply one issue's fix, or every issue's, then validate again
+  fixIssues: (issues: CartIssue[]) => Promise<void>;
+}
+
+const CartContext = createContext<CartContextValue | undefined>(undefined);
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const user = useUser();
+  const userId = user?.id ?? null;
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [saved, setSaved] = useState<SavedCartItem[]>([]);
+  const [issues, setIssues] = useState<CartIssue[]>([]);
+
+  // Realtime DELETE events are matched against the rows on screen
+  const itemsRef = useRef<CartItem[]>([]);
+  itemsRef.current = items;
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setItems(readBrowserCart());
+      return;
+    }
+
+    const [cart, savedItems] = await Promise.all([getCartItems(userId), getSavedCartItems(userId)]);
+    setItems(cart);
+    setSaved(savedItems);
+  }, [userId]);
+
+  // Signed out: the browser cart, shared with other tabs through storage events
+  useEffect(() => {
+    if (userId) return;
+
+    const loadCart = () => setItems(readBrowserCart());
+    loadCart();
+    setSaved([]);
+    return onBrowserCartChange(loadCart);
+  }, [userId]);
+
+  // Signed in: merge the browser cart once, then follow cart_items
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    // Saved items reload with the cart; moving a line in or out of it touches cart_items
+    const loadCart = async () => {
+      const [cart, savedItems] = await Promise.all([getCartItems(userId), getSavedCartItems(userId)]);
+      if (cancelled) return;
+      setItems(cart);
+      setSaved(savedItems);
+    };
+
+    const mergeAndLoad = async () => {
+      // Cleared before merging so another tab signing in at the same
+      // time doesn't add the same lines twice
+      const browserCart = readBrowserCart();
+      if (browserCart.length > 0) {
+        const lines = getBrowserCartValidationLines();
+        writeBrowserCart([]);
+        if (!(await mergeCartItems(lines))) {
+          // Kept for the next sign-in rather than lost
+          writeBrowserCart(browserCart);
+        }
+      }
+      await loadCart();
+    };
+
+    mergeAndLoad();
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`cart:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "cart_items", filter: `user_id=eq.${userId}` },
+        loadCart,
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "cart_items", filter: `user_id=eq.${userId}` },
+        loadCart,
+      )
+      // DELETE events can't be filtered, so only react to our own rows
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "cart_items" },
+        (payload) => {
+          const removedId = (payload.old as Partial<CartItem>).id;
+          if (itemsRef.current.some((item) => item.id === removedId)) loadCart();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const addItem = useCallback(
+    async (product: Product, quantity: number, variant: ProductVariant | null = null) => {
+      if (!userId) {
+        addToBrowserCart(product, quantity, variant);
+        return true;
+      }
+
+      const added = await addToCart(userId, product.id, quantity, variant?.id ?? null);
+      if (added) await refresh();
+      return !!added;
+    },
+    [userId, refresh],
+  );
+
+  const removeItem = useCallback(
+    async (itemId: string) => {
+      if (!userId) {
+        setBrowserCartQuantity(itemId, 0);
+        return true;
+      }
+
+      const removed = await removeFromCart(itemId);
+      if (removed) await refresh();
+      return removed;
+    },
+    [userId, refresh],
+  );
+
+  const updateQuantity = useCallback(
+    async (itemId: string, quantity: number) => {
+      if (quantity <= 0) return removeItem(itemId);
+
+      if (!userId) {
+        setBrowserCartQuantity(itemId, quantity);
+        return true;
+      }
+
+      const updated = await updateCartItemQuantity(itemId, quantity);
+      if (updated) await refresh();
+      return updated;
+    },
+    [userId, refresh, removeItem],
+  );
+
+  const moveItem = useCallback(
+    async (productId: string, from: CartList, to: CartList, variantId: string | null = null) => {
+      if (!userId) return false;
+
+      const moved = await moveCartLine(productId, from, to, variantId);
+      if (moved) await refresh();
+      return moved;
+    },
+    [userId, refresh],
+  );
+
+  const removeSavedItem = useCallback(
+    async (savedItemId: string) => {
+      const removed = await removeSavedCartItem(savedItemId);
+      if (removed) await refresh();
+      return removed;
+    },
+    [refresh],
+  );
+
+  const validate = useCallback(async () => {
+    const result = await validateCart(userId ? null : getBrowserCartValidationLines());
+    const found = result.success ? result.issues || [] : [];
+    setIssues(found);
+    return found;
+  }, [userId]);
+
+  const fixIssues = useCallback(
+    async (toFix: CartIssue[]) => {
+      // Read fresh so fixes apply to what's in the cart now
+      const cart = userId ? await getCartItems(userId) : readBrowserCart();
+
+      for (const issue of toFix) {
+        const item = cart.find(
+          (i) =>
+            i.product_id === issue.product_id && (i.variant_id ?? null) === (issue.variant_id ?? null),
+        );
+        if (!item) continue;
+
+        if (issue.fix.type === "remove") {
+          await removeItem(item.id);
+        } else if (issue.fix.type === "set_quantity") {
+          await updateQuantity(item.id, issue.fix.quantity);
+        } else if (userId) {
+          await acceptCartItemPrice(item.id, issue.fix.unit_price);
+        } else {
+          setBrowserCartAddedPrice(item.id, issue.fix.unit_price);
+        }
+      }
+
+      await refresh();
+      await validate();
+    },
+    [userId, removeItem, updateQuantity, refresh, validate],
+  );
+
+  return (
+    <CartContext.Provider
+      value={{
+        items,
+        saved,
+        issues,
+        addItem,
+        updateQuantity,
+        removeItem,
+        moveItem,
+        removeSavedItem,
+        refresh,
+        validate,
+        fixIssues,
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+/**
+ * Hook to read and change the current visitor's cart
+ */
+export function useCart(): CartContextValue {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+}
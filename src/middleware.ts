@@ -45,10 +45,15 @@ export async function middleware(req: NextRequest) {
     "/admin/users",
     "/admin/agents",
     "/admin/sales-log",
+    "/admin/abandoned-carts",
     "/admin/audit-log",
     "/admin/catalog",
     "/admin/issues",
     "/admin/orders",
+    "/admin/returns",
+    "/admin/reconciliation",
+    "/admin/shipping",
+    "/admin/pickup-points",
   ];
 
   if (url.pathname.startsWith("/admin") && url.pathname !== "/admin/login") {
@@ -78,7 +83,14 @@ export async function middleware(req: NextRequest) {
     }
 
     // Agent restrictions
-    const agentRestrictedRoutes = ["/admin/audit-log", "/admin/sales-log"];
+    const agentRestrictedRoutes = [
+      "/admin/audit-log",
+      "/admin/sales-log",
+      "/admin/abandoned-carts",
+      "/admin/shipping",
+      "/admin/pickup-points",
+      "/admin/reconciliation",
+    ];
     if (agentRestrictedRoutes.some((route) => url.pathname.startsWith(route))) {
       if (profile.role === "agent") {
         return NextResponse.redirect(new URL("/admin/dashboard", req.url));
@@ -104,7 +116,7 @@ export async function middleware(req: NextRequest) {
   const protectedCustomerRoutes = [
     "/shop/history",
     "/shop/wishlist",
-    "/shop/checkout",
+    "/shop/addresses",
   ];
 
   if (protectedCustomerRoutes.some((path) => url.pathname.startsWith(path))) {
@@ -119,5 +131,12 @@ export async function middleware(req: NextRequest) {
 }
 
 export const config = {
-  matcher: ["/admin/:path*", "/shop/history", "/shop/wishlist", "/shop/checkout"],
+  matcher: [
+    "/admin/:path*",
+    "/shop/history",
+    "/shop/wishlist",
+    // Open to guests; matched so signed-in sessions stay fresh
+    "/shop/checkout",
+    "/shop/addresses",
+  ],
 };
@@ -18,6 +18,7 @@ export interface UserProfile {
   gender: string | null;
   preferred_language: string;
   is_active: boolean;
+  addresses?: UserAddress[];
   created_at: string;
   updated_at: string;
 }
@@ -62,12 +63,73 @@ export interface Product {
   sku: string | null;
   images: string[];
   attributes: Record<string, string | number | boolean | null>;
+  // Option types its variants are made of; empty for single-variant products
+  variant_options: ProductOptionType[];
+  // Set by the database; when true, stock_quantity is the sum of active variants
+  has_variants: boolean;
+  // Active variants, when loaded with the product
+  variants?: ProductVariant[];
+  // Set by the database; when true, stock_quantity is the number of sets
+  // the components can make
+  is_bundle: boolean;
   is_active: boolean;
   created_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// An option a product varies by, e.g. { name: "Shade", values: ["Ruby", "Nude"] }
+export interface ProductOptionType {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  // Option values in variant_options order, e.g. "Ruby / 5ml"
+  name: string;
+  // Option type name -> value
+  options: Record<string, string>;
+  sku: string | null;
+  price: number;
+  discount_price: number | null;
+  stock_quantity: number;
+  images: string[];
+  is_active: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProductVariantInput = Omit<
+  ProductVariant,
+  "id" | "product_id" | "created_at" | "updated_at"
+> & {
+  // Existing variant to update; omitted for new ones
+  id?: string;
+};
+
+// One component of a bundle product
+export interface ProductBundleItem {
+  id: string;
+  bundle_id: string;
+  component_product_id: string;
+  // Required when the component is sold in variants
+  component_variant_id: string | null;
+  // Per bundle
+  quantity: number;
+  position: number;
+  created_at: string;
+  product?: Pick<Product, "id" | "name" | "slug" | "images" | "stock_quantity" | "is_active">;
+  variant?: Pick<ProductVariant, "id" | "name" | "stock_quantity" | "is_active"> | null;
+}
+
+export type ProductBundleItemInput = Pick<
+  ProductBundleItem,
+  "component_product_id" | "component_variant_id" | "quantity"
+>;
+
 export interface ProductReview {
   id: string;
   product_id: string;
@@ -89,29 +151,77 @@ export type OrderStatus =
   | "delivered"
   | "cancelled"
   | "returned";
-export type PaymentStatus = "pending" | "completed" | "failed" | "refunded";
+export type PaymentStatus =
+  | "pending"
+  | "pay_on_delivery"
+  | "completed"
+  | "failed"
+  | "partially_refunded"
+  | "refunded";
+
+export type CollectionMethod = "cash" | "pos";
 
 export interface CartItem {
   id: string;
   user_id: string;
   product_id: string;
+  // Required once the product has variants
+  variant_id: string | null;
   quantity: number;
+  // Unit price when first added, to flag price changes; never charged
+  added_unit_price?: number | null;
   added_at: string;
   updated_at: string;
   product?: Product;
+  variant?: ProductVariant | null;
+}
+
+// A cart line set aside; never checked out until moved back
+export interface SavedCartItem {
+  id: string;
+  user_id: string;
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  added_unit_price: number | null;
+  saved_at: string;
+  product?: Product;
+  variant?: ProductVariant | null;
 }
 
+// Lists a line can move between (see move_cart_line)
+export type CartList = "cart" | "saved" | "wishlist";
+
 export interface WishlistItem {
   id: string;
   user_id: string;
   product_id: string;
   added_at: string;
+  // Opt-in alerts, sent by the send-wishlist-alerts job
+  notify_price_drop: boolean;
+  notify_back_in_stock: boolean;
+  // Price and stock state the customer last saw
+  alert_unit_price: number | null;
+  alert_in_stock: boolean | null;
   product?: Product;
 }
 
+export interface WishlistShare {
+  user_id: string;
+  token: string;
+  created_at: string;
+}
+
+// What anyone with a share link sees
+export interface SharedWishlist {
+  owner_name: string | null;
+  products: Product[];
+}
+
 export interface Order {
   id: string;
-  user_id: string;
+  // NULL for guest orders until claimed by an account with the same email
+  user_id: string | null;
   order_number: string;
   subtotal: number;
   tax: number;
@@ -124,29 +234,236 @@ export interface Order {
   shipping_address: string | null;
   billing_address: string | null;
   estimated_delivery_date: string | null;
+  payment_reference: string | null;
+  payment_provider: string | null;
+  paid_at: string | null;
+  stock_reserved: boolean;
+  reservation_expires_at: string | null;
+  collection_method: CollectionMethod | null;
+  collected_amount: number | null;
+  collected_by: string | null;
+  collected_at: string | null;
+  refunded_amount: number;
+  tracking_number: string | null;
+  shipping_state: string | null;
+  shipping_lga: string | null;
+  shipping_city: string | null;
+  shipping_zone_id: string | null;
+  fulfilment_method: FulfilmentMethod;
+  pickup_point_id: string | null;
+  pickup_code: string | null;
+  picked_up_at: string | null;
+  picked_up_by: string | null;
+  // Structured addresses as they were when the order was placed
+  shipping_address_snapshot: PostalAddress | null;
+  billing_address_snapshot: PostalAddress | null;
+  guest_email: string | null;
+  guest_phone: string | null;
+  claimed_at: string | null;
+  // Coupon redeemed with the order, if any
+  coupon_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type FulfilmentMethod = "delivery" | "pickup";
+
 export interface OrderItem {
   id: string;
   order_id: string;
   product_id: string;
+  // NULL for products without variants, or once the variant is deleted
+  variant_id: string | null;
   product_name: string;
+  variant_name: string | null;
+  sku: string | null;
   quantity: number;
   unit_price: number;
   total_price: number;
+  refunded_quantity: number;
+  // What a bundle was made of when sold; NULL for anything else
+  bundle_components: OrderBundleComponent[] | null;
   created_at: string;
 }
 
+// A component picked for each bundle on an order line
+export interface OrderBundleComponent {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  // Per bundle; multiply by the line's quantity to pick
+  quantity: number;
+}
+
 export interface OrderWithItems extends Order {
   items?: OrderItem[];
 }
 
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  note: string | null;
+  tracking_number: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export type ShipmentStatus = "shipped" | "in_transit" | "delivered";
+
+export interface ShipmentItem {
+  id: string;
+  shipment_id: string;
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface Shipment {
+  id: string;
+  order_id: string;
+  courier: string;
+  tracking_number: string;
+  status: ShipmentStatus;
+  shipped_at: string;
+  estimated_delivery_date: string | null;
+  delivered_at: string | null;
+  created_by: string | null;
+  // Set when the shipment was booked through a courier integration
+  courier_provider: string | null;
+  label_url: string | null;
+  shipping_cost: number | null;
+  tracking_status: CourierTrackingStatus | null;
+  last_tracked_at: string | null;
+  created_at: string;
+  updated_at: string;
+  shipment_items?: ShipmentItem[];
+  shipment_tracking_events?: ShipmentTrackingEvent[];
+}
+
+export type CourierTrackingStatus =
+  | "booked"
+  | "picked_up"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "failed_delivery"
+  | "returned";
+
+export interface ShipmentTrackingEvent {
+  id: string;
+  shipment_id: string;
+  event_key: string;
+  status: CourierTrackingStatus;
+  description: string;
+  location: string | null;
+  occurred_at: string;
+  created_at: string;
+}
+
+export interface CreateShipmentInput {
+  orderId: string;
+  items: Array<{ order_item_id: string; quantity: number }>;
+  courier: string;
+  // Entered by hand, or issued by the courier when courierProvider is set
+  trackingNumber: string;
+  // YYYY-MM-DD
+  estimatedDeliveryDate?: string;
+  // Book through a courier integration (see src/utils/couriers)
+  courierProvider?: string;
+  courierService?: string;
+}
+
+export interface PaymentTransaction {
+  id: string;
+  order_id: string;
+  provider: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  provider_transaction_id: string | null;
+  gateway_response: string | null;
+  verified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RefundStatus = "pending" | "processed" | "failed";
+
+// "provider" goes through the payment gateway; "manual" is money returned
+// outside the system (cash, bank transfer) and only recorded here
+export type RefundMethod = "provider" | "manual";
+
+export interface RefundLine {
+  order_item_id: string;
+  product_name: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface Refund {
+  id: string;
+  order_id: string;
+  payment_transaction_id: string | null;
+  amount: number;
+  reason: string | null;
+  method: RefundMethod;
+  status: RefundStatus;
+  provider_refund_id: string | null;
+  items: RefundLine[];
+  created_by: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
+export interface IssueRefundInput {
+  orderId: string;
+  // Line items to refund; omit for the whole remaining balance
+  items?: Array<{ order_item_id: string; quantity: number }>;
+  reason?: string;
+  method: RefundMethod;
+}
+
+export type ReturnRequestStatus =
+  | "requested"
+  | "approved"
+  | "rejected"
+  | "received"
+  | "refunded";
+
+export interface ReturnRequestLine {
+  order_item_id: string;
+  product_id: string;
+  product_name: string;
+  quantity: number;
+}
+
+export interface ReturnRequest {
+  id: string;
+  order_id: string;
+  user_id: string;
+  status: ReturnRequestStatus;
+  reason: string;
+  items: ReturnRequestLine[];
+  photos: string[];
+  admin_note: string | null;
+  restocked: boolean;
+  refund_id: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  received_by: string | null;
+  received_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 /* Admin Types */
 export interface AdminActivityLog {
   id: string;
-  admin_id: string;
+  admin_id: string | null; // null for system events (payments, jobs)
   action: string;
   resource_type: string | null;
   resource_id: string | null;
@@ -170,21 +487,242 @@ export interface ApiError {
   details?: Record<string, unknown>;
 }
 
-/* Service Layer Types */
-export interface CreateOrderInput {
-  items: {
-    product_id: string;
-    quantity: number;
-    unit_price: number;
-  }[];
+/* Checkout Types */
+export interface CheckoutQuoteLine {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+export interface CheckoutQuote {
+  // NULL when priced for a guest from their browser cart
+  user_id: string | null;
+  lines: CheckoutQuoteLine[];
   subtotal: number;
   tax: number;
   shipping_cost: number;
+  // Coupon discount taken off the subtotal before tax
+  discount_applied: number;
+  coupon: Pick<Coupon, "id" | "code" | "percent_off"> | null;
+  // Why an entered coupon code wasn't applied
+  coupon_error: string | null;
   total_amount: number;
+  fulfilment_method: FulfilmentMethod;
+  // Null until the customer gives a destination we deliver to
+  shipping: CheckoutShippingQuote | null;
+  // Set instead of shipping for pickup orders
+  pickup_point: Pick<PickupPoint, "id" | "name" | "address" | "city" | "state"> | null;
+  // Why a given destination couldn't be priced
+  shipping_error: string | null;
+  issued_at: string;
+  expires_at: string;
+}
+
+export interface CheckoutShippingQuote {
+  zone_id: string;
+  zone_name: string;
+  destination: ShippingDestination;
+  min_delivery_days: number;
+  max_delivery_days: number;
+  // Subtotal above which shipping is free in this zone
+  free_shipping_threshold: number | null;
+}
+
+// Quote issued by the server; `quote` is for display, `token` is authoritative
+export interface SignedCheckoutQuote {
+  quote: CheckoutQuote;
+  token: string;
+  signature: string;
+}
+
+/* Service Layer Types */
+export interface PlaceOrderInput {
+  quote: SignedCheckoutQuote;
+  fulfilment: CheckoutFulfilment;
+  // Who receives or collects the order
+  contact: Pick<PostalAddress, "full_name" | "phone">;
+  // Street address for delivery; state, LGA and city come from the destination
   shipping_address?: string;
+  // Saved address to bill; otherwise billing_address, or the delivery address when blank
+  billing_address_id?: string | null;
   billing_address?: string;
+  // Add the delivery address to the address book
+  save_address?: { label: string; is_default: boolean } | null;
+  // Checking out without an account
+  guest?: { email: string; items: GuestCartLine[] } | null;
+  // Coupon code the quote was priced with
+  coupon_code?: string | null;
+}
+
+// A line of a guest's browser cart; prices are always looked up again
+export type GuestCartLine = Pick<CartItem, "product_id" | "variant_id" | "quantity">;
+
+/* Cart Validation Types */
+export type CartValidationLine = GuestCartLine & { added_unit_price: number | null };
+
+export type CartIssueKind = "unavailable" | "out_of_stock" | "insufficient_stock" | "price_changed";
+
+// One-click fix for an issue
+export type CartIssueFix =
+  | { type: "remove" }
+  | { type: "set_quantity"; quantity: number }
+  | { type: "accept_price"; unit_price: number };
+
+export interface CartIssue {
+  product_id: string;
+  variant_id: string | null;
+  kind: CartIssueKind;
+  message: string;
+  fix: CartIssueFix;
+  fix_label: string;
+}
+
+export type CheckoutFulfilment =
+  | { method: "delivery"; destination: ShippingDestination }
+  | { method: "pickup"; pickup_point_id: string };
+
+/* Shipping Zone Types */
+export type ShippingRateBasis = "weight" | "item_count";
+
+// Fee for parcels up to `up_to` kg / items; null is the open-ended top tier
+export interface ShippingRateTier {
+  up_to: number | null;
+  fee: number;
 }
 
+export interface ShippingZone {
+  id: string;
+  name: string;
+  states: string[];
+  // Empty means every LGA in the zone's states
+  lgas: string[];
+  rate_basis: ShippingRateBasis;
+  rate_table: ShippingRateTier[];
+  free_shipping_threshold: number | null;
+  min_delivery_days: number;
+  max_delivery_days: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ShippingZoneInput = Omit<ShippingZone, "id" | "created_at" | "updated_at">;
+
+export interface PickupPoint {
+  id: string;
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  phone: string | null;
+  opening_hours: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PickupPointInput = Omit<PickupPoint, "id" | "created_at" | "updated_at">;
+
+export interface ShippingDestination {
+  state: string;
+  lga: string;
+  city: string;
+}
+
+/* Coupon & Cart Recovery Types */
+export interface Coupon {
+  id: string;
+  code: string;
+  percent_off: number;
+  user_id: string;
+  // What issued it, e.g. "cart_recovery"
+  source: string;
+  expires_at: string;
+  redeemed_at: string | null;
+  redeemed_order_id: string | null;
+  created_at: string;
+}
+
+export type AbandonedCartStatus = "detected" | "notified" | "recovered" | "expired";
+
+export interface AbandonedCartItem {
+  product_id: string;
+  product_name: string;
+  variant_id?: string;
+  variant_name?: string;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface AbandonedCart {
+  id: string;
+  user_id: string;
+  last_activity_at: string;
+  detected_at: string;
+  // Cart lines when it was detected
+  items: AbandonedCartItem[];
+  item_count: number;
+  cart_value: number;
+  status: AbandonedCartStatus;
+  notified_at: string | null;
+  channel: string | null;
+  coupon_id: string | null;
+  recovered_order_id: string | null;
+  recovered_at: string | null;
+  recovered_revenue: number | null;
+}
+
+export interface AbandonedCartReport {
+  days: number;
+  abandoned: number;
+  abandonedValue: number;
+  // Abandoned carts / (abandoned carts + signed-in orders), 0–1
+  abandonmentRate: number;
+  notified: number;
+  recovered: number;
+  // Recovered / notified, 0–1
+  recoveryRate: number;
+  recoveredRevenue: number;
+  couponsIssued: number;
+  couponsRedeemed: number;
+  topProducts: {
+    product_id: string;
+    product_name: string;
+    // Abandoned carts holding the product
+    carts: number;
+    quantity: number;
+    value: number;
+  }[];
+  recentCarts: (AbandonedCart & {
+    profiles: { email: string; full_name: string | null } | null;
+    coupon_code: string | null;
+  })[];
+}
+
+/* Address Book Types */
+export interface PostalAddress extends ShippingDestination {
+  full_name: string;
+  phone: string;
+  street: string;
+}
+
+export interface UserAddress extends PostalAddress {
+  id: string;
+  user_id: string;
+  // e.g. "Home", "Office"
+  label: string;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type UserAddressInput = Omit<UserAddress, "id" | "user_id" | "created_at" | "updated_at">;
+
 export interface ProductFilters {
   category?: string;
   search?: string;
@@ -0,0 +1,287 @@
+/**
+ * Abandoned Cart Recovery
+ *
+ * Carts left untouched for ABANDONED_CART_HOURS are recorded with a
+ * snapshot of their lines (detect_abandoned_carts), and the customer gets
+ * one recovery message through CART_RECOVERY_NOTIFIER linking back to
+ * checkout, optionally with a single-use coupon worth
+ * CART_RECOVERY_COUPON_PERCENT. The customer's first order within
+ * CART_RECOVERY_ATTRIBUTION_DAYS of the message is counted as recovered
+ * revenue (attribute_cart_recoveries).
+ *
+ * Only signed-in carts can be tracked; guest carts never leave the browser.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { issueCoupon } from "@/utils/checkout/coupons";
+import { escapeHtml, getCustomerNotifier } from "@/utils/notifications";
+import type { CustomerNotifier, NotificationRecipient } from "@/utils/notifications";
+import type { AbandonedCart, Coupon } from "@/types";
+
+const DEFAULT_ABANDONED_CART_HOURS = 24;
+const DEFAULT_COUPON_HOURS = 48;
+const DEFAULT_ATTRIBUTION_DAYS = 7;
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * How long a cart sits untouched before it counts as abandoned (ABANDONED_CART_HOURS)
+ */
+export function getAbandonedCartHours(): number {
+  return readPositiveInt(process.env.ABANDONED_CART_HOURS, DEFAULT_ABANDONED_CART_HOURS);
+}
+
+/**
+ * Percentage off offered in recovery messages; 0 sends no coupon
+ * (CART_RECOVERY_COUPON_PERCENT)
+ */
+export function getRecoveryCouponPercent(): number {
+  const percent = parseFloat(process.env.CART_RECOVERY_COUPON_PERCENT || "");
+  return Number.isFinite(percent) && percent > 0 ? Math.min(percent, 100) : 0;
+}
+
+/**
+ * How long a recovery coupon stays valid (CART_RECOVERY_COUPON_HOURS)
+ */
+export function getRecoveryCouponHours(): number {
+  return readPositiveInt(process.env.CART_RECOVERY_COUPON_HOURS, DEFAULT_COUPON_HOURS);
+}
+
+/**
+ * How long after a message an order still counts as recovered, and how
+ * long before the same customer is messaged again
+ * (CART_RECOVERY_ATTRIBUTION_DAYS)
+ */
+export function getRecoveryAttributionDays(): number {
+  return readPositiveInt(process.env.CART_RECOVERY_ATTRIBUTION_DAYS, DEFAULT_ATTRIBUTION_DAYS);
+}
+
+function formatNaira(amount: number): string {
+  return `₦${Number(amount).toLocaleString()}`;
+}
+
+/**
+ * Link back to checkout, carrying the coupon when there is one
+ */
+function buildRecoveryUrl(coupon: Coupon | null): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://jradianceco.com";
+  return coupon
+    ? `${siteUrl}/shop/checkout?coupon=${encodeURIComponent(coupon.code)}`
+    : `${siteUrl}/shop/checkout`;
+}
+
+/**
+ * Whether the customer has touched their cart since it was detected
+ * (or emptied it), in which case it is no longer abandoned
+ */
+async function cartChangedSince(supabase: ServiceClient, cart: AbandonedCart): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("cart_items")
+    .select("added_at, updated_at")
+    .eq("user_id", cart.user_id);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return true;
+
+  const detectedActivity = new Date(cart.last_activity_at).getTime();
+  return data.some(
+    (line) => new Date(line.updated_at || line.added_at).getTime() > detectedActivity,
+  );
+}
+
+/**
+ * The cart's recovery coupon, or null when coupons are off
+ *
+ * A new coupon is saved on the cart before the message goes out, so a run
+ * whose send fails reuses it on retry instead of issuing another. A saved
+ * coupon that has since expired or been redeemed is replaced.
+ */
+async function getRecoveryCoupon(
+  supabase: ServiceClient,
+  cart: AbandonedCart,
+): Promise<Coupon | null> {
+  if (cart.coupon_id) {
+    const { data, error } = await supabase
+      .from("coupons")
+      .select("*")
+      .eq("id", cart.coupon_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    const saved = data as Coupon | null;
+    if (saved && !saved.redeemed_at && new Date(saved.expires_at).getTime() > Date.now()) {
+      return saved;
+    }
+  }
+
+  const percent = getRecoveryCouponPercent();
+  if (!percent) return null;
+
+  const coupon = await issueCoupon({
+    userId: cart.user_id,
+    percentOff: percent,
+    validHours: getRecoveryCouponHours(),
+    source: "cart_recovery",
+    prefix: "BACK",
+  });
+
+  const { error } = await supabase
+    .from("abandoned_carts")
+    .update({ coupon_id: coupon.id })
+    .eq("id", cart.id);
+
+  if (error) throw error;
+  return coupon;
+}
+
+/**
+ * Send one recovery message
+ * @returns Whether the cart was messaged
+ */
+async function notifyAbandonedCart(
+  supabase: ServiceClient,
+  notifier: CustomerNotifier,
+  cart: AbandonedCart,
+): Promise<boolean> {
+  if (await cartChangedSince(supabase, cart)) {
+    await supabase.from("abandoned_carts").update({ status: "expired" }).eq("id", cart.id);
+    return false;
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, full_name, email, phone")
+    .eq("id", cart.user_id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+
+  const recipient: NotificationRecipient = {
+    userId: cart.user_id,
+    name: profile?.full_name || null,
+    email: profile?.email || null,
+    phone: profile?.phone || null,
+  };
+
+  if (!notifier.canReach(recipient)) {
+    await supabase.from("abandoned_carts").update({ status: "expired" }).eq("id", cart.id);
+    return false;
+  }
+
+  const coupon = await getRecoveryCoupon(supabase, cart);
+
+  const url = buildRecoveryUrl(coupon);
+  const greeting = recipient.name ? `Hi ${recipient.name.split(" ")[0]},` : "Hi,";
+  const lines = cart.items.map(
+    (item) => `- ${item.product_name} × ${item.quantity} (${formatNaira(item.unit_price * item.quantity)})`,
+  );
+  const offer = coupon
+    ? `Use ${coupon.code} for ${coupon.percent_off}% off, valid until ${new Date(coupon.expires_at).toLocaleString("en-NG")}.`
+    : null;
+
+  await notifier.send({
+    to: recipient,
+    subject: "You left something in your cart",
+    text: [
+      greeting,
+      "",
+      "Your JRADIANCE cart is waiting for you:",
+      ...lines,
+      "",
+      ...(offer ? [offer, ""] : []),
+      `Finish your order: ${url}`,
+    ].join("\n"),
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>Your JRADIANCE cart is waiting for you:</p>
+      <ul>${cart.items
+        .map((item) => `<li>${escapeHtml(item.product_name)} × ${item.quantity}</li>`)
+        .join("")}</ul>
+      ${offer ? `<p><strong>${offer}</strong></p>` : ""}
+      <p><a href="${url}">Finish your order</a></p>
+    `,
+    url,
+  });
+
+  const { error: updateError } = await supabase
+    .from("abandoned_carts")
+    .update({
+      status: "notified",
+      notified_at: new Date().toISOString(),
+      channel: notifier.name,
+    })
+    .eq("id", cart.id);
+
+  if (updateError) throw updateError;
+  return true;
+}
+
+/**
+ * Detect newly abandoned carts, message their owners and attribute orders
+ *
+ * Carts whose message fails stay detected and are retried on the next run.
+ *
+ * @returns Counts for this run
+ * @audit Logs abandoned_cart_notified per cart messaged
+ */
+export async function recoverAbandonedCarts(): Promise<{
+  detected: number;
+  notified: number;
+  recovered: number;
+}> {
+  const supabase = createServiceClient();
+  const notifier = getCustomerNotifier(process.env.CART_RECOVERY_NOTIFIER);
+  const attributionDays = getRecoveryAttributionDays();
+
+  // Orders placed since the last run
+  const { data: recovered, error: attributionError } = await supabase.rpc(
+    "attribute_cart_recoveries",
+    { p_window_days: attributionDays },
+  );
+  if (attributionError) throw attributionError;
+
+  const { data: detected, error: detectError } = await supabase.rpc("detect_abandoned_carts", {
+    p_idle_minutes: getAbandonedCartHours() * 60,
+    p_cooldown_days: attributionDays,
+  });
+  if (detectError) throw detectError;
+
+  // Includes carts from earlier runs whose message failed
+  const { data: pending, error: pendingError } = await supabase
+    .from("abandoned_carts")
+    .select("*")
+    .eq("status", "detected")
+    .order("detected_at", { ascending: true });
+  if (pendingError) throw pendingError;
+
+  let notified = 0;
+  for (const cart of (pending || []) as AbandonedCart[]) {
+    try {
+      if (await notifyAbandonedCart(supabase, notifier, cart)) {
+        notified++;
+        await supabase.from("admin_activity_logs").insert({
+          admin_id: null,
+          action: "abandoned_cart_notified",
+          resource_type: "abandoned_cart",
+          resource_id: cart.id,
+          changes: { source: "job", channel: notifier.name, cart_value: cart.cart_value },
+        });
+      }
+    } catch (error) {
+      console.error("Error sending cart recovery message:", error);
+    }
+  }
+
+  return {
+    detected: (detected || []).length,
+    notified,
+    recovered: recovered || 0,
+  };
+}
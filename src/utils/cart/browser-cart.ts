@@ -0,0 +1,155 @@
+/**
+ * Browser Cart
+ *
+ * Cart kept in localStorage for visitors who haven't signed in, so they can
+ * shop and check out as a guest. Only product and variant ids and
+ * quantities are sent to the server at checkout or merged into the account
+ * on sign-in; the stored product copy is for display.
+ *
+ * Client-only: uses localStorage and window events.
+ */
+
+import { getUnitPrice } from "@/utils/checkout/pricing";
+import type {
+  CartItem,
+  CartValidationLine,
+  GuestCartLine,
+  Product,
+  ProductVariant,
+} from "@/types";
+
+const STORAGE_KEY = "cart";
+
+// Fired on window whenever the browser cart is written in this tab
+const BROWSER_CART_EVENT = "cart:changed";
+
+/**
+ * Items in the browser cart
+ */
+export function readBrowserCart(): CartItem[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as CartItem[]) : [];
+  } catch (error) {
+    console.error("Error loading cart:", error);
+    return [];
+  }
+}
+
+/**
+ * Replace the browser cart and tell listeners it changed
+ */
+export function writeBrowserCart(items: CartItem[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  window.dispatchEvent(new Event(BROWSER_CART_EVENT));
+}
+
+/**
+ * Call `onChange` whenever the browser cart changes, in this tab or another
+ * @returns Unsubscribe function
+ */
+export function onBrowserCartChange(onChange: () => void): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === STORAGE_KEY) onChange();
+  };
+
+  window.addEventListener(BROWSER_CART_EVENT, onChange);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    window.removeEventListener(BROWSER_CART_EVENT, onChange);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+/**
+ * Add a product (or one variant of it), or more of it when it's already in
+ * the cart
+ */
+export function addToBrowserCart(
+  product: Product,
+  quantity: number,
+  variant: ProductVariant | null = null,
+): void {
+  const items = readBrowserCart();
+  const variantId = variant?.id ?? null;
+  const existing = items.find(
+    (item) => item.product_id === product.id && (item.variant_id ?? null) === variantId,
+  );
+  const now = new Date().toISOString();
+
+  if (existing) {
+    existing.quantity += quantity;
+    existing.updated_at = now;
+    existing.product = product;
+    existing.variant = variant;
+  } else {
+    items.push({
+      id: variant?.id ?? product.id,
+      user_id: "",
+      product_id: product.id,
+      variant_id: variantId,
+      quantity,
+      added_unit_price: getUnitPrice(variant || product),
+      added_at: now,
+      updated_at: now,
+      product,
+      variant,
+    });
+  }
+
+  writeBrowserCart(items);
+}
+
+/**
+ * Note the price a customer has accepted for a line
+ */
+export function setBrowserCartAddedPrice(itemId: string, unitPrice: number): void {
+  writeBrowserCart(
+    readBrowserCart().map((item) =>
+      item.id === itemId ? { ...item, added_unit_price: unitPrice } : item,
+    ),
+  );
+}
+
+/**
+ * Change a line's quantity; zero or less removes it
+ */
+export function setBrowserCartQuantity(itemId: string, quantity: number): void {
+  const items = readBrowserCart()
+    .map((item) =>
+      item.id === itemId ? { ...item, quantity, updated_at: new Date().toISOString() } : item,
+    )
+    .filter((item) => item.quantity > 0);
+
+  writeBrowserCart(items);
+}
+
+/**
+ * Empty the browser cart, e.g. once a guest order is placed
+ */
+export function clearBrowserCart(): void {
+  writeBrowserCart([]);
+}
+
+/**
+ * What the server needs to validate or merge the browser cart
+ */
+export function getBrowserCartValidationLines(): CartValidationLine[] {
+  return readBrowserCart().map((item) => ({
+    product_id: item.product_id,
+    variant_id: item.variant_id ?? null,
+    quantity: item.quantity,
+    added_unit_price: item.added_unit_price ?? null,
+  }));
+}
+
+/**
+ * What the server needs to price the browser cart
+ */
+export function getBrowserCartLines(): GuestCartLine[] {
+  return readBrowserCart().map((item) => ({
+    product_id: item.product_id,
+    variant_id: item.variant_id ?? null,
+    quantity: item.quantity,
+  }));
+}
@@ -0,0 +1,134 @@
+/**
+ * Cart Validation
+ *
+ * Checks cart lines against the live catalogue: products (or variants) that
+ * were deactivated, sold out or no longer have enough stock, and prices that
+ * changed since the line was added. Each issue carries a message for the
+ * customer and the fix that resolves it.
+ *
+ * Server-only: reads products with the service role client so deactivated
+ * products can still be named.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { getUnitPrice } from "./pricing";
+import type { CartIssue, CartValidationLine, Product, ProductVariant } from "@/types";
+
+type StockProduct = Pick<
+  Product,
+  "id" | "name" | "price" | "discount_price" | "is_active" | "stock_quantity" | "has_variants"
+>;
+
+type StockVariant = Pick<
+  ProductVariant,
+  "id" | "product_id" | "name" | "price" | "discount_price" | "is_active" | "stock_quantity"
+>;
+
+function formatNaira(amount: number): string {
+  return `₦${amount.toLocaleString()}`;
+}
+
+/**
+ * Issues blocking checkout (everything except price changes)
+ */
+export function isBlockingIssue(issue: CartIssue): boolean {
+  return issue.kind !== "price_changed";
+}
+
+/**
+ * Find everything about these lines that no longer matches the catalogue
+ */
+export async function validateCartLines(lines: CartValidationLine[]): Promise<CartIssue[]> {
+  if (lines.length === 0) return [];
+
+  const supabase = createServiceClient();
+  const variantIds = lines.flatMap((line) => (line.variant_id ? [line.variant_id] : []));
+
+  const [productResult, variantResult] = await Promise.all([
+    supabase
+      .from("products")
+      .select("id, name, price, discount_price, is_active, stock_quantity, has_variants")
+      .in("id", lines.map((line) => line.product_id)),
+    variantIds.length
+      ? supabase
+          .from("product_variants")
+          .select("id, product_id, name, price, discount_price, is_active, stock_quantity")
+          .in("id", variantIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (productResult.error) throw productResult.error;
+  if (variantResult.error) throw variantResult.error;
+
+  const products = new Map(((productResult.data || []) as StockProduct[]).map((p) => [p.id, p]));
+  const variants = new Map(((variantResult.data || []) as StockVariant[]).map((v) => [v.id, v]));
+  const issues: CartIssue[] = [];
+
+  for (const line of lines) {
+    const product = products.get(line.product_id);
+    const variant = line.variant_id ? variants.get(line.variant_id) : null;
+    const variantId = line.variant_id ?? null;
+    const name = variant ? `${product?.name} (${variant.name})` : product?.name;
+
+    // A variant line whose variant is gone, or a plain line for a product
+    // that has since been split into variants, can't be bought as it is
+    const unavailable =
+      !product ||
+      !product.is_active ||
+      (variantId
+        ? !variant || !variant.is_active || variant.product_id !== product.id
+        : product.has_variants);
+
+    if (!product || unavailable) {
+      issues.push({
+        product_id: line.product_id,
+        variant_id: variantId,
+        kind: "unavailable",
+        message: `${name || "An item in your cart"} is no longer available`,
+        fix: { type: "remove" },
+        fix_label: "Remove",
+      });
+      continue;
+    }
+
+    const stock = variant || product;
+
+    if (stock.stock_quantity <= 0) {
+      issues.push({
+        product_id: line.product_id,
+        variant_id: variantId,
+        kind: "out_of_stock",
+        message: `${name} is out of stock`,
+        fix: { type: "remove" },
+        fix_label: "Remove",
+      });
+      continue;
+    }
+
+    if (line.quantity > stock.stock_quantity) {
+      issues.push({
+        product_id: line.product_id,
+        variant_id: variantId,
+        kind: "insufficient_stock",
+        message: `Only ${stock.stock_quantity} of ${name} left; you have ${line.quantity}`,
+        fix: { type: "set_quantity", quantity: stock.stock_quantity },
+        fix_label: `Change to ${stock.stock_quantity}`,
+      });
+    }
+
+    const unitPrice = getUnitPrice(stock);
+    if (line.added_unit_price !== null && Number(line.added_unit_price) !== unitPrice) {
+      const previous = Number(line.added_unit_price);
+      issues.push({
+        product_id: line.product_id,
+        variant_id: variantId,
+        kind: "price_changed",
+        message: `${name} ${unitPrice < previous ? "dropped" : "went up"} to ${formatNaira(unitPrice)} (was ${formatNaira(previous)})`,
+        fix: { type: "accept_price", unit_price: unitPrice },
+        fix_label: "OK",
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,90 @@
+/**
+ * Coupons
+ *
+ * Single-use percentage discounts issued to one customer, e.g. with an
+ * abandoned-cart message. A coupon is priced into the checkout quote and
+ * redeemed by place_order in the same transaction as the order, so it can
+ * only ever be used once. Codes use the same unambiguous alphabet as
+ * pickup codes.
+ *
+ * Server-only: uses node:crypto and the service role client.
+ */
+
+import { randomInt } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/utils/supabase/service-client";
+import type { Coupon } from "@/types";
+
+const COUPON_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const COUPON_CODE_LENGTH = 8;
+
+/**
+ * Random coupon code with a prefix naming its source, e.g. "BACK-K7P2QXM4"
+ */
+function generateCouponCode(prefix: string): string {
+  let code = "";
+  for (let i = 0; i < COUPON_CODE_LENGTH; i++) {
+    code += COUPON_CODE_ALPHABET[randomInt(COUPON_CODE_ALPHABET.length)];
+  }
+  return `${prefix}-${code}`;
+}
+
+/**
+ * Issue a coupon only `userId` can redeem
+ */
+export async function issueCoupon(input: {
+  userId: string;
+  percentOff: number;
+  validHours: number;
+  source: string;
+  prefix: string;
+}): Promise<Coupon> {
+  const { data, error } = await createServiceClient()
+    .from("coupons")
+    .insert({
+      code: generateCouponCode(input.prefix),
+      percent_off: input.percentOff,
+      user_id: input.userId,
+      source: input.source,
+      expires_at: new Date(Date.now() + input.validHours * 60 * 60 * 1000).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Coupon;
+}
+
+/**
+ * Look up a code a customer entered at checkout
+ * Reads through the customer's own client; they can only see their coupons.
+ *
+ * @returns The coupon, or why it can't be used
+ */
+export async function findUsableCoupon(
+  supabase: SupabaseClient,
+  userId: string,
+  code: string,
+): Promise<{ coupon: Coupon | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("coupons")
+    .select("*")
+    .eq("code", code.trim().toUpperCase())
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const coupon = data as Coupon | null;
+  if (!coupon) {
+    return { coupon: null, error: "This discount code isn't valid" };
+  }
+  if (coupon.redeemed_at) {
+    return { coupon: null, error: "This discount code has already been used" };
+  }
+  if (new Date(coupon.expires_at).getTime() <= Date.now()) {
+    return { coupon: null, error: "This discount code has expired" };
+  }
+
+  return { coupon, error: null };
+}
@@ -0,0 +1,67 @@
+/**
+ * Checkout Pricing Rules
+ *
+ * Single source of truth for how an order total is built. Used by the
+ * checkout server actions; the browser only ever displays the result.
+ */
+
+import type { CheckoutQuoteLine, Product } from "@/types";
+
+export const TAX_RATE = 0.075; // 7.5% VAT
+
+/**
+ * Round a naira amount to whole kobo
+ */
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Convert a naira amount to kobo, rounding to the nearest kobo
+ */
+export function toKobo(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Price a customer pays for one unit of a product right now
+ * A discount only applies when it is actually lower than the list price
+ */
+export function getUnitPrice(
+  product: Pick<Product, "price" | "discount_price">,
+): number {
+  const price = Number(product.price);
+  const discount = product.discount_price === null ? null : Number(product.discount_price);
+  return discount !== null && discount > 0 && discount < price ? discount : price;
+}
+
+/**
+ * Build order totals from priced lines
+ * Shipping is priced by zone (see utils/shipping/zones) and passed in. A
+ * coupon's percentage comes off the subtotal before tax; shipping is never
+ * discounted.
+ */
+export function calculateTotals(
+  lines: CheckoutQuoteLine[],
+  shippingCost: number,
+  discountPercent = 0,
+): {
+  subtotal: number;
+  discount_applied: number;
+  tax: number;
+  shipping_cost: number;
+  total_amount: number;
+} {
+  const subtotal = roundMoney(lines.reduce((acc, line) => acc + line.total_price, 0));
+  const discount_applied = roundMoney(subtotal * Math.min(Math.max(discountPercent, 0), 100) / 100);
+  const tax = roundMoney((subtotal - discount_applied) * TAX_RATE);
+  const shipping_cost = lines.length > 0 ? roundMoney(shippingCost) : 0;
+
+  return {
+    subtotal,
+    discount_applied,
+    tax,
+    shipping_cost,
+    total_amount: roundMoney(subtotal - discount_applied + tax + shipping_cost),
+  };
+}
@@ -0,0 +1,411 @@
+/**
+ * Checkout Quotes
+ *
+ * Builds a priced quote from the customer's cart (or, for guests, the cart
+ * lines their browser sends) using current product (or variant)
+ * prices and the shipping zone for their destination (or nothing for store
+ * pickup), and signs it so the browser can display it but not alter it.
+ * A signed quote is only honoured if it is unexpired and still matches a
+ * freshly built quote at the moment the order is placed.
+ *
+ * Server-only: reads CHECKOUT_QUOTE_SECRET.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { calculateTotals, getUnitPrice, roundMoney } from "./pricing";
+import { calculateShippingFee, findShippingZone } from "@/utils/shipping/zones";
+import { getUnitWeightKg } from "@/utils/shipping/weight";
+import { findUsableCoupon } from "./coupons";
+import { getLineKey } from "@/utils/products/variants";
+import type {
+  CheckoutFulfilment,
+  CheckoutQuote,
+  CheckoutQuoteLine,
+  CheckoutShippingQuote,
+  GuestCartLine,
+  PickupPoint,
+  Product,
+  ProductVariant,
+  ShippingDestination,
+  ShippingZone,
+  SignedCheckoutQuote,
+} from "@/types";
+
+const QUOTE_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+const MAX_GUEST_LINES = 50;
+
+type QuoteProduct = Pick<
+  Product,
+  "id" | "name" | "sku" | "price" | "discount_price" | "is_active" | "has_variants" | "attributes"
+>;
+
+type QuoteVariant = Pick<
+  ProductVariant,
+  "id" | "product_id" | "name" | "sku" | "price" | "discount_price" | "is_active"
+>;
+
+const QUOTE_PRODUCT_COLUMNS = "id, name, sku, price, discount_price, is_active, has_variants, attributes";
+const QUOTE_VARIANT_COLUMNS = "id, product_id, name, sku, price, discount_price, is_active";
+
+type QuoteItem = {
+  quantity: number;
+  product: QuoteProduct | null;
+  // Requested variant, and the row found for it (null when it's gone)
+  variantId: string | null;
+  variant: QuoteVariant | null;
+};
+
+// Coupon resolved for a quote, or why an entered code wasn't applied
+type QuoteCoupon = { coupon: CheckoutQuote["coupon"]; error: string | null };
+
+const NO_COUPON: QuoteCoupon = { coupon: null, error: null };
+
+function getQuoteSecret(): string {
+  const secret = process.env.CHECKOUT_QUOTE_SECRET;
+  if (!secret) {
+    throw new Error("CHECKOUT_QUOTE_SECRET is not configured");
+  }
+  return secret;
+}
+
+function sign(token: string): string {
+  return createHmac("sha256", getQuoteSecret()).update(token).digest("base64url");
+}
+
+function addDays(date: Date, days: number): string {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Shipping for a destination from the active zones
+ */
+async function quoteShipping(
+  supabase: SupabaseClient,
+  destination: ShippingDestination,
+  parcel: { weightKg: number; itemCount: number; subtotal: number },
+): Promise<{ fee: number; shipping: CheckoutShippingQuote | null; error: string | null }> {
+  const { data: zones, error } = await supabase
+    .from("shipping_zones")
+    .select("*")
+    .eq("is_active", true);
+
+  if (error) throw error;
+
+  const place = [destination.lga, destination.state].filter(Boolean).join(", ");
+  const zone = findShippingZone((zones || []) as ShippingZone[], destination);
+  if (!zone) {
+    return { fee: 0, shipping: null, error: `We don't deliver to ${place} yet` };
+  }
+
+  const fee = calculateShippingFee(zone, parcel);
+  if (fee === null) {
+    return { fee: 0, shipping: null, error: `This order is too large for delivery to ${place}` };
+  }
+
+  return {
+    fee,
+    shipping: {
+      zone_id: zone.id,
+      zone_name: zone.name,
+      destination,
+      min_delivery_days: zone.min_delivery_days,
+      max_delivery_days: zone.max_delivery_days,
+      free_shipping_threshold:
+        zone.free_shipping_threshold === null ? null : Number(zone.free_shipping_threshold),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Active pickup point chosen at checkout
+ */
+async function findPickupPoint(
+  supabase: SupabaseClient,
+  pickupPointId: string,
+): Promise<CheckoutQuote["pickup_point"]> {
+  const { data, error } = await supabase
+    .from("pickup_points")
+    .select("id, name, address, city, state")
+    .eq("id", pickupPointId)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Pick<PickupPoint, "id" | "name" | "address" | "city" | "state"> | null;
+}
+
+/**
+ * Latest delivery date promised for a quote, as YYYY-MM-DD
+ */
+export function getEstimatedDeliveryDate(quote: CheckoutQuote): string | null {
+  return quote.shipping ? addDays(new Date(quote.issued_at), quote.shipping.max_delivery_days) : null;
+}
+
+/**
+ * Price cart items with their current products
+ */
+async function priceItems(
+  supabase: SupabaseClient,
+  userId: string | null,
+  items: QuoteItem[],
+  fulfilment?: CheckoutFulfilment | null,
+  coupon: QuoteCoupon = NO_COUPON,
+): Promise<CheckoutQuote> {
+  const unavailable: string[] = [];
+  const lines: CheckoutQuoteLine[] = [];
+  let weightKg = 0;
+
+  for (const { product, quantity, variantId, variant } of items) {
+    const variantMissing = variantId
+      ? !variant || !variant.is_active || variant.product_id !== product?.id
+      : !!product?.has_variants;
+
+    if (!product || !product.is_active || variantMissing) {
+      unavailable.push(
+        product ? (variant ? `${product.name} (${variant.name})` : product.name) : "A product in your cart",
+      );
+      continue;
+    }
+
+    weightKg += getUnitWeightKg(product.attributes) * quantity;
+
+    const unitPrice = getUnitPrice(variant || product);
+    lines.push({
+      product_id: product.id,
+      variant_id: variant?.id ?? null,
+      product_name: product.name,
+      variant_name: variant?.name ?? null,
+      sku: (variant ? variant.sku : product.sku) ?? null,
+      quantity,
+      unit_price: unitPrice,
+      total_price: roundMoney(unitPrice * quantity),
+    });
+  }
+
+  if (unavailable.length > 0) {
+    throw new Error(`No longer available: ${unavailable.join(", ")}`);
+  }
+
+  const subtotal = roundMoney(lines.reduce((acc, line) => acc + line.total_price, 0));
+  const destination: ShippingDestination | null =
+    fulfilment?.method === "delivery" ? fulfilment.destination : null;
+
+  const { fee, shipping, error: shippingError } = destination?.state
+    ? await quoteShipping(supabase, destination, {
+        weightKg,
+        itemCount: lines.reduce((acc, line) => acc + line.quantity, 0),
+        subtotal,
+      })
+    : { fee: 0, shipping: null, error: null };
+
+  const pickupPoint =
+    fulfilment?.method === "pickup" ? await findPickupPoint(supabase, fulfilment.pickup_point_id) : null;
+
+  const issuedAt = new Date();
+  return {
+    user_id: userId,
+    lines,
+    ...calculateTotals(lines, fee, coupon.coupon ? Number(coupon.coupon.percent_off) : 0),
+    coupon: coupon.coupon,
+    coupon_error: coupon.error,
+    fulfilment_method: fulfilment?.method || "delivery",
+    shipping,
+    pickup_point: pickupPoint,
+    shipping_error:
+      fulfilment?.method === "pickup" && !pickupPoint
+        ? "This pickup point is no longer available"
+        : shippingError,
+    issued_at: issuedAt.toISOString(),
+    expires_at: new Date(issuedAt.getTime() + QUOTE_TTL_MS).toISOString(),
+  };
+}
+
+/**
+ * Price the user's cart as it stands in the database right now
+ * Without a destination the quote carries no shipping fee yet; pickup
+ * orders never pay shipping. A coupon code that can't be used is reported
+ * on the quote rather than failing it.
+ *
+ * @throws when the cart contains products that can't be sold
+ */
+export async function buildCheckoutQuote(
+  supabase: SupabaseClient,
+  userId: string,
+  fulfilment?: CheckoutFulfilment | null,
+  couponCode?: string | null,
+): Promise<CheckoutQuote> {
+  const { data: cartItems, error } = await supabase
+    .from("cart_items")
+    .select(
+      `product_id, variant_id, quantity, products (${QUOTE_PRODUCT_COLUMNS}), variant:product_variants (${QUOTE_VARIANT_COLUMNS})`,
+    )
+    .eq("user_id", userId)
+    .order("added_at", { ascending: true });
+
+  if (error) throw error;
+
+  const items = (cartItems || []).map((item) => ({
+    quantity: item.quantity,
+    product: item.products as unknown as QuoteProduct | null,
+    variantId: item.variant_id,
+    variant: item.variant as unknown as QuoteVariant | null,
+  }));
+
+  let coupon = NO_COUPON;
+  if (couponCode?.trim()) {
+    const found = await findUsableCoupon(supabase, userId, couponCode);
+    coupon = {
+      coupon: found.coupon && {
+        id: found.coupon.id,
+        code: found.coupon.code,
+        percent_off: Number(found.coupon.percent_off),
+      },
+      error: found.error,
+    };
+  }
+
+  return priceItems(supabase, userId, items, fulfilment, coupon);
+}
+
+/**
+ * Why a guest's browser cart can't be checked, or null when its size is fine
+ * Run before anything is looked up for an anonymous caller's cart.
+ */
+export function getGuestCartError(cart: unknown): string | null {
+  if (!Array.isArray(cart)) return "Your cart contains an invalid item";
+  // Refused rather than cut short, so nothing is silently left out of the order
+  if (cart.length > MAX_GUEST_LINES) {
+    return `Your cart can hold up to ${MAX_GUEST_LINES} different items. Please remove some to check out.`;
+  }
+  return null;
+}
+
+/**
+ * Price a guest's browser cart
+ * Only product ids and quantities are taken from the client; prices come
+ * from the products table like a signed-in checkout. Coupons belong to an
+ * account, so a code entered by a guest is only answered with a prompt to
+ * sign in.
+ *
+ * @throws when the cart is malformed, has more than MAX_GUEST_LINES lines or
+ *         contains products that can't be sold
+ */
+export async function buildGuestCheckoutQuote(
+  supabase: SupabaseClient,
+  cart: GuestCartLine[],
+  fulfilment?: CheckoutFulfilment | null,
+  couponCode?: string | null,
+): Promise<CheckoutQuote> {
+  const invalidCart = getGuestCartError(cart);
+  if (invalidCart) throw new Error(invalidCart);
+
+  // Merge repeated products (or variants) so each is one order line
+  const merged = new Map<string, GuestCartLine>();
+  for (const line of cart) {
+    if (!line?.product_id || !Number.isInteger(line.quantity) || line.quantity < 1) {
+      throw new Error("Your cart contains an invalid item");
+    }
+    const key = getLineKey(line);
+    const existing = merged.get(key);
+    merged.set(key, {
+      product_id: line.product_id,
+      variant_id: line.variant_id || null,
+      quantity: (existing?.quantity || 0) + line.quantity,
+    });
+  }
+
+  const lines = [...merged.values()];
+  const productIds = [...new Set(lines.map((line) => line.product_id))];
+  const variantIds = lines.flatMap((line) => (line.variant_id ? [line.variant_id] : []));
+
+  const [productResult, variantResult] = await Promise.all([
+    productIds.length
+      ? supabase.from("products").select(QUOTE_PRODUCT_COLUMNS).in("id", productIds)
+      : Promise.resolve({ data: [], error: null }),
+    variantIds.length
+      ? supabase.from("product_variants").select(QUOTE_VARIANT_COLUMNS).in("id", variantIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (productResult.error) throw productResult.error;
+  if (variantResult.error) throw variantResult.error;
+
+  const products = new Map(
+    ((productResult.data || []) as QuoteProduct[]).map((product) => [product.id, product]),
+  );
+  const variants = new Map(
+    ((variantResult.data || []) as QuoteVariant[]).map((variant) => [variant.id, variant]),
+  );
+  const items = lines.map((line) => ({
+    quantity: line.quantity,
+    product: products.get(line.product_id) || null,
+    variantId: line.variant_id,
+    variant: line.variant_id ? variants.get(line.variant_id) || null : null,
+  }));
+
+  return priceItems(
+    supabase,
+    null,
+    items,
+    fulfilment,
+    couponCode?.trim() ? { coupon: null, error: "Sign in to use this discount code" } : NO_COUPON,
+  );
+}
+
+/**
+ * Sign a quote for the client
+ */
+export function signCheckoutQuote(quote: CheckoutQuote): SignedCheckoutQuote {
+  const token = Buffer.from(JSON.stringify(quote)).toString("base64url");
+  return { quote, token, signature: sign(token) };
+}
+
+/**
+ * Recover the quote the server actually issued
+ *
+ * The display copy sent back by the client is ignored; only the signed
+ * token is read.
+ *
+ * @throws when the signature doesn't match
+ */
+export function readSignedQuote(signed: SignedCheckoutQuote): CheckoutQuote {
+  const expected = Buffer.from(sign(signed.token));
+  const actual = Buffer.from(signed.signature || "");
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error("Checkout quote could not be verified");
+  }
+
+  return JSON.parse(Buffer.from(signed.token, "base64url").toString("utf8"));
+}
+
+/**
+ * Whether two quotes charge the same amounts for the same lines
+ */
+export function quotesMatch(a: CheckoutQuote, b: CheckoutQuote): boolean {
+  if (a.lines.length !== b.lines.length || a.total_amount !== b.total_amount) {
+    return false;
+  }
+
+  if (
+    a.fulfilment_method !== b.fulfilment_method ||
+    a.shipping?.zone_id !== b.shipping?.zone_id ||
+    a.pickup_point?.id !== b.pickup_point?.id ||
+    a.coupon?.id !== b.coupon?.id
+  ) {
+    return false;
+  }
+
+  return a.lines.every((line, index) => {
+    const other = b.lines[index];
+    return (
+      line.product_id === other.product_id &&
+      line.variant_id === other.variant_id &&
+      line.quantity === other.quantity &&
+      line.unit_price === other.unit_price
+    );
+  });
+}
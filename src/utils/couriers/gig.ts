@@ -0,0 +1,162 @@
+/**
+ * GIG Logistics Courier Provider
+ *
+ * Adapter for a GIG Logistics-style REST API (price, capture shipment,
+ * waybill and tracking endpoints). Never import this from client
+ * components: it reads the API key.
+ */
+
+import type { CourierProvider, CourierTrackingStatus, TrackingEvent } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.giglogistics.com/api/v1";
+
+interface GigResponse<T> {
+  Code: string;
+  ShortDescription: string;
+  Object: T;
+}
+
+interface GigTrackingEntry {
+  Status: string;
+  ScanStatus: { Incident: string; Reason: string | null } | null;
+  Location: string | null;
+  DateTime: string;
+}
+
+function getGigConfig(): { baseUrl: string; apiKey: string } {
+  const apiKey = process.env.GIG_LOGISTICS_API_KEY;
+  if (!apiKey) {
+    throw new Error("GIG_LOGISTICS_API_KEY is not configured");
+  }
+
+  return {
+    baseUrl: (process.env.GIG_LOGISTICS_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, ""),
+    apiKey,
+  };
+}
+
+async function gigRequest<T>(
+  path: string,
+  init: { method?: "GET" | "POST"; body?: unknown } = {},
+): Promise<T> {
+  const { baseUrl, apiKey } = getGigConfig();
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+    cache: "no-store",
+  });
+
+  const body = (await response.json()) as GigResponse<T>;
+
+  // GIG reports success as Code "200" in the body
+  if (!response.ok || body.Code !== "200") {
+    throw new Error(body.ShortDescription || `GIG Logistics request failed (${response.status})`);
+  }
+
+  return body.Object;
+}
+
+function mapStatus(status: string): CourierTrackingStatus {
+  switch (status.toUpperCase()) {
+    case "CRT": return "booked";
+    case "MCRT":
+    case "DSC": return "picked_up";
+    case "ARF":
+    case "DPC":
+    case "AST": return "in_transit";
+    case "WC":
+    case "OKT": return "out_for_delivery";
+    case "OKC":
+    case "DLV": return "delivered";
+    case "SSR": return "returned";
+    default: return "in_transit";
+  }
+}
+
+export const gigProvider: CourierProvider = {
+  name: "gig",
+  label: "GIG Logistics",
+
+  async quoteRates({ origin, destination, parcel }) {
+    const price = await gigRequest<{ GrandTotal: number; DeliveryDays?: number }>("/price", {
+      method: "POST",
+      body: {
+        SenderAddress: origin.address,
+        ReceiverAddress: destination.address,
+        Weight: parcel.weightKg,
+        DeclaredValue: parcel.value,
+      },
+    });
+
+    return [
+      {
+        courier: "gig",
+        service: "standard",
+        serviceLabel: "GIG Standard",
+        amount: price.GrandTotal,
+        currency: "NGN",
+        estimatedDays: price.DeliveryDays ?? null,
+      },
+    ];
+  },
+
+  async bookShipment({ reference, origin, destination, parcel }) {
+    const booked = await gigRequest<{
+      Waybill: string;
+      Amount: number;
+      ExpectedDeliveryDate?: string;
+    }>("/captureshipment", {
+      method: "POST",
+      body: {
+        CustomerReference: reference,
+        SenderName: origin.name,
+        SenderPhoneNumber: origin.phone,
+        SenderAddress: origin.address,
+        ReceiverName: destination.name,
+        ReceiverPhoneNumber: destination.phone,
+        ReceiverAddress: destination.address,
+        ShipmentItems: [
+          {
+            ItemName: parcel.description,
+            Weight: parcel.weightKg,
+            Value: parcel.value,
+            Quantity: 1,
+          },
+        ],
+      },
+    });
+
+    return {
+      trackingNumber: booked.Waybill,
+      labelUrl: await this.getLabelUrl(booked.Waybill),
+      amount: booked.Amount,
+      estimatedDeliveryDate: booked.ExpectedDeliveryDate?.slice(0, 10) || null,
+    };
+  },
+
+  async getLabelUrl(trackingNumber) {
+    const { baseUrl } = getGigConfig();
+    return `${baseUrl}/waybill/${encodeURIComponent(trackingNumber)}/print`;
+  },
+
+  async getTracking(trackingNumber) {
+    const entries = await gigRequest<GigTrackingEntry[]>(
+      `/track/mobileShipment?waybillNumber=${encodeURIComponent(trackingNumber)}`,
+    );
+
+    return entries
+      .map((entry): TrackingEvent => ({
+        eventKey: `${entry.Status}:${entry.DateTime}`,
+        status: mapStatus(entry.Status),
+        description: entry.ScanStatus?.Incident || entry.Status,
+        location: entry.Location,
+        occurredAt: new Date(entry.DateTime).toISOString(),
+      }))
+      .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  },
+};
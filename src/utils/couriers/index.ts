@@ -0,0 +1,59 @@
+/**
+ * Courier Provider Registry
+ *
+ * Resolves a courier name (as stored on shipments.courier_provider) to its
+ * adapter. With COURIERS_MODE=simulate every courier is replaced by the
+ * local simulator so shipping can be tested offline.
+ *
+ * Server-only.
+ */
+
+import { gigProvider } from "./gig";
+import { kwikProvider } from "./kwik";
+import { createSimulatedCourier } from "./simulator";
+import type { CourierProvider, CourierProviderName } from "./types";
+
+const providers: Record<CourierProviderName, CourierProvider> = {
+  gig: gigProvider,
+  kwik: kwikProvider,
+};
+
+/**
+ * Whether the simulator stands in for real couriers
+ */
+export function isSimulatedCouriersMode(): boolean {
+  return process.env.COURIERS_MODE === "simulate" && process.env.NODE_ENV !== "production";
+}
+
+export function isCourierProviderName(name: string): name is CourierProviderName {
+  return name in providers;
+}
+
+/**
+ * Get the adapter for a courier
+ * @throws for unknown couriers
+ */
+export function getCourierProvider(name: string): CourierProvider {
+  if (!isCourierProviderName(name)) {
+    throw new Error(`Unknown courier provider: ${name}`);
+  }
+
+  const provider = providers[name];
+  return isSimulatedCouriersMode() ? createSimulatedCourier(provider.name, provider.label) : provider;
+}
+
+/**
+ * Couriers that are configured and can be booked from /admin/orders
+ */
+export function getEnabledCourierProviders(): CourierProvider[] {
+  if (isSimulatedCouriersMode()) {
+    return Object.values(providers).map((p) => createSimulatedCourier(p.name, p.label));
+  }
+
+  const enabled: CourierProvider[] = [];
+  if (process.env.GIG_LOGISTICS_API_KEY) enabled.push(gigProvider);
+  if (process.env.KWIK_API_KEY) enabled.push(kwikProvider);
+  return enabled;
+}
+
+export type { CourierProvider, CourierProviderName } from "./types";
@@ -0,0 +1,148 @@
+/**
+ * Kwik Delivery Courier Provider
+ *
+ * Adapter for a Kwik-style same-day delivery API (fare estimate, task
+ * creation and task status). Kwik delivers within the city, so quotes come
+ * back with a same-day ETA. Never import this from client components: it
+ * reads the API key.
+ */
+
+import type { CourierProvider, CourierTrackingStatus } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.kwik.delivery";
+
+interface KwikResponse<T> {
+  status: number;
+  message: string;
+  data: T;
+}
+
+interface KwikTask {
+  job_id: string;
+  job_status: number;
+  tracking_link: string | null;
+  job_status_history?: Array<{ status: number; description: string; creation_datetime: string }>;
+}
+
+function getKwikConfig(): { baseUrl: string; apiKey: string } {
+  const apiKey = process.env.KWIK_API_KEY;
+  if (!apiKey) {
+    throw new Error("KWIK_API_KEY is not configured");
+  }
+
+  return {
+    baseUrl: (process.env.KWIK_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, ""),
+    apiKey,
+  };
+}
+
+async function kwikRequest<T>(path: string, body: Record<string, unknown>): Promise<T> {
+  const { baseUrl, apiKey } = getKwikConfig();
+
+  // Kwik takes the access token in the request body
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ access_token: apiKey, ...body }),
+    cache: "no-store",
+  });
+
+  const result = (await response.json()) as KwikResponse<T>;
+
+  if (!response.ok || result.status !== 200) {
+    throw new Error(result.message || `Kwik request failed (${response.status})`);
+  }
+
+  return result.data;
+}
+
+// Kwik task statuses: 0 assigned, 1 started, 2 successful, 3 failed,
+// 4 in progress, 6 unassigned, 9 cancelled
+function mapStatus(status: number): CourierTrackingStatus {
+  switch (status) {
+    case 0:
+    case 6: return "booked";
+    case 1: return "picked_up";
+    case 4: return "out_for_delivery";
+    case 2: return "delivered";
+    case 3:
+    case 9: return "failed_delivery";
+    default: return "in_transit";
+  }
+}
+
+export const kwikProvider: CourierProvider = {
+  name: "kwik",
+  label: "Kwik Delivery",
+
+  async quoteRates({ origin, destination, parcel }) {
+    const fare = await kwikRequest<{ per_task_cost: number }>("/send_payment_for_task", {
+      pickups: [{ address: origin.address }],
+      deliveries: [{ address: destination.address }],
+      total_weight: parcel.weightKg,
+    });
+
+    return [
+      {
+        courier: "kwik",
+        service: "same_day",
+        serviceLabel: "Kwik Same Day",
+        amount: fare.per_task_cost,
+        currency: "NGN",
+        estimatedDays: 0,
+      },
+    ];
+  },
+
+  async bookShipment({ reference, origin, destination, parcel }) {
+    const task = await kwikRequest<KwikTask>("/v2/create_task_via_vendor", {
+      order_id: reference,
+      pickups: [{ name: origin.name, phone: origin.phone, address: origin.address }],
+      deliveries: [
+        {
+          name: destination.name,
+          phone: destination.phone,
+          address: destination.address,
+          notes: parcel.description,
+        },
+      ],
+      total_weight: parcel.weightKg,
+      declared_value: parcel.value,
+    });
+
+    const today = new Date().toISOString().slice(0, 10);
+    const fare = await this.quoteRates({ origin, destination, parcel });
+
+    return {
+      trackingNumber: task.job_id,
+      labelUrl: task.tracking_link,
+      amount: fare[0]?.amount ?? 0,
+      estimatedDeliveryDate: today,
+    };
+  },
+
+  // Kwik has no printed label; the rider scans the task on their app
+  async getLabelUrl() {
+    return null;
+  },
+
+  async getTracking(trackingNumber) {
+    const task = await kwikRequest<KwikTask>("/view_task_by_relationship_id", {
+      unique_order_id: trackingNumber,
+    });
+
+    const history = task.job_status_history?.length
+      ? task.job_status_history
+      : [{ status: task.job_status, description: "", creation_datetime: new Date().toISOString() }];
+
+    return history
+      .map((entry) => ({
+        eventKey: `${entry.status}:${entry.creation_datetime}`,
+        status: mapStatus(entry.status),
+        description: entry.description || mapStatus(entry.status).replace(/_/g, " "),
+        location: null,
+        occurredAt: new Date(entry.creation_datetime).toISOString(),
+      }))
+      .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  },
+};
@@ -0,0 +1,145 @@
+/**
+ * Courier Quotes & Booking
+ *
+ * Builds the courier request for part of an order (our warehouse to the
+ * customer's shipping address) and books it with a courier. The parcel
+ * weight comes from each product's `weight_kg` attribute (see
+ * utils/shipping/weight).
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { getUnitWeightKg } from "@/utils/shipping/weight";
+import { getCourierProvider, getEnabledCourierProviders, isSimulatedCouriersMode } from "./index";
+import type { PostalAddress } from "@/types";
+import type { BookedShipment, CourierAddress, RateQuote, RateQuoteInput } from "./types";
+
+export interface ShipmentLineInput {
+  order_item_id: string;
+  quantity: number;
+}
+
+/**
+ * Where parcels are picked up (COURIER_ORIGIN_*)
+ * @throws when no pickup address is configured outside simulate mode
+ */
+export function getShippingOrigin(): CourierAddress {
+  const address = process.env.COURIER_ORIGIN_ADDRESS;
+  if (!address && !isSimulatedCouriersMode()) {
+    throw new Error("COURIER_ORIGIN_ADDRESS is not configured");
+  }
+
+  return {
+    name: process.env.COURIER_ORIGIN_NAME || "JRADIANCE",
+    phone: process.env.COURIER_ORIGIN_PHONE || null,
+    address: address || "JRADIANCE warehouse (simulated)",
+  };
+}
+
+/**
+ * Describe the parcel for the chosen lines of an order
+ * @throws when the order or its shipping address is missing
+ */
+export async function buildRateQuoteInput(
+  orderId: string,
+  lines: ShipmentLineInput[],
+): Promise<RateQuoteInput & { reference: string }> {
+  const supabase = createServiceClient();
+
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select(
+      "order_number, user_id, shipping_address, shipping_address_snapshot, order_items (id, product_name, quantity, unit_price, products (attributes))",
+    )
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!order) throw new Error("Order not found");
+  if (!order.shipping_address) throw new Error("Order has no shipping address");
+
+  // Orders placed before the address book carry no recipient; use the profile
+  const recipient = order.shipping_address_snapshot as PostalAddress | null;
+  const { data: customer } = recipient
+    ? { data: null }
+    : await supabase
+        .from("profiles")
+        .select("full_name, phone")
+        .eq("id", order.user_id)
+        .maybeSingle();
+
+  let weightKg = 0;
+  let value = 0;
+  const names: string[] = [];
+
+  for (const line of lines) {
+    const item = (order.order_items || []).find(
+      (i: { id: string }) => i.id === line.order_item_id,
+    );
+    if (!item) throw new Error("Item is not part of this order");
+
+    const product = (Array.isArray(item.products) ? item.products[0] : item.products) as
+      | { attributes: Record<string, unknown> | null }
+      | null;
+
+    weightKg += getUnitWeightKg(product?.attributes) * line.quantity;
+    value += Number(item.unit_price) * line.quantity;
+    names.push(`${line.quantity} x ${item.product_name}`);
+  }
+
+  return {
+    reference: order.order_number,
+    origin: getShippingOrigin(),
+    destination: {
+      name: recipient?.full_name || customer?.full_name || "Customer",
+      phone: recipient?.phone || customer?.phone || null,
+      address: order.shipping_address,
+    },
+    parcel: {
+      weightKg: Math.round(weightKg * 100) / 100,
+      value,
+      description: names.join(", "),
+    },
+  };
+}
+
+/**
+ * Rates from every enabled courier, cheapest first
+ * A courier that fails to quote is skipped rather than failing the lot.
+ */
+export async function quoteShipment(
+  orderId: string,
+  lines: ShipmentLineInput[],
+): Promise<RateQuote[]> {
+  const input = await buildRateQuoteInput(orderId, lines);
+
+  const results = await Promise.allSettled(
+    getEnabledCourierProviders().map((provider) => provider.quoteRates(input)),
+  );
+
+  const quotes: RateQuote[] = [];
+  for (const result of results) {
+    if (result.status === "fulfilled") {
+      quotes.push(...result.value);
+    } else {
+      console.error("Error fetching courier quote:", result.reason);
+    }
+  }
+
+  return quotes.sort((a, b) => a.amount - b.amount);
+}
+
+/**
+ * Book the chosen lines of an order with a courier
+ */
+export async function bookCourierShipment(
+  orderId: string,
+  lines: ShipmentLineInput[],
+  courier: string,
+  service?: string,
+): Promise<BookedShipment> {
+  const provider = getCourierProvider(courier);
+  const input = await buildRateQuoteInput(orderId, lines);
+  return provider.bookShipment({ ...input, service });
+}
@@ -0,0 +1,110 @@
+/**
+ * Local Courier Simulator
+ *
+ * Offline stand-in for every courier so quoting, booking, labels and
+ * tracking can be exercised without courier accounts. Enabled with
+ * COURIERS_MODE=simulate (never in production).
+ *
+ * Simulated shipments are stateless: the tracking number carries the
+ * courier and booking time, and each poll reports the journey so far, one
+ * step every COURIER_SIMULATOR_STEP_MINUTES (default 5) until delivery.
+ */
+
+import type {
+  CourierProvider,
+  CourierProviderName,
+  CourierTrackingStatus,
+  TrackingEvent,
+} from "./types";
+
+const JOURNEY: Array<{ status: CourierTrackingStatus; description: string; location: string | null }> = [
+  { status: "booked", description: "Shipment booked, awaiting pickup", location: null },
+  { status: "picked_up", description: "Picked up by courier", location: "Origin hub" },
+  { status: "in_transit", description: "In transit to destination hub", location: "Sorting centre" },
+  { status: "out_for_delivery", description: "Out for delivery", location: "Destination hub" },
+  { status: "delivered", description: "Delivered to recipient", location: null },
+];
+
+// Flat fee plus a per-kilogram rate, in naira
+const RATES: Record<CourierProviderName, { service: string; base: number; perKg: number; days: number }> = {
+  gig: { service: "standard", base: 2500, perKg: 500, days: 3 },
+  kwik: { service: "same_day", base: 1500, perKg: 300, days: 0 },
+};
+
+function getStepMs(): number {
+  const minutes = Number(process.env.COURIER_SIMULATOR_STEP_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 5) * 60 * 1000;
+}
+
+function parseTrackingNumber(trackingNumber: string): number | null {
+  const match = /^SIM-[A-Z]+-([0-9a-z]+)-[0-9A-Z]+$/.exec(trackingNumber);
+  if (!match) return null;
+
+  const bookedAt = parseInt(match[1], 36);
+  return Number.isFinite(bookedAt) ? bookedAt : null;
+}
+
+/**
+ * Create a simulator for the named courier
+ */
+export function createSimulatedCourier(name: CourierProviderName, label: string): CourierProvider {
+  const rate = RATES[name];
+
+  const priceFor = (weightKg: number) =>
+    Math.round(rate.base + rate.perKg * Math.max(1, Math.ceil(weightKg)));
+
+  return {
+    name,
+    label: `${label} (simulated)`,
+
+    async quoteRates({ parcel }) {
+      return [
+        {
+          courier: name,
+          service: rate.service,
+          serviceLabel: `${label} ${rate.days === 0 ? "Same Day" : "Standard"}`,
+          amount: priceFor(parcel.weightKg),
+          currency: "NGN",
+          estimatedDays: rate.days,
+        },
+      ];
+    },
+
+    async bookShipment({ parcel }) {
+      const now = Date.now();
+      const suffix = Math.random().toString(36).slice(2, 6).toUpperCase();
+      const trackingNumber = `SIM-${name.toUpperCase()}-${now.toString(36)}-${suffix}`;
+
+      const eta = new Date(now + rate.days * 24 * 60 * 60 * 1000);
+
+      return {
+        trackingNumber,
+        labelUrl: await this.getLabelUrl(trackingNumber),
+        amount: priceFor(parcel.weightKg),
+        estimatedDeliveryDate: eta.toISOString().slice(0, 10),
+      };
+    },
+
+    async getLabelUrl(trackingNumber) {
+      return `/api/dev/couriers/label?tracking=${encodeURIComponent(trackingNumber)}`;
+    },
+
+    async getTracking(trackingNumber) {
+      const bookedAt = parseTrackingNumber(trackingNumber);
+      if (bookedAt === null) {
+        throw new Error(`Not a simulated tracking number: ${trackingNumber}`);
+      }
+
+      const stepMs = getStepMs();
+      const steps = Math.min(JOURNEY.length, Math.floor((Date.now() - bookedAt) / stepMs) + 1);
+
+      return JOURNEY.slice(0, steps).map((step, index): TrackingEvent => ({
+        eventKey: `${index}:${step.status}`,
+        status: step.status,
+        description: step.description,
+        location: step.location,
+        occurredAt: new Date(bookedAt + index * stepMs).toISOString(),
+      }));
+    },
+  };
+}
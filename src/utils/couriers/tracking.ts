@@ -0,0 +1,155 @@
+/**
+ * Courier Tracking Sync
+ *
+ * Pulls tracking events for shipments booked through a courier integration,
+ * stores the new ones and moves the shipment along. Shipment status changes
+ * go through update_shipment_status, so the order itself becomes shipped /
+ * delivered and its status history is written without an agent touching
+ * /admin/orders.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import type { CourierTrackingStatus, ShipmentStatus } from "@/types";
+import { SHIPMENT_STATUS_TRANSITIONS } from "@/utils/orders/status-machine";
+import { getCourierProvider } from "./index";
+
+export interface TrackingSyncResult {
+  newEvents: number;
+  status: ShipmentStatus;
+  trackingStatus: CourierTrackingStatus | null;
+}
+
+// Courier statuses that move our shipment; the rest are informational
+const SHIPMENT_STATUS_FOR: Partial<Record<CourierTrackingStatus, ShipmentStatus>> = {
+  in_transit: "in_transit",
+  out_for_delivery: "in_transit",
+  delivered: "delivered",
+};
+
+/**
+ * Fetch and store tracking for one shipment
+ *
+ * @param shipmentId - Shipment booked through a courier integration
+ * @param changedBy - Staff member who asked, or null for the polling job
+ * @audit Logs shipment_tracking_updated when the shipment status changes
+ */
+export async function syncShipmentTracking(
+  shipmentId: string,
+  changedBy: string | null,
+): Promise<TrackingSyncResult> {
+  const supabase = createServiceClient();
+
+  const { data: shipment, error } = await supabase
+    .from("shipments")
+    .select("id, order_id, status, courier_provider, tracking_number, tracking_status")
+    .eq("id", shipmentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!shipment) throw new Error("Shipment not found");
+  if (!shipment.courier_provider) {
+    throw new Error("This shipment was not booked through a courier integration");
+  }
+
+  const events = await getCourierProvider(shipment.courier_provider).getTracking(
+    shipment.tracking_number,
+  );
+
+  let newEvents = 0;
+  if (events.length > 0) {
+    const { data: inserted, error: insertError } = await supabase
+      .from("shipment_tracking_events")
+      .upsert(
+        events.map((event) => ({
+          shipment_id: shipment.id,
+          event_key: event.eventKey,
+          status: event.status,
+          description: event.description,
+          location: event.location,
+          occurred_at: event.occurredAt,
+        })),
+        { onConflict: "shipment_id,event_key", ignoreDuplicates: true },
+      )
+      .select("id");
+
+    if (insertError) throw insertError;
+    newEvents = inserted?.length || 0;
+  }
+
+  const latest = events[events.length - 1];
+  const trackingStatus = latest?.status ?? shipment.tracking_status;
+
+  await supabase
+    .from("shipments")
+    .update({
+      tracking_status: trackingStatus,
+      last_tracked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", shipment.id);
+
+  // Only move forward: a late "in transit" never undoes "delivered"
+  const current = shipment.status as ShipmentStatus;
+  const target = latest ? SHIPMENT_STATUS_FOR[latest.status] : undefined;
+  if (!target || !SHIPMENT_STATUS_TRANSITIONS[current]?.includes(target)) {
+    return { newEvents, status: current, trackingStatus };
+  }
+
+  const { error: statusError } = await supabase.rpc("update_shipment_status", {
+    p_shipment_id: shipment.id,
+    p_status: target,
+    p_changed_by: changedBy,
+  });
+
+  if (statusError) throw statusError;
+
+  await supabase.from("admin_activity_logs").insert({
+    admin_id: changedBy,
+    action: "shipment_tracking_updated",
+    resource_type: "order",
+    resource_id: shipment.order_id,
+    changes: {
+      shipment_id: shipment.id,
+      courier_provider: shipment.courier_provider,
+      tracking_status: trackingStatus,
+      old_status: current,
+      new_status: target,
+    },
+  });
+
+  return { newEvents, status: target, trackingStatus };
+}
+
+/**
+ * Poll every undelivered courier shipment
+ * A courier error on one shipment is logged and the rest carry on.
+ *
+ * @returns Number of shipments polled and how many changed status
+ */
+export async function pollCourierTracking(): Promise<{ polled: number; updated: number }> {
+  const supabase = createServiceClient();
+
+  const { data: shipments, error } = await supabase
+    .from("shipments")
+    .select("id, status")
+    .not("courier_provider", "is", null)
+    .neq("status", "delivered")
+    .order("last_tracked_at", { ascending: true, nullsFirst: true })
+    .limit(100);
+
+  if (error) throw error;
+
+  let updated = 0;
+  for (const shipment of shipments || []) {
+    try {
+      const result = await syncShipmentTracking(shipment.id, null);
+      if (result.status !== shipment.status) updated++;
+    } catch (syncError) {
+      console.error(`Error tracking shipment ${shipment.id}:`, syncError);
+    }
+  }
+
+  return { polled: shipments?.length || 0, updated };
+}
@@ -0,0 +1,82 @@
+/**
+ * Courier Provider Contract
+ *
+ * Every courier adapter (GIG Logistics, Kwik, the local simulator)
+ * implements CourierProvider so shipping never depends on a specific
+ * courier's API. Amounts are in naira; weights in kilograms.
+ */
+
+import type { CourierTrackingStatus } from "@/types";
+
+export type { CourierTrackingStatus };
+
+export type CourierProviderName = "gig" | "kwik";
+
+export interface CourierAddress {
+  name: string;
+  phone: string | null;
+  // Free-text address as captured at checkout
+  address: string;
+}
+
+export interface ParcelDetails {
+  weightKg: number;
+  // Declared value, for insurance
+  value: number;
+  description: string;
+}
+
+export interface RateQuoteInput {
+  origin: CourierAddress;
+  destination: CourierAddress;
+  parcel: ParcelDetails;
+}
+
+export interface RateQuote {
+  courier: CourierProviderName;
+  // Courier's own service code, passed back when booking
+  service: string;
+  serviceLabel: string;
+  amount: number;
+  currency: string;
+  estimatedDays: number | null;
+}
+
+export interface BookShipmentInput extends RateQuoteInput {
+  // Our shipment reference, quoted on the waybill
+  reference: string;
+  service?: string;
+}
+
+export interface BookedShipment {
+  trackingNumber: string;
+  labelUrl: string | null;
+  amount: number;
+  estimatedDeliveryDate: string | null; // YYYY-MM-DD
+}
+
+export interface TrackingEvent {
+  // Stable per courier event; used to store each event once
+  eventKey: string;
+  status: CourierTrackingStatus;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+export interface CourierProvider {
+  name: CourierProviderName;
+  label: string;
+
+  /** Price a parcel between two addresses */
+  quoteRates(input: RateQuoteInput): Promise<RateQuote[]>;
+
+  /** Book a pickup and get a tracking (waybill) number */
+  bookShipment(input: BookShipmentInput): Promise<BookedShipment>;
+
+  /** Printable label / waybill for a booked shipment */
+  getLabelUrl(trackingNumber: string): Promise<string | null>;
+
+  /** Every tracking event the courier has recorded, oldest first */
+  getTracking(trackingNumber: string): Promise<TrackingEvent[]>;
+}
@@ -0,0 +1,63 @@
+/**
+ * Transactional Email
+ *
+ * Sends email through Resend's HTTP API. With EMAIL_MODE=log (never in
+ * production) or no RESEND_API_KEY outside production, messages are
+ * written to the server log instead so flows can be tested offline.
+ *
+ * Server-only: reads RESEND_API_KEY.
+ */
+
+const RESEND_URL = "https://api.resend.com/emails";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Whether messages go to the server log instead of being sent
+ */
+export function isLoggedEmailMode(): boolean {
+  if (process.env.NODE_ENV === "production") return false;
+  return process.env.EMAIL_MODE === "log" || !process.env.RESEND_API_KEY;
+}
+
+/**
+ * Send one email
+ * @throws when the provider is not configured or rejects the message
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  if (isLoggedEmailMode()) {
+    console.info(`[email] to=${message.to} subject="${message.subject}"\n${message.text}`);
+    return;
+  }
+
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    throw new Error("RESEND_API_KEY is not configured");
+  }
+
+  const response = await fetch(RESEND_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: process.env.EMAIL_FROM || "JRADIANCE <orders@jradianceco.com>",
+      to: [message.to],
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    }),
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Email could not be sent (${response.status})`);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Scheduled Job Authentication
+ *
+ * Job routes under /api/jobs are triggered by a scheduler (Vercel Cron or
+ * any service that can send an HTTP request) and authenticate with a shared
+ * secret: `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Check a job request carries the configured CRON_SECRET
+ * Always false when no secret is configured
+ */
+export function isAuthorizedJobRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const header = request.headers.get("authorization") || "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,31 @@
+/**
+ * Email Notifier
+ *
+ * Delivers customer notifications with the transactional email sender, so
+ * EMAIL_MODE=log applies here too.
+ */
+
+import { sendEmail } from "@/utils/email";
+import type { CustomerNotifier } from "./types";
+
+export const emailNotifier: CustomerNotifier = {
+  name: "email",
+  label: "Email",
+
+  canReach(recipient) {
+    return !!recipient.email;
+  },
+
+  async send(notification) {
+    if (!notification.to.email) {
+      throw new Error("Recipient has no email address");
+    }
+
+    await sendEmail({
+      to: notification.to.email,
+      subject: notification.subject,
+      text: notification.text,
+      html: notification.html,
+    });
+  },
+};
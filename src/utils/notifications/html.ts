@@ -0,0 +1,11 @@
+/**
+ * HTML helpers for notification bodies
+ */
+
+/**
+ * Escape text (customer names, product names, ...) before putting it in an
+ * HTML message body
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
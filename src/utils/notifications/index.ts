@@ -0,0 +1,42 @@
+/**
+ * Customer Notifier Registry
+ *
+ * Resolves the notifier configured for a flow, e.g. CART_RECOVERY_NOTIFIER
+ * for abandoned-cart messages. Unset falls back to email; the log notifier
+ * is never used in production.
+ *
+ * Server-only.
+ */
+
+import { emailNotifier } from "./email";
+import { logNotifier } from "./log";
+import type { CustomerNotifier, NotifierName } from "./types";
+
+const notifiers: Record<NotifierName, CustomerNotifier> = {
+  email: emailNotifier,
+  log: logNotifier,
+};
+
+export function isNotifierName(name: string): name is NotifierName {
+  return name in notifiers;
+}
+
+/**
+ * Get the notifier named in an env setting
+ * @throws for unknown notifiers, or the log notifier in production
+ */
+export function getCustomerNotifier(name: string | undefined): CustomerNotifier {
+  const resolved = name || "email";
+  if (!isNotifierName(resolved)) {
+    throw new Error(`Unknown notifier: ${resolved}`);
+  }
+
+  if (resolved === "log" && process.env.NODE_ENV === "production") {
+    throw new Error("The log notifier can't be used in production");
+  }
+
+  return notifiers[resolved];
+}
+
+export { escapeHtml } from "./html";
+export type { CustomerNotification, CustomerNotifier, NotificationRecipient, NotifierName } from "./types";
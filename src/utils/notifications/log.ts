@@ -0,0 +1,23 @@
+/**
+ * Log Notifier
+ *
+ * Writes notifications to the server log instead of contacting anyone.
+ * For development and staging; refused in production (see index.ts).
+ */
+
+import type { CustomerNotifier } from "./types";
+
+export const logNotifier: CustomerNotifier = {
+  name: "log",
+  label: "Server log",
+
+  canReach() {
+    return true;
+  },
+
+  async send(notification) {
+    console.info(
+      `[notify] user=${notification.to.userId} subject="${notification.subject}" url=${notification.url}\n${notification.text}`,
+    );
+  },
+};
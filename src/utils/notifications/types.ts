@@ -0,0 +1,37 @@
+/**
+ * Customer Notifier Contract
+ *
+ * Marketing and recovery messages go through a CustomerNotifier so the
+ * channel (email today, SMS or WhatsApp later) can change without touching
+ * the flows that send them.
+ */
+
+export type NotifierName = "email" | "log";
+
+export interface NotificationRecipient {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface CustomerNotification {
+  to: NotificationRecipient;
+  subject: string;
+  // Plain text body; channels without markup send only this
+  text: string;
+  html?: string;
+  // Where the message sends the customer
+  url: string;
+}
+
+export interface CustomerNotifier {
+  name: NotifierName;
+  label: string;
+  // Whether this channel can reach the recipient at all
+  canReach(recipient: NotificationRecipient): boolean;
+  /**
+   * @throws when the message could not be sent
+   */
+  send(notification: CustomerNotification): Promise<void>;
+}
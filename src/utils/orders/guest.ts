@@ -0,0 +1,69 @@
+/**
+ * Guest Orders
+ *
+ * Emails guests the lookup link for an order placed without an account,
+ * and attaches guest orders to an account once its owner has proved they
+ * own the email the orders were placed with.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { sendEmail } from "@/utils/email";
+import { escapeHtml } from "@/utils/notifications/html";
+import { buildOrderLookupUrl } from "./lookup-token";
+import type { Order } from "@/types";
+
+/**
+ * Email a guest the link to view and pay for their order
+ */
+export async function sendGuestOrderEmail(
+  order: Pick<Order, "id" | "order_number" | "total_amount" | "guest_email">,
+): Promise<void> {
+  if (!order.guest_email) return;
+
+  const url = buildOrderLookupUrl(order.id);
+  const total = `₦${Number(order.total_amount).toLocaleString()}`;
+
+  await sendEmail({
+    to: order.guest_email,
+    subject: `Your JRADIANCE order ${order.order_number}`,
+    text: [
+      `Thank you for your order ${order.order_number} (${total}).`,
+      "",
+      "Track it, finish paying or see your pickup code here:",
+      url,
+      "",
+      "Keep this link private: anyone with it can view your order.",
+      `Create an account with ${order.guest_email} and this order will be added to it automatically.`,
+    ].join("\n"),
+    html: `
+      <p>Thank you for your order <strong>${escapeHtml(order.order_number)}</strong> (${total}).</p>
+      <p><a href="${url}">View your order</a> to track it, finish paying or see your pickup code.</p>
+      <p style="color:#6b7280;font-size:12px">Keep this link private: anyone with it can view your order.
+      Create an account with ${escapeHtml(order.guest_email)} and this order will be added to it automatically.</p>
+    `,
+  });
+}
+
+/**
+ * Attach guest orders placed with a user's email to their account
+ *
+ * @param user - Signed-in user; only a confirmed email is trusted
+ * @returns Number of orders claimed
+ */
+export async function claimGuestOrders(user: {
+  id: string;
+  email?: string | null;
+  email_confirmed_at?: string | null;
+}): Promise<number> {
+  if (!user.email || !user.email_confirmed_at) return 0;
+
+  const { data, error } = await createServiceClient().rpc("claim_guest_orders", {
+    p_user_id: user.id,
+    p_email: user.email,
+  });
+
+  if (error) throw error;
+  return data || 0;
+}
@@ -0,0 +1,45 @@
+/**
+ * Guest Order Lookup Links
+ *
+ * A guest has no account to sign in with, so the link emailed after a guest
+ * checkout carries a token that proves they were given it. The token is an
+ * HMAC of the order id; it never expires, like a printed receipt.
+ *
+ * Server-only: reads ORDER_LOOKUP_SECRET.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+function getLookupSecret(): string {
+  const secret = process.env.ORDER_LOOKUP_SECRET;
+  if (!secret) {
+    throw new Error("ORDER_LOOKUP_SECRET is not configured");
+  }
+  return secret;
+}
+
+/**
+ * Token for an order's lookup link
+ */
+export function createOrderLookupToken(orderId: string): string {
+  return createHmac("sha256", getLookupSecret()).update(`order:${orderId}`).digest("base64url");
+}
+
+/**
+ * Whether a token was issued for this order
+ */
+export function verifyOrderLookupToken(orderId: string, token: string | null | undefined): boolean {
+  if (!token) return false;
+
+  const expected = Buffer.from(createOrderLookupToken(orderId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Absolute link to a guest order's lookup page
+ */
+export function buildOrderLookupUrl(orderId: string): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://jradianceco.com";
+  return `${siteUrl}/shop/orders/lookup?order=${orderId}&token=${createOrderLookupToken(orderId)}`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Order Number Format
+ *
+ * Order numbers are issued by the database (next_order_number) as
+ * JR-<year>-<sequence>-<check digit>, e.g. JR-2026-000123-3. This module
+ * mirrors the check digit so a number typed or read out over the phone can
+ * be validated before looking it up. Safe to use on the client.
+ */
+
+const ORDER_NUMBER_PATTERN = /^JR-(\d{4})-(\d{6,})-(\d)$/;
+
+/**
+ * Luhn check digit for a string of digits
+ */
+export function luhnCheckDigit(digits: string): number {
+  let sum = 0;
+  let double = true;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Tidy user input: uppercase, trim, and accept spaces in place of dashes
+ */
+export function normalizeOrderNumber(value: string): string {
+  return value.trim().toUpperCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Whether a value is a well-formed order number with a correct check digit
+ */
+export function isValidOrderNumber(value: string): boolean {
+  const match = ORDER_NUMBER_PATTERN.exec(normalizeOrderNumber(value));
+  if (!match) return false;
+
+  const [, year, sequence, check] = match;
+  return luhnCheckDigit(year + sequence) === Number(check);
+}
+
+/**
+ * Payment reference for the nth payment attempt on an order
+ * e.g. JR-2026-000123-3-P02
+ */
+export function buildPaymentReference(orderNumber: string, attempt: number): string {
+  return `${orderNumber}-P${String(attempt).padStart(2, "0")}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * Unpaid Order Expiry
+ *
+ * Customers may retry payment on an unpaid order (see initializeOrderPayment)
+ * until its payment window closes. After that the order is cancelled and its
+ * stock handed back.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { settlePaymentReference } from "@/utils/payments/settlement";
+
+const DEFAULT_PAYMENT_WINDOW_MINUTES = 24 * 60;
+
+/**
+ * How long after placement an order may still be paid (ORDER_PAYMENT_WINDOW_MINUTES)
+ */
+export function getPaymentWindowMinutes(): number {
+  const minutes = parseInt(process.env.ORDER_PAYMENT_WINDOW_MINUTES || "", 10);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_PAYMENT_WINDOW_MINUTES;
+}
+
+/**
+ * Cancel orders still unpaid after the payment window
+ *
+ * Pending payment attempts are verified first so a payment that went
+ * through at the last minute is honoured.
+ *
+ * @returns Number of orders cancelled
+ * @audit Logs order_auto_cancelled per order
+ */
+export async function cancelUnpaidOrders(): Promise<number> {
+  const supabase = createServiceClient();
+  const cutoff = new Date(Date.now() - getPaymentWindowMinutes() * 60 * 1000);
+
+  const { data: orders, error } = await supabase
+    .from("orders")
+    .select("id, payment_transactions (reference, status)")
+    .eq("status", "pending")
+    .in("payment_status", ["pending", "failed"])
+    .lt("created_at", cutoff.toISOString());
+
+  if (error) throw error;
+
+  let cancelled = 0;
+  for (const order of orders || []) {
+    const pending = (order.payment_transactions || []).filter(
+      (tx: { status: string }) => tx.status === "pending",
+    );
+
+    for (const tx of pending) {
+      await settlePaymentReference(tx.reference, "payment_window_expiry");
+    }
+
+    const { data: didCancel, error: cancelError } = await supabase.rpc(
+      "cancel_unpaid_order",
+      { p_order_id: order.id },
+    );
+
+    if (cancelError) {
+      console.error("Error cancelling unpaid order:", cancelError);
+      continue;
+    }
+
+    if (didCancel) {
+      cancelled++;
+      await supabase.from("admin_activity_logs").insert({
+        admin_id: null,
+        action: "order_auto_cancelled",
+        resource_type: "order",
+        resource_id: order.id,
+        changes: { source: "job", payment_window_minutes: getPaymentWindowMinutes() },
+      });
+    }
+  }
+
+  return cancelled;
+}
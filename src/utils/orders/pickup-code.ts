@@ -0,0 +1,26 @@
+/**
+ * Pickup Codes
+ *
+ * Store pickup orders get a short code at placement. The customer shows it
+ * at the pickup point and staff enter it in /admin/orders before handing
+ * the order over (collect_pickup_order). Letters and digits that are easy
+ * to confuse (0/O, 1/I/L) are left out so codes can be read aloud.
+ *
+ * Server-only: uses node:crypto.
+ */
+
+import { randomInt } from "crypto";
+
+const PICKUP_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const PICKUP_CODE_LENGTH = 6;
+
+/**
+ * Random pickup code, e.g. "K7P2QX"
+ */
+export function generatePickupCode(): string {
+  let code = "";
+  for (let i = 0; i < PICKUP_CODE_LENGTH; i++) {
+    code += PICKUP_CODE_ALPHABET[randomInt(PICKUP_CODE_ALPHABET.length)];
+  }
+  return code;
+}
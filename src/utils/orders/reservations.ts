@@ -0,0 +1,87 @@
+/**
+ * Stock Reservations
+ *
+ * Orders take their stock at placement (see place_order). Unpaid orders only
+ * hold it for a limited window; this module hands expired holds back so the
+ * products can be sold to someone else.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { settlePaymentReference } from "@/utils/payments/settlement";
+
+const DEFAULT_RESERVATION_MINUTES = 30;
+
+/**
+ * How long an unpaid order holds its stock (STOCK_RESERVATION_MINUTES)
+ */
+export function getReservationMinutes(): number {
+  const minutes = parseInt(process.env.STOCK_RESERVATION_MINUTES || "", 10);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_RESERVATION_MINUTES;
+}
+
+/**
+ * Release stock held by unpaid orders whose reservation has expired
+ *
+ * Pending payment attempts are verified first so a payment that succeeded
+ * just before expiry is honoured instead of losing its stock.
+ *
+ * @returns Number of orders whose stock was released
+ * @audit Logs reservation_expired per order
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data: orders, error } = await supabase
+    .from("orders")
+    .select("id, payment_transactions (reference, status)")
+    .eq("payment_status", "pending")
+    .eq("stock_reserved", true)
+    .lt("reservation_expires_at", new Date().toISOString());
+
+  if (error) throw error;
+
+  let released = 0;
+  for (const order of orders || []) {
+    const pending = (order.payment_transactions || []).filter(
+      (tx: { status: string }) => tx.status === "pending",
+    );
+
+    for (const tx of pending) {
+      await settlePaymentReference(tx.reference, "reservation_expiry");
+    }
+
+    // Only release if the order is still unpaid after verification
+    const { data: current } = await supabase
+      .from("orders")
+      .select("payment_status")
+      .eq("id", order.id)
+      .single();
+
+    if (current?.payment_status !== "pending") continue;
+
+    const { data: didRelease, error: releaseError } = await supabase.rpc(
+      "release_order_stock",
+      { p_order_id: order.id },
+    );
+
+    if (releaseError) {
+      console.error("Error releasing reservation:", releaseError);
+      continue;
+    }
+
+    if (didRelease) {
+      released++;
+      await supabase.from("admin_activity_logs").insert({
+        admin_id: null,
+        action: "reservation_expired",
+        resource_type: "order",
+        resource_id: order.id,
+        changes: { source: "job" },
+      });
+    }
+  }
+
+  return released;
+}
@@ -0,0 +1,110 @@
+/**
+ * Order Status State Machine
+ *
+ * The single definition of how an order moves through fulfilment:
+ *
+ *   pending → confirmed → shipped → delivered → returned
+ *      ↓          ↓          ↓
+ *   cancelled  cancelled  returned
+ *
+ * updateOrderStatus validates every change here before calling
+ * transition_order_status, which records it in order_status_history.
+ * shipped and delivered are derived from the order's shipments
+ * (sync_order_fulfilment), so staff reach them by creating shipments and
+ * marking them delivered rather than picking the status directly. Store
+ * pickup orders skip shipping and become delivered when staff verify the
+ * customer's pickup code (collect_pickup_order).
+ * Pure rules with no database access, so pages can use them to offer
+ * only the valid next steps.
+ */
+
+import type { Order, OrderStatus, ShipmentStatus } from "@/types";
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  // delivered straight from confirmed only for store pickup orders
+  confirmed: ["shipped", "delivered", "cancelled"],
+  shipped: ["delivered", "returned"],
+  delivered: ["returned"],
+  cancelled: [],
+  returned: [],
+};
+
+// Reached through shipments (or pickup collection), never set by hand
+export const SHIPMENT_DERIVED_STATUSES: OrderStatus[] = ["shipped", "delivered"];
+
+export const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  shipped: ["in_transit", "delivered"],
+  in_transit: ["delivered"],
+  delivered: [],
+};
+
+// Customers may cancel themselves until the order ships, and ask to return it once delivered
+export const CUSTOMER_CANCELLABLE_STATUSES: OrderStatus[] = ["pending", "confirmed"];
+export const CUSTOMER_RETURNABLE_STATUSES: OrderStatus[] = ["delivered"];
+
+/** Extra details a transition may need */
+export interface StatusTransitionInput {
+  trackingNumber?: string;
+  note?: string;
+}
+
+/**
+ * Statuses an order may move to next
+ */
+export function getAllowedTransitions(from: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from] || [];
+}
+
+/**
+ * Statuses staff may pick directly (everything but the shipment-derived ones)
+ */
+export function getManualTransitions(from: OrderStatus): OrderStatus[] {
+  return getAllowedTransitions(from).filter((to) => !SHIPMENT_DERIVED_STATUSES.includes(to));
+}
+
+/**
+ * Whether a transition needs a tracking number or a reason before it can be made
+ */
+export function getRequiredTransitionFields(to: OrderStatus): Array<keyof StatusTransitionInput> {
+  switch (to) {
+    case "shipped": return ["trackingNumber"];
+    case "cancelled":
+    case "returned": return ["note"];
+    default: return [];
+  }
+}
+
+/**
+ * Check a status change against the state machine
+ *
+ * @returns An error message, or null when the change is allowed
+ */
+export function validateStatusTransition(
+  order: Pick<Order, "status" | "payment_status">,
+  to: OrderStatus,
+  input: StatusTransitionInput = {},
+): string | null {
+  if (order.status === to) {
+    return `Order is already ${to}`;
+  }
+
+  if (!getAllowedTransitions(order.status).includes(to)) {
+    return `A ${order.status} order cannot be moved to ${to}`;
+  }
+
+  // Only paid orders (or ones to be paid at the door) go to fulfilment
+  if (to === "confirmed" && !["completed", "pay_on_delivery"].includes(order.payment_status)) {
+    return "Payment has not been received for this order";
+  }
+
+  for (const field of getRequiredTransitionFields(to)) {
+    if (!input[field]?.trim()) {
+      return field === "trackingNumber"
+        ? "A tracking number is required to mark an order as shipped"
+        : `A reason is required to mark an order as ${to}`;
+    }
+  }
+
+  return null;
+}
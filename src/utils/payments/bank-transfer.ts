@@ -0,0 +1,63 @@
+/**
+ * Bank Transfer Payment Provider
+ *
+ * Manual method: the customer transfers to our account quoting the order
+ * reference, and staff confirm receipt from /admin/orders
+ * (see confirmBankTransfer in src/app/admin/action.ts). There is no remote
+ * API, so this adapter works offline as-is.
+ */
+
+import type { PaymentProvider } from "./types";
+
+function getAccountDetails() {
+  const accountNumber = process.env.BANK_TRANSFER_ACCOUNT_NUMBER;
+  if (!accountNumber) {
+    throw new Error("BANK_TRANSFER_ACCOUNT_NUMBER is not configured");
+  }
+
+  return {
+    bankName: process.env.BANK_TRANSFER_BANK_NAME || "",
+    accountNumber,
+    accountName: process.env.BANK_TRANSFER_ACCOUNT_NAME || "JRADIANCE",
+  };
+}
+
+export const bankTransferProvider: PaymentProvider = {
+  name: "bank_transfer",
+  label: "Bank Transfer",
+
+  async initialize(input) {
+    return {
+      reference: input.reference,
+      authorizationUrl: null,
+      instructions: { ...getAccountDetails(), narration: input.reference },
+    };
+  },
+
+  // Receipt is only known once staff confirm it, which settles the order directly
+  async verify(reference) {
+    return {
+      reference,
+      status: "pending",
+      amount: 0,
+      currency: "NGN",
+      providerTransactionId: null,
+      gatewayResponse: "Awaiting manual confirmation",
+      raw: null,
+    };
+  },
+
+  // Money is sent back by staff outside the system; we only record it
+  async refund(input) {
+    return { status: "processed", providerRefundId: null, amount: input.amount };
+  },
+
+  // No remote ledger; manual confirmations are the record
+  async listTransactions() {
+    return [];
+  },
+
+  parseWebhook() {
+    return null;
+  },
+};
@@ -0,0 +1,46 @@
+/**
+ * Cash on Delivery Payment Provider
+ *
+ * The customer pays the delivering agent in cash or by POS. The order is
+ * placed in the "pay_on_delivery" state and settled when the agent records
+ * the collection from /admin/orders (see recordCodCollection in
+ * src/app/admin/action.ts). There is no remote API.
+ */
+
+import type { PaymentProvider } from "./types";
+
+export const cashOnDeliveryProvider: PaymentProvider = {
+  name: "cash_on_delivery",
+  label: "Pay on Delivery (Cash or POS)",
+
+  async initialize(input) {
+    return { reference: input.reference, authorizationUrl: null };
+  },
+
+  // Payment is only known once the agent records the collection
+  async verify(reference) {
+    return {
+      reference,
+      status: "pending",
+      amount: 0,
+      currency: "NGN",
+      providerTransactionId: null,
+      gatewayResponse: "Awaiting collection on delivery",
+      raw: null,
+    };
+  },
+
+  // Cash is handed back by staff outside the system; we only record it
+  async refund(input) {
+    return { status: "processed", providerRefundId: null, amount: input.amount };
+  },
+
+  // No remote ledger; manual confirmations are the record
+  async listTransactions() {
+    return [];
+  },
+
+  parseWebhook() {
+    return null;
+  },
+};
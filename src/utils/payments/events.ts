@@ -0,0 +1,151 @@
+/**
+ * Payment Webhook Event Processing
+ *
+ * Stores and applies gateway webhook events exactly once. Each delivery is
+ * written to payment_events keyed by provider and event key; a delivery that
+ * matches an already processed row is acknowledged without side effects.
+ * A claim older than PROCESSING_TIMEOUT_MINUTES is treated as abandoned (the
+ * process applying it died) and can be taken over by the next delivery.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { applyRefundNotification } from "./refunds";
+import { settlePaymentReference } from "./settlement";
+import type { ParsedWebhookEvent, PaymentProviderName } from "./types";
+
+// "processing": another delivery is applying the event right now
+export type EventOutcome = "processed" | "ignored" | "duplicate" | "processing";
+
+const PROCESSING_TIMEOUT_MINUTES = 5;
+
+/**
+ * Record a verified webhook event and apply it once
+ *
+ * @param provider - Provider that sent the event
+ * @param event - Normalized event (signature already validated by the adapter)
+ * @returns What happened to the event
+ * @throws When applying the event failed; the row is marked failed so a
+ *         gateway retry can pick it up again
+ */
+export async function handlePaymentEvent(
+  provider: PaymentProviderName,
+  event: ParsedWebhookEvent,
+): Promise<EventOutcome> {
+  const supabase = createServiceClient();
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("payment_events")
+    .insert({
+      provider,
+      event_key: event.eventKey,
+      event_type: event.rawType,
+      reference: event.reference,
+      payload: event.payload,
+    })
+    .select("id, status, attempts")
+    .single();
+
+  let stored = inserted;
+  if (insertError) {
+    // Duplicate delivery - fall through to the existing row
+    if (insertError.code !== "23505") throw insertError;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("payment_events")
+      .select("id, status, attempts")
+      .eq("provider", provider)
+      .eq("event_key", event.eventKey)
+      .single();
+
+    if (fetchError) throw fetchError;
+    stored = existing;
+  }
+
+  if (!stored) throw new Error("Failed to store payment event");
+
+  // Claim the event; only one concurrent delivery can win this update
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - PROCESSING_TIMEOUT_MINUTES * 60_000);
+  const { data: claimed, error: claimError } = await supabase
+    .from("payment_events")
+    .update({ status: "processing", attempts: stored.attempts + 1, claimed_at: now.toISOString() })
+    .eq("id", stored.id)
+    .or(
+      `status.in.(received,failed),and(status.eq.processing,claimed_at.lt."${staleBefore.toISOString()}")`,
+    )
+    .select("id")
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+
+  if (!claimed) {
+    const { data: current, error: statusError } = await supabase
+      .from("payment_events")
+      .select("status")
+      .eq("id", stored.id)
+      .single();
+
+    if (statusError) throw statusError;
+    // Still being applied: the gateway should try again later rather than
+    // be told the event is done
+    return current.status === "processing" ? "processing" : "duplicate";
+  }
+
+  try {
+    const outcome = await applyPaymentEvent(event);
+
+    await supabase
+      .from("payment_events")
+      .update({ status: outcome, error: null, processed_at: new Date().toISOString() })
+      .eq("id", stored.id);
+
+    return outcome;
+  } catch (error) {
+    await supabase
+      .from("payment_events")
+      .update({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      })
+      .eq("id", stored.id);
+
+    throw error;
+  }
+}
+
+async function applyPaymentEvent(
+  event: ParsedWebhookEvent,
+): Promise<"processed" | "ignored"> {
+  if (!event.reference) return "ignored";
+
+  const supabase = createServiceClient();
+  const { data: transaction } = await supabase
+    .from("payment_transactions")
+    .select("id")
+    .eq("reference", event.reference)
+    .maybeSingle();
+
+  // Not one of ours (e.g. a payment made outside the store)
+  if (!transaction) return "ignored";
+
+  switch (event.type) {
+    case "charge.success":
+    case "charge.failed": {
+      // Re-verify with the API rather than trusting the payload alone
+      const result = await settlePaymentReference(event.reference, `webhook:${event.rawType}`);
+      if (!result.success) throw new Error(result.error);
+      return "processed";
+    }
+
+    case "refund.processed": {
+      await applyRefundNotification(event.reference, event.amount);
+      return "processed";
+    }
+
+    default:
+      // Pending/failed refunds and other notifications are kept for the record only
+      return "ignored";
+  }
+}
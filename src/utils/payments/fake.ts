@@ -0,0 +1,151 @@
+/**
+ * Local Fake Payment Providers
+ *
+ * In-memory stand-ins for every gateway so checkout, verification, refunds
+ * and webhooks can be exercised offline. Enabled with PAYMENTS_MODE=fake
+ * (never in production). The hosted payment page is served by
+ * src/app/api/dev/payments/route.ts, where you choose the outcome.
+ *
+ * State lives in process memory and is lost when the dev server restarts.
+ */
+
+import type { PaymentProvider, PaymentProviderName, VerifiedPayment } from "./types";
+
+export interface FakeTransaction {
+  reference: string;
+  provider: PaymentProviderName;
+  amount: number;
+  currency: string;
+  status: VerifiedPayment["status"];
+  amountPaid: number;
+  amountRefunded: number;
+  callbackUrl: string;
+  createdAt: string;
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __fakePaymentTransactions?: Map<string, FakeTransaction>;
+};
+
+/**
+ * Shared in-memory ledger for all fake gateways
+ */
+export function getFakeLedger(): Map<string, FakeTransaction> {
+  if (!globalStore.__fakePaymentTransactions) {
+    globalStore.__fakePaymentTransactions = new Map();
+  }
+  return globalStore.__fakePaymentTransactions;
+}
+
+/**
+ * Create a fake for the named provider
+ * Bank transfer and cash on delivery keep their manual, offline behaviour
+ */
+export function createFakeProvider(name: PaymentProviderName, label: string): PaymentProvider {
+  const isOffline = name === "bank_transfer" || name === "cash_on_delivery";
+
+  return {
+    name,
+    label: `${label} (test)`,
+
+    async initialize(input) {
+      getFakeLedger().set(input.reference, {
+        reference: input.reference,
+        provider: name,
+        amount: input.amount,
+        currency: input.currency,
+        status: "pending",
+        amountPaid: 0,
+        amountRefunded: 0,
+        callbackUrl: input.callbackUrl,
+        createdAt: new Date().toISOString(),
+      });
+
+      if (name === "cash_on_delivery") {
+        return { reference: input.reference, authorizationUrl: null };
+      }
+
+      if (name === "bank_transfer") {
+        return {
+          reference: input.reference,
+          authorizationUrl: null,
+          instructions: {
+            bankName: "Test Bank",
+            accountNumber: "0000000000",
+            accountName: "JRADIANCE TEST",
+            narration: input.reference,
+          },
+        };
+      }
+
+      return {
+        reference: input.reference,
+        authorizationUrl: `/api/dev/payments?reference=${encodeURIComponent(input.reference)}`,
+      };
+    },
+
+    async verify(reference) {
+      const transaction = getFakeLedger().get(reference);
+
+      return {
+        reference,
+        status: isOffline ? "pending" : transaction?.status || "pending",
+        amount: transaction?.amountPaid || 0,
+        currency: transaction?.currency || "NGN",
+        providerTransactionId: transaction ? `fake_${reference}` : null,
+        gatewayResponse: transaction ? `Fake ${transaction.status}` : "Unknown to fake gateway",
+        raw: transaction || null,
+      };
+    },
+
+    async refund(input) {
+      const transaction = getFakeLedger().get(input.reference);
+      if (transaction) {
+        transaction.amountRefunded += input.amount;
+      }
+
+      return {
+        status: "processed",
+        providerRefundId: `fake_refund_${Date.now()}`,
+        amount: input.amount,
+      };
+    },
+
+    async listTransactions(range) {
+      if (isOffline) return [];
+
+      return Array.from(getFakeLedger().values())
+        .filter((tx) => tx.provider === name)
+        .filter((tx) => {
+          const createdAt = new Date(tx.createdAt);
+          return createdAt >= range.from && createdAt <= range.to;
+        })
+        .map((tx) => ({
+          reference: tx.reference,
+          status: tx.status,
+          amount: tx.amountPaid,
+          currency: tx.currency,
+          providerTransactionId: `fake_${tx.reference}`,
+          createdAt: tx.createdAt,
+        }));
+    },
+
+    // Accepts unsigned, already-normalized events: { event, reference, amount }
+    parseWebhook(rawBody) {
+      const event = JSON.parse(rawBody) as {
+        event: "charge.success" | "charge.failed" | "refund.processed";
+        reference: string;
+        amount?: number;
+      };
+
+      return {
+        eventKey: `${event.event}:${event.reference}:${Date.now()}`,
+        type: event.event,
+        rawType: event.event,
+        reference: event.reference,
+        amount: event.amount ?? null,
+        payload: event,
+      };
+    },
+  };
+}
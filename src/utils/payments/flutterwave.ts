@@ -0,0 +1,197 @@
+/**
+ * Flutterwave Payment Provider
+ *
+ * Adapter for the Flutterwave v3 REST API (Standard checkout). Never import
+ * this from client components: it reads the secret key.
+ */
+
+import { timingSafeEqual } from "crypto";
+import type {
+  ParsedWebhookEvent,
+  PaymentProvider,
+  ProviderTransaction,
+  VerifiedPayment,
+} from "./types";
+
+const DEFAULT_BASE_URL = "https://api.flutterwave.com/v3";
+const LIST_MAX_PAGES = 200;
+
+interface FlutterwaveTransaction {
+  id: number;
+  tx_ref: string;
+  status: "successful" | "failed" | "pending" | string;
+  amount: number;
+  currency: string;
+  processor_response: string | null;
+  created_at: string;
+}
+
+interface FlutterwaveResponse<T> {
+  status: "success" | "error";
+  message: string;
+  data: T;
+}
+
+function getFlutterwaveConfig(): { baseUrl: string; secretKey: string } {
+  const secretKey = process.env.FLUTTERWAVE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error("FLUTTERWAVE_SECRET_KEY is not configured");
+  }
+
+  return {
+    baseUrl: (process.env.FLUTTERWAVE_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, ""),
+    secretKey,
+  };
+}
+
+async function flutterwaveRequest<T>(
+  path: string,
+  init: { method?: "GET" | "POST"; body?: unknown } = {},
+): Promise<T> {
+  const { baseUrl, secretKey } = getFlutterwaveConfig();
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+    cache: "no-store",
+  });
+
+  const body = (await response.json()) as FlutterwaveResponse<T>;
+
+  if (!response.ok || body.status !== "success") {
+    throw new Error(body.message || `Flutterwave request failed (${response.status})`);
+  }
+
+  return body.data;
+}
+
+function mapStatus(status: string): VerifiedPayment["status"] {
+  if (status === "successful") return "success";
+  if (status === "pending") return "pending";
+  return "failed";
+}
+
+async function getTransaction(reference: string): Promise<FlutterwaveTransaction> {
+  return flutterwaveRequest<FlutterwaveTransaction>(
+    `/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`,
+  );
+}
+
+export const flutterwaveProvider: PaymentProvider = {
+  name: "flutterwave",
+  label: "Card / Transfer / USSD (Flutterwave)",
+
+  async initialize(input) {
+    const data = await flutterwaveRequest<{ link: string }>("/payments", {
+      method: "POST",
+      body: {
+        tx_ref: input.reference,
+        amount: input.amount,
+        currency: input.currency,
+        redirect_url: input.callbackUrl,
+        customer: { email: input.email },
+        meta: { order_id: input.orderId },
+        customizations: { title: "JRADIANCE" },
+      },
+    });
+
+    return { reference: input.reference, authorizationUrl: data.link };
+  },
+
+  async verify(reference) {
+    const data = await getTransaction(reference);
+
+    return {
+      reference: data.tx_ref,
+      status: mapStatus(data.status),
+      amount: Number(data.amount),
+      currency: data.currency,
+      providerTransactionId: String(data.id),
+      gatewayResponse: data.processor_response,
+      raw: data,
+    };
+  },
+
+  async refund(input) {
+    // Refunds are addressed by Flutterwave's transaction id, not our reference
+    const transaction = await getTransaction(input.reference);
+    const data = await flutterwaveRequest<{ id: number; status: string; amount_refunded: number }>(
+      `/transactions/${transaction.id}/refund`,
+      { method: "POST", body: { amount: input.amount, comments: input.reason } },
+    );
+
+    return {
+      status: data.status === "completed" ? "processed" : data.status === "failed" ? "failed" : "pending",
+      providerRefundId: String(data.id),
+      amount: Number(data.amount_refunded ?? input.amount),
+    };
+  },
+
+  async listTransactions(range) {
+    const transactions: ProviderTransaction[] = [];
+    // Flutterwave filters by calendar day; results outside the range are dropped below
+    const from = range.from.toISOString().slice(0, 10);
+    const to = range.to.toISOString().slice(0, 10);
+
+    for (let page = 1; page <= LIST_MAX_PAGES; page++) {
+      const data = await flutterwaveRequest<FlutterwaveTransaction[]>(
+        `/transactions?from=${from}&to=${to}&page=${page}`,
+      );
+      if (data.length === 0) break;
+
+      for (const tx of data) {
+        const createdAt = new Date(tx.created_at);
+        if (createdAt < range.from || createdAt > range.to) continue;
+
+        transactions.push({
+          reference: tx.tx_ref,
+          status: mapStatus(tx.status),
+          amount: Number(tx.amount),
+          currency: tx.currency,
+          providerTransactionId: String(tx.id),
+          createdAt: tx.created_at,
+        });
+      }
+    }
+
+    return transactions;
+  },
+
+  parseWebhook(rawBody, headers) {
+    // Flutterwave sends the secret hash configured in the dashboard verbatim
+    const secretHash = process.env.FLUTTERWAVE_WEBHOOK_HASH;
+    const signature = headers.get("verif-hash");
+    if (!secretHash || !signature) return null;
+
+    const expected = Buffer.from(secretHash);
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const event = JSON.parse(rawBody) as {
+      event: string;
+      data: { id?: number; tx_ref?: string; status?: string; amount?: number };
+    };
+
+    let type: ParsedWebhookEvent["type"] = "other";
+    if (event.event === "charge.completed") {
+      type = event.data.status === "successful" ? "charge.success" : "charge.failed";
+    } else if (event.event.startsWith("refund") && event.data.status === "completed") {
+      type = "refund.processed";
+    }
+
+    return {
+      eventKey: `${event.event}:${event.data.id ?? event.data.tx_ref}:${event.data.status}`,
+      type,
+      rawType: event.event,
+      reference: event.data.tx_ref || null,
+      amount: typeof event.data.amount === "number" ? event.data.amount : null,
+      payload: event,
+    };
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Payment Provider Registry
+ *
+ * Resolves a provider name (as stored on payment_transactions.provider) to
+ * its adapter. With PAYMENTS_MODE=fake every provider is replaced by its
+ * local fake so checkout can be tested offline.
+ *
+ * Server-only.
+ */
+
+import { bankTransferProvider } from "./bank-transfer";
+import { cashOnDeliveryProvider } from "./cash-on-delivery";
+import { createFakeProvider } from "./fake";
+import { flutterwaveProvider } from "./flutterwave";
+import { paystackProvider } from "./paystack";
+import type { PaymentProvider, PaymentProviderName } from "./types";
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  paystack: paystackProvider,
+  flutterwave: flutterwaveProvider,
+  bank_transfer: bankTransferProvider,
+  cash_on_delivery: cashOnDeliveryProvider,
+};
+
+/**
+ * Whether local fakes stand in for real gateways
+ */
+export function isFakePaymentsMode(): boolean {
+  return process.env.PAYMENTS_MODE === "fake" && process.env.NODE_ENV !== "production";
+}
+
+export function isPaymentProviderName(name: string): name is PaymentProviderName {
+  return Object.hasOwn(providers, name);
+}
+
+/**
+ * Get the adapter for a provider
+ * @throws for unknown providers
+ */
+export function getPaymentProvider(name: string): PaymentProvider {
+  if (!isPaymentProviderName(name)) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+
+  const provider = providers[name];
+  return isFakePaymentsMode() ? createFakeProvider(provider.name, provider.label) : provider;
+}
+
+/**
+ * Providers that are configured and can be offered at checkout
+ */
+export function getEnabledPaymentProviders(): PaymentProvider[] {
+  if (isFakePaymentsMode()) {
+    return Object.values(providers).map((p) => createFakeProvider(p.name, p.label));
+  }
+
+  const enabled: PaymentProvider[] = [];
+  if (process.env.PAYSTACK_SECRET_KEY) enabled.push(paystackProvider);
+  if (process.env.FLUTTERWAVE_SECRET_KEY) enabled.push(flutterwaveProvider);
+  if (process.env.BANK_TRANSFER_ACCOUNT_NUMBER) enabled.push(bankTransferProvider);
+  if (process.env.CASH_ON_DELIVERY_ENABLED === "true") enabled.push(cashOnDeliveryProvider);
+  return enabled;
+}
+
+export type { PaymentProvider, PaymentProviderName } from "./types";
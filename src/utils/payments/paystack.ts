@@ -0,0 +1,225 @@
+/**
+ * Paystack Payment Provider
+ *
+ * Adapter for the Paystack REST API. Never import this from client
+ * components: it reads the secret key.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { toKobo } from "@/utils/checkout/pricing";
+import type {
+  ParsedWebhookEvent,
+  PaymentProvider,
+  ProviderTransaction,
+  VerifiedPayment,
+} from "./types";
+
+const DEFAULT_BASE_URL = "https://api.paystack.co";
+const LIST_PAGE_SIZE = 100;
+const LIST_MAX_PAGES = 50;
+
+/**
+ * Transaction as returned by GET /transaction/verify/:reference
+ * Only the fields we rely on are typed.
+ */
+interface PaystackTransaction {
+  id: number;
+  status: "success" | "failed" | "abandoned" | "reversed" | "ongoing" | "pending";
+  reference: string;
+  amount: number; // In kobo
+  currency: string;
+  gateway_response: string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+interface PaystackResponse<T> {
+  status: boolean;
+  message: string;
+  data: T;
+}
+
+function getPaystackConfig(): { baseUrl: string; secretKey: string } {
+  const secretKey = process.env.PAYSTACK_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error("PAYSTACK_SECRET_KEY is not configured");
+  }
+
+  return {
+    baseUrl: (process.env.PAYSTACK_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, ""),
+    secretKey,
+  };
+}
+
+async function paystackRequest<T>(
+  path: string,
+  init: { method?: "GET" | "POST"; body?: unknown } = {},
+): Promise<T> {
+  const { baseUrl, secretKey } = getPaystackConfig();
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+    cache: "no-store",
+  });
+
+  const body = (await response.json()) as PaystackResponse<T>;
+
+  if (!response.ok || !body.status) {
+    throw new Error(body.message || `Paystack request failed (${response.status})`);
+  }
+
+  return body.data;
+}
+
+/**
+ * Validate the x-paystack-signature header of a webhook delivery
+ */
+function isValidSignature(rawBody: string, signature: string | null): boolean {
+  if (!signature) return false;
+
+  const { secretKey } = getPaystackConfig();
+  const expected = createHmac("sha512", secretKey).update(rawBody).digest("hex");
+
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const signatureBuffer = Buffer.from(signature, "hex");
+
+  return (
+    expectedBuffer.length === signatureBuffer.length &&
+    timingSafeEqual(expectedBuffer, signatureBuffer)
+  );
+}
+
+function mapStatus(status: PaystackTransaction["status"]): VerifiedPayment["status"] {
+  if (status === "success") return "success";
+  // An abandoned checkout can still be completed, so it isn't final
+  if (status === "ongoing" || status === "pending" || status === "abandoned") return "pending";
+  return "failed";
+}
+
+export const paystackProvider: PaymentProvider = {
+  name: "paystack",
+  label: "Card / Bank (Paystack)",
+
+  async initialize(input) {
+    const data = await paystackRequest<{ authorization_url: string; reference: string }>(
+      "/transaction/initialize",
+      {
+        method: "POST",
+        body: {
+          email: input.email,
+          amount: toKobo(input.amount),
+          currency: input.currency,
+          reference: input.reference,
+          callback_url: input.callbackUrl,
+          metadata: { order_id: input.orderId },
+        },
+      },
+    );
+
+    return { reference: data.reference, authorizationUrl: data.authorization_url };
+  },
+
+  async verify(reference) {
+    const data = await paystackRequest<PaystackTransaction>(
+      `/transaction/verify/${encodeURIComponent(reference)}`,
+    );
+
+    return {
+      reference: data.reference,
+      status: mapStatus(data.status),
+      amount: data.amount / 100,
+      currency: data.currency,
+      providerTransactionId: String(data.id),
+      gatewayResponse: data.gateway_response,
+      raw: data,
+    };
+  },
+
+  async refund(input) {
+    const data = await paystackRequest<{ id: number; status: string; amount: number }>(
+      "/refund",
+      {
+        method: "POST",
+        body: {
+          transaction: input.reference,
+          amount: toKobo(input.amount),
+          merchant_note: input.reason,
+        },
+      },
+    );
+
+    return {
+      status: data.status === "processed" ? "processed" : data.status === "failed" ? "failed" : "pending",
+      providerRefundId: String(data.id),
+      amount: data.amount / 100,
+    };
+  },
+
+  async listTransactions(range) {
+    const transactions: ProviderTransaction[] = [];
+
+    for (let page = 1; page <= LIST_MAX_PAGES; page++) {
+      const params = new URLSearchParams({
+        perPage: String(LIST_PAGE_SIZE),
+        page: String(page),
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+      });
+      const data = await paystackRequest<PaystackTransaction[]>(`/transaction?${params}`);
+
+      for (const tx of data) {
+        transactions.push({
+          reference: tx.reference,
+          status: mapStatus(tx.status),
+          amount: tx.amount / 100,
+          currency: tx.currency,
+          providerTransactionId: String(tx.id),
+          createdAt: tx.created_at,
+        });
+      }
+
+      if (data.length < LIST_PAGE_SIZE) break;
+    }
+
+    return transactions;
+  },
+
+  parseWebhook(rawBody, headers) {
+    if (!isValidSignature(rawBody, headers.get("x-paystack-signature"))) {
+      return null;
+    }
+
+    const event = JSON.parse(rawBody) as {
+      event: string;
+      data: {
+        id?: number | string;
+        reference?: string;
+        transaction_reference?: string;
+        amount?: number;
+      };
+    };
+
+    // Charge events carry the reference as `reference`, refunds as `transaction_reference`
+    const reference = event.data.transaction_reference || event.data.reference || null;
+
+    const typeMap: Record<string, ParsedWebhookEvent["type"]> = {
+      "charge.success": "charge.success",
+      "charge.failed": "charge.failed",
+      "refund.processed": "refund.processed",
+    };
+
+    return {
+      eventKey: `${event.event}:${event.data.id ?? reference}`,
+      type: typeMap[event.event] || "other",
+      rawType: event.event,
+      reference,
+      amount: typeof event.data.amount === "number" ? event.data.amount / 100 : null,
+      payload: event,
+    };
+  },
+};
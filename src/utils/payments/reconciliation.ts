@@ -0,0 +1,343 @@
+/**
+ * Payment Reconciliation
+ *
+ * Compares orders with each gateway's own transaction list for a date range
+ * and records discrepancies for staff to resolve:
+ *
+ * - paid_order_pending: the gateway charged the customer, the order is unpaid
+ * - completed_without_transaction: the order is paid, the gateway has no
+ *   successful charge for it
+ * - amount_mismatch: the gateway charged a different amount than the order total
+ *
+ * Offline methods (bank transfer, cash on delivery) have no remote ledger and
+ * are not compared.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { toKobo } from "@/utils/checkout/pricing";
+import { getEnabledPaymentProviders, getPaymentProvider } from "./index";
+import { settlePaymentReference } from "./settlement";
+import type { PaymentStatus } from "@/types";
+import type { ProviderTransaction, TransactionListRange } from "./types";
+
+export type ReconciliationKind =
+  | "paid_order_pending"
+  | "completed_without_transaction"
+  | "amount_mismatch";
+
+export type ReconciliationResolution = "settle" | "acknowledge";
+
+export interface ReconciliationRunResult {
+  success: boolean;
+  runId?: string;
+  mismatches?: number;
+  error?: string;
+}
+
+interface ReconciliationItemInput {
+  kind: ReconciliationKind;
+  order_id: string;
+  provider: string | null;
+  reference: string | null;
+  expected_amount: number;
+  provider_amount: number | null;
+  details: Record<string, unknown>;
+}
+
+type LocalTransaction = {
+  reference: string;
+  provider: string;
+  status: PaymentStatus;
+  orders: { id: string; total_amount: number; payment_status: PaymentStatus; status: string } | null;
+};
+
+const PAID_STATUSES: PaymentStatus[] = ["completed", "partially_refunded", "refunded"];
+
+/**
+ * Run a reconciliation for a date range
+ *
+ * @param range - Period to compare (gateway transaction dates / order paid dates)
+ * @param triggeredBy - Admin who started the run, or null for the scheduled job
+ * @returns Run id and number of new discrepancies
+ *
+ * @audit Logs payment_reconciliation_run
+ */
+export async function runReconciliation(
+  range: TransactionListRange,
+  triggeredBy: string | null,
+): Promise<ReconciliationRunResult> {
+  const supabase = createServiceClient();
+
+  const { data: run, error: runError } = await supabase
+    .from("reconciliation_runs")
+    .insert({
+      range_from: range.from.toISOString(),
+      range_to: range.to.toISOString(),
+      triggered_by: triggeredBy,
+    })
+    .select("id")
+    .single();
+
+  if (runError || !run) {
+    console.error("Error creating reconciliation run:", runError);
+    return { success: false, error: "Failed to start reconciliation" };
+  }
+
+  try {
+    // Gateway ledgers, keyed by our reference
+    const remote = new Map<string, ProviderTransaction & { provider: string }>();
+    const comparedProviders: Record<string, number> = {};
+
+    for (const provider of getEnabledPaymentProviders()) {
+      if (provider.name === "bank_transfer" || provider.name === "cash_on_delivery") continue;
+      const transactions = await provider.listTransactions(range);
+
+      comparedProviders[provider.name] = transactions.length;
+      for (const tx of transactions) {
+        remote.set(tx.reference, { ...tx, provider: provider.name });
+      }
+    }
+
+    const items: ReconciliationItemInput[] = [];
+
+    // 1. Successful gateway charges vs our orders
+    const charged = Array.from(remote.values()).filter((tx) => tx.status === "success");
+    const { data: locals, error: localError } = charged.length
+      ? await supabase
+          .from("payment_transactions")
+          .select("reference, provider, status, orders (id, total_amount, payment_status, status)")
+          .in("reference", charged.map((tx) => tx.reference))
+      : { data: [], error: null };
+
+    if (localError) throw localError;
+
+    const localByReference = new Map(
+      ((locals || []) as unknown as LocalTransaction[]).map((tx) => [tx.reference, tx]),
+    );
+
+    for (const tx of charged) {
+      const local = localByReference.get(tx.reference);
+      // Not one of ours (e.g. a payment link made outside the store)
+      if (!local?.orders) continue;
+
+      const order = local.orders;
+      const expected = Number(order.total_amount);
+
+      if (toKobo(tx.amount) !== toKobo(expected)) {
+        items.push({
+          kind: "amount_mismatch",
+          order_id: order.id,
+          provider: tx.provider,
+          reference: tx.reference,
+          expected_amount: expected,
+          provider_amount: tx.amount,
+          details: { currency: tx.currency, order_payment_status: order.payment_status },
+        });
+      } else if (!PAID_STATUSES.includes(order.payment_status)) {
+        items.push({
+          kind: "paid_order_pending",
+          order_id: order.id,
+          provider: tx.provider,
+          reference: tx.reference,
+          expected_amount: expected,
+          provider_amount: tx.amount,
+          details: {
+            order_payment_status: order.payment_status,
+            order_status: order.status,
+            transaction_status: local.status,
+            provider_transaction_id: tx.providerTransactionId,
+          },
+        });
+      }
+    }
+
+    // 2. Orders paid in the range vs gateway charges
+    const { data: paidOrders, error: ordersError } = await supabase
+      .from("orders")
+      .select("id, total_amount, payment_status, payment_transactions (reference, provider, status)")
+      .in("payment_status", PAID_STATUSES)
+      .gte("paid_at", range.from.toISOString())
+      .lte("paid_at", range.to.toISOString());
+
+    if (ordersError) throw ordersError;
+
+    for (const order of paidOrders || []) {
+      const transactions = (order.payment_transactions || []) as Array<{
+        reference: string;
+        provider: string;
+        status: PaymentStatus;
+      }>;
+      const captured = transactions.filter((tx) => PAID_STATUSES.includes(tx.status));
+
+      if (captured.length === 0) {
+        items.push({
+          kind: "completed_without_transaction",
+          order_id: order.id,
+          provider: null,
+          reference: null,
+          expected_amount: Number(order.total_amount),
+          provider_amount: null,
+          details: { reason: "No payment transaction recorded for this order" },
+        });
+        continue;
+      }
+
+      for (const tx of captured) {
+        if (!(tx.provider in comparedProviders)) continue;
+        if (remote.get(tx.reference)?.status === "success") continue;
+        // Gateways report fully refunded charges as reversed
+        if (tx.status === "refunded") continue;
+
+        // Not in the listed window - ask the gateway directly before flagging
+        const verified = await getPaymentProvider(tx.provider).verify(tx.reference);
+        if (verified.status === "success") continue;
+
+        items.push({
+          kind: "completed_without_transaction",
+          order_id: order.id,
+          provider: tx.provider,
+          reference: tx.reference,
+          expected_amount: Number(order.total_amount),
+          provider_amount: null,
+          details: { gateway_status: verified.status, gateway_response: verified.gatewayResponse },
+        });
+      }
+    }
+
+    // Already-open discrepancies are skipped by the unique index
+    let created = 0;
+    for (const item of items) {
+      const { error } = await supabase
+        .from("reconciliation_items")
+        .insert({ ...item, run_id: run.id });
+
+      if (!error) created++;
+      else if (error.code !== "23505") throw error;
+    }
+
+    const summary = {
+      providers: comparedProviders,
+      orders_checked: (paidOrders?.length || 0) + localByReference.size,
+      mismatches: items.length,
+      new_mismatches: created,
+    };
+
+    await supabase
+      .from("reconciliation_runs")
+      .update({ status: "completed", summary, completed_at: new Date().toISOString() })
+      .eq("id", run.id);
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: triggeredBy,
+      action: "payment_reconciliation_run",
+      resource_type: "reconciliation_run",
+      resource_id: run.id,
+      changes: { from: range.from.toISOString(), to: range.to.toISOString(), ...summary },
+    });
+
+    return { success: true, runId: run.id, mismatches: created };
+  } catch (error) {
+    console.error("Error running reconciliation:", error);
+    const message = error instanceof Error ? error.message : "Reconciliation failed";
+
+    await supabase
+      .from("reconciliation_runs")
+      .update({ status: "failed", summary: { error: message }, completed_at: new Date().toISOString() })
+      .eq("id", run.id);
+
+    return { success: false, runId: run.id, error: message };
+  }
+}
+
+/**
+ * Resolve a reconciliation discrepancy
+ *
+ * "settle" re-verifies a paid_order_pending reference with the gateway and
+ * settles the order; "acknowledge" records that staff handled it by hand
+ * (e.g. refunded or corrected the order).
+ *
+ * @param itemId - Discrepancy to resolve
+ * @param resolution - How it was resolved
+ * @param adminId - Staff member resolving it
+ * @param note - Optional explanation kept with the item
+ *
+ * @audit Logs reconciliation_resolved against the resolving admin
+ */
+export async function resolveReconciliationItem(
+  itemId: string,
+  resolution: ReconciliationResolution,
+  adminId: string,
+  note?: string,
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = createServiceClient();
+
+  const { data: item, error: itemError } = await supabase
+    .from("reconciliation_items")
+    .select("*")
+    .eq("id", itemId)
+    .single();
+
+  if (itemError || !item) {
+    return { success: false, error: "Discrepancy not found" };
+  }
+
+  if (item.status !== "open") {
+    return { success: false, error: "This discrepancy has already been resolved" };
+  }
+
+  let outcome: string | undefined;
+  if (resolution === "settle") {
+    if (item.kind !== "paid_order_pending" || !item.reference) {
+      return { success: false, error: "Only paid-but-pending orders can be settled automatically" };
+    }
+
+    const result = await settlePaymentReference(item.reference, "reconciliation");
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    if (result.paymentStatus !== "completed") {
+      return {
+        success: false,
+        error: `The order could not be settled from this payment (now ${result.paymentStatus}). Refund the customer or resolve it by hand.`,
+      };
+    }
+    outcome = result.paymentStatus;
+  }
+
+  const { error: updateError } = await supabase
+    .from("reconciliation_items")
+    .update({
+      status: "resolved",
+      resolution: note?.trim() ? `${resolution}: ${note.trim()}` : resolution,
+      resolved_by: adminId,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq("id", itemId)
+    .eq("status", "open");
+
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  await supabase.from("admin_activity_logs").insert({
+    admin_id: adminId,
+    action: "reconciliation_resolved",
+    resource_type: "order",
+    resource_id: item.order_id,
+    changes: {
+      item_id: item.id,
+      kind: item.kind,
+      reference: item.reference,
+      expected_amount: item.expected_amount,
+      provider_amount: item.provider_amount,
+      resolution,
+      note: note?.trim() || null,
+      payment_status: outcome,
+    },
+  });
+
+  return { success: true };
+}
@@ -0,0 +1,204 @@
+/**
+ * Refund Service
+ *
+ * Issues whole-order and line-item refunds and records the gateway's answer.
+ * Amounts and line quantities are checked and held in the database
+ * (create_refund) before any money moves, so two staff members cannot refund
+ * the same item twice.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { toKobo } from "@/utils/checkout/pricing";
+import { getPaymentProvider } from "./index";
+import type { IssueRefundInput, Refund, RefundStatus } from "@/types";
+
+export interface RefundServiceResult {
+  success: boolean;
+  refund?: Refund;
+  error?: string;
+}
+
+/**
+ * Refund an order, fully or by line item
+ *
+ * With method "provider" the money is sent back through the gateway that took
+ * the payment; with "manual" staff have already returned it and it is only
+ * recorded.
+ *
+ * @param input - Order, optional line items, reason and method
+ * @param adminId - Staff member issuing the refund, or null when automatic
+ *   (e.g. a customer cancelling a paid order)
+ * @returns The stored refund
+ *
+ * @audit Logs refund_issued / refund_failed against the issuing admin
+ */
+export async function issueRefund(
+  input: IssueRefundInput,
+  adminId: string | null,
+): Promise<RefundServiceResult> {
+  const supabase = createServiceClient();
+
+  let refund: Refund;
+  try {
+    const { data, error } = await supabase.rpc("create_refund", {
+      p_order_id: input.orderId,
+      p_items: input.items || [],
+      p_reason: input.reason?.trim() || null,
+      p_method: input.method,
+      p_created_by: adminId,
+      p_status: input.method === "manual" ? "processed" : "pending",
+    });
+
+    if (error) throw error;
+    refund = data as Refund;
+  } catch (error) {
+    console.error("Error creating refund:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create refund",
+    };
+  }
+
+  if (input.method === "provider") {
+    let status: RefundStatus = "failed";
+    let providerRefundId: string | null = null;
+    let failure: string | undefined;
+
+    try {
+      if (!refund.payment_transaction_id) {
+        throw new Error("No captured payment found for this order");
+      }
+
+      const { data: transaction, error: txError } = await supabase
+        .from("payment_transactions")
+        .select("reference, provider")
+        .eq("id", refund.payment_transaction_id)
+        .single();
+
+      if (txError) throw txError;
+
+      const result = await getPaymentProvider(transaction.provider).refund({
+        reference: transaction.reference,
+        amount: Number(refund.amount),
+        reason: refund.reason || undefined,
+      });
+
+      status = result.status;
+      providerRefundId = result.providerRefundId;
+      if (status === "failed") failure = "The payment provider declined the refund";
+    } catch (error) {
+      console.error("Error refunding through provider:", error);
+      failure = error instanceof Error ? error.message : "Payment provider refund failed";
+    }
+
+    const { data: completed, error: completeError } = await supabase.rpc("complete_refund", {
+      p_refund_id: refund.id,
+      p_status: status,
+      p_provider_refund_id: providerRefundId,
+    });
+
+    if (completeError) {
+      console.error("Error recording refund outcome:", completeError);
+    } else {
+      refund = completed as Refund;
+    }
+
+    if (failure) {
+      await logRefund(refund, adminId, "refund_failed", failure);
+      return { success: false, refund, error: failure };
+    }
+  }
+
+  await logRefund(refund, adminId, "refund_issued");
+  return { success: true, refund };
+}
+
+/**
+ * Apply a gateway "refund processed" notification
+ *
+ * Completes the matching pending refund, or records a refund that was made
+ * directly from the gateway's dashboard. Refunds of duplicate charges (see
+ * settleLatePayment) never counted towards the order and are not recorded.
+ *
+ * @param reference - Payment reference the refund was made against
+ * @param amount - Amount refunded, in naira (null when the gateway omits it)
+ * @returns false when the reference is not one of ours
+ */
+export async function applyRefundNotification(
+  reference: string,
+  amount: number | null,
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data: transaction } = await supabase
+    .from("payment_transactions")
+    .select("id, order_id, orders (payment_reference)")
+    .eq("reference", reference)
+    .maybeSingle();
+
+  if (!transaction) return false;
+
+  // Only the attempt that paid the order becomes its payment_reference
+  const order = transaction.orders as unknown as { payment_reference: string | null } | null;
+  if (order?.payment_reference !== reference) return true;
+
+  const { data: pending } = await supabase
+    .from("refunds")
+    .select("id, amount")
+    .eq("payment_transaction_id", transaction.id)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+
+  const match = pending?.find(
+    (r) => amount === null || toKobo(Number(r.amount)) === toKobo(amount),
+  );
+
+  if (match) {
+    const { error } = await supabase.rpc("complete_refund", {
+      p_refund_id: match.id,
+      p_status: "processed",
+    });
+    if (error) throw error;
+    return true;
+  }
+
+  // Refunded from the gateway dashboard - record it so totals stay right
+  const { data: refund, error } = await supabase.rpc("create_refund", {
+    p_order_id: transaction.order_id,
+    p_items: [],
+    p_reason: "Refunded from payment provider dashboard",
+    p_method: "provider",
+    p_created_by: null,
+    p_status: "processed",
+    p_amount: amount,
+  });
+
+  if (error) throw error;
+  await logRefund(refund as Refund, null, "refund_issued");
+  return true;
+}
+
+async function logRefund(
+  refund: Refund,
+  adminId: string | null,
+  action: "refund_issued" | "refund_failed",
+  error?: string,
+) {
+  await createServiceClient().from("admin_activity_logs").insert({
+    admin_id: adminId,
+    action,
+    resource_type: "order",
+    resource_id: refund.order_id,
+    changes: {
+      refund_id: refund.id,
+      amount: Number(refund.amount),
+      method: refund.method,
+      status: refund.status,
+      items: refund.items,
+      reason: refund.reason,
+      error,
+    },
+  });
+}
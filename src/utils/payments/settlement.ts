@@ -0,0 +1,411 @@
+/**
+ * Payment Settlement Service
+ *
+ * Verifies a payment reference with its provider and applies the outcome to
+ * the matching order. This is the only code path that may move an order's
+ * payment_status away from "pending"; browser callbacks are never trusted.
+ *
+ * A charge completed on an attempt that was closed without an answer (by a
+ * retry or a cancellation) is settled, or refunded when the order was
+ * cancelled or already paid (see settleLatePayment).
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { toKobo } from "@/utils/checkout/pricing";
+import { getPaymentProvider } from "./index";
+import { issueRefund } from "./refunds";
+import type { CollectionMethod, OrderStatus, PaymentStatus } from "@/types";
+import type { VerifiedPayment } from "./types";
+
+export interface SettlementResult {
+  success: boolean;
+  paymentStatus?: PaymentStatus;
+  orderId?: string;
+  error?: string;
+}
+
+type SettlementOrder = {
+  id: string;
+  total_amount: number;
+  payment_status: PaymentStatus;
+  status: OrderStatus;
+};
+
+/**
+ * Verify a payment reference and settle its order
+ *
+ * Safe to call repeatedly for the same reference: once a transaction has
+ * left "pending" the stored outcome is returned without contacting the gateway.
+ *
+ * @param reference - Payment reference issued when the attempt was initialized
+ * @param source - What triggered verification, recorded in the audit log
+ * @returns The order's payment status after settlement
+ *
+ * @audit Logs payment_verified / payment_failed / payment_amount_mismatch
+ */
+export async function settlePaymentReference(
+  reference: string,
+  source: string,
+): Promise<SettlementResult> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data: transaction, error: txError } = await supabase
+      .from("payment_transactions")
+      .select("id, order_id, provider, reference, amount, currency, status, verified_at, orders (id, total_amount, payment_status, status)")
+      .eq("reference", reference)
+      .single();
+
+    if (txError || !transaction) {
+      return { success: false, error: "Unknown payment reference" };
+    }
+
+    const order = transaction.orders as unknown as SettlementOrder | null;
+
+    if (!order) {
+      return { success: false, error: "Order not found for payment reference" };
+    }
+
+    // Closed by a retry or cancellation without asking the gateway; the
+    // customer may have paid anyway
+    if (transaction.status === "failed" && !transaction.verified_at) {
+      const gateway = await getPaymentProvider(transaction.provider).verify(reference);
+      if (gateway.status === "success") {
+        return await settleLatePayment(reference, source, transaction, order, gateway);
+      }
+    }
+
+    // Already settled - nothing to do
+    if (transaction.status !== "pending") {
+      return { success: true, paymentStatus: order.payment_status, orderId: order.id };
+    }
+
+    const gateway = await getPaymentProvider(transaction.provider).verify(reference);
+
+    // Still in progress (or awaiting manual confirmation); leave the order pending
+    if (gateway.status === "pending") {
+      return { success: true, paymentStatus: order.payment_status, orderId: order.id };
+    }
+
+    let outcome: PaymentStatus = gateway.status === "success" ? "completed" : "failed";
+    let action = outcome === "completed" ? "payment_verified" : "payment_failed";
+
+    // The amount charged must match the order total exactly
+    const expectedKobo = toKobo(Number(order.total_amount));
+    if (
+      outcome === "completed" &&
+      (toKobo(gateway.amount) !== expectedKobo ||
+        gateway.currency !== transaction.currency ||
+        toKobo(Number(transaction.amount)) !== expectedKobo)
+    ) {
+      outcome = "failed";
+      action = "payment_amount_mismatch";
+    }
+
+    const { data: paymentStatus, error: settleError } = await supabase.rpc(
+      "settle_payment_transaction",
+      {
+        p_reference: reference,
+        p_status: outcome,
+        p_provider_transaction_id: gateway.providerTransactionId,
+        p_gateway_response: gateway.gatewayResponse,
+        p_raw_response: gateway.raw,
+      },
+    );
+
+    if (settleError) throw settleError;
+
+    action = await flagStockConflict(order.id, paymentStatus, outcome, action);
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: null,
+      action,
+      resource_type: "order",
+      resource_id: order.id,
+      changes: {
+        reference,
+        source,
+        provider: transaction.provider,
+        gateway_status: gateway.status,
+        amount_expected: Number(order.total_amount),
+        amount_paid: gateway.amount,
+        currency: gateway.currency,
+      },
+    });
+
+    return {
+      success: true,
+      paymentStatus: paymentStatus as PaymentStatus,
+      orderId: order.id,
+    };
+  } catch (error) {
+    console.error("Error settling payment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to verify payment",
+    };
+  }
+}
+
+/**
+ * Settle a payment that staff confirmed by hand (a bank transfer, or cash/POS
+ * collected on delivery)
+ *
+ * @param reference - Payment reference the customer quoted
+ * @param amountReceived - Amount staff saw arrive, in naira
+ * @param adminId - Staff member confirming receipt
+ * @param collectionMethod - How a pay-on-delivery order was paid at the door
+ * @returns The order's payment status after settlement
+ *
+ * @audit Logs manual_payment_confirmed / cod_payment_collected against the
+ *        confirming staff member
+ */
+export async function settleManualPayment(
+  reference: string,
+  amountReceived: number,
+  adminId: string,
+  collectionMethod?: CollectionMethod,
+): Promise<SettlementResult> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data: transaction, error: txError } = await supabase
+      .from("payment_transactions")
+      .select("id, order_id, provider, amount, status, orders (id, total_amount, payment_status, status)")
+      .eq("reference", reference)
+      .single();
+
+    if (txError || !transaction) {
+      return { success: false, error: "Unknown payment reference" };
+    }
+
+    const order = transaction.orders as unknown as SettlementOrder | null;
+    if (!order) {
+      return { success: false, error: "Order not found for payment reference" };
+    }
+
+    if (transaction.status !== "pending") {
+      return { success: false, error: "This payment has already been settled" };
+    }
+
+    if (toKobo(amountReceived) !== toKobo(Number(order.total_amount))) {
+      return {
+        success: false,
+        error: `Amount received (₦${amountReceived.toLocaleString()}) does not match the order total (₦${Number(order.total_amount).toLocaleString()})`,
+      };
+    }
+
+    const { data: paymentStatus, error: settleError } = await supabase.rpc(
+      "settle_payment_transaction",
+      {
+        p_reference: reference,
+        p_status: "completed",
+        p_gateway_response: collectionMethod
+          ? `Collected on delivery (${collectionMethod})`
+          : "Confirmed manually",
+        p_raw_response: {
+          confirmed_by: adminId,
+          amount_received: amountReceived,
+          collection_method: collectionMethod ?? null,
+        },
+      },
+    );
+
+    if (settleError) throw settleError;
+
+    if (collectionMethod && paymentStatus === "completed") {
+      await supabase
+        .from("orders")
+        .update({
+          collection_method: collectionMethod,
+          collected_amount: amountReceived,
+          collected_by: adminId,
+          collected_at: new Date().toISOString(),
+        })
+        .eq("id", order.id);
+    }
+
+    const action = await flagStockConflict(
+      order.id,
+      paymentStatus,
+      "completed",
+      collectionMethod ? "cod_payment_collected" : "manual_payment_confirmed",
+    );
+
+    await supabase.from("admin_activity_logs").insert({
+      admin_id: adminId,
+      action,
+      resource_type: "order",
+      resource_id: order.id,
+      changes: {
+        reference,
+        provider: transaction.provider,
+        amount_received: amountReceived,
+        collection_method: collectionMethod,
+      },
+    });
+
+    return {
+      success: true,
+      paymentStatus: paymentStatus as PaymentStatus,
+      orderId: order.id,
+    };
+  } catch (error) {
+    console.error("Error confirming manual payment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to confirm payment",
+    };
+  }
+}
+
+/**
+ * Apply a charge on an attempt that was closed without an answer
+ *
+ * It pays the order when the order is still unpaid. On a cancelled order it
+ * is recorded and refunded; on an order another attempt already paid it is
+ * refunded on its own. A charge that doesn't match the order total, or
+ * that can't be refunded automatically, is left for staff.
+ *
+ * @audit Logs payment_verified / payment_stock_conflict when settled,
+ *        payment_after_cancellation, duplicate_payment_refunded /
+ *        duplicate_payment, or payment_amount_mismatch
+ */
+async function settleLatePayment(
+  reference: string,
+  source: string,
+  transaction: { provider: string; amount: number; currency: string },
+  order: SettlementOrder,
+  gateway: VerifiedPayment,
+): Promise<SettlementResult> {
+  const supabase = createServiceClient();
+  const expectedKobo = toKobo(Number(order.total_amount));
+  const amountMatches =
+    toKobo(gateway.amount) === expectedKobo &&
+    gateway.currency === transaction.currency &&
+    toKobo(Number(transaction.amount)) === expectedKobo;
+
+  let action = "payment_amount_mismatch";
+  let refundId: string | null = null;
+  let refundError: string | null = null;
+
+  if (amountMatches) {
+    const { data: recorded, error: recordError } = await supabase.rpc("record_late_payment", {
+      p_reference: reference,
+      p_provider_transaction_id: gateway.providerTransactionId,
+      p_gateway_response: gateway.gatewayResponse,
+      p_raw_response: gateway.raw,
+    });
+
+    if (recordError) throw recordError;
+
+    if (recorded === "settled") {
+      action = await flagStockConflict(order.id, "completed", "completed", "payment_verified");
+    } else if (recorded === "cancelled") {
+      const refund = await issueRefund(
+        { orderId: order.id, reason: "Paid after the order was cancelled", method: "provider" },
+        null,
+      );
+      action = "payment_after_cancellation";
+      refundId = refund.refund?.id ?? null;
+      refundError = refund.success ? null : refund.error || "Refund failed";
+    } else if (recorded === "duplicate") {
+      refundError = await refundDuplicatePayment(reference, transaction.provider, gateway.amount);
+      action = refundError ? "duplicate_payment" : "duplicate_payment_refunded";
+    } else {
+      // Another delivery got here first
+      return { success: true, paymentStatus: order.payment_status, orderId: order.id };
+    }
+  }
+
+  await supabase.from("admin_activity_logs").insert({
+    admin_id: null,
+    action,
+    resource_type: "order",
+    resource_id: order.id,
+    changes: {
+      reference,
+      source,
+      provider: transaction.provider,
+      order_status: order.status,
+      amount_expected: Number(order.total_amount),
+      amount_paid: gateway.amount,
+      currency: gateway.currency,
+      refund_id: refundId,
+      refund_error: refundError,
+    },
+  });
+
+  const { data: current } = await supabase
+    .from("orders")
+    .select("payment_status")
+    .eq("id", order.id)
+    .single();
+
+  return {
+    success: true,
+    paymentStatus: (current?.payment_status as PaymentStatus) ?? order.payment_status,
+    orderId: order.id,
+  };
+}
+
+/**
+ * Send back a second charge for an order another attempt already paid
+ * It never counted towards the order, so it is refunded outside the
+ * order's refunds.
+ *
+ * @returns Why the refund failed, or null once the provider accepted it
+ */
+async function refundDuplicatePayment(
+  reference: string,
+  provider: string,
+  amount: number,
+): Promise<string | null> {
+  try {
+    const result = await getPaymentProvider(provider).refund({
+      reference,
+      amount,
+      reason: "Duplicate payment",
+    });
+
+    if (result.status === "failed") return "The payment provider declined the refund";
+
+    const { error } = await createServiceClient()
+      .from("payment_transactions")
+      .update({
+        status: "refunded",
+        gateway_response: "Duplicate payment refunded",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("reference", reference);
+
+    if (error) throw error;
+    return null;
+  } catch (error) {
+    console.error("Error refunding duplicate payment:", error);
+    return error instanceof Error ? error.message : "Payment provider refund failed";
+  }
+}
+
+/**
+ * A late payment for an order whose reservation lapsed may find the stock
+ * already sold; flag it for staff instead of failing the payment
+ */
+async function flagStockConflict(
+  orderId: string,
+  paymentStatus: PaymentStatus,
+  outcome: PaymentStatus,
+  action: string,
+): Promise<string> {
+  if (paymentStatus !== "completed" || outcome !== "completed") return action;
+
+  const { data: settled } = await createServiceClient()
+    .from("orders")
+    .select("stock_reserved")
+    .eq("id", orderId)
+    .single();
+
+  return settled && !settled.stock_reserved ? "payment_stock_conflict" : action;
+}
@@ -0,0 +1,112 @@
+/**
+ * Payment Provider Contract
+ *
+ * Every gateway adapter (Paystack, Flutterwave, bank transfer, cash on
+ * delivery, local fakes)
+ * implements PaymentProvider so checkout, settlement, refunds and webhooks
+ * never depend on a specific gateway. Amounts are always in naira (major
+ * units); adapters convert to whatever their API expects.
+ */
+
+export type PaymentProviderName =
+  | "paystack"
+  | "flutterwave"
+  | "bank_transfer"
+  | "cash_on_delivery";
+
+export interface InitializePaymentInput {
+  orderId: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  email: string;
+  callbackUrl: string;
+}
+
+export interface BankTransferInstructions {
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  narration: string; // Reference the customer must quote
+}
+
+export interface InitializedPayment {
+  reference: string;
+  // Hosted payment page to redirect to; null for offline methods
+  authorizationUrl: string | null;
+  instructions?: BankTransferInstructions;
+}
+
+export interface VerifiedPayment {
+  reference: string;
+  status: "success" | "failed" | "pending";
+  amount: number;
+  currency: string;
+  providerTransactionId: string | null;
+  gatewayResponse: string | null;
+  raw: unknown;
+}
+
+export interface RefundInput {
+  reference: string;
+  amount: number;
+  reason?: string;
+}
+
+export interface RefundResult {
+  status: "pending" | "processed" | "failed";
+  providerRefundId: string | null;
+  amount: number;
+}
+
+export interface TransactionListRange {
+  from: Date;
+  to: Date;
+}
+
+// One entry of a provider's own transaction ledger, used for reconciliation
+export interface ProviderTransaction {
+  reference: string;
+  status: VerifiedPayment["status"];
+  amount: number;
+  currency: string;
+  providerTransactionId: string | null;
+  createdAt: string;
+}
+
+export interface ParsedWebhookEvent {
+  // Stable per gateway event; used to de-duplicate deliveries
+  eventKey: string;
+  type: "charge.success" | "charge.failed" | "refund.processed" | "other";
+  rawType: string;
+  reference: string | null;
+  amount: number | null;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  label: string;
+
+  /** Start a payment for an order and tell the customer where to pay */
+  initialize(input: InitializePaymentInput): Promise<InitializedPayment>;
+
+  /** Ask the gateway what actually happened to a reference */
+  verify(reference: string): Promise<VerifiedPayment>;
+
+  /** Return money to the customer, fully or partially */
+  refund(input: RefundInput): Promise<RefundResult>;
+
+  /**
+   * Transactions the provider recorded in a date range
+   * Offline methods (bank transfer, cash on delivery) have no remote ledger
+   * and return an empty list.
+   */
+  listTransactions(range: TransactionListRange): Promise<ProviderTransaction[]>;
+
+  /**
+   * Validate and normalize a webhook delivery
+   * @returns null when the signature is invalid
+   */
+  parseWebhook(rawBody: string, headers: Headers): ParsedWebhookEvent | null;
+}
@@ -0,0 +1,89 @@
+/**
+ * Product Bundles
+ *
+ * Helpers shared by the storefront, order pages and catalog admin for
+ * bundle products (gift sets, routine kits, ...). A bundle is made of other
+ * products or variants; its stock is the number of whole sets its
+ * components can make (see refresh_bundle_stock).
+ */
+
+import type {
+  OrderBundleComponent,
+  Product,
+  ProductBundleItemInput,
+  ProductVariant,
+} from "@/types";
+
+type ComponentProduct = Pick<
+  Product,
+  "id" | "name" | "stock_quantity" | "is_active" | "is_bundle" | "has_variants"
+> & {
+  variants?: Pick<ProductVariant, "id" | "name" | "stock_quantity" | "is_active">[];
+};
+
+/**
+ * Display name for a bundle component, e.g. "Lip Tint (Ruby)"
+ */
+export function getComponentName(
+  component: Pick<OrderBundleComponent, "product_name" | "variant_name">,
+): string {
+  return component.variant_name
+    ? `${component.product_name} (${component.variant_name})`
+    : component.product_name;
+}
+
+/**
+ * Whole sets the components' current stock can make
+ */
+export function getBundleSets(
+  items: ProductBundleItemInput[],
+  components: ComponentProduct[],
+): number {
+  if (items.length === 0) return 0;
+
+  return Math.min(
+    ...items.map((item) => {
+      const product = components.find((p) => p.id === item.component_product_id);
+      const variant = item.component_variant_id
+        ? product?.variants?.find((v) => v.id === item.component_variant_id)
+        : null;
+      const stock = !product?.is_active
+        ? 0
+        : item.component_variant_id
+          ? variant?.is_active
+            ? variant.stock_quantity
+            : 0
+          : product.stock_quantity;
+      return Math.floor(stock / item.quantity);
+    }),
+  );
+}
+
+/**
+ * Problems with a bundle's components, or null when they can be saved
+ */
+export function validateBundle(
+  bundle: Pick<Product, "id" | "has_variants">,
+  items: ProductBundleItemInput[],
+  components: ComponentProduct[],
+): string | null {
+  if (bundle.has_variants) return "Products sold in variants can't be bundles";
+
+  for (const item of items) {
+    const product = components.find((p) => p.id === item.component_product_id);
+    if (!product) return "Choose a product for each item";
+    if (product.id === bundle.id) return "A bundle can't contain itself";
+    if (product.is_bundle) return `${product.name} is a bundle and can't go in another bundle`;
+    if (product.has_variants && !item.component_variant_id) {
+      return `Choose which ${product.name} goes in the bundle`;
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      return `${product.name} needs a quantity of 1 or more`;
+    }
+  }
+
+  const keys = items.map((item) => `${item.component_product_id}:${item.component_variant_id ?? ""}`);
+  if (new Set(keys).size !== keys.length) return "Each item can only be added once";
+
+  return null;
+}
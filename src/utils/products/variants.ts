@@ -0,0 +1,140 @@
+/**
+ * Product Variants
+ *
+ * Helpers shared by the storefront, cart and catalog admin for products
+ * sold in variants (shade, size, scent, ...). A product's variant_options
+ * lists its option types; each variant picks one value per type.
+ */
+
+import type { Product, ProductOptionType, ProductVariant, ProductVariantInput } from "@/types";
+
+// Option type name -> chosen value
+export type VariantSelection = Record<string, string>;
+
+/**
+ * Display name for a set of option values, in option type order
+ * e.g. "Ruby / 5ml"
+ */
+export function getVariantName(
+  optionTypes: ProductOptionType[],
+  options: VariantSelection,
+): string {
+  return optionTypes
+    .map((type) => options[type.name])
+    .filter(Boolean)
+    .join(" / ");
+}
+
+/**
+ * Every combination of option values, e.g. for the admin variant matrix
+ */
+export function buildVariantCombinations(optionTypes: ProductOptionType[]): VariantSelection[] {
+  const types = optionTypes.filter((type) => type.name && type.values.length > 0);
+  if (types.length === 0) return [];
+
+  return types.reduce<VariantSelection[]>(
+    (combinations, type) =>
+      combinations.flatMap((combination) =>
+        type.values.map((value) => ({ ...combination, [type.name]: value })),
+      ),
+    [{}],
+  );
+}
+
+/**
+ * Whether two selections name the same values for every option type
+ */
+export function isSameSelection(
+  optionTypes: ProductOptionType[],
+  a: VariantSelection,
+  b: VariantSelection,
+): boolean {
+  return optionTypes.every((type) => a[type.name] === b[type.name]);
+}
+
+/**
+ * The variant matching a complete selection, if one is sold
+ */
+export function findVariant(
+  product: Pick<Product, "variant_options" | "variants">,
+  selection: VariantSelection,
+): ProductVariant | null {
+  const options = product.variant_options || [];
+  if (options.some((type) => !selection[type.name])) return null;
+
+  return (
+    (product.variants || []).find((variant) =>
+      isSameSelection(options, variant.options, selection),
+    ) || null
+  );
+}
+
+/**
+ * Whether a value can still be chosen given the other values already
+ * selected, i.e. some active variant has it
+ */
+export function isOptionValueAvailable(
+  product: Pick<Product, "variant_options" | "variants">,
+  selection: VariantSelection,
+  optionName: string,
+  value: string,
+): boolean {
+  return (product.variants || []).some(
+    (variant) =>
+      variant.options[optionName] === value &&
+      (product.variant_options || []).every(
+        (type) =>
+          type.name === optionName ||
+          !selection[type.name] ||
+          variant.options[type.name] === selection[type.name],
+      ),
+  );
+}
+
+/**
+ * Problems with a product's option types and variant matrix, or null when
+ * they can be saved
+ */
+export function validateVariants(
+  optionTypes: ProductOptionType[],
+  variants: ProductVariantInput[],
+): string | null {
+  if (optionTypes.some((type) => !type.name.trim() || type.values.length === 0)) {
+    return "Each option needs a name and at least one value";
+  }
+  const names = optionTypes.map((type) => type.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return "Option names must be different";
+  if (optionTypes.some((type) => new Set(type.values).size !== type.values.length)) {
+    return "Option values must be different";
+  }
+  if (variants.length > 0 && optionTypes.length === 0) return "Add an option before its variants";
+
+  for (const variant of variants) {
+    if (optionTypes.some((type) => !type.values.includes(variant.options[type.name]))) {
+      return `Variant "${variant.name}" doesn't match the options`;
+    }
+    if (!(variant.price >= 0)) return `Variant "${variant.name}" needs a price of 0 or more`;
+    if (variant.discount_price !== null && !(variant.discount_price >= 0)) {
+      return `Variant "${variant.name}" can't have a negative discount price`;
+    }
+    if (!Number.isInteger(variant.stock_quantity) || variant.stock_quantity < 0) {
+      return `Variant "${variant.name}" needs a stock of 0 or more`;
+    }
+  }
+
+  const combinations = variants.map((v) => getVariantName(optionTypes, v.options));
+  if (new Set(combinations).size !== combinations.length) {
+    return "Each variant needs a different combination of options";
+  }
+  const skus = variants.map((v) => v.sku).filter(Boolean);
+  if (new Set(skus).size !== skus.length) return "Each variant needs a different SKU";
+
+  return null;
+}
+
+/**
+ * Key identifying a cart line: a product, or one variant of it
+ */
+export function getLineKey(line: { product_id: string; variant_id?: string | null }): string {
+  return line.variant_id ? `${line.product_id}:${line.variant_id}` : line.product_id;
+}
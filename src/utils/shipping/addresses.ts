@@ -0,0 +1,44 @@
+/**
+ * Structured Addresses
+ *
+ * Validation and formatting for address book entries and the address
+ * snapshots kept on orders. Pure functions, shared by the address book,
+ * checkout and the order pages.
+ */
+
+import type { PostalAddress } from "@/types";
+import { isNigerianState } from "./nigeria";
+import { formatShippingAddress } from "./zones";
+
+/**
+ * Trimmed copy of an address with only the postal fields
+ */
+export function normalizeAddress(address: PostalAddress): PostalAddress {
+  return {
+    full_name: address.full_name.trim(),
+    phone: address.phone.trim(),
+    street: address.street.trim(),
+    city: address.city.trim(),
+    lga: address.lga.trim(),
+    state: address.state,
+  };
+}
+
+/**
+ * Problems with an address, or null when it is complete
+ */
+export function validateAddress(address: PostalAddress): string | null {
+  if (!address.full_name.trim()) return "Recipient name is required";
+  if (!address.phone.trim()) return "Phone number is required";
+  if (!address.street.trim()) return "Street address is required";
+  if (!isNigerianState(address.state)) return "Choose a state";
+  if (!address.lga.trim() || !address.city.trim()) return "LGA and city are required";
+  return null;
+}
+
+/**
+ * Single-line address, without the recipient
+ */
+export function formatPostalAddress(address: PostalAddress): string {
+  return formatShippingAddress(address.street, address);
+}
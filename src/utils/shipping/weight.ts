@@ -0,0 +1,25 @@
+/**
+ * Parcel Weight
+ *
+ * Products carry their weight as a `weight_kg` attribute. Products without
+ * one count as SHIPPING_DEFAULT_ITEM_WEIGHT_KG (default 0.5) per unit.
+ *
+ * Server-only: reads the environment.
+ */
+
+const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+
+function getDefaultItemWeightKg(): number {
+  const weight = Number(process.env.SHIPPING_DEFAULT_ITEM_WEIGHT_KG);
+  return Number.isFinite(weight) && weight > 0 ? weight : DEFAULT_ITEM_WEIGHT_KG;
+}
+
+/**
+ * Weight of one unit of a product, in kilograms
+ */
+export function getUnitWeightKg(
+  attributes: Record<string, unknown> | null | undefined,
+): number {
+  const weight = Number(attributes?.weight_kg);
+  return Number.isFinite(weight) && weight > 0 ? weight : getDefaultItemWeightKg();
+}
@@ -0,0 +1,121 @@
+/**
+ * Shipping Zones & Rate Tables
+ *
+ * Picks the zone that delivers to an address and prices a parcel from its
+ * rate table. A zone that names the customer's LGA beats one that covers
+ * the whole state. Pure functions, shared by checkout pricing on the server
+ * and the zone editor in /admin/shipping.
+ */
+
+import type {
+  ShippingDestination,
+  ShippingRateTier,
+  ShippingZone,
+} from "@/types";
+
+type ZoneRules = Pick<
+  ShippingZone,
+  "rate_basis" | "rate_table" | "free_shipping_threshold"
+>;
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Active zone delivering to a destination, or null when nobody does
+ */
+export function findShippingZone<Z extends ShippingZone>(
+  zones: Z[],
+  destination: Pick<ShippingDestination, "state" | "lga">,
+): Z | null {
+  const state = normalize(destination.state);
+  const lga = normalize(destination.lga || "");
+
+  const inState = zones
+    .filter((zone) => zone.is_active && zone.states.some((s) => normalize(s) === state))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    inState.find((zone) => lga && zone.lgas.some((l) => normalize(l) === lga)) ||
+    inState.find((zone) => zone.lgas.length === 0) ||
+    null
+  );
+}
+
+/**
+ * Sort tiers by upper bound with the open-ended tier last
+ */
+export function sortRateTiers(tiers: ShippingRateTier[]): ShippingRateTier[] {
+  return [...tiers].sort((a, b) => {
+    if (a.up_to === null) return 1;
+    if (b.up_to === null) return -1;
+    return a.up_to - b.up_to;
+  });
+}
+
+/**
+ * Shipping fee for a parcel in a zone
+ *
+ * @param zone - Zone rules
+ * @param parcel - Total weight (kg), number of items and merchandise subtotal
+ * @returns Fee in naira, or null when the parcel exceeds every tier
+ */
+export function calculateShippingFee(
+  zone: ZoneRules,
+  parcel: { weightKg: number; itemCount: number; subtotal: number },
+): number | null {
+  if (zone.free_shipping_threshold !== null && parcel.subtotal > zone.free_shipping_threshold) {
+    return 0;
+  }
+
+  const measure = zone.rate_basis === "weight" ? parcel.weightKg : parcel.itemCount;
+  const tier = sortRateTiers(zone.rate_table).find(
+    (t) => t.up_to === null || measure <= t.up_to,
+  );
+
+  return tier ? Number(tier.fee) : null;
+}
+
+/**
+ * Problems with a zone's settings, or null when it can be saved
+ */
+export function validateShippingZone(
+  zone: Pick<
+    ShippingZone,
+    "name" | "states" | "rate_table" | "min_delivery_days" | "max_delivery_days" | "free_shipping_threshold"
+  >,
+): string | null {
+  if (!zone.name.trim()) return "Zone name is required";
+  if (zone.states.length === 0) return "Choose at least one state";
+  if (zone.rate_table.length === 0) return "Add at least one rate";
+
+  const bounds = zone.rate_table.map((t) => t.up_to);
+  if (bounds.filter((b) => b === null).length > 1) {
+    return "Only one rate can have no upper limit";
+  }
+  if (zone.rate_table.some((t) => !(t.fee >= 0) || (t.up_to !== null && !(t.up_to > 0)))) {
+    return "Rates need a fee of 0 or more and a limit above 0";
+  }
+  if (new Set(bounds).size !== bounds.length) {
+    return "Each rate needs a different limit";
+  }
+
+  if (zone.min_delivery_days < 0 || zone.max_delivery_days < zone.min_delivery_days) {
+    return "Delivery estimate must be a valid range of days";
+  }
+  if (zone.free_shipping_threshold !== null && !(zone.free_shipping_threshold >= 0)) {
+    return "Free shipping threshold cannot be negative";
+  }
+
+  return null;
+}
+
+/**
+ * Single-line address stored on the order for labels and emails
+ */
+export function formatShippingAddress(street: string, destination: ShippingDestination): string {
+  return [street.trim(), destination.city.trim(), destination.lga.trim(), destination.state.trim()]
+    .filter(Boolean)
+    .join(", ");
+}
@@ -0,0 +1,26 @@
+/**
+ * Service Role Supabase Client
+ *
+ * Bypasses row level security. Only import this from server code
+ * (server actions, route handlers, jobs) that has already verified the
+ * caller, or that handles trusted input such as signed gateway webhooks.
+ */
+
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Creates a Supabase client authenticated with the service role key
+ * Never expose this client or its key to the browser
+ */
+export function createServiceClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    },
+  );
+}
@@ -51,6 +51,10 @@ export async function updateUserProfile(
 }
 
 /* Product Services */
+
+// Products come with their active variants (inactive ones are hidden by RLS)
+const PRODUCT_WITH_VARIANTS = "*, variants:product_variants(*)";
+
 export async function getProducts(
   filters?: ProductFilters,
 ): Promise<Product[]> {
@@ -58,7 +62,8 @@ export async function getProducts(
     const supabase = await createClient();
     let query = supabase
       .from("products")
-      .select("*")
+      .select(PRODUCT_WITH_VARIANTS)
+      .order("position", { referencedTable: "variants" })
       .eq("is_active", filters?.is_active !== false ? true : undefined);
 
     if (filters?.category) {
@@ -97,7 +102,8 @@ export async function getProductById(
     const supabase = await createClient();
     const { data, error } = await supabase
       .from("products")
-      .select("*")
+      .select(PRODUCT_WITH_VARIANTS)
+      .order("position", { referencedTable: "variants" })
       .eq("id", productId)
       .single();
 
@@ -116,7 +122,8 @@ export async function getProductsByIds(
     const supabase = await createClient();
     const { data, error } = await supabase
       .from("products")
-      .select("*")
+      .select(PRODUCT_WITH_VARIANTS)
+      .order("position", { referencedTable: "variants" })
       .in("id", productIds);
 
     if (error) throw error;
@@ -247,7 +254,8 @@ export async function getProductBySlug(slug: string): Promise<Product | null> {
     const supabase = createStaticClient();
     const { data, error } = await supabase
       .from("products")
-      .select("*")
+      .select(PRODUCT_WITH_VARIANTS)
+      .order("position", { referencedTable: "variants" })
       .eq("slug", slug)
       .eq("is_active", true)
       .single();
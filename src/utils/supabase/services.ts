@@ -8,12 +8,20 @@ import { createClient } from "./client";
 import type {
   UserProfile,
   Product,
+  ProductBundleItem,
   CartItem,
+  CartList,
+  CartValidationLine,
   Order,
   OrderItem,
+  OrderStatusHistoryEntry,
+  Refund,
+  ReturnRequest,
+  SavedCartItem,
+  Shipment,
   WishlistItem,
+  WishlistShare,
   ProductFilters,
-  CreateOrderInput,
   ProductReview,
 } from "@/types";
 
@@ -59,6 +67,10 @@ export async function updateUserProfile(
 }
 
 /* Product Services */
+
+// Products come with their active variants (inactive ones are hidden by RLS)
+const PRODUCT_WITH_VARIANTS = "*, variants:product_variants(*)";
+
 export async function getProducts(
   filters?: ProductFilters,
 ): Promise<Product[]> {
@@ -66,7 +78,8 @@ export async function getProducts(
     const supabase = createClient();
     let query = supabase
       .from("products")
-      .select("*")
+      .select(PRODUCT_WITH_VARIANTS)
+      .order("position", { referencedTable: "variants" })
       .eq("is_active", filters?.is_active !== false ? true : undefined);
 
     if (filters?.category) {
@@ -105,7 +118,8 @@ export async function getProductById(
     const supabase = createClient();
     const { data, error } = await supabase
       .from("products")
-      .select("*")
+      .select(PRODUCT_WITH_VARIANTS)
+      .order("position", { referencedTable: "variants" })
       .eq("id", productId)
       .single();
 
@@ -124,7 +138,8 @@ export async function getProductsByIds(
     const supabase = createClient();
     const { data, error } = await supabase
       .from("products")
-      .select("*")
+      .select(PRODUCT_WITH_VARIANTS)
+      .order("position", { referencedTable: "variants" })
       .in("id", productIds);
 
     if (error) throw error;
@@ -135,6 +150,28 @@ export async function getProductsByIds(
   }
 }
 
+// Components of a bundle, with the product and variant each one is
+export async function getBundleItems(
+  bundleId: string,
+): Promise<ProductBundleItem[]> {
+  try {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("product_bundle_items")
+      .select(
+        "*, product:products!component_product_id(id, name, slug, images, stock_quantity, is_active), variant:product_variants(id, name, stock_quantity, is_active)",
+      )
+      .eq("bundle_id", bundleId)
+      .order("position", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching bundle items:", error);
+    return [];
+  }
+}
+
 // Get trending products (based on recent orders)
 export async function getTrendingProducts(
   limit: number = 8,
@@ -251,33 +288,54 @@ export async function getCartItems(userId: string): Promise<CartItem[]> {
     const supabase = createClient();
     const { data, error } = await supabase
       .from("cart_items")
-      .select("*, products(*)")
+      .select("*, products(*), variant:product_variants(*)")
       .eq("user_id", userId)
       .order("added_at", { ascending: false });
 
     if (error) throw error;
-    return data || [];
+    return (data || []).map(({ products, ...item }) => ({ ...item, product: products }));
   } catch (error) {
     console.error("Error fetching cart:", error);
     return [];
   }
 }
 
+/**
+ * Merge a browser cart into the signed-in user's cart
+ * Quantities add to what is already in the cart
+ */
+export async function mergeCartItems(lines: CartValidationLine[]): Promise<boolean> {
+  try {
+    const supabase = createClient();
+    const { error } = await supabase.rpc("merge_cart_items", { p_items: lines });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error merging cart:", error);
+    return false;
+  }
+}
+
 export async function addToCart(
   userId: string,
   productId: string,
   quantity: number,
+  variantId: string | null = null,
 ): Promise<CartItem | null> {
   try {
     const supabase = createClient();
 
     // Check if item already in cart
-    const { data: existingItem } = await supabase
+    const existingQuery = supabase
       .from("cart_items")
       .select("id, quantity")
       .eq("user_id", userId)
-      .eq("product_id", productId)
-      .single();
+      .eq("product_id", productId);
+    const { data: existingItem } = await (variantId
+      ? existingQuery.eq("variant_id", variantId)
+      : existingQuery.is("variant_id", null)
+    ).single();
 
     if (existingItem) {
       // Update quantity
@@ -298,6 +356,7 @@ export async function addToCart(
       .insert({
         user_id: userId,
         product_id: productId,
+        variant_id: variantId,
         quantity,
       })
       .select()
@@ -330,6 +389,28 @@ export async function updateCartItemQuantity(
   }
 }
 
+/**
+ * Note the price a customer has accepted for a cart line
+ */
+export async function acceptCartItemPrice(
+  cartItemId: string,
+  unitPrice: number,
+): Promise<boolean> {
+  try {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("cart_items")
+      .update({ added_unit_price: unitPrice })
+      .eq("id", cartItemId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating cart item price:", error);
+    return false;
+  }
+}
+
 export async function removeFromCart(cartItemId: string): Promise<boolean> {
   try {
     const supabase = createClient();
@@ -362,6 +443,68 @@ export async function clearCart(userId: string): Promise<boolean> {
   }
 }
 
+/* Saved for Later Services */
+
+export async function getSavedCartItems(userId: string): Promise<SavedCartItem[]> {
+  try {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("saved_cart_items")
+      .select("*, products(*), variant:product_variants(*)")
+      .eq("user_id", userId)
+      .order("saved_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(({ products, ...item }) => ({ ...item, product: products }));
+  } catch (error) {
+    console.error("Error fetching saved items:", error);
+    return [];
+  }
+}
+
+export async function removeSavedCartItem(savedItemId: string): Promise<boolean> {
+  try {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("saved_cart_items")
+      .delete()
+      .eq("id", savedItemId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error removing saved item:", error);
+    return false;
+  }
+}
+
+/**
+ * Move the signed-in user's line for a product between the cart, saved
+ * items and wishlist in one database transaction
+ */
+export async function moveCartLine(
+  productId: string,
+  from: CartList,
+  to: CartList,
+  variantId: string | null = null,
+): Promise<boolean> {
+  try {
+    const supabase = createClient();
+    const { error } = await supabase.rpc("move_cart_line", {
+      p_product_id: productId,
+      p_from: from,
+      p_to: to,
+      p_variant_id: variantId,
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error moving item:", error);
+    return false;
+  }
+}
+
 /* Wishlist Services */
 
 export async function getWishlist(userId: string): Promise<WishlistItem[]> {
@@ -374,7 +517,7 @@ export async function getWishlist(userId: string): Promise<WishlistItem[]> {
       .order("added_at", { ascending: false });
 
     if (error) throw error;
-    return data || [];
+    return (data || []).map(({ products, ...item }) => ({ ...item, product: products }));
   } catch (error) {
     console.error("Error fetching wishlist:", error);
     return [];
@@ -441,6 +584,98 @@ export async function isInWishlist(
   }
 }
 
+/**
+ * Turn price-drop and back-in-stock alerts on or off for a wishlist entry
+ */
+export async function setWishlistAlerts(
+  productId: string,
+  alerts: { priceDrop: boolean; backInStock: boolean },
+): Promise<boolean> {
+  try {
+    const supabase = createClient();
+    const { error } = await supabase.rpc("set_wishlist_alerts", {
+      p_product_id: productId,
+      p_price_drop: alerts.priceDrop,
+      p_back_in_stock: alerts.backInStock,
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating wishlist alerts:", error);
+    return false;
+  }
+}
+
+/**
+ * Move wishlist entries into the cart in one step
+ * @returns How many moved (unavailable products stay), or null on failure
+ */
+export async function moveWishlistToCart(productIds: string[]): Promise<number | null> {
+  try {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("move_wishlist_to_cart", {
+      p_product_ids: productIds,
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+  } catch (error) {
+    console.error("Error moving wishlist to cart:", error);
+    return null;
+  }
+}
+
+export async function getWishlistShare(userId: string): Promise<WishlistShare | null> {
+  try {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("wishlist_shares")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error fetching wishlist share:", error);
+    return null;
+  }
+}
+
+export async function createWishlistShare(userId: string): Promise<WishlistShare | null> {
+  try {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("wishlist_shares")
+      .insert({ user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error creating wishlist share:", error);
+    return null;
+  }
+}
+
+/**
+ * Stop sharing; the old link stops working and a new share gets a new token
+ */
+export async function deleteWishlistShare(userId: string): Promise<boolean> {
+  try {
+    const supabase = createClient();
+    const { error } = await supabase.from("wishlist_shares").delete().eq("user_id", userId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting wishlist share:", error);
+    return false;
+  }
+}
+
 /* Order Services */
 
 export async function getUserOrders(userId: string): Promise<Order[]> {
@@ -494,81 +729,77 @@ export async function getOrderItems(orderId: string): Promise<OrderItem[]> {
   }
 }
 
-export async function createOrder(
-  userId: string,
-  orderData: CreateOrderInput,
-): Promise<Order | null> {
+export async function getOrderRefunds(orderId: string): Promise<Refund[]> {
   try {
     const supabase = createClient();
+    const { data, error } = await supabase
+      .from("refunds")
+      .select("*")
+      .eq("order_id", orderId)
+      .neq("status", "failed")
+      .order("created_at", { ascending: true });
 
-    // Create order
-    const { data: order, error: orderError } = await supabase
-      .from("orders")
-      .insert({
-        user_id: userId,
-        order_number: `ORD-${Date.now()}`,
-        subtotal: orderData.subtotal,
-        tax: orderData.tax,
-        shipping_cost: orderData.shipping_cost,
-        total_amount: orderData.total_amount,
-        shipping_address: orderData.shipping_address || null,
-        billing_address: orderData.billing_address || null,
-        status: "pending",
-        payment_status: "pending",
-      })
-      .select()
-      .single();
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching order refunds:", error);
+    return [];
+  }
+}
 
-    if (orderError) throw orderError;
-    if (!order) throw new Error("Failed to create order");
-
-    // Get product names for order items
-    const productIds = orderData.items.map((item) => item.product_id);
-    const products = await getProductsByIds(productIds);
-    const productMap = new Map(products.map((p) => [p.id, p.name]));
-
-    // Add order items
-    const orderItems = orderData.items.map((item) => ({
-      order_id: order.id,
-      product_id: item.product_id,
-      product_name: productMap.get(item.product_id) || "Unknown Product",
-      quantity: item.quantity,
-      unit_price: item.unit_price,
-      total_price: item.quantity * item.unit_price,
-    }));
-
-    const { error: itemsError } = await supabase
-      .from("order_items")
-      .insert(orderItems);
+export async function getOrderStatusHistory(
+  orderId: string,
+): Promise<OrderStatusHistoryEntry[]> {
+  try {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("order_status_history")
+      .select("*")
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: true });
 
-    if (itemsError) throw itemsError;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching order status history:", error);
+    return [];
+  }
+}
 
-    // Clear user's cart
-    await clearCart(userId);
+export async function getOrderShipments(orderId: string): Promise<Shipment[]> {
+  try {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("shipments")
+      .select("*, shipment_items (*), shipment_tracking_events (*)")
+      .eq("order_id", orderId)
+      .order("shipped_at", { ascending: true })
+      .order("occurred_at", { referencedTable: "shipment_tracking_events", ascending: true });
 
-    return order;
+    if (error) throw error;
+    return data || [];
   } catch (error) {
-    console.error("Error creating order:", error);
-    return null;
+    console.error("Error fetching shipments:", error);
+    return [];
   }
 }
 
-export async function updateOrderStatus(
+export async function getOrderReturnRequests(
   orderId: string,
-  status: string,
-): Promise<boolean> {
+): Promise<ReturnRequest[]> {
   try {
     const supabase = createClient();
-    const { error } = await supabase
-      .from("orders")
-      .update({ status })
-      .eq("id", orderId);
+    const { data, error } = await supabase
+      .from("return_requests")
+      .select("*")
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: false });
 
     if (error) throw error;
-    return true;
+    return data || [];
   } catch (error) {
-    console.error("Error updating order status:", error);
-    return false;
+    console.error("Error fetching return requests:", error);
+    return [];
   }
 }
 
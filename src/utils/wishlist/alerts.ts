@@ -0,0 +1,232 @@
+/**
+ * Wishlist Alerts
+ *
+ * Wishlist entries can opt in to price-drop and back-in-stock alerts. Each
+ * entry remembers the price and stock state the customer last saw
+ * (set_wishlist_alerts); when a product is cheaper than that or back in
+ * stock, the customer gets one message through WISHLIST_ALERT_NOTIFIER
+ * covering every alerted item, and the entries move on to today's state so
+ * the same change is never reported twice.
+ *
+ * Server-only: uses the service role client.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service-client";
+import { getUnitPrice } from "@/utils/checkout/pricing";
+import { escapeHtml, getCustomerNotifier } from "@/utils/notifications";
+import type { CustomerNotifier, NotificationRecipient } from "@/utils/notifications";
+import type { Product, WishlistItem } from "@/types";
+
+// Rows per request; PostgREST caps a single select at 1,000
+const ENTRY_PAGE_SIZE = 1000;
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+interface WishlistAlert {
+  entry: WishlistItem;
+  product: Product;
+  unitPrice: number;
+  inStock: boolean;
+  reason: "price_drop" | "back_in_stock";
+}
+
+function formatNaira(amount: number): string {
+  return `₦${Number(amount).toLocaleString()}`;
+}
+
+/**
+ * One line about an alerted item; the HTML body passes an escaped name
+ */
+function describeAlert(alert: WishlistAlert, productName = alert.product.name): string {
+  return alert.reason === "price_drop"
+    ? `${productName} is now ${formatNaira(alert.unitPrice)} (was ${formatNaira(Number(alert.entry.alert_unit_price))})`
+    : `${productName} is back in stock at ${formatNaira(alert.unitPrice)}`;
+}
+
+/**
+ * Record what the customer has now been told (or what changed without
+ * needing an alert, such as a price rise)
+ */
+async function updateBaseline(
+  supabase: ServiceClient,
+  entryId: string,
+  unitPrice: number,
+  inStock: boolean,
+): Promise<void> {
+  const { error } = await supabase
+    .from("wishlist")
+    .update({ alert_unit_price: unitPrice, alert_in_stock: inStock })
+    .eq("id", entryId);
+
+  if (error) throw error;
+}
+
+/**
+ * Send one customer every alert due on their wishlist
+ */
+async function notifyWishlistOwner(
+  supabase: ServiceClient,
+  notifier: CustomerNotifier,
+  userId: string,
+  alerts: WishlistAlert[],
+): Promise<boolean> {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, full_name, email, phone")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+
+  const recipient: NotificationRecipient = {
+    userId,
+    name: profile?.full_name || null,
+    email: profile?.email || null,
+    phone: profile?.phone || null,
+  };
+
+  if (!notifier.canReach(recipient)) return false;
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://jradianceco.com";
+  const url = `${siteUrl}/shop/wishlist`;
+  const greeting = recipient.name ? `Hi ${recipient.name.split(" ")[0]},` : "Hi,";
+  const subject =
+    alerts.length === 1
+      ? alerts[0].reason === "price_drop"
+        ? `Price drop: ${alerts[0].product.name}`
+        : `Back in stock: ${alerts[0].product.name}`
+      : "Good news about your wishlist";
+
+  await notifier.send({
+    to: recipient,
+    subject,
+    text: [
+      greeting,
+      "",
+      "Items on your JRADIANCE wishlist have changed:",
+      ...alerts.map((alert) => `- ${describeAlert(alert)}`),
+      "",
+      `See your wishlist: ${url}`,
+    ].join("\n"),
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>Items on your JRADIANCE wishlist have changed:</p>
+      <ul>${alerts
+        .map((alert) => `<li>${describeAlert(alert, escapeHtml(alert.product.name))}</li>`)
+        .join("")}</ul>
+      <p><a href="${url}">See your wishlist</a></p>
+    `,
+    url,
+  });
+
+  return true;
+}
+
+/**
+ * Every wishlist entry with an alert turned on, with its product, fetched a
+ * page at a time
+ */
+async function loadAlertEntries(
+  supabase: ServiceClient,
+): Promise<WishlistItem[]> {
+  const entries: WishlistItem[] = [];
+
+  for (let start = 0; ; start += ENTRY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("wishlist")
+      .select("*, products(*)")
+      .or("notify_price_drop.eq.true,notify_back_in_stock.eq.true")
+      .order("id", { ascending: true })
+      .range(start, start + ENTRY_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const { products, ...entry } of data || []) {
+      entries.push({
+        ...(entry as WishlistItem),
+        product: (products as Product | null) ?? undefined,
+      });
+    }
+
+    if (!data || data.length < ENTRY_PAGE_SIZE) break;
+  }
+
+  return entries;
+}
+
+/**
+ * Check every opted-in wishlist entry and message customers whose items got
+ * cheaper or came back in stock
+ *
+ * Inactive products are skipped until they return. Customers whose message
+ * fails keep their old baseline and are retried on the next run.
+ *
+ * @returns Counts for this run
+ */
+export async function sendWishlistAlerts(): Promise<{
+  checked: number;
+  alerted: number;
+  notified: number;
+}> {
+  const supabase = createServiceClient();
+  const notifier = getCustomerNotifier(process.env.WISHLIST_ALERT_NOTIFIER);
+
+  const entries = await loadAlertEntries(supabase);
+
+  const dueByUser = new Map<string, WishlistAlert[]>();
+
+  for (const entry of entries) {
+    const product = entry.product;
+    if (!product || !product.is_active) continue;
+
+    const unitPrice = getUnitPrice(product);
+    const inStock = product.stock_quantity > 0;
+    const lastPrice = entry.alert_unit_price === null ? null : Number(entry.alert_unit_price);
+
+    const priceDropped =
+      entry.notify_price_drop && inStock && lastPrice !== null && unitPrice < lastPrice;
+    const restocked = entry.notify_back_in_stock && entry.alert_in_stock === false && inStock;
+
+    if (priceDropped || restocked) {
+      const alerts = dueByUser.get(entry.user_id) || [];
+      alerts.push({
+        entry,
+        product,
+        unitPrice,
+        inStock,
+        reason: priceDropped ? "price_drop" : "back_in_stock",
+      });
+      dueByUser.set(entry.user_id, alerts);
+    } else {
+      // A drop while out of stock is held back until the product returns
+      const nextPrice =
+        entry.notify_price_drop && !inStock && lastPrice !== null
+          ? Math.max(unitPrice, lastPrice)
+          : unitPrice;
+
+      // Nothing to tell the customer, but later alerts compare against today
+      if (nextPrice !== lastPrice || inStock !== entry.alert_in_stock) {
+        await updateBaseline(supabase, entry.id, nextPrice, inStock);
+      }
+    }
+  }
+
+  let alerted = 0;
+  let notified = 0;
+  for (const [userId, alerts] of dueByUser) {
+    try {
+      const sent = await notifyWishlistOwner(supabase, notifier, userId, alerts);
+      // Unreachable customers move on too, or they'd be retried forever
+      for (const alert of alerts) {
+        await updateBaseline(supabase, alert.entry.id, alert.unitPrice, alert.inStock);
+      }
+      if (sent) {
+        notified++;
+        alerted += alerts.length;
+      }
+    } catch (error) {
+      console.error("Error sending wishlist alert:", error);
+    }
+  }
+
+  return { checked: entries.length, alerted, notified };
+}
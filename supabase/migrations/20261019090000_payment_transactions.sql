@@ -0,0 +1,104 @@
+-- =============================================================================
+-- Payment Transactions & Server-Side Verification
+-- =============================================================================
+--
+-- Every payment attempt gets its own reference so a verified gateway response
+-- can be matched back to exactly one order. Settlement happens in a single
+-- database function so the transaction row and the order can never disagree.
+
+-- System-initiated events (payment verification, webhooks, jobs) have no admin
+ALTER TABLE admin_activity_logs ALTER COLUMN admin_id DROP NOT NULL;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS payment_reference text UNIQUE,
+  ADD COLUMN IF NOT EXISTS paid_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS payment_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  provider text NOT NULL DEFAULT 'paystack',
+  reference text UNIQUE NOT NULL,
+  amount decimal(10, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'NGN',
+  status payment_status NOT NULL DEFAULT 'pending',
+  provider_transaction_id text,
+  gateway_response text,
+  raw_response jsonb,
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_transactions_order_id_idx
+  ON payment_transactions(order_id);
+
+ALTER TABLE payment_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Customers may read attempts for their own orders; writes go through the
+-- service role only.
+CREATE POLICY "Customers view own payment transactions"
+  ON payment_transactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payment_transactions.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- -----------------------------------------------------------------------------
+-- settle_payment_transaction
+-- -----------------------------------------------------------------------------
+-- Applies a verified gateway outcome to a transaction and its order in one
+-- transaction. Only a pending order can be flipped, so replays are no-ops.
+-- Returns the order's payment_status after the call.
+CREATE OR REPLACE FUNCTION settle_payment_transaction(
+  p_reference text,
+  p_status payment_status,
+  p_provider_transaction_id text DEFAULT NULL,
+  p_gateway_response text DEFAULT NULL,
+  p_raw_response jsonb DEFAULT NULL
+) RETURNS payment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx payment_transactions%ROWTYPE;
+  v_order_status payment_status;
+BEGIN
+  SELECT * INTO v_tx
+  FROM payment_transactions
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment reference %', p_reference;
+  END IF;
+
+  IF v_tx.status = 'pending' THEN
+    UPDATE payment_transactions
+    SET status = p_status,
+        provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+        gateway_response = p_gateway_response,
+        raw_response = p_raw_response,
+        verified_at = now(),
+        updated_at = now()
+    WHERE id = v_tx.id;
+  END IF;
+
+  UPDATE orders
+  SET payment_status = p_status,
+      payment_reference = p_reference,
+      paid_at = CASE WHEN p_status = 'completed' THEN now() ELSE paid_at END,
+      updated_at = now()
+  WHERE id = v_tx.order_id
+    AND payment_status = 'pending'
+    AND v_tx.status = 'pending';
+
+  SELECT payment_status INTO v_order_status FROM orders WHERE id = v_tx.order_id;
+  RETURN v_order_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION settle_payment_transaction FROM PUBLIC, anon, authenticated;
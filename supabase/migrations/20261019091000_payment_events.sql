@@ -0,0 +1,29 @@
+-- =============================================================================
+-- Payment Gateway Webhook Events
+-- =============================================================================
+--
+-- Every signed webhook delivery is stored before it is processed. event_key
+-- is unique per provider so retried or duplicated deliveries collapse onto
+-- the same row and are never applied twice.
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_key text NOT NULL,
+  event_type text NOT NULL,
+  reference text,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processing', 'processed', 'ignored', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  error text,
+  received_at timestamptz DEFAULT now(),
+  processed_at timestamptz,
+  UNIQUE (provider, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS payment_events_reference_idx
+  ON payment_events(reference);
+
+-- Service role only
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
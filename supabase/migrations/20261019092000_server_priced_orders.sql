@@ -0,0 +1,10 @@
+-- =============================================================================
+-- Server-Priced Orders
+-- =============================================================================
+--
+-- Orders and their line items are now written only by the checkout server
+-- actions (service role) from prices read on the server. Browsers can still
+-- read their own orders but can no longer insert them with arbitrary totals.
+
+REVOKE INSERT ON orders FROM anon, authenticated;
+REVOKE INSERT ON order_items FROM anon, authenticated;
@@ -0,0 +1,256 @@
+-- =============================================================================
+-- Atomic Order Placement & Stock Reservation
+-- =============================================================================
+--
+-- place_order writes the order, its items, the stock decrement and the cart
+-- clear-out in one transaction: either all of it happens or none of it does.
+-- Stock taken by an unpaid order is a reservation; it is handed back when the
+-- payment fails or the reservation expires, and taken again if a late
+-- payment still succeeds.
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS stock_reserved boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS reservation_expires_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS orders_reservation_expiry_idx
+  ON orders(reservation_expires_at)
+  WHERE stock_reserved AND payment_status = 'pending';
+
+-- -----------------------------------------------------------------------------
+-- place_order
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "product_id", "product_name", "quantity", "unit_price", "total_price" }]
+-- Raises 'Insufficient stock for <name>' when any line can't be covered.
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_order_number text,
+  p_subtotal decimal,
+  p_tax decimal,
+  p_shipping_cost decimal,
+  p_total_amount decimal,
+  p_shipping_address text,
+  p_billing_address text,
+  p_items jsonb,
+  p_reservation_minutes integer DEFAULT 30
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+BEGIN
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot place an order without items';
+  END IF;
+
+  -- Lock products in a stable order to avoid deadlocks between checkouts
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    UPDATE products
+    SET stock_quantity = stock_quantity - (v_item->>'quantity')::integer,
+        updated_at = now()
+    WHERE id = (v_item->>'product_id')::uuid
+      AND is_active
+      AND stock_quantity >= (v_item->>'quantity')::integer;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item->>'product_name';
+    END IF;
+  END LOOP;
+
+  INSERT INTO orders (
+    user_id, order_number, subtotal, tax, shipping_cost, total_amount,
+    shipping_address, billing_address, status, payment_status,
+    stock_reserved, reservation_expires_at
+  ) VALUES (
+    p_user_id, p_order_number, p_subtotal, p_tax, p_shipping_cost, p_total_amount,
+    p_shipping_address, p_billing_address, 'pending', 'pending',
+    true, now() + make_interval(mins => p_reservation_minutes)
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, product_name, quantity, unit_price, total_price)
+  SELECT
+    v_order.id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::decimal,
+    (value->>'total_price')::decimal
+  FROM jsonb_array_elements(p_items);
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN v_order;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- release_order_stock
+-- -----------------------------------------------------------------------------
+-- Returns an order's reserved units to stock. Returns false when the order
+-- holds no reservation, so repeated calls are harmless.
+CREATE OR REPLACE FUNCTION release_order_stock(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id AND stock_reserved FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity + oi.quantity,
+      updated_at = now()
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  UPDATE orders
+  SET stock_reserved = false,
+      reservation_expires_at = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- reserve_order_stock
+-- -----------------------------------------------------------------------------
+-- Takes stock again for an order whose reservation was released. Raises when
+-- stock is no longer available. p_minutes NULL means "hold indefinitely"
+-- (used once the order is paid).
+CREATE OR REPLACE FUNCTION reserve_order_stock(
+  p_order_id uuid,
+  p_minutes integer DEFAULT NULL
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id AND NOT stock_reserved FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  FOR v_item IN
+    SELECT product_id, product_name, SUM(quantity)::integer AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id, product_name
+    ORDER BY product_id
+  LOOP
+    UPDATE products
+    SET stock_quantity = stock_quantity - v_item.quantity,
+        updated_at = now()
+    WHERE id = v_item.product_id
+      AND stock_quantity >= v_item.quantity;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item.product_name;
+    END IF;
+  END LOOP;
+
+  UPDATE orders
+  SET stock_reserved = true,
+      reservation_expires_at = CASE
+        WHEN p_minutes IS NULL THEN NULL
+        ELSE now() + make_interval(mins => p_minutes)
+      END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- settle_payment_transaction (replaces 20261019090000 version)
+-- -----------------------------------------------------------------------------
+-- Same contract as before, plus stock handling:
+-- - failed payment  -> reservation released
+-- - completed       -> reservation made permanent, re-taken if it had expired
+--                      (when stock ran out meanwhile the order stays paid and
+--                      stock_reserved stays false for staff to resolve)
+CREATE OR REPLACE FUNCTION settle_payment_transaction(
+  p_reference text,
+  p_status payment_status,
+  p_provider_transaction_id text DEFAULT NULL,
+  p_gateway_response text DEFAULT NULL,
+  p_raw_response jsonb DEFAULT NULL
+) RETURNS payment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx payment_transactions%ROWTYPE;
+  v_order_status payment_status;
+  v_flipped boolean := false;
+BEGIN
+  SELECT * INTO v_tx
+  FROM payment_transactions
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment reference %', p_reference;
+  END IF;
+
+  IF v_tx.status = 'pending' THEN
+    UPDATE payment_transactions
+    SET status = p_status,
+        provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+        gateway_response = p_gateway_response,
+        raw_response = p_raw_response,
+        verified_at = now(),
+        updated_at = now()
+    WHERE id = v_tx.id;
+
+    UPDATE orders
+    SET payment_status = p_status,
+        payment_reference = p_reference,
+        paid_at = CASE WHEN p_status = 'completed' THEN now() ELSE paid_at END,
+        updated_at = now()
+    WHERE id = v_tx.order_id
+      AND payment_status = 'pending';
+
+    v_flipped := FOUND;
+  END IF;
+
+  IF v_flipped AND p_status = 'failed' THEN
+    PERFORM release_order_stock(v_tx.order_id);
+  ELSIF v_flipped AND p_status = 'completed' THEN
+    BEGIN
+      PERFORM reserve_order_stock(v_tx.order_id, NULL);
+    EXCEPTION WHEN others THEN
+      -- Paid but out of stock: keep the payment, leave stock_reserved false
+      NULL;
+    END;
+    UPDATE orders SET reservation_expires_at = NULL WHERE id = v_tx.order_id;
+  END IF;
+
+  SELECT payment_status INTO v_order_status FROM orders WHERE id = v_tx.order_id;
+  RETURN v_order_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION release_order_stock FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reserve_order_stock FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION settle_payment_transaction FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,17 @@
+-- =============================================================================
+-- Payment Providers
+-- =============================================================================
+--
+-- Orders remember which method the customer chose so staff can find
+-- bank transfers awaiting confirmation. payment_transactions.provider already
+-- records the gateway per attempt.
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS payment_provider text;
+
+ALTER TABLE payment_transactions
+  ALTER COLUMN provider DROP DEFAULT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_payment_provider
+  ON orders(payment_provider)
+  WHERE payment_status = 'pending';
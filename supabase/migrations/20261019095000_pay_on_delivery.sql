@@ -0,0 +1,87 @@
+-- =============================================================================
+-- Pay on Delivery
+-- =============================================================================
+--
+-- Customers can choose to pay the delivering agent in cash or by POS. Such
+-- orders sit in payment_status 'pay_on_delivery' (stock held, no payment
+-- window) until the agent records the collection, which settles the order's
+-- cash_on_delivery payment transaction like any other payment.
+
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'pay_on_delivery';
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS collection_method text
+    CHECK (collection_method IN ('cash', 'pos')),
+  ADD COLUMN IF NOT EXISTS collected_amount decimal(10, 2),
+  ADD COLUMN IF NOT EXISTS collected_by uuid REFERENCES profiles(id),
+  ADD COLUMN IF NOT EXISTS collected_at timestamptz;
+
+-- -----------------------------------------------------------------------------
+-- settle_payment_transaction (replaces 20261019093000 version)
+-- -----------------------------------------------------------------------------
+-- Same contract as before; orders awaiting payment on delivery can be settled
+-- too.
+CREATE OR REPLACE FUNCTION settle_payment_transaction(
+  p_reference text,
+  p_status payment_status,
+  p_provider_transaction_id text DEFAULT NULL,
+  p_gateway_response text DEFAULT NULL,
+  p_raw_response jsonb DEFAULT NULL
+) RETURNS payment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx payment_transactions%ROWTYPE;
+  v_order_status payment_status;
+  v_flipped boolean := false;
+BEGIN
+  SELECT * INTO v_tx
+  FROM payment_transactions
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment reference %', p_reference;
+  END IF;
+
+  IF v_tx.status = 'pending' THEN
+    UPDATE payment_transactions
+    SET status = p_status,
+        provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+        gateway_response = p_gateway_response,
+        raw_response = p_raw_response,
+        verified_at = now(),
+        updated_at = now()
+    WHERE id = v_tx.id;
+
+    UPDATE orders
+    SET payment_status = p_status,
+        payment_reference = p_reference,
+        paid_at = CASE WHEN p_status = 'completed' THEN now() ELSE paid_at END,
+        updated_at = now()
+    WHERE id = v_tx.order_id
+      AND payment_status IN ('pending', 'pay_on_delivery');
+
+    v_flipped := FOUND;
+  END IF;
+
+  IF v_flipped AND p_status = 'failed' THEN
+    PERFORM release_order_stock(v_tx.order_id);
+  ELSIF v_flipped AND p_status = 'completed' THEN
+    BEGIN
+      PERFORM reserve_order_stock(v_tx.order_id, NULL);
+    EXCEPTION WHEN others THEN
+      -- Paid but out of stock: keep the payment, leave stock_reserved false
+      NULL;
+    END;
+    UPDATE orders SET reservation_expires_at = NULL WHERE id = v_tx.order_id;
+  END IF;
+
+  SELECT payment_status INTO v_order_status FROM orders WHERE id = v_tx.order_id;
+  RETURN v_order_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION settle_payment_transaction FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,260 @@
+-- =============================================================================
+-- Refunds
+-- =============================================================================
+--
+-- Every refund is its own row so an order can be refunded in several steps
+-- (e.g. one returned line now, the rest later). orders.refunded_amount and
+-- order_items.refunded_quantity are kept in step with the refunds table by
+-- the functions below and guard against refunding more than was paid.
+--
+-- Refund lifecycle: pending (amount held against the order while the
+-- gateway works) -> processed | failed (amount released again).
+
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'partially_refunded';
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS refunded_amount decimal(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS refunded_quantity integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  payment_transaction_id uuid REFERENCES payment_transactions(id),
+  amount decimal(10, 2) NOT NULL CHECK (amount > 0),
+  reason text,
+  method text NOT NULL CHECK (method IN ('provider', 'manual')),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processed', 'failed')),
+  provider_refund_id text,
+  -- Line items covered: [{ order_item_id, quantity, amount }]; empty for
+  -- whole-order refunds
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  processed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers view own refunds"
+  ON refunds FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = refunds.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- -----------------------------------------------------------------------------
+-- sync_refund_status: derive the order's payment_status from refunded_amount
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION sync_refund_status(p_order_id uuid)
+RETURNS payment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_status payment_status;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  v_status := CASE
+    WHEN v_order.refunded_amount >= v_order.total_amount THEN 'refunded'
+    WHEN v_order.refunded_amount > 0 THEN 'partially_refunded'
+    ELSE 'completed'
+  END;
+
+  UPDATE orders
+  SET payment_status = v_status,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  UPDATE payment_transactions
+  SET status = CASE WHEN v_status = 'refunded' THEN 'refunded' ELSE 'completed' END::payment_status,
+      updated_at = now()
+  WHERE order_id = p_order_id
+    AND status IN ('completed', 'refunded');
+
+  RETURN v_status;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- create_refund: hold a refund against a paid order
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "order_item_id": uuid, "quantity": int }]. When empty the
+-- refund is for p_amount, or the whole remaining balance when that is NULL
+-- too. Line amounts include the order's tax share; shipping is only returned
+-- by a whole-order refund.
+CREATE OR REPLACE FUNCTION create_refund(
+  p_order_id uuid,
+  p_items jsonb,
+  p_reason text,
+  p_method text,
+  p_created_by uuid,
+  p_status text DEFAULT 'pending',
+  p_amount decimal DEFAULT NULL
+) RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item order_items%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_line_amount decimal(10, 2);
+  v_lines jsonb := '[]'::jsonb;
+  v_amount decimal(10, 2) := 0;
+  v_tx_id uuid;
+  v_refund refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    v_amount := COALESCE(p_amount, v_order.total_amount - v_order.refunded_amount);
+  ELSE
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT * INTO v_item
+      FROM order_items
+      WHERE id = (v_line->>'order_item_id')::uuid
+        AND order_id = p_order_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item is not part of this order';
+      END IF;
+
+      IF v_quantity IS NULL OR v_quantity <= 0
+         OR v_item.refunded_quantity + v_quantity > v_item.quantity THEN
+        RAISE EXCEPTION 'Cannot refund % more of %', v_quantity, v_item.product_name;
+      END IF;
+
+      v_line_amount := round(
+        v_item.unit_price * v_quantity
+          * (1 + CASE WHEN v_order.subtotal > 0 THEN v_order.tax / v_order.subtotal ELSE 0 END),
+        2
+      );
+
+      UPDATE order_items
+      SET refunded_quantity = refunded_quantity + v_quantity
+      WHERE id = v_item.id;
+
+      v_amount := v_amount + v_line_amount;
+      v_lines := v_lines || jsonb_build_object(
+        'order_item_id', v_item.id,
+        'product_name', v_item.product_name,
+        'quantity', v_quantity,
+        'amount', v_line_amount
+      );
+    END LOOP;
+  END IF;
+
+  -- Never refund more than is left on the order
+  v_amount := LEAST(v_amount, v_order.total_amount - v_order.refunded_amount);
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to refund on this order';
+  END IF;
+
+  SELECT id INTO v_tx_id
+  FROM payment_transactions
+  WHERE order_id = p_order_id
+    AND status IN ('completed', 'refunded')
+  ORDER BY verified_at DESC NULLS LAST
+  LIMIT 1;
+
+  INSERT INTO refunds (
+    order_id, payment_transaction_id, amount, reason, method, status,
+    items, created_by, processed_at
+  ) VALUES (
+    p_order_id, v_tx_id, v_amount, p_reason, p_method, p_status,
+    v_lines, p_created_by, CASE WHEN p_status = 'processed' THEN now() END
+  )
+  RETURNING * INTO v_refund;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + v_amount
+  WHERE id = p_order_id;
+
+  PERFORM sync_refund_status(p_order_id);
+
+  RETURN v_refund;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- complete_refund: record the gateway's answer for a pending refund
+-- -----------------------------------------------------------------------------
+-- A failed refund gives its amount and line quantities back to the order.
+CREATE OR REPLACE FUNCTION complete_refund(
+  p_refund_id uuid,
+  p_status text,
+  p_provider_refund_id text DEFAULT NULL
+) RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund refunds%ROWTYPE;
+  v_line jsonb;
+BEGIN
+  SELECT * INTO v_refund FROM refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status <> 'pending' OR p_status = 'pending' THEN
+    RETURN v_refund;
+  END IF;
+
+  UPDATE refunds
+  SET status = p_status,
+      provider_refund_id = COALESCE(p_provider_refund_id, provider_refund_id),
+      processed_at = now()
+  WHERE id = p_refund_id
+  RETURNING * INTO v_refund;
+
+  IF p_status = 'failed' THEN
+    PERFORM 1 FROM orders WHERE id = v_refund.order_id FOR UPDATE;
+
+    UPDATE orders
+    SET refunded_amount = GREATEST(refunded_amount - v_refund.amount, 0)
+    WHERE id = v_refund.order_id;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(v_refund.items) LOOP
+      UPDATE order_items
+      SET refunded_quantity = GREATEST(refunded_quantity - (v_line->>'quantity')::integer, 0)
+      WHERE id = (v_line->>'order_item_id')::uuid;
+    END LOOP;
+
+    PERFORM sync_refund_status(v_refund.order_id);
+  END IF;
+
+  RETURN v_refund;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION sync_refund_status FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION create_refund FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION complete_refund FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,112 @@
+-- =============================================================================
+-- Payment Retry & Unpaid Order Expiry
+-- =============================================================================
+--
+-- Customers can come back to an unpaid (or failed) order and pay it with a
+-- fresh reference. Orders still unpaid after the payment window are
+-- cancelled and their stock released.
+
+-- -----------------------------------------------------------------------------
+-- reopen_order_payment: make an unpaid order ready for a new payment attempt
+-- -----------------------------------------------------------------------------
+-- Earlier attempts still pending are superseded so a late answer for an old
+-- reference cannot fail the new one. Stock released by an expired
+-- reservation or a failed payment is taken again (raises when it has sold
+-- out meanwhile).
+CREATE OR REPLACE FUNCTION reopen_order_payment(
+  p_order_id uuid,
+  p_reservation_minutes integer,
+  p_window_minutes integer
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'cancelled' OR v_order.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'This order is no longer awaiting payment';
+  END IF;
+
+  IF v_order.created_at < now() - make_interval(mins => p_window_minutes) THEN
+    RAISE EXCEPTION 'This order has expired. Please place a new order.';
+  END IF;
+
+  UPDATE payment_transactions
+  SET status = 'failed',
+      gateway_response = 'Superseded by a new payment attempt',
+      updated_at = now()
+  WHERE order_id = p_order_id
+    AND status = 'pending';
+
+  IF v_order.stock_reserved THEN
+    UPDATE orders
+    SET reservation_expires_at = now() + make_interval(mins => p_reservation_minutes)
+    WHERE id = p_order_id;
+  ELSE
+    PERFORM reserve_order_stock(p_order_id, p_reservation_minutes);
+  END IF;
+
+  UPDATE orders
+  SET payment_status = 'pending',
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- cancel_unpaid_order: cancel an order whose payment window has passed
+-- -----------------------------------------------------------------------------
+-- Returns false when the order was paid (or otherwise moved on) meanwhile.
+CREATE OR REPLACE FUNCTION cancel_unpaid_order(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM orders
+  WHERE id = p_order_id
+    AND status = 'pending'
+    AND payment_status IN ('pending', 'failed')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM release_order_stock(p_order_id);
+
+  UPDATE payment_transactions
+  SET status = 'failed',
+      gateway_response = 'Order cancelled: payment window expired',
+      updated_at = now()
+  WHERE order_id = p_order_id
+    AND status = 'pending';
+
+  UPDATE orders
+  SET status = 'cancelled',
+      payment_status = 'failed',
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_unpaid_created
+  ON orders(created_at)
+  WHERE status = 'pending' AND payment_status IN ('pending', 'failed');
+
+REVOKE ALL ON FUNCTION reopen_order_payment FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cancel_unpaid_order FROM PUBLIC, anon, authenticated;
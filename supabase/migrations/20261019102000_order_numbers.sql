@@ -0,0 +1,62 @@
+-- =============================================================================
+-- Order Numbers
+-- =============================================================================
+--
+-- Order numbers come from a database sequence so they are unique under any
+-- concurrency, and are short enough to read out over the phone:
+--
+--   JR-2026-000123-3
+--      year  seq    Luhn check digit over year + seq
+--
+-- The check digit lets support spot a mistyped number before searching
+-- (see src/utils/orders/order-number.ts for the same calculation).
+-- Payment references are the order number plus an attempt suffix.
+
+CREATE SEQUENCE IF NOT EXISTS order_number_seq;
+
+CREATE OR REPLACE FUNCTION luhn_check_digit(p_digits text)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_sum integer := 0;
+  v_digit integer;
+  v_double boolean := true;
+  i integer;
+BEGIN
+  FOR i IN REVERSE length(p_digits)..1 LOOP
+    v_digit := substr(p_digits, i, 1)::integer;
+    IF v_double THEN
+      v_digit := v_digit * 2;
+      IF v_digit > 9 THEN
+        v_digit := v_digit - 9;
+      END IF;
+    END IF;
+    v_sum := v_sum + v_digit;
+    v_double := NOT v_double;
+  END LOOP;
+
+  RETURN (10 - v_sum % 10) % 10;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION next_order_number()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_year text := to_char(now() AT TIME ZONE 'Africa/Lagos', 'YYYY');
+  v_seq text := nextval('order_number_seq')::text;
+BEGIN
+  IF length(v_seq) < 6 THEN
+    v_seq := lpad(v_seq, 6, '0');
+  END IF;
+
+  RETURN 'JR-' || v_year || '-' || v_seq || '-' || luhn_check_digit(v_year || v_seq);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION next_order_number FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,52 @@
+-- =============================================================================
+-- Payment Reconciliation
+-- =============================================================================
+--
+-- A reconciliation run compares our orders and payment attempts with each
+-- gateway's transaction list for a date range. Every discrepancy becomes a
+-- reconciliation_items row that staff resolve from /admin/reconciliation.
+-- Only the service role reads or writes these tables; admin pages go through
+-- server actions.
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  range_from timestamptz NOT NULL,
+  range_to timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  -- { providers: { name: count }, orders_checked, mismatches, error? }
+  summary jsonb NOT NULL DEFAULT '{}'::jsonb,
+  triggered_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS reconciliation_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES reconciliation_runs(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN (
+    'paid_order_pending',            -- gateway says paid, order is not
+    'completed_without_transaction', -- order paid, gateway has no successful charge
+    'amount_mismatch'                -- gateway charged a different amount
+  )),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  provider text,
+  reference text,
+  expected_amount decimal(10, 2),
+  provider_amount decimal(10, 2),
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'resolved')),
+  resolution text,
+  resolved_by uuid REFERENCES profiles(id),
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- The same discrepancy is only reported once while it is open
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reconciliation_items_open
+  ON reconciliation_items(kind, order_id, COALESCE(reference, ''))
+  WHERE status = 'open';
+
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_items ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,165 @@
+-- =============================================================================
+-- Order Status History
+-- =============================================================================
+--
+-- Order status changes go through transition_order_status, which records
+-- every move in order_status_history. Which moves are allowed (and what they
+-- require, e.g. a tracking number for 'shipped') is decided by the state
+-- machine in src/utils/orders/status-machine.ts before the call; the function
+-- only guarantees the order is still in the status the caller saw.
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS tracking_number text;
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status order_status,          -- NULL for the placement entry
+  to_status order_status NOT NULL,
+  note text,
+  tracking_number text,
+  changed_by uuid REFERENCES profiles(id), -- NULL for the customer or system jobs
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+  ON order_status_history(order_id, created_at);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers view own order status history"
+  ON order_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Existing orders: a placement entry, plus their current status if it moved on
+INSERT INTO order_status_history (order_id, from_status, to_status, created_at)
+SELECT id, NULL, 'pending', created_at FROM orders;
+
+INSERT INTO order_status_history (order_id, from_status, to_status, note, created_at)
+SELECT id, 'pending', status, 'Recorded before status history', updated_at
+FROM orders
+WHERE status <> 'pending';
+
+-- -----------------------------------------------------------------------------
+-- Placement entry for new orders
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION record_order_placed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO order_status_history (order_id, from_status, to_status, created_at)
+  VALUES (NEW.id, NULL, NEW.status, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_order_placed_history ON orders;
+CREATE TRIGGER trg_order_placed_history
+  AFTER INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION record_order_placed();
+
+-- -----------------------------------------------------------------------------
+-- transition_order_status
+-- -----------------------------------------------------------------------------
+-- Moves an order from p_from to p_to and records the change. Raises when the
+-- order is no longer in p_from (someone else moved it meanwhile).
+-- Cancelling hands reserved stock back and closes any unpaid payment attempt.
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id uuid,
+  p_from order_status,
+  p_to order_status,
+  p_changed_by uuid,
+  p_note text DEFAULT NULL,
+  p_tracking_number text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> p_from THEN
+    RAISE EXCEPTION 'Order is now %; refresh and try again', v_order.status;
+  END IF;
+
+  IF p_to = 'cancelled' THEN
+    PERFORM release_order_stock(p_order_id);
+
+    UPDATE payment_transactions
+    SET status = 'failed',
+        gateway_response = 'Order cancelled: ' || COALESCE(p_note, 'no reason given'),
+        updated_at = now()
+    WHERE order_id = p_order_id
+      AND status = 'pending';
+
+    UPDATE orders
+    SET payment_status = 'failed'
+    WHERE id = p_order_id
+      AND payment_status IN ('pending', 'pay_on_delivery');
+  END IF;
+
+  UPDATE orders
+  SET status = p_to,
+      tracking_number = COALESCE(p_tracking_number, tracking_number),
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_status_history (
+    order_id, from_status, to_status, note, tracking_number, changed_by
+  ) VALUES (
+    p_order_id, p_from, p_to, p_note, p_tracking_number, p_changed_by
+  );
+
+  RETURN v_order;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- cancel_unpaid_order: now recorded in the status history
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION cancel_unpaid_order(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM orders
+  WHERE id = p_order_id
+    AND status = 'pending'
+    AND payment_status IN ('pending', 'failed')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM transition_order_status(
+    p_order_id, 'pending', 'cancelled', NULL, 'Payment window expired'
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_order_status FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cancel_unpaid_order FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_order_placed FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,184 @@
+-- =============================================================================
+-- Return Requests (RMA)
+-- =============================================================================
+--
+-- Customers ask to return items from a delivered order with a reason and
+-- photos. Staff approve or reject the request, receive the goods back
+-- (optionally restocking them), then refund. Receiving moves the order to
+-- 'returned' through transition_order_status.
+--
+--   requested → approved → received → refunded
+--       ↓
+--   rejected
+--
+-- Customers read their own requests; all writes go through server actions.
+
+CREATE TABLE IF NOT EXISTS return_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id),
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'refunded')),
+  reason text NOT NULL,
+  -- [{ order_item_id, product_id, product_name, quantity }]
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  photos text[] NOT NULL DEFAULT '{}',
+  admin_note text,
+  restocked boolean NOT NULL DEFAULT false,
+  refund_id uuid REFERENCES refunds(id),
+  reviewed_by uuid REFERENCES profiles(id),
+  reviewed_at timestamptz,
+  received_by uuid REFERENCES profiles(id),
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One open request per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_return_requests_open
+  ON return_requests(order_id)
+  WHERE status IN ('requested', 'approved', 'received');
+
+CREATE INDEX IF NOT EXISTS idx_return_requests_status
+  ON return_requests(status, created_at);
+
+ALTER TABLE return_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers view own return requests"
+  ON return_requests FOR SELECT
+  USING (user_id = auth.uid());
+
+-- -----------------------------------------------------------------------------
+-- create_return_request
+-- -----------------------------------------------------------------------------
+-- p_items: [{ order_item_id, quantity }]. Quantities are checked against what
+-- was bought less what has already been refunded.
+CREATE OR REPLACE FUNCTION create_return_request(
+  p_order_id uuid,
+  p_user_id uuid,
+  p_reason text,
+  p_items jsonb,
+  p_photos text[] DEFAULT '{}'
+)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_line jsonb;
+  v_item order_items%ROWTYPE;
+  v_quantity integer;
+  v_items jsonb := '[]'::jsonb;
+  v_request return_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders
+  WHERE id = p_order_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Only delivered orders can be returned';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to return';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    SELECT * INTO v_item FROM order_items
+    WHERE id = (v_line->>'order_item_id')::uuid
+      AND order_id = p_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of this order';
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0
+       OR v_quantity > v_item.quantity - v_item.refunded_quantity THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', v_item.product_name;
+    END IF;
+
+    v_items := v_items || jsonb_build_object(
+      'order_item_id', v_item.id,
+      'product_id', v_item.product_id,
+      'product_name', v_item.product_name,
+      'quantity', v_quantity
+    );
+  END LOOP;
+
+  INSERT INTO return_requests (order_id, user_id, reason, items, photos)
+  VALUES (p_order_id, p_user_id, p_reason, v_items, COALESCE(p_photos, '{}'))
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- receive_return
+-- -----------------------------------------------------------------------------
+-- Records the goods as back in hand, optionally returning them to stock, and
+-- moves the order to 'returned'.
+CREATE OR REPLACE FUNCTION receive_return(
+  p_return_id uuid,
+  p_restock boolean,
+  p_received_by uuid
+)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request return_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF v_request.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved returns can be received';
+  END IF;
+
+  IF p_restock THEN
+    UPDATE products p
+    SET stock_quantity = p.stock_quantity + line.quantity,
+        updated_at = now()
+    FROM (
+      SELECT (value->>'product_id')::uuid AS product_id,
+             SUM((value->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(v_request.items)
+      GROUP BY 1
+    ) line
+    WHERE p.id = line.product_id;
+  END IF;
+
+  PERFORM transition_order_status(
+    v_request.order_id, 'delivered', 'returned', p_received_by,
+    'Return received: ' || v_request.reason
+  );
+
+  UPDATE return_requests
+  SET status = 'received',
+      restocked = p_restock,
+      received_by = p_received_by,
+      received_at = now(),
+      updated_at = now()
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_return_request FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION receive_return FROM PUBLIC, anon, authenticated;
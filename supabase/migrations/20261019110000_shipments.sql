@@ -0,0 +1,251 @@
+-- =============================================================================
+-- Shipments
+-- =============================================================================
+--
+-- An order ships in one or more shipments, each covering some of its items
+-- with its own courier, tracking number, ship date and ETA. The order's
+-- fulfilment status is derived from its shipments (sync_order_fulfilment):
+--
+-- - 'shipped' once the first shipment leaves
+-- - 'delivered' once every item has shipped and every shipment is delivered
+--
+-- orders.tracking_number and orders.estimated_delivery_date mirror the most
+-- recent shipment / latest outstanding ETA for existing screens and emails.
+
+CREATE TABLE IF NOT EXISTS shipments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  courier text NOT NULL,
+  tracking_number text NOT NULL,
+  status text NOT NULL DEFAULT 'shipped'
+    CHECK (status IN ('shipped', 'in_transit', 'delivered')),
+  shipped_at timestamptz NOT NULL DEFAULT now(),
+  estimated_delivery_date date,
+  delivered_at timestamptz,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS shipment_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_order ON shipments(order_id, shipped_at);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_shipment ON shipment_items(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_order_item ON shipment_items(order_item_id);
+
+ALTER TABLE shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipment_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers view own shipments"
+  ON shipments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = shipments.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Customers view own shipment items"
+  ON shipment_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM shipments
+      JOIN orders ON orders.id = shipments.order_id
+      WHERE shipments.id = shipment_items.shipment_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- -----------------------------------------------------------------------------
+-- sync_order_fulfilment: derive the order status from its shipments
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION sync_order_fulfilment(
+  p_order_id uuid,
+  p_changed_by uuid
+)
+RETURNS order_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_latest shipments%ROWTYPE;
+  v_all_shipped boolean;
+  v_all_delivered boolean;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  SELECT * INTO v_latest FROM shipments
+  WHERE order_id = p_order_id
+  ORDER BY shipped_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN v_order.status;
+  END IF;
+
+  -- Lines refunded before shipping no longer need to ship
+  SELECT bool_and(oi.quantity - oi.refunded_quantity <= COALESCE(s.shipped, 0)) INTO v_all_shipped
+  FROM order_items oi
+  LEFT JOIN (
+    SELECT si.order_item_id, SUM(si.quantity) AS shipped
+    FROM shipment_items si
+    JOIN shipments sh ON sh.id = si.shipment_id
+    WHERE sh.order_id = p_order_id
+    GROUP BY si.order_item_id
+  ) s ON s.order_item_id = oi.id
+  WHERE oi.order_id = p_order_id;
+
+  SELECT bool_and(status = 'delivered') INTO v_all_delivered
+  FROM shipments WHERE order_id = p_order_id;
+
+  UPDATE orders
+  SET tracking_number = v_latest.tracking_number,
+      estimated_delivery_date = COALESCE(
+        (SELECT MAX(estimated_delivery_date) FROM shipments
+         WHERE order_id = p_order_id AND status <> 'delivered'),
+        estimated_delivery_date
+      ),
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  IF v_order.status = 'confirmed' THEN
+    PERFORM transition_order_status(
+      p_order_id, 'confirmed', 'shipped', p_changed_by,
+      CASE WHEN v_all_shipped THEN NULL ELSE 'Partially shipped' END,
+      v_latest.tracking_number
+    );
+    v_order.status := 'shipped';
+  END IF;
+
+  IF v_order.status = 'shipped' AND v_all_shipped AND v_all_delivered THEN
+    PERFORM transition_order_status(
+      p_order_id, 'shipped', 'delivered', p_changed_by, NULL, NULL
+    );
+    v_order.status := 'delivered';
+  END IF;
+
+  RETURN v_order.status;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- create_shipment
+-- -----------------------------------------------------------------------------
+-- p_items: [{ order_item_id, quantity }]. Each quantity must fit in what is
+-- left to ship for that line (bought, less refunded, less already shipped).
+CREATE OR REPLACE FUNCTION create_shipment(
+  p_order_id uuid,
+  p_items jsonb,
+  p_courier text,
+  p_tracking_number text,
+  p_estimated_delivery_date date,
+  p_created_by uuid
+)
+RETURNS shipments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_line jsonb;
+  v_item order_items%ROWTYPE;
+  v_quantity integer;
+  v_shipped integer;
+  v_shipment shipments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('confirmed', 'shipped') THEN
+    RAISE EXCEPTION 'Only confirmed orders can be shipped';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to ship';
+  END IF;
+
+  INSERT INTO shipments (
+    order_id, courier, tracking_number, estimated_delivery_date, created_by
+  ) VALUES (
+    p_order_id, p_courier, p_tracking_number, p_estimated_delivery_date, p_created_by
+  )
+  RETURNING * INTO v_shipment;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    SELECT * INTO v_item FROM order_items
+    WHERE id = (v_line->>'order_item_id')::uuid
+      AND order_id = p_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of this order';
+    END IF;
+
+    SELECT COALESCE(SUM(si.quantity), 0) INTO v_shipped
+    FROM shipment_items si
+    WHERE si.order_item_id = v_item.id;
+
+    IF v_quantity IS NULL OR v_quantity <= 0
+       OR v_quantity > v_item.quantity - v_item.refunded_quantity - v_shipped THEN
+      RAISE EXCEPTION 'Invalid shipment quantity for %', v_item.product_name;
+    END IF;
+
+    INSERT INTO shipment_items (shipment_id, order_item_id, quantity)
+    VALUES (v_shipment.id, v_item.id, v_quantity);
+  END LOOP;
+
+  PERFORM sync_order_fulfilment(p_order_id, p_created_by);
+
+  RETURN v_shipment;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- update_shipment_status
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION update_shipment_status(
+  p_shipment_id uuid,
+  p_status text,
+  p_changed_by uuid
+)
+RETURNS shipments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+BEGIN
+  UPDATE shipments
+  SET status = p_status,
+      delivered_at = CASE WHEN p_status = 'delivered' THEN now() ELSE NULL END,
+      updated_at = now()
+  WHERE id = p_shipment_id
+  RETURNING * INTO v_shipment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+
+  PERFORM sync_order_fulfilment(v_shipment.order_id, p_changed_by);
+
+  RETURN v_shipment;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION sync_order_fulfilment FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION create_shipment FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION update_shipment_status FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,58 @@
+-- =============================================================================
+-- Courier Integrations & Tracking Events
+-- =============================================================================
+--
+-- Shipments booked through a courier integration (src/utils/couriers) keep
+-- the courier adapter, label and cost, plus every tracking event the courier
+-- reports. The poll-courier-tracking job stores new events and moves the
+-- shipment (and through sync_order_fulfilment, the order) along as the
+-- courier scans the parcel. Shipments entered by hand have no
+-- courier_provider and are still updated from /admin/orders.
+
+ALTER TABLE shipments
+  ADD COLUMN IF NOT EXISTS courier_provider text,
+  ADD COLUMN IF NOT EXISTS label_url text,
+  ADD COLUMN IF NOT EXISTS shipping_cost numeric(10,2),
+  ADD COLUMN IF NOT EXISTS tracking_status text
+    CHECK (tracking_status IN (
+      'booked', 'picked_up', 'in_transit', 'out_for_delivery',
+      'delivered', 'failed_delivery', 'returned'
+    )),
+  ADD COLUMN IF NOT EXISTS last_tracked_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_shipments_tracking
+  ON shipments(last_tracked_at)
+  WHERE courier_provider IS NOT NULL AND status <> 'delivered';
+
+CREATE TABLE IF NOT EXISTS shipment_tracking_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  -- Courier's own identity for the event, so re-polling never duplicates it
+  event_key text NOT NULL,
+  status text NOT NULL
+    CHECK (status IN (
+      'booked', 'picked_up', 'in_transit', 'out_for_delivery',
+      'delivered', 'failed_delivery', 'returned'
+    )),
+  description text NOT NULL,
+  location text,
+  occurred_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (shipment_id, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipment_tracking_events_shipment
+  ON shipment_tracking_events(shipment_id, occurred_at);
+
+ALTER TABLE shipment_tracking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers view own shipment tracking"
+  ON shipment_tracking_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM shipments
+      JOIN orders ON orders.id = shipments.order_id
+      WHERE shipments.id = shipment_tracking_events.shipment_id
+        AND orders.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,146 @@
+-- =============================================================================
+-- Shipping Zones & Rate Tables
+-- =============================================================================
+--
+-- Replaces the flat checkout shipping fee. Each zone covers one or more
+-- states, optionally narrowed to named LGAs, and prices parcels from a rate
+-- table by weight (kg) or item count:
+--
+--   rate_table: [{ "up_to": 2, "fee": 1500 }, { "up_to": null, "fee": 3000 }]
+--
+-- A tier applies up to and including `up_to`; the null tier catches the
+-- rest. Orders keep the structured destination and the zone they were
+-- priced with.
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  states text[] NOT NULL,
+  lgas text[] NOT NULL DEFAULT '{}',
+  rate_basis text NOT NULL DEFAULT 'weight'
+    CHECK (rate_basis IN ('weight', 'item_count')),
+  rate_table jsonb NOT NULL DEFAULT '[]',
+  free_shipping_threshold numeric(10,2),
+  min_delivery_days integer NOT NULL DEFAULT 1 CHECK (min_delivery_days >= 0),
+  max_delivery_days integer NOT NULL DEFAULT 3,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (max_delivery_days >= min_delivery_days)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_zones_states ON shipping_zones USING gin(states);
+
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+
+-- Rates are public information; changes go through admin actions
+CREATE POLICY "Anyone can view active shipping zones"
+  ON shipping_zones FOR SELECT
+  USING (is_active);
+
+-- Keep today's behaviour until zones are set up: ₦2,500 anywhere, free above ₦50,000
+INSERT INTO shipping_zones (
+  name, states, rate_basis, rate_table, free_shipping_threshold,
+  min_delivery_days, max_delivery_days
+) VALUES (
+  'Nationwide',
+  ARRAY[
+    'Abia', 'Adamawa', 'Akwa Ibom', 'Anambra', 'Bauchi', 'Bayelsa', 'Benue',
+    'Borno', 'Cross River', 'Delta', 'Ebonyi', 'Edo', 'Ekiti', 'Enugu', 'FCT',
+    'Gombe', 'Imo', 'Jigawa', 'Kaduna', 'Kano', 'Katsina', 'Kebbi', 'Kogi',
+    'Kwara', 'Lagos', 'Nasarawa', 'Niger', 'Ogun', 'Ondo', 'Osun', 'Oyo',
+    'Plateau', 'Rivers', 'Sokoto', 'Taraba', 'Yobe', 'Zamfara'
+  ],
+  'item_count',
+  '[{ "up_to": null, "fee": 2500 }]',
+  50000,
+  3,
+  7
+);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS shipping_state text,
+  ADD COLUMN IF NOT EXISTS shipping_lga text,
+  ADD COLUMN IF NOT EXISTS shipping_city text,
+  ADD COLUMN IF NOT EXISTS shipping_zone_id uuid REFERENCES shipping_zones(id) ON DELETE SET NULL;
+
+-- -----------------------------------------------------------------------------
+-- place_order: now records the structured destination and delivery estimate
+-- -----------------------------------------------------------------------------
+-- p_shipping: { "state", "lga", "city", "zone_id", "estimated_delivery_date" }
+DROP FUNCTION IF EXISTS place_order(uuid, text, decimal, decimal, decimal, decimal, text, text, jsonb, integer);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_order_number text,
+  p_subtotal decimal,
+  p_tax decimal,
+  p_shipping_cost decimal,
+  p_total_amount decimal,
+  p_shipping_address text,
+  p_billing_address text,
+  p_items jsonb,
+  p_reservation_minutes integer DEFAULT 30,
+  p_shipping jsonb DEFAULT '{}'
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+BEGIN
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot place an order without items';
+  END IF;
+
+  -- Lock products in a stable order to avoid deadlocks between checkouts
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    UPDATE products
+    SET stock_quantity = stock_quantity - (v_item->>'quantity')::integer,
+        updated_at = now()
+    WHERE id = (v_item->>'product_id')::uuid
+      AND is_active
+      AND stock_quantity >= (v_item->>'quantity')::integer;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item->>'product_name';
+    END IF;
+  END LOOP;
+
+  INSERT INTO orders (
+    user_id, order_number, subtotal, tax, shipping_cost, total_amount,
+    shipping_address, billing_address, status, payment_status,
+    stock_reserved, reservation_expires_at,
+    shipping_state, shipping_lga, shipping_city, shipping_zone_id,
+    estimated_delivery_date
+  ) VALUES (
+    p_user_id, p_order_number, p_subtotal, p_tax, p_shipping_cost, p_total_amount,
+    p_shipping_address, p_billing_address, 'pending', 'pending',
+    true, now() + make_interval(mins => p_reservation_minutes),
+    p_shipping->>'state', p_shipping->>'lga', p_shipping->>'city',
+    (p_shipping->>'zone_id')::uuid,
+    (p_shipping->>'estimated_delivery_date')::date
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, product_name, quantity, unit_price, total_price)
+  SELECT
+    v_order.id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::decimal,
+    (value->>'total_price')::decimal
+  FROM jsonb_array_elements(p_items);
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order FROM PUBLIC, anon, authenticated;
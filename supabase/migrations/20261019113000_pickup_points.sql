@@ -0,0 +1,171 @@
+-- =============================================================================
+-- Store Pickup Points
+-- =============================================================================
+--
+-- Customers can collect an order from a pickup point (our showroom or a
+-- partner store) instead of having it delivered, with no shipping fee.
+-- Each pickup order gets a code at placement; staff check it from
+-- /admin/orders when the customer collects (collect_pickup_order), which
+-- marks the order delivered.
+
+CREATE TABLE IF NOT EXISTS pickup_points (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  address text NOT NULL,
+  city text NOT NULL,
+  state text NOT NULL,
+  phone text,
+  opening_hours text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE pickup_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active pickup points"
+  ON pickup_points FOR SELECT
+  USING (is_active);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS fulfilment_method text NOT NULL DEFAULT 'delivery'
+    CHECK (fulfilment_method IN ('delivery', 'pickup')),
+  ADD COLUMN IF NOT EXISTS pickup_point_id uuid REFERENCES pickup_points(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pickup_code text,
+  ADD COLUMN IF NOT EXISTS picked_up_at timestamptz,
+  ADD COLUMN IF NOT EXISTS picked_up_by uuid REFERENCES profiles(id);
+
+-- -----------------------------------------------------------------------------
+-- place_order: also records pickup orders
+-- -----------------------------------------------------------------------------
+-- p_shipping: { "state", "lga", "city", "zone_id", "estimated_delivery_date",
+--               "fulfilment_method", "pickup_point_id", "pickup_code" }
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_order_number text,
+  p_subtotal decimal,
+  p_tax decimal,
+  p_shipping_cost decimal,
+  p_total_amount decimal,
+  p_shipping_address text,
+  p_billing_address text,
+  p_items jsonb,
+  p_reservation_minutes integer DEFAULT 30,
+  p_shipping jsonb DEFAULT '{}'
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+BEGIN
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot place an order without items';
+  END IF;
+
+  -- Lock products in a stable order to avoid deadlocks between checkouts
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    UPDATE products
+    SET stock_quantity = stock_quantity - (v_item->>'quantity')::integer,
+        updated_at = now()
+    WHERE id = (v_item->>'product_id')::uuid
+      AND is_active
+      AND stock_quantity >= (v_item->>'quantity')::integer;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item->>'product_name';
+    END IF;
+  END LOOP;
+
+  INSERT INTO orders (
+    user_id, order_number, subtotal, tax, shipping_cost, total_amount,
+    shipping_address, billing_address, status, payment_status,
+    stock_reserved, reservation_expires_at,
+    shipping_state, shipping_lga, shipping_city, shipping_zone_id,
+    estimated_delivery_date, fulfilment_method, pickup_point_id, pickup_code
+  ) VALUES (
+    p_user_id, p_order_number, p_subtotal, p_tax, p_shipping_cost, p_total_amount,
+    p_shipping_address, p_billing_address, 'pending', 'pending',
+    true, now() + make_interval(mins => p_reservation_minutes),
+    p_shipping->>'state', p_shipping->>'lga', p_shipping->>'city',
+    (p_shipping->>'zone_id')::uuid,
+    (p_shipping->>'estimated_delivery_date')::date,
+    COALESCE(p_shipping->>'fulfilment_method', 'delivery'),
+    (p_shipping->>'pickup_point_id')::uuid,
+    p_shipping->>'pickup_code'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, product_name, quantity, unit_price, total_price)
+  SELECT
+    v_order.id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::decimal,
+    (value->>'total_price')::decimal
+  FROM jsonb_array_elements(p_items);
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- collect_pickup_order
+-- -----------------------------------------------------------------------------
+-- Hands a paid, confirmed pickup order over once the customer's code matches.
+CREATE OR REPLACE FUNCTION collect_pickup_order(
+  p_order_id uuid,
+  p_pickup_code text,
+  p_collected_by uuid
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.fulfilment_method <> 'pickup' THEN
+    RAISE EXCEPTION 'This order is not for pickup';
+  END IF;
+
+  IF v_order.picked_up_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This order has already been collected';
+  END IF;
+
+  IF v_order.status <> 'confirmed' OR v_order.payment_status <> 'completed' THEN
+    RAISE EXCEPTION 'This order is not ready for pickup';
+  END IF;
+
+  IF v_order.pickup_code IS DISTINCT FROM upper(trim(p_pickup_code)) THEN
+    RAISE EXCEPTION 'Pickup code does not match';
+  END IF;
+
+  UPDATE orders
+  SET picked_up_at = now(),
+      picked_up_by = p_collected_by
+  WHERE id = p_order_id;
+
+  RETURN transition_order_status(
+    p_order_id, 'confirmed', 'delivered', p_collected_by, 'Collected in store', NULL
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION collect_pickup_order FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,158 @@
+-- =============================================================================
+-- Customer Address Book
+-- =============================================================================
+--
+-- Customers keep labelled, structured addresses (one of them the default)
+-- and pick one at checkout instead of typing the address every time.
+-- Orders keep a snapshot of the structured address they were placed with,
+-- so editing or deleting an address book entry never rewrites an order.
+
+CREATE TABLE IF NOT EXISTS user_addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  full_name text NOT NULL,
+  phone text NOT NULL,
+  street text NOT NULL,
+  city text NOT NULL,
+  lga text NOT NULL,
+  state text NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_addresses_user
+  ON user_addresses(user_id, created_at);
+
+-- At most one default per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_default
+  ON user_addresses(user_id)
+  WHERE is_default;
+
+ALTER TABLE user_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers manage own addresses"
+  ON user_addresses FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Making an address the default clears the previous one
+CREATE OR REPLACE FUNCTION clear_other_default_addresses()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_addresses
+  SET is_default = false,
+      updated_at = now()
+  WHERE user_id = NEW.user_id
+    AND id <> NEW.id
+    AND is_default;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION clear_other_default_addresses FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS user_addresses_single_default ON user_addresses;
+CREATE TRIGGER user_addresses_single_default
+  BEFORE INSERT OR UPDATE OF is_default ON user_addresses
+  FOR EACH ROW
+  WHEN (NEW.is_default)
+  EXECUTE FUNCTION clear_other_default_addresses();
+
+-- { full_name, phone, street, city, lga, state } as it was at checkout
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS shipping_address_snapshot jsonb,
+  ADD COLUMN IF NOT EXISTS billing_address_snapshot jsonb;
+
+-- -----------------------------------------------------------------------------
+-- place_order: also snapshots the structured addresses
+-- -----------------------------------------------------------------------------
+-- p_shipping: { "state", "lga", "city", "zone_id", "estimated_delivery_date",
+--               "fulfilment_method", "pickup_point_id", "pickup_code",
+--               "address", "billing_address" }
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_order_number text,
+  p_subtotal decimal,
+  p_tax decimal,
+  p_shipping_cost decimal,
+  p_total_amount decimal,
+  p_shipping_address text,
+  p_billing_address text,
+  p_items jsonb,
+  p_reservation_minutes integer DEFAULT 30,
+  p_shipping jsonb DEFAULT '{}'
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+BEGIN
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot place an order without items';
+  END IF;
+
+  -- Lock products in a stable order to avoid deadlocks between checkouts
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    UPDATE products
+    SET stock_quantity = stock_quantity - (v_item->>'quantity')::integer,
+        updated_at = now()
+    WHERE id = (v_item->>'product_id')::uuid
+      AND is_active
+      AND stock_quantity >= (v_item->>'quantity')::integer;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item->>'product_name';
+    END IF;
+  END LOOP;
+
+  INSERT INTO orders (
+    user_id, order_number, subtotal, tax, shipping_cost, total_amount,
+    shipping_address, billing_address, status, payment_status,
+    stock_reserved, reservation_expires_at,
+    shipping_state, shipping_lga, shipping_city, shipping_zone_id,
+    estimated_delivery_date, fulfilment_method, pickup_point_id, pickup_code,
+    shipping_address_snapshot, billing_address_snapshot
+  ) VALUES (
+    p_user_id, p_order_number, p_subtotal, p_tax, p_shipping_cost, p_total_amount,
+    p_shipping_address, p_billing_address, 'pending', 'pending',
+    true, now() + make_interval(mins => p_reservation_minutes),
+    p_shipping->>'state', p_shipping->>'lga', p_shipping->>'city',
+    (p_shipping->>'zone_id')::uuid,
+    (p_shipping->>'estimated_delivery_date')::date,
+    COALESCE(p_shipping->>'fulfilment_method', 'delivery'),
+    (p_shipping->>'pickup_point_id')::uuid,
+    p_shipping->>'pickup_code',
+    p_shipping->'address',
+    p_shipping->'billing_address'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, product_name, quantity, unit_price, total_price)
+  SELECT
+    v_order.id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::decimal,
+    (value->>'total_price')::decimal
+  FROM jsonb_array_elements(p_items);
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order FROM PUBLIC, anon, authenticated;
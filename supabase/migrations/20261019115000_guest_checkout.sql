@@ -0,0 +1,153 @@
+-- =============================================================================
+-- Guest Checkout
+-- =============================================================================
+--
+-- Visitors can check out without an account. A guest order has no user_id;
+-- it belongs to the email and phone given at checkout, and the guest reaches
+-- it through a signed lookup link emailed to them. When someone later signs
+-- in with a confirmed email matching guest orders, claim_guest_orders moves
+-- those orders onto their account.
+
+ALTER TABLE orders
+  ALTER COLUMN user_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS guest_email text,
+  ADD COLUMN IF NOT EXISTS guest_phone text,
+  ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+ALTER TABLE orders
+  DROP CONSTRAINT IF EXISTS orders_owner_check;
+ALTER TABLE orders
+  ADD CONSTRAINT orders_owner_check CHECK (user_id IS NOT NULL OR guest_email IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_orders_unclaimed_guest_email
+  ON orders(lower(guest_email))
+  WHERE user_id IS NULL;
+
+-- -----------------------------------------------------------------------------
+-- place_order: p_user_id may be NULL for guests, who pass p_guest instead
+-- -----------------------------------------------------------------------------
+-- p_guest: { "email", "phone" }
+DROP FUNCTION IF EXISTS place_order(uuid, text, decimal, decimal, decimal, decimal, text, text, jsonb, integer, jsonb);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_order_number text,
+  p_subtotal decimal,
+  p_tax decimal,
+  p_shipping_cost decimal,
+  p_total_amount decimal,
+  p_shipping_address text,
+  p_billing_address text,
+  p_items jsonb,
+  p_reservation_minutes integer DEFAULT 30,
+  p_shipping jsonb DEFAULT '{}',
+  p_guest jsonb DEFAULT NULL
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+BEGIN
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot place an order without items';
+  END IF;
+
+  IF p_user_id IS NULL AND COALESCE(p_guest->>'email', '') = '' THEN
+    RAISE EXCEPTION 'Guest orders need an email address';
+  END IF;
+
+  -- Lock products in a stable order to avoid deadlocks between checkouts
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    UPDATE products
+    SET stock_quantity = stock_quantity - (v_item->>'quantity')::integer,
+        updated_at = now()
+    WHERE id = (v_item->>'product_id')::uuid
+      AND is_active
+      AND stock_quantity >= (v_item->>'quantity')::integer;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item->>'product_name';
+    END IF;
+  END LOOP;
+
+  INSERT INTO orders (
+    user_id, order_number, subtotal, tax, shipping_cost, total_amount,
+    shipping_address, billing_address, status, payment_status,
+    stock_reserved, reservation_expires_at,
+    shipping_state, shipping_lga, shipping_city, shipping_zone_id,
+    estimated_delivery_date, fulfilment_method, pickup_point_id, pickup_code,
+    shipping_address_snapshot, billing_address_snapshot,
+    guest_email, guest_phone
+  ) VALUES (
+    p_user_id, p_order_number, p_subtotal, p_tax, p_shipping_cost, p_total_amount,
+    p_shipping_address, p_billing_address, 'pending', 'pending',
+    true, now() + make_interval(mins => p_reservation_minutes),
+    p_shipping->>'state', p_shipping->>'lga', p_shipping->>'city',
+    (p_shipping->>'zone_id')::uuid,
+    (p_shipping->>'estimated_delivery_date')::date,
+    COALESCE(p_shipping->>'fulfilment_method', 'delivery'),
+    (p_shipping->>'pickup_point_id')::uuid,
+    p_shipping->>'pickup_code',
+    p_shipping->'address',
+    p_shipping->'billing_address',
+    CASE WHEN p_user_id IS NULL THEN lower(trim(p_guest->>'email')) END,
+    CASE WHEN p_user_id IS NULL THEN p_guest->>'phone' END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, product_name, quantity, unit_price, total_price)
+  SELECT
+    v_order.id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::decimal,
+    (value->>'total_price')::decimal
+  FROM jsonb_array_elements(p_items);
+
+  -- Guests' carts live in the browser
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- claim_guest_orders
+-- -----------------------------------------------------------------------------
+-- Attaches unclaimed guest orders placed with p_email to p_user_id. Callers
+-- must only pass an email the user has confirmed.
+CREATE OR REPLACE FUNCTION claim_guest_orders(
+  p_user_id uuid,
+  p_email text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimed integer;
+BEGIN
+  UPDATE orders
+  SET user_id = p_user_id,
+      claimed_at = now(),
+      updated_at = now()
+  WHERE user_id IS NULL
+    AND lower(guest_email) = lower(trim(p_email));
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+  RETURN v_claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_guest_orders FROM PUBLIC, anon, authenticated;
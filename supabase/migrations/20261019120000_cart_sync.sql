@@ -0,0 +1,59 @@
+-- =============================================================================
+-- Cart Sync
+-- =============================================================================
+--
+-- Visitors who aren't signed in keep their cart in the browser. On sign-in
+-- that cart is merged into cart_items in one statement, and signed-in
+-- browsers follow cart_items through Supabase realtime so every tab and
+-- device shows the same cart.
+
+-- Realtime needs the whole old row to match DELETE events to a user
+ALTER TABLE cart_items REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'cart_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE cart_items;
+  END IF;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- merge_cart_items
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "product_id", "quantity" }, ...] from the browser cart.
+-- Adds each line to the caller's cart, summing with what is already there.
+-- Unknown or inactive products are skipped. Returns the number of lines merged.
+CREATE OR REPLACE FUNCTION merge_cart_items(p_items jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_merged integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO cart_items (user_id, product_id, quantity)
+  SELECT v_user_id, p.id, SUM(line.quantity)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]')) AS line(product_id uuid, quantity integer)
+  JOIN products p ON p.id = line.product_id AND p.is_active
+  WHERE line.quantity > 0
+  GROUP BY p.id
+  ON CONFLICT (user_id, product_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity;
+
+  GET DIAGNOSTICS v_merged = ROW_COUNT;
+  RETURN v_merged;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_cart_items FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_cart_items TO authenticated;
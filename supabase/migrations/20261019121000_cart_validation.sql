@@ -0,0 +1,85 @@
+-- =============================================================================
+-- Cart Validation
+-- =============================================================================
+--
+-- Cart lines remember the unit price when they were added so the cart can
+-- point out price changes before checkout. The price is only a baseline for
+-- that notice; orders are always priced from products at checkout.
+
+ALTER TABLE cart_items
+  ADD COLUMN IF NOT EXISTS added_unit_price decimal(10,2);
+
+-- Existing lines start from today's price
+UPDATE cart_items ci
+SET added_unit_price = CASE
+  WHEN p.discount_price > 0 AND p.discount_price < p.price THEN p.discount_price
+  ELSE p.price
+END
+FROM products p
+WHERE p.id = ci.product_id
+  AND ci.added_unit_price IS NULL;
+
+-- -----------------------------------------------------------------------------
+-- Stamp new lines with the product's current unit price
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION set_cart_item_added_price()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.added_unit_price IS NULL THEN
+    SELECT CASE
+      WHEN discount_price > 0 AND discount_price < price THEN discount_price
+      ELSE price
+    END
+    INTO NEW.added_unit_price
+    FROM products
+    WHERE id = NEW.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cart_items_added_price ON cart_items;
+CREATE TRIGGER cart_items_added_price
+  BEFORE INSERT ON cart_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_cart_item_added_price();
+
+-- -----------------------------------------------------------------------------
+-- merge_cart_items: keep the price each browser line was added at
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "product_id", "quantity", "added_unit_price" }, ...]
+CREATE OR REPLACE FUNCTION merge_cart_items(p_items jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_merged integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO cart_items (user_id, product_id, quantity, added_unit_price)
+  SELECT v_user_id, p.id, SUM(line.quantity), MIN(line.added_unit_price)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'))
+    AS line(product_id uuid, quantity integer, added_unit_price decimal)
+  JOIN products p ON p.id = line.product_id AND p.is_active
+  WHERE line.quantity > 0
+  GROUP BY p.id
+  ON CONFLICT (user_id, product_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity;
+
+  GET DIAGNOSTICS v_merged = ROW_COUNT;
+  RETURN v_merged;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_cart_items FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_cart_items TO authenticated;
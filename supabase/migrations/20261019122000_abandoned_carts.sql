@@ -0,0 +1,328 @@
+-- =============================================================================
+-- Abandoned Carts
+-- =============================================================================
+--
+-- A signed-in customer's cart that sits untouched past a threshold is
+-- recorded in abandoned_carts with a snapshot of its lines. The recovery job
+-- (see src/utils/cart/abandoned.ts) messages the customer, optionally with a
+-- single-use coupon, and attributes an order placed within the attribution
+-- window after the message as recovered revenue.
+--
+-- Guest carts live in the browser, so only signed-in carts are tracked.
+
+-- Last change to a cart line; added_at alone misses quantity changes
+ALTER TABLE cart_items
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+UPDATE cart_items SET updated_at = added_at WHERE updated_at IS NULL OR updated_at < added_at;
+
+CREATE OR REPLACE FUNCTION touch_cart_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cart_items_touch ON cart_items;
+CREATE TRIGGER cart_items_touch
+  BEFORE UPDATE ON cart_items
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_cart_item();
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_user_activity
+  ON cart_items(user_id, updated_at);
+
+-- -----------------------------------------------------------------------------
+-- coupons: single-use, per-customer discount codes
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  percent_off decimal(5,2) NOT NULL CHECK (percent_off > 0 AND percent_off <= 100),
+  -- Only this customer may redeem it
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- What issued it, e.g. 'cart_recovery'
+  source text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  redeemed_at timestamptz,
+  redeemed_order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_user ON coupons(user_id);
+
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers read own coupons" ON coupons;
+CREATE POLICY "Customers read own coupons" ON coupons
+  FOR SELECT USING (user_id = auth.uid());
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS discount_applied decimal(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS coupon_id uuid REFERENCES coupons(id) ON DELETE SET NULL;
+
+-- -----------------------------------------------------------------------------
+-- abandoned_carts
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS abandoned_carts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- Latest change to any line when the cart was detected
+  last_activity_at timestamptz NOT NULL,
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  -- [{ "product_id", "product_name", "quantity", "unit_price" }, ...]
+  items jsonb NOT NULL,
+  item_count integer NOT NULL,
+  cart_value decimal(10,2) NOT NULL,
+  status text NOT NULL DEFAULT 'detected'
+    CHECK (status IN ('detected', 'notified', 'recovered', 'expired')),
+  notified_at timestamptz,
+  -- Notifier that sent the message
+  channel text,
+  coupon_id uuid REFERENCES coupons(id) ON DELETE SET NULL,
+  recovered_order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  recovered_at timestamptz,
+  recovered_revenue decimal(10,2),
+  UNIQUE (user_id, last_activity_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_abandoned_carts_status ON abandoned_carts(status);
+CREATE INDEX IF NOT EXISTS idx_abandoned_carts_detected_at ON abandoned_carts(detected_at);
+
+-- Written by the recovery job and read by admins through the service role
+ALTER TABLE abandoned_carts ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- detect_abandoned_carts
+-- -----------------------------------------------------------------------------
+-- Records every cart idle for p_idle_minutes that isn't already recorded.
+-- Customers messaged within the last p_cooldown_days are left alone. Older
+-- detections for the same customer that were never messaged are superseded.
+-- Returns the new rows.
+CREATE OR REPLACE FUNCTION detect_abandoned_carts(
+  p_idle_minutes integer,
+  p_cooldown_days integer
+)
+RETURNS SETOF abandoned_carts
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH idle AS (
+    SELECT
+      ci.user_id,
+      MAX(GREATEST(ci.added_at, COALESCE(ci.updated_at, ci.added_at))) AS last_activity_at,
+      jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'product_name', p.name,
+        'quantity', ci.quantity,
+        'unit_price', CASE
+          WHEN p.discount_price > 0 AND p.discount_price < p.price THEN p.discount_price
+          ELSE p.price
+        END
+      ) ORDER BY ci.added_at) AS items,
+      SUM(ci.quantity)::integer AS item_count,
+      SUM(ci.quantity * CASE
+        WHEN p.discount_price > 0 AND p.discount_price < p.price THEN p.discount_price
+        ELSE p.price
+      END) AS cart_value
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id AND p.is_active
+    GROUP BY ci.user_id
+  ),
+  eligible AS (
+    SELECT idle.*
+    FROM idle
+    WHERE idle.last_activity_at < now() - make_interval(mins => p_idle_minutes)
+      AND NOT EXISTS (
+        SELECT 1 FROM abandoned_carts ac
+        WHERE ac.user_id = idle.user_id
+          AND (
+            ac.last_activity_at = idle.last_activity_at
+            OR ac.notified_at > now() - make_interval(days => p_cooldown_days)
+          )
+      )
+  ),
+  superseded AS (
+    UPDATE abandoned_carts ac
+    SET status = 'expired'
+    FROM eligible
+    WHERE ac.user_id = eligible.user_id
+      AND ac.status = 'detected'
+  )
+  INSERT INTO abandoned_carts (user_id, last_activity_at, items, item_count, cart_value)
+  SELECT user_id, last_activity_at, items, item_count, cart_value
+  FROM eligible
+  RETURNING *;
+$$;
+
+REVOKE ALL ON FUNCTION detect_abandoned_carts FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- attribute_cart_recoveries
+-- -----------------------------------------------------------------------------
+-- Marks messaged carts as recovered by the customer's first order placed
+-- within p_window_days of the message (cancelled orders don't count), then
+-- expires carts whose window has passed. Returns the number recovered.
+CREATE OR REPLACE FUNCTION attribute_cart_recoveries(p_window_days integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recovered integer;
+BEGIN
+  WITH matches AS (
+    SELECT DISTINCT ON (ac.id)
+      ac.id AS cart_id, o.id AS order_id, o.created_at, o.total_amount
+    FROM abandoned_carts ac
+    JOIN orders o
+      ON o.user_id = ac.user_id
+     AND o.created_at > ac.notified_at
+     AND o.created_at <= ac.notified_at + make_interval(days => p_window_days)
+     AND o.status <> 'cancelled'
+    WHERE ac.status = 'notified'
+    ORDER BY ac.id, o.created_at
+  )
+  UPDATE abandoned_carts ac
+  SET status = 'recovered',
+      recovered_order_id = matches.order_id,
+      recovered_at = matches.created_at,
+      recovered_revenue = matches.total_amount
+  FROM matches
+  WHERE ac.id = matches.cart_id;
+
+  GET DIAGNOSTICS v_recovered = ROW_COUNT;
+
+  UPDATE abandoned_carts
+  SET status = 'expired'
+  WHERE (status = 'notified' AND notified_at < now() - make_interval(days => p_window_days))
+     OR (status = 'detected' AND detected_at < now() - make_interval(days => p_window_days));
+
+  RETURN v_recovered;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION attribute_cart_recoveries FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- place_order: optional coupon, redeemed in the same transaction
+-- -----------------------------------------------------------------------------
+-- p_discount: { "coupon_id", "amount" }
+DROP FUNCTION IF EXISTS place_order(uuid, text, decimal, decimal, decimal, decimal, text, text, jsonb, integer, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_order_number text,
+  p_subtotal decimal,
+  p_tax decimal,
+  p_shipping_cost decimal,
+  p_total_amount decimal,
+  p_shipping_address text,
+  p_billing_address text,
+  p_items jsonb,
+  p_reservation_minutes integer DEFAULT 30,
+  p_shipping jsonb DEFAULT '{}',
+  p_guest jsonb DEFAULT NULL,
+  p_discount jsonb DEFAULT NULL
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_coupon_id uuid := (p_discount->>'coupon_id')::uuid;
+BEGIN
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot place an order without items';
+  END IF;
+
+  IF p_user_id IS NULL AND COALESCE(p_guest->>'email', '') = '' THEN
+    RAISE EXCEPTION 'Guest orders need an email address';
+  END IF;
+
+  -- Lock products in a stable order to avoid deadlocks between checkouts
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    UPDATE products
+    SET stock_quantity = stock_quantity - (v_item->>'quantity')::integer,
+        updated_at = now()
+    WHERE id = (v_item->>'product_id')::uuid
+      AND is_active
+      AND stock_quantity >= (v_item->>'quantity')::integer;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item->>'product_name';
+    END IF;
+  END LOOP;
+
+  INSERT INTO orders (
+    user_id, order_number, subtotal, tax, shipping_cost, total_amount,
+    shipping_address, billing_address, status, payment_status,
+    stock_reserved, reservation_expires_at,
+    shipping_state, shipping_lga, shipping_city, shipping_zone_id,
+    estimated_delivery_date, fulfilment_method, pickup_point_id, pickup_code,
+    shipping_address_snapshot, billing_address_snapshot,
+    guest_email, guest_phone, discount_applied, coupon_id
+  ) VALUES (
+    p_user_id, p_order_number, p_subtotal, p_tax, p_shipping_cost, p_total_amount,
+    p_shipping_address, p_billing_address, 'pending', 'pending',
+    true, now() + make_interval(mins => p_reservation_minutes),
+    p_shipping->>'state', p_shipping->>'lga', p_shipping->>'city',
+    (p_shipping->>'zone_id')::uuid,
+    (p_shipping->>'estimated_delivery_date')::date,
+    COALESCE(p_shipping->>'fulfilment_method', 'delivery'),
+    (p_shipping->>'pickup_point_id')::uuid,
+    p_shipping->>'pickup_code',
+    p_shipping->'address',
+    p_shipping->'billing_address',
+    CASE WHEN p_user_id IS NULL THEN lower(trim(p_guest->>'email')) END,
+    CASE WHEN p_user_id IS NULL THEN p_guest->>'phone' END,
+    COALESCE((p_discount->>'amount')::decimal, 0),
+    v_coupon_id
+  )
+  RETURNING * INTO v_order;
+
+  -- Single use: a second checkout racing with the same code fails here
+  IF v_coupon_id IS NOT NULL THEN
+    UPDATE coupons
+    SET redeemed_at = now(),
+        redeemed_order_id = v_order.id
+    WHERE id = v_coupon_id
+      AND user_id = p_user_id
+      AND redeemed_at IS NULL
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This discount code has expired or was already used';
+    END IF;
+  END IF;
+
+  INSERT INTO order_items (order_id, product_id, product_name, quantity, unit_price, total_price)
+  SELECT
+    v_order.id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::decimal,
+    (value->>'total_price')::decimal
+  FROM jsonb_array_elements(p_items);
+
+  -- Guests' carts live in the browser
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,111 @@
+-- =============================================================================
+-- Save for Later
+-- =============================================================================
+--
+-- Cart lines can be set aside in saved_cart_items, which checkout, cart
+-- validation and abandoned-cart detection never read. Lines move between
+-- the cart, the saved list and the wishlist through move_cart_line, one
+-- transaction per move, so an item is never in two lists or lost between
+-- them.
+
+CREATE TABLE IF NOT EXISTS saved_cart_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  -- Carried over from the cart line so price-change notices still work
+  added_unit_price decimal(10,2),
+  saved_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, product_id)
+);
+
+ALTER TABLE saved_cart_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers read own saved items" ON saved_cart_items;
+CREATE POLICY "Customers read own saved items" ON saved_cart_items
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Customers delete own saved items" ON saved_cart_items;
+CREATE POLICY "Customers delete own saved items" ON saved_cart_items
+  FOR DELETE USING (user_id = auth.uid());
+
+-- -----------------------------------------------------------------------------
+-- move_cart_line
+-- -----------------------------------------------------------------------------
+-- Moves the caller's line for p_product_id from p_from to p_to, where each is
+-- 'cart', 'saved' or 'wishlist'. Quantities add to a line already in the
+-- target; wishlist entries have no quantity and arrive in the cart as one.
+-- Only active products can go into the cart.
+CREATE OR REPLACE FUNCTION move_cart_line(
+  p_product_id uuid,
+  p_from text,
+  p_to text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_quantity integer := 1;
+  v_price decimal;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_from = p_to
+    OR p_from NOT IN ('cart', 'saved', 'wishlist')
+    OR p_to NOT IN ('cart', 'saved', 'wishlist') THEN
+    RAISE EXCEPTION 'Cannot move an item from % to %', p_from, p_to;
+  END IF;
+
+  -- Take the line out of its list
+  IF p_from = 'cart' THEN
+    DELETE FROM cart_items
+    WHERE user_id = v_user_id AND product_id = p_product_id
+    RETURNING quantity, added_unit_price INTO v_quantity, v_price;
+  ELSIF p_from = 'saved' THEN
+    DELETE FROM saved_cart_items
+    WHERE user_id = v_user_id AND product_id = p_product_id
+    RETURNING quantity, added_unit_price INTO v_quantity, v_price;
+  ELSE
+    DELETE FROM wishlist
+    WHERE user_id = v_user_id AND product_id = p_product_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That item is no longer in your %',
+      CASE p_from WHEN 'saved' THEN 'saved items' ELSE p_from END;
+  END IF;
+
+  -- Put it into the target list
+  IF p_to = 'cart' THEN
+    IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_product_id AND is_active) THEN
+      RAISE EXCEPTION 'This product is no longer available';
+    END IF;
+
+    -- A NULL price is stamped with today's by cart_items_added_price
+    INSERT INTO cart_items (user_id, product_id, quantity, added_unit_price)
+    VALUES (v_user_id, p_product_id, v_quantity, v_price)
+    ON CONFLICT (user_id, product_id)
+    DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity;
+  ELSIF p_to = 'saved' THEN
+    INSERT INTO saved_cart_items (user_id, product_id, quantity, added_unit_price)
+    VALUES (v_user_id, p_product_id, v_quantity, v_price)
+    ON CONFLICT (user_id, product_id)
+    DO UPDATE SET quantity = saved_cart_items.quantity + EXCLUDED.quantity,
+                  saved_at = now();
+  ELSE
+    INSERT INTO wishlist (user_id, product_id)
+    SELECT v_user_id, p_product_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM wishlist WHERE user_id = v_user_id AND product_id = p_product_id
+    );
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION move_cart_line FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION move_cart_line TO authenticated;
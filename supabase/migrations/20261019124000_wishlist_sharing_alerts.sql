@@ -0,0 +1,130 @@
+-- =============================================================================
+-- Wishlist Sharing and Alerts
+-- =============================================================================
+--
+-- A customer can publish their wishlist under an unguessable share token;
+-- anyone with the link sees the active products on it. Each wishlist entry
+-- can opt in to a price-drop and/or back-in-stock alert: the entry keeps the
+-- price and stock state the customer last saw, and the send-wishlist-alerts
+-- job messages them when the product gets cheaper or comes back.
+
+CREATE TABLE IF NOT EXISTS wishlist_shares (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE wishlist_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers read own wishlist share" ON wishlist_shares;
+CREATE POLICY "Customers read own wishlist share" ON wishlist_shares
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Customers create own wishlist share" ON wishlist_shares;
+CREATE POLICY "Customers create own wishlist share" ON wishlist_shares
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Customers delete own wishlist share" ON wishlist_shares;
+CREATE POLICY "Customers delete own wishlist share" ON wishlist_shares
+  FOR DELETE USING (user_id = auth.uid());
+
+ALTER TABLE wishlist
+  ADD COLUMN IF NOT EXISTS notify_price_drop boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS notify_back_in_stock boolean NOT NULL DEFAULT false,
+  -- What the customer last saw; alerts fire on changes from here
+  ADD COLUMN IF NOT EXISTS alert_unit_price decimal(10,2),
+  ADD COLUMN IF NOT EXISTS alert_in_stock boolean;
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_alerts
+  ON wishlist(product_id)
+  WHERE notify_price_drop OR notify_back_in_stock;
+
+-- -----------------------------------------------------------------------------
+-- set_wishlist_alerts
+-- -----------------------------------------------------------------------------
+-- Turns the caller's alerts for one wishlist entry on or off, taking today's
+-- price and stock as the starting point.
+CREATE OR REPLACE FUNCTION set_wishlist_alerts(
+  p_product_id uuid,
+  p_price_drop boolean,
+  p_back_in_stock boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE wishlist w
+  SET notify_price_drop = p_price_drop,
+      notify_back_in_stock = p_back_in_stock,
+      alert_unit_price = CASE
+        WHEN p.discount_price > 0 AND p.discount_price < p.price THEN p.discount_price
+        ELSE p.price
+      END,
+      alert_in_stock = p.stock_quantity > 0
+  FROM products p
+  WHERE p.id = w.product_id
+    AND w.user_id = v_user_id
+    AND w.product_id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That item is no longer in your wishlist';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_wishlist_alerts FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_wishlist_alerts TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- move_wishlist_to_cart
+-- -----------------------------------------------------------------------------
+-- Bulk version of move_cart_line(product, 'wishlist', 'cart'). Products that
+-- are inactive or out of stock stay on the wishlist; returns how many moved.
+CREATE OR REPLACE FUNCTION move_wishlist_to_cart(p_product_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_moved uuid[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  WITH moved AS (
+    DELETE FROM wishlist w
+    USING products p
+    WHERE p.id = w.product_id
+      AND w.user_id = v_user_id
+      AND w.product_id = ANY (p_product_ids)
+      AND p.is_active
+      AND p.stock_quantity > 0
+    RETURNING w.product_id
+  )
+  SELECT coalesce(array_agg(product_id), '{}') INTO v_moved FROM moved;
+
+  -- A NULL price is stamped with today's by cart_items_added_price
+  INSERT INTO cart_items (user_id, product_id, quantity)
+  SELECT v_user_id, product_id, 1
+  FROM unnest(v_moved) AS product_id
+  ON CONFLICT (user_id, product_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity;
+
+  RETURN cardinality(v_moved);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION move_wishlist_to_cart FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION move_wishlist_to_cart TO authenticated;
@@ -0,0 +1,718 @@
+-- =============================================================================
+-- Product Variants
+-- =============================================================================
+--
+-- A product can come in variants (shade, size, scent, ...). The option types
+-- and their values live on the product in variant_options; each combination
+-- sold is a product_variants row with its own SKU, price, discount, stock and
+-- images. Once a product has variants it is always bought as one of them:
+-- cart lines, saved lines and order items carry the variant, and stock is
+-- taken from and returned to the variant. products.stock_quantity becomes the
+-- sum over active variants, kept up to date by trigger, so listings and
+-- stock badges work unchanged.
+
+ALTER TABLE products
+  -- [{ "name": "Shade", "values": ["Ruby", "Nude"] }, ...]
+  ADD COLUMN IF NOT EXISTS variant_options jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS has_variants boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  -- Option values in variant_options order, e.g. "Ruby / 5ml"
+  name text NOT NULL,
+  -- { "Shade": "Ruby", "Size": "5ml" }
+  options jsonb NOT NULL DEFAULT '{}'::jsonb,
+  sku text UNIQUE,
+  price decimal(10,2) NOT NULL CHECK (price >= 0),
+  discount_price decimal(10,2),
+  stock_quantity integer NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  images text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (product_id, options)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product
+  ON product_variants(product_id, position);
+
+-- Managed by staff through the service role
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active variants" ON product_variants;
+CREATE POLICY "Anyone can view active variants"
+  ON product_variants FOR SELECT
+  USING (is_active);
+
+-- -----------------------------------------------------------------------------
+-- Keep the product's stock and has_variants in step with its variants
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION sync_product_variant_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+  UPDATE products p
+  SET stock_quantity = COALESCE((
+        SELECT SUM(v.stock_quantity) FROM product_variants v
+        WHERE v.product_id = p.id AND v.is_active
+      ), 0),
+      has_variants = EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id),
+      updated_at = now()
+  WHERE p.id = v_product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS product_variants_sync_stock ON product_variants;
+CREATE TRIGGER product_variants_sync_stock
+  AFTER INSERT OR UPDATE OR DELETE ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_variant_stock();
+
+-- -----------------------------------------------------------------------------
+-- Cart, saved and order lines name their variant
+-- -----------------------------------------------------------------------------
+ALTER TABLE cart_items
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE cart_items
+  DROP CONSTRAINT IF EXISTS cart_items_user_id_product_id_key;
+ALTER TABLE cart_items
+  DROP CONSTRAINT IF EXISTS cart_items_user_product_variant_key;
+ALTER TABLE cart_items
+  ADD CONSTRAINT cart_items_user_product_variant_key
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+ALTER TABLE saved_cart_items
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE saved_cart_items
+  DROP CONSTRAINT IF EXISTS saved_cart_items_user_id_product_id_key;
+ALTER TABLE saved_cart_items
+  DROP CONSTRAINT IF EXISTS saved_cart_items_user_product_variant_key;
+ALTER TABLE saved_cart_items
+  ADD CONSTRAINT saved_cart_items_user_product_variant_key
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL,
+  -- Snapshots, so the order still reads right after the variant changes
+  ADD COLUMN IF NOT EXISTS variant_name text,
+  ADD COLUMN IF NOT EXISTS sku text;
+
+-- -----------------------------------------------------------------------------
+-- set_cart_item_added_price: variant lines start from the variant's price
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION set_cart_item_added_price()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.added_unit_price IS NULL AND NEW.variant_id IS NOT NULL THEN
+    SELECT CASE
+      WHEN discount_price > 0 AND discount_price < price THEN discount_price
+      ELSE price
+    END
+    INTO NEW.added_unit_price
+    FROM product_variants
+    WHERE id = NEW.variant_id;
+  ELSIF NEW.added_unit_price IS NULL THEN
+    SELECT CASE
+      WHEN discount_price > 0 AND discount_price < price THEN discount_price
+      ELSE price
+    END
+    INTO NEW.added_unit_price
+    FROM products
+    WHERE id = NEW.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- merge_cart_items: browser lines may carry a variant
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "product_id", "variant_id", "quantity", "added_unit_price" }, ...]
+-- Lines for a product with variants but no (active) variant are dropped.
+CREATE OR REPLACE FUNCTION merge_cart_items(p_items jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_merged integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO cart_items (user_id, product_id, variant_id, quantity, added_unit_price)
+  SELECT v_user_id, p.id, v.id, SUM(line.quantity), MIN(line.added_unit_price)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'))
+    AS line(product_id uuid, variant_id uuid, quantity integer, added_unit_price decimal)
+  JOIN products p ON p.id = line.product_id AND p.is_active
+  LEFT JOIN product_variants v
+    ON v.id = line.variant_id AND v.product_id = p.id AND v.is_active
+  WHERE line.quantity > 0
+    AND (v.id IS NOT NULL OR (line.variant_id IS NULL AND NOT p.has_variants))
+  GROUP BY p.id, v.id
+  ON CONFLICT (user_id, product_id, variant_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity;
+
+  GET DIAGNOSTICS v_merged = ROW_COUNT;
+  RETURN v_merged;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_cart_items FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_cart_items TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- move_cart_line: lines are identified by product and variant
+-- -----------------------------------------------------------------------------
+-- The wishlist holds products, not variants: a line moved there loses its
+-- variant, and a product with variants can't move from the wishlist to the
+-- cart or saved items without one.
+DROP FUNCTION IF EXISTS move_cart_line(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION move_cart_line(
+  p_product_id uuid,
+  p_from text,
+  p_to text,
+  p_variant_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_quantity integer := 1;
+  v_price decimal;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_from = p_to
+    OR p_from NOT IN ('cart', 'saved', 'wishlist')
+    OR p_to NOT IN ('cart', 'saved', 'wishlist') THEN
+    RAISE EXCEPTION 'Cannot move an item from % to %', p_from, p_to;
+  END IF;
+
+  IF p_to <> 'wishlist' AND p_variant_id IS NULL
+    AND EXISTS (SELECT 1 FROM products WHERE id = p_product_id AND has_variants) THEN
+    RAISE EXCEPTION 'Choose an option for this product first';
+  END IF;
+
+  -- Take the line out of its list
+  IF p_from = 'cart' THEN
+    DELETE FROM cart_items
+    WHERE user_id = v_user_id AND product_id = p_product_id
+      AND variant_id IS NOT DISTINCT FROM p_variant_id
+    RETURNING quantity, added_unit_price INTO v_quantity, v_price;
+  ELSIF p_from = 'saved' THEN
+    DELETE FROM saved_cart_items
+    WHERE user_id = v_user_id AND product_id = p_product_id
+      AND variant_id IS NOT DISTINCT FROM p_variant_id
+    RETURNING quantity, added_unit_price INTO v_quantity, v_price;
+  ELSE
+    DELETE FROM wishlist
+    WHERE user_id = v_user_id AND product_id = p_product_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That item is no longer in your %',
+      CASE p_from WHEN 'saved' THEN 'saved items' ELSE p_from END;
+  END IF;
+
+  -- Put it into the target list
+  IF p_to = 'cart' THEN
+    IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_product_id AND is_active)
+      OR (p_variant_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM product_variants
+        WHERE id = p_variant_id AND product_id = p_product_id AND is_active
+      )) THEN
+      RAISE EXCEPTION 'This product is no longer available';
+    END IF;
+
+    -- A NULL price is stamped with today's by cart_items_added_price
+    INSERT INTO cart_items (user_id, product_id, variant_id, quantity, added_unit_price)
+    VALUES (v_user_id, p_product_id, p_variant_id, v_quantity, v_price)
+    ON CONFLICT (user_id, product_id, variant_id)
+    DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity;
+  ELSIF p_to = 'saved' THEN
+    INSERT INTO saved_cart_items (user_id, product_id, variant_id, quantity, added_unit_price)
+    VALUES (v_user_id, p_product_id, p_variant_id, v_quantity, v_price)
+    ON CONFLICT (user_id, product_id, variant_id)
+    DO UPDATE SET quantity = saved_cart_items.quantity + EXCLUDED.quantity,
+                  saved_at = now();
+  ELSE
+    INSERT INTO wishlist (user_id, product_id)
+    SELECT v_user_id, p_product_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM wishlist WHERE user_id = v_user_id AND product_id = p_product_id
+    );
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION move_cart_line FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION move_cart_line TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- move_wishlist_to_cart: products with variants need a choice, so they stay
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION move_wishlist_to_cart(p_product_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_moved uuid[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  WITH moved AS (
+    DELETE FROM wishlist w
+    USING products p
+    WHERE p.id = w.product_id
+      AND w.user_id = v_user_id
+      AND w.product_id = ANY (p_product_ids)
+      AND p.is_active
+      AND NOT p.has_variants
+      AND p.stock_quantity > 0
+    RETURNING w.product_id
+  )
+  SELECT coalesce(array_agg(product_id), '{}') INTO v_moved FROM moved;
+
+  -- A NULL price is stamped with today's by cart_items_added_price
+  INSERT INTO cart_items (user_id, product_id, quantity)
+  SELECT v_user_id, product_id, 1
+  FROM unnest(v_moved) AS product_id
+  ON CONFLICT (user_id, product_id, variant_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity;
+
+  RETURN cardinality(v_moved);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION move_wishlist_to_cart FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION move_wishlist_to_cart TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- place_order: variant lines take stock from the variant
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "product_id", "variant_id", "variant_name", "sku",
+--             "product_name", "quantity", "unit_price", "total_price" }]
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_order_number text,
+  p_subtotal decimal,
+  p_tax decimal,
+  p_shipping_cost decimal,
+  p_total_amount decimal,
+  p_shipping_address text,
+  p_billing_address text,
+  p_items jsonb,
+  p_reservation_minutes integer DEFAULT 30,
+  p_shipping jsonb DEFAULT '{}',
+  p_guest jsonb DEFAULT NULL,
+  p_discount jsonb DEFAULT NULL
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_coupon_id uuid := (p_discount->>'coupon_id')::uuid;
+BEGIN
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot place an order without items';
+  END IF;
+
+  IF p_user_id IS NULL AND COALESCE(p_guest->>'email', '') = '' THEN
+    RAISE EXCEPTION 'Guest orders need an email address';
+  END IF;
+
+  -- Lock products and variants in a stable order to avoid deadlocks between checkouts
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+    ORDER BY value->>'product_id', value->>'variant_id'
+  LOOP
+    IF v_item->>'variant_id' IS NULL THEN
+      UPDATE products
+      SET stock_quantity = stock_quantity - (v_item->>'quantity')::integer,
+          updated_at = now()
+      WHERE id = (v_item->>'product_id')::uuid
+        AND is_active
+        AND NOT has_variants
+        AND stock_quantity >= (v_item->>'quantity')::integer;
+    ELSE
+      UPDATE product_variants v
+      SET stock_quantity = v.stock_quantity - (v_item->>'quantity')::integer,
+          updated_at = now()
+      FROM products p
+      WHERE v.id = (v_item->>'variant_id')::uuid
+        AND v.product_id = (v_item->>'product_id')::uuid
+        AND p.id = v.product_id
+        AND p.is_active
+        AND v.is_active
+        AND v.stock_quantity >= (v_item->>'quantity')::integer;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %',
+        v_item->>'product_name' || COALESCE(' (' || (v_item->>'variant_name') || ')', '');
+    END IF;
+  END LOOP;
+
+  INSERT INTO orders (
+    user_id, order_number, subtotal, tax, shipping_cost, total_amount,
+    shipping_address, billing_address, status, payment_status,
+    stock_reserved, reservation_expires_at,
+    shipping_state, shipping_lga, shipping_city, shipping_zone_id,
+    estimated_delivery_date, fulfilment_method, pickup_point_id, pickup_code,
+    shipping_address_snapshot, billing_address_snapshot,
+    guest_email, guest_phone, discount_applied, coupon_id
+  ) VALUES (
+    p_user_id, p_order_number, p_subtotal, p_tax, p_shipping_cost, p_total_amount,
+    p_shipping_address, p_billing_address, 'pending', 'pending',
+    true, now() + make_interval(mins => p_reservation_minutes),
+    p_shipping->>'state', p_shipping->>'lga', p_shipping->>'city',
+    (p_shipping->>'zone_id')::uuid,
+    (p_shipping->>'estimated_delivery_date')::date,
+    COALESCE(p_shipping->>'fulfilment_method', 'delivery'),
+    (p_shipping->>'pickup_point_id')::uuid,
+    p_shipping->>'pickup_code',
+    p_shipping->'address',
+    p_shipping->'billing_address',
+    CASE WHEN p_user_id IS NULL THEN lower(trim(p_guest->>'email')) END,
+    CASE WHEN p_user_id IS NULL THEN p_guest->>'phone' END,
+    COALESCE((p_discount->>'amount')::decimal, 0),
+    v_coupon_id
+  )
+  RETURNING * INTO v_order;
+
+  -- Single use: a second checkout racing with the same code fails here
+  IF v_coupon_id IS NOT NULL THEN
+    UPDATE coupons
+    SET redeemed_at = now(),
+        redeemed_order_id = v_order.id
+    WHERE id = v_coupon_id
+      AND user_id = p_user_id
+      AND redeemed_at IS NULL
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This discount code has expired or was already used';
+    END IF;
+  END IF;
+
+  INSERT INTO order_items (
+    order_id, product_id, variant_id, product_name, variant_name, sku,
+    quantity, unit_price, total_price
+  )
+  SELECT
+    v_order.id,
+    (value->>'product_id')::uuid,
+    (value->>'variant_id')::uuid,
+    value->>'product_name',
+    value->>'variant_name',
+    value->>'sku',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::decimal,
+    (value->>'total_price')::decimal
+  FROM jsonb_array_elements(p_items);
+
+  -- Guests' carts live in the browser
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- release_order_stock: variant lines go back to the variant
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION release_order_stock(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id AND stock_reserved FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity + oi.quantity,
+      updated_at = now()
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NULL
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id
+    AND NOT p.has_variants;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity + oi.quantity,
+      updated_at = now()
+  FROM (
+    SELECT variant_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) oi
+  WHERE v.id = oi.variant_id;
+
+  UPDATE orders
+  SET stock_reserved = false,
+      reservation_expires_at = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- reserve_order_stock: variant lines are taken from the variant
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION reserve_order_stock(
+  p_order_id uuid,
+  p_minutes integer DEFAULT NULL
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id AND NOT stock_reserved FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  FOR v_item IN
+    SELECT product_id, variant_id, product_name, variant_name, SUM(quantity)::integer AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id, variant_id, product_name, variant_name
+    ORDER BY product_id, variant_id
+  LOOP
+    IF v_item.variant_id IS NULL THEN
+      UPDATE products
+      SET stock_quantity = stock_quantity - v_item.quantity,
+          updated_at = now()
+      WHERE id = v_item.product_id
+        AND NOT has_variants
+        AND stock_quantity >= v_item.quantity;
+    ELSE
+      UPDATE product_variants
+      SET stock_quantity = stock_quantity - v_item.quantity,
+          updated_at = now()
+      WHERE id = v_item.variant_id
+        AND stock_quantity >= v_item.quantity;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %',
+        v_item.product_name || COALESCE(' (' || v_item.variant_name || ')', '');
+    END IF;
+  END LOOP;
+
+  UPDATE orders
+  SET stock_reserved = true,
+      reservation_expires_at = CASE
+        WHEN p_minutes IS NULL THEN NULL
+        ELSE now() + make_interval(mins => p_minutes)
+      END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION release_order_stock FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reserve_order_stock FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- receive_return: restocked variant lines go back to the variant
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION receive_return(
+  p_return_id uuid,
+  p_restock boolean,
+  p_received_by uuid
+)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request return_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF v_request.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved returns can be received';
+  END IF;
+
+  IF p_restock THEN
+    UPDATE products p
+    SET stock_quantity = p.stock_quantity + line.quantity,
+        updated_at = now()
+    FROM (
+      SELECT oi.product_id, SUM((value->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(v_request.items)
+      JOIN order_items oi ON oi.id = (value->>'order_item_id')::uuid
+      WHERE oi.variant_id IS NULL
+      GROUP BY 1
+    ) line
+    WHERE p.id = line.product_id
+      AND NOT p.has_variants;
+
+    UPDATE product_variants v
+    SET stock_quantity = v.stock_quantity + line.quantity,
+        updated_at = now()
+    FROM (
+      SELECT oi.variant_id, SUM((value->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(v_request.items)
+      JOIN order_items oi ON oi.id = (value->>'order_item_id')::uuid
+      WHERE oi.variant_id IS NOT NULL
+      GROUP BY 1
+    ) line
+    WHERE v.id = line.variant_id;
+  END IF;
+
+  PERFORM transition_order_status(
+    v_request.order_id, 'delivered', 'returned', p_received_by,
+    'Return received: ' || v_request.reason
+  );
+
+  UPDATE return_requests
+  SET status = 'received',
+      restocked = p_restock,
+      received_by = p_received_by,
+      received_at = now(),
+      updated_at = now()
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION receive_return FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- detect_abandoned_carts: variant lines are valued at the variant's price
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION detect_abandoned_carts(
+  p_idle_minutes integer,
+  p_cooldown_days integer
+)
+RETURNS SETOF abandoned_carts
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH lines AS (
+    SELECT
+      ci.user_id,
+      ci.added_at,
+      COALESCE(ci.updated_at, ci.added_at) AS updated_at,
+      ci.quantity,
+      p.id AS product_id,
+      p.name AS product_name,
+      v.id AS variant_id,
+      v.name AS variant_name,
+      CASE
+        WHEN v.id IS NOT NULL THEN CASE
+          WHEN v.discount_price > 0 AND v.discount_price < v.price THEN v.discount_price
+          ELSE v.price
+        END
+        WHEN p.discount_price > 0 AND p.discount_price < p.price THEN p.discount_price
+        ELSE p.price
+      END AS unit_price
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id AND p.is_active
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.variant_id IS NULL OR v.is_active
+  ),
+  idle AS (
+    SELECT
+      user_id,
+      MAX(GREATEST(added_at, updated_at)) AS last_activity_at,
+      jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+        'product_id', product_id,
+        'product_name', product_name,
+        'variant_id', variant_id,
+        'variant_name', variant_name,
+        'quantity', quantity,
+        'unit_price', unit_price
+      )) ORDER BY added_at) AS items,
+      SUM(quantity)::integer AS item_count,
+      SUM(quantity * unit_price) AS cart_value
+    FROM lines
+    GROUP BY user_id
+  ),
+  eligible AS (
+    SELECT idle.*
+    FROM idle
+    WHERE idle.last_activity_at < now() - make_interval(mins => p_idle_minutes)
+      AND NOT EXISTS (
+        SELECT 1 FROM abandoned_carts ac
+        WHERE ac.user_id = idle.user_id
+          AND (
+            ac.last_activity_at = idle.last_activity_at
+            OR ac.notified_at > now() - make_interval(days => p_cooldown_days)
+          )
+      )
+  ),
+  superseded AS (
+    UPDATE abandoned_carts ac
+    SET status = 'expired'
+    FROM eligible
+    WHERE ac.user_id = eligible.user_id
+      AND ac.status = 'detected'
+  )
+  INSERT INTO abandoned_carts (user_id, last_activity_at, items, item_count, cart_value)
+  SELECT user_id, last_activity_at, items, item_count, cart_value
+  FROM eligible
+  RETURNING *;
+$$;
+
+REVOKE ALL ON FUNCTION detect_abandoned_carts FROM PUBLIC, anon, authenticated;
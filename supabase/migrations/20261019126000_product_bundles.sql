@@ -0,0 +1,522 @@
+-- =============================================================================
+-- Product Bundles
+-- =============================================================================
+--
+-- A bundle (gift set, routine kit, ...) is a product made of other products
+-- or variants, listed in product_bundle_items with a quantity each. It has
+-- its own price, but no stock of its own: products.stock_quantity of a
+-- bundle is the number of sets the components can make, kept up to date by
+-- trigger. Buying a bundle takes stock from its components, and the order
+-- item keeps the components it was sold with in bundle_components, so
+-- fulfilment, cancellations and returns follow the set as sold even after
+-- the bundle changes.
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS is_bundle boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS product_bundle_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  component_product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  -- Required when the component is sold in variants
+  component_variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (component_product_id <> bundle_id),
+  UNIQUE NULLS NOT DISTINCT (bundle_id, component_product_id, component_variant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_bundle_items_bundle
+  ON product_bundle_items(bundle_id, position);
+CREATE INDEX IF NOT EXISTS idx_product_bundle_items_component
+  ON product_bundle_items(component_product_id);
+
+-- Managed by staff through the service role
+ALTER TABLE product_bundle_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view bundle items" ON product_bundle_items;
+CREATE POLICY "Anyone can view bundle items"
+  ON product_bundle_items FOR SELECT
+  USING (true);
+
+-- [{ "product_id", "variant_id", "product_name", "variant_name", "sku",
+--    "quantity" }], quantity per bundle; NULL for anything but a bundle
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS bundle_components jsonb;
+
+-- -----------------------------------------------------------------------------
+-- Bundle stock: whole sets the active components can make
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_bundle_stock(p_bundle_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE products b
+  SET stock_quantity = COALESCE((
+        SELECT MIN(FLOOR(
+          CASE
+            WHEN NOT p.is_active THEN 0
+            WHEN i.component_variant_id IS NULL THEN p.stock_quantity
+            WHEN v.is_active THEN v.stock_quantity
+            ELSE 0
+          END::numeric / i.quantity
+        ))::integer
+        FROM product_bundle_items i
+        JOIN products p ON p.id = i.component_product_id
+        LEFT JOIN product_variants v ON v.id = i.component_variant_id
+        WHERE i.bundle_id = b.id
+      ), 0),
+      is_bundle = EXISTS (SELECT 1 FROM product_bundle_items i WHERE i.bundle_id = b.id),
+      updated_at = now()
+  WHERE b.id = ANY(p_bundle_ids);
+$$;
+
+REVOKE ALL ON FUNCTION refresh_bundle_stock FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sync_bundle_items_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_bundle_stock(ARRAY[
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.bundle_id ELSE NEW.bundle_id END
+  ]);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS product_bundle_items_sync_stock ON product_bundle_items;
+CREATE TRIGGER product_bundle_items_sync_stock
+  AFTER INSERT OR UPDATE OR DELETE ON product_bundle_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_bundle_items_stock();
+
+-- Component stock moved (variant changes reach here through
+-- sync_product_variant_stock, which rewrites the product's stock)
+CREATE OR REPLACE FUNCTION sync_component_bundle_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_bundle_stock(ARRAY(
+    SELECT DISTINCT bundle_id FROM product_bundle_items
+    WHERE component_product_id = NEW.id
+  ));
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_sync_bundle_stock ON products;
+CREATE TRIGGER products_sync_bundle_stock
+  AFTER UPDATE OF stock_quantity, is_active ON products
+  FOR EACH ROW
+  WHEN (NOT NEW.is_bundle)
+  EXECUTE FUNCTION sync_component_bundle_stock();
+
+-- -----------------------------------------------------------------------------
+-- Stock lines for order items, bundles expanded into their components
+-- -----------------------------------------------------------------------------
+-- The bundle's components as sold today
+CREATE OR REPLACE FUNCTION get_bundle_components(p_bundle_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', i.component_product_id,
+    'variant_id', i.component_variant_id,
+    'product_name', p.name,
+    'variant_name', v.name,
+    'sku', COALESCE(v.sku, p.sku),
+    'quantity', i.quantity
+  ) ORDER BY i.position), '[]'::jsonb)
+  FROM product_bundle_items i
+  JOIN products p ON p.id = i.component_product_id
+  LEFT JOIN product_variants v ON v.id = i.component_variant_id
+  WHERE i.bundle_id = p_bundle_id;
+$$;
+
+-- p_items: [{ "product_id", "variant_id", "product_name", "variant_name",
+--             "quantity", "bundle_components" }]
+-- One row per product or variant to take stock from, in lock order
+CREATE OR REPLACE FUNCTION order_stock_lines(p_items jsonb)
+RETURNS TABLE (product_id uuid, variant_id uuid, item_name text, quantity integer)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT line.product_id, line.variant_id, MIN(line.item_name), SUM(line.quantity)::integer
+  FROM (
+    SELECT
+      (item->>'product_id')::uuid,
+      (item->>'variant_id')::uuid,
+      (item->>'product_name') || COALESCE(' (' || (item->>'variant_name') || ')', ''),
+      (item->>'quantity')::integer
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) item
+    WHERE COALESCE(jsonb_typeof(item->'bundle_components'), 'null') <> 'array'
+    UNION ALL
+    SELECT
+      (component->>'product_id')::uuid,
+      (component->>'variant_id')::uuid,
+      (component->>'product_name') || COALESCE(' (' || (component->>'variant_name') || ')', ''),
+      (component->>'quantity')::integer * (item->>'quantity')::integer
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) item
+    CROSS JOIN LATERAL jsonb_array_elements(item->'bundle_components') component
+    WHERE jsonb_typeof(item->'bundle_components') = 'array'
+  ) AS line(product_id, variant_id, item_name, quantity)
+  GROUP BY line.product_id, line.variant_id
+  ORDER BY line.product_id, line.variant_id;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- place_order: bundles take stock from their components
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "product_id", "variant_id", "variant_name", "sku",
+--             "product_name", "quantity", "unit_price", "total_price" }]
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_order_number text,
+  p_subtotal decimal,
+  p_tax decimal,
+  p_shipping_cost decimal,
+  p_total_amount decimal,
+  p_shipping_address text,
+  p_billing_address text,
+  p_items jsonb,
+  p_reservation_minutes integer DEFAULT 30,
+  p_shipping jsonb DEFAULT '{}',
+  p_guest jsonb DEFAULT NULL,
+  p_discount jsonb DEFAULT NULL
+) RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_items jsonb;
+  v_line record;
+  v_unavailable text;
+  v_coupon_id uuid := (p_discount->>'coupon_id')::uuid;
+BEGIN
+  IF jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot place an order without items';
+  END IF;
+
+  IF p_user_id IS NULL AND COALESCE(p_guest->>'email', '') = '' THEN
+    RAISE EXCEPTION 'Guest orders need an email address';
+  END IF;
+
+  -- Bundles carry the components they're sold with today
+  SELECT jsonb_agg(
+    CASE
+      WHEN p.is_bundle THEN
+        (t.item - 'bundle_components')
+          || jsonb_build_object('bundle_components', get_bundle_components(p.id))
+      ELSE t.item - 'bundle_components'
+    END
+    ORDER BY t.ord
+  )
+  INTO v_items
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ord)
+  LEFT JOIN products p ON p.id = (t.item->>'product_id')::uuid;
+
+  -- A bundle's own row holds no stock, but it still has to be on sale
+  SELECT t.item->>'product_name'
+  INTO v_unavailable
+  FROM jsonb_array_elements(v_items) AS t(item)
+  JOIN products p ON p.id = (t.item->>'product_id')::uuid
+  WHERE p.is_bundle AND NOT p.is_active
+  LIMIT 1;
+
+  IF v_unavailable IS NOT NULL THEN
+    RAISE EXCEPTION '% is no longer available', v_unavailable;
+  END IF;
+
+  -- Lock products and variants in a stable order to avoid deadlocks between checkouts
+  FOR v_line IN SELECT * FROM order_stock_lines(v_items) LOOP
+    IF v_line.variant_id IS NULL THEN
+      UPDATE products
+      SET stock_quantity = stock_quantity - v_line.quantity,
+          updated_at = now()
+      WHERE id = v_line.product_id
+        AND is_active
+        AND NOT has_variants
+        AND NOT is_bundle
+        AND stock_quantity >= v_line.quantity;
+    ELSE
+      UPDATE product_variants v
+      SET stock_quantity = v.stock_quantity - v_line.quantity,
+          updated_at = now()
+      FROM products p
+      WHERE v.id = v_line.variant_id
+        AND v.product_id = v_line.product_id
+        AND p.id = v.product_id
+        AND p.is_active
+        AND v.is_active
+        AND v.stock_quantity >= v_line.quantity;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_line.item_name;
+    END IF;
+  END LOOP;
+
+  INSERT INTO orders (
+    user_id, order_number, subtotal, tax, shipping_cost, total_amount,
+    shipping_address, billing_address, status, payment_status,
+    stock_reserved, reservation_expires_at,
+    shipping_state, shipping_lga, shipping_city, shipping_zone_id,
+    estimated_delivery_date, fulfilment_method, pickup_point_id, pickup_code,
+    shipping_address_snapshot, billing_address_snapshot,
+    guest_email, guest_phone, discount_applied, coupon_id
+  ) VALUES (
+    p_user_id, p_order_number, p_subtotal, p_tax, p_shipping_cost, p_total_amount,
+    p_shipping_address, p_billing_address, 'pending', 'pending',
+    true, now() + make_interval(mins => p_reservation_minutes),
+    p_shipping->>'state', p_shipping->>'lga', p_shipping->>'city',
+    (p_shipping->>'zone_id')::uuid,
+    (p_shipping->>'estimated_delivery_date')::date,
+    COALESCE(p_shipping->>'fulfilment_method', 'delivery'),
+    (p_shipping->>'pickup_point_id')::uuid,
+    p_shipping->>'pickup_code',
+    p_shipping->'address',
+    p_shipping->'billing_address',
+    CASE WHEN p_user_id IS NULL THEN lower(trim(p_guest->>'email')) END,
+    CASE WHEN p_user_id IS NULL THEN p_guest->>'phone' END,
+    COALESCE((p_discount->>'amount')::decimal, 0),
+    v_coupon_id
+  )
+  RETURNING * INTO v_order;
+
+  -- Single use: a second checkout racing with the same code fails here
+  IF v_coupon_id IS NOT NULL THEN
+    UPDATE coupons
+    SET redeemed_at = now(),
+        redeemed_order_id = v_order.id
+    WHERE id = v_coupon_id
+      AND user_id = p_user_id
+      AND redeemed_at IS NULL
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This discount code has expired or was already used';
+    END IF;
+  END IF;
+
+  INSERT INTO order_items (
+    order_id, product_id, variant_id, product_name, variant_name, sku,
+    quantity, unit_price, total_price, bundle_components
+  )
+  SELECT
+    v_order.id,
+    (value->>'product_id')::uuid,
+    (value->>'variant_id')::uuid,
+    value->>'product_name',
+    value->>'variant_name',
+    value->>'sku',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::decimal,
+    (value->>'total_price')::decimal,
+    value->'bundle_components'
+  FROM jsonb_array_elements(v_items);
+
+  -- Guests' carts live in the browser
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- release_order_stock: bundle lines go back to the components they took
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION release_order_stock(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_items jsonb;
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id AND stock_reserved FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(oi)) INTO v_items
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity + line.quantity,
+      updated_at = now()
+  FROM order_stock_lines(v_items) line
+  WHERE line.variant_id IS NULL
+    AND p.id = line.product_id
+    AND NOT p.has_variants
+    AND NOT p.is_bundle;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity + line.quantity,
+      updated_at = now()
+  FROM order_stock_lines(v_items) line
+  WHERE v.id = line.variant_id;
+
+  UPDATE orders
+  SET stock_reserved = false,
+      reservation_expires_at = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- reserve_order_stock: bundle lines are taken from their components
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION reserve_order_stock(
+  p_order_id uuid,
+  p_minutes integer DEFAULT NULL
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_items jsonb;
+  v_line record;
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id AND NOT stock_reserved FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(oi)) INTO v_items
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  FOR v_line IN SELECT * FROM order_stock_lines(v_items) LOOP
+    IF v_line.variant_id IS NULL THEN
+      UPDATE products
+      SET stock_quantity = stock_quantity - v_line.quantity,
+          updated_at = now()
+      WHERE id = v_line.product_id
+        AND NOT has_variants
+        AND NOT is_bundle
+        AND stock_quantity >= v_line.quantity;
+    ELSE
+      UPDATE product_variants
+      SET stock_quantity = stock_quantity - v_line.quantity,
+          updated_at = now()
+      WHERE id = v_line.variant_id
+        AND stock_quantity >= v_line.quantity;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_line.item_name;
+    END IF;
+  END LOOP;
+
+  UPDATE orders
+  SET stock_reserved = true,
+      reservation_expires_at = CASE
+        WHEN p_minutes IS NULL THEN NULL
+        ELSE now() + make_interval(mins => p_minutes)
+      END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION release_order_stock FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reserve_order_stock FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- receive_return: restocked bundles go back to their components
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION receive_return(
+  p_return_id uuid,
+  p_restock boolean,
+  p_received_by uuid
+)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request return_requests%ROWTYPE;
+  v_items jsonb;
+BEGIN
+  SELECT * INTO v_request FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF v_request.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved returns can be received';
+  END IF;
+
+  IF p_restock THEN
+    -- The returned quantity of each line, as sold
+    SELECT jsonb_agg(
+      to_jsonb(oi) || jsonb_build_object('quantity', (value->>'quantity')::integer)
+    )
+    INTO v_items
+    FROM jsonb_array_elements(v_request.items)
+    JOIN order_items oi ON oi.id = (value->>'order_item_id')::uuid;
+
+    UPDATE products p
+    SET stock_quantity = p.stock_quantity + line.quantity,
+        updated_at = now()
+    FROM order_stock_lines(v_items) line
+    WHERE line.variant_id IS NULL
+      AND p.id = line.product_id
+      AND NOT p.has_variants
+      AND NOT p.is_bundle;
+
+    UPDATE product_variants v
+    SET stock_quantity = v.stock_quantity + line.quantity,
+        updated_at = now()
+    FROM order_stock_lines(v_items) line
+    WHERE v.id = line.variant_id;
+  END IF;
+
+  PERFORM transition_order_status(
+    v_request.order_id, 'delivered', 'returned', p_received_by,
+    'Return received: ' || v_request.reason
+  );
+
+  UPDATE return_requests
+  SET status = 'received',
+      restocked = p_restock,
+      received_by = p_received_by,
+      received_at = now(),
+      updated_at = now()
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION receive_return FROM PUBLIC, anon, authenticated;
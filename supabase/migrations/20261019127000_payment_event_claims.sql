@@ -0,0 +1,10 @@
+-- =============================================================================
+-- Payment Event Claims
+-- =============================================================================
+--
+-- A delivery claims its event by setting status = 'processing'. claimed_at
+-- records when, so a claim left behind by a crashed process can be taken
+-- over by a later gateway retry instead of blocking the event forever.
+
+ALTER TABLE payment_events
+  ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
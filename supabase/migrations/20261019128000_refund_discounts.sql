@@ -0,0 +1,130 @@
+-- =============================================================================
+-- Refund Discounts
+-- =============================================================================
+--
+-- Line refunds used to pay back unit_price * quantity plus the tax share,
+-- ignoring any coupon: a discounted order refunded line by line returned more
+-- than the customer paid for those lines. Each line now gets the order's
+-- discount share too, spread over the subtotal the same way place_order takes
+-- discount_applied off before working out tax.
+
+-- -----------------------------------------------------------------------------
+-- create_refund: hold a refund against a paid order
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "order_item_id": uuid, "quantity": int }]. When empty the
+-- refund is for p_amount, or the whole remaining balance when that is NULL
+-- too. Line amounts are net of the order's discount share and include its tax
+-- share; shipping is only returned by a whole-order refund.
+CREATE OR REPLACE FUNCTION create_refund(
+  p_order_id uuid,
+  p_items jsonb,
+  p_reason text,
+  p_method text,
+  p_created_by uuid,
+  p_status text DEFAULT 'pending',
+  p_amount decimal DEFAULT NULL
+) RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item order_items%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_line_amount decimal(10, 2);
+  v_lines jsonb := '[]'::jsonb;
+  v_amount decimal(10, 2) := 0;
+  v_tx_id uuid;
+  v_refund refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    v_amount := COALESCE(p_amount, v_order.total_amount - v_order.refunded_amount);
+  ELSE
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT * INTO v_item
+      FROM order_items
+      WHERE id = (v_line->>'order_item_id')::uuid
+        AND order_id = p_order_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item is not part of this order';
+      END IF;
+
+      IF v_quantity IS NULL OR v_quantity <= 0
+         OR v_item.refunded_quantity + v_quantity > v_item.quantity THEN
+        RAISE EXCEPTION 'Cannot refund % more of %', v_quantity, v_item.product_name;
+      END IF;
+
+      v_line_amount := round(
+        v_item.unit_price * v_quantity
+          * CASE
+              WHEN v_order.subtotal > 0 THEN
+                (v_order.subtotal - v_order.discount_applied + v_order.tax) / v_order.subtotal
+              ELSE 1
+            END,
+        2
+      );
+
+      UPDATE order_items
+      SET refunded_quantity = refunded_quantity + v_quantity
+      WHERE id = v_item.id;
+
+      v_amount := v_amount + v_line_amount;
+      v_lines := v_lines || jsonb_build_object(
+        'order_item_id', v_item.id,
+        'product_name', v_item.product_name,
+        'quantity', v_quantity,
+        'amount', v_line_amount
+      );
+    END LOOP;
+  END IF;
+
+  -- Never refund more than is left on the order
+  v_amount := LEAST(v_amount, v_order.total_amount - v_order.refunded_amount);
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to refund on this order';
+  END IF;
+
+  SELECT id INTO v_tx_id
+  FROM payment_transactions
+  WHERE order_id = p_order_id
+    AND status IN ('completed', 'refunded')
+  ORDER BY verified_at DESC NULLS LAST
+  LIMIT 1;
+
+  INSERT INTO refunds (
+    order_id, payment_transaction_id, amount, reason, method, status,
+    items, created_by, processed_at
+  ) VALUES (
+    p_order_id, v_tx_id, v_amount, p_reason, p_method, p_status,
+    v_lines, p_created_by, CASE WHEN p_status = 'processed' THEN now() END
+  )
+  RETURNING * INTO v_refund;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + v_amount
+  WHERE id = p_order_id;
+
+  PERFORM sync_refund_status(p_order_id);
+
+  RETURN v_refund;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_refund FROM PUBLIC, anon, authenticated;
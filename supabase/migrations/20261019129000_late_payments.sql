@@ -0,0 +1,68 @@
+-- =============================================================================
+-- Late Payments
+-- =============================================================================
+--
+-- Cancelling an order closes its unpaid payment attempts, but a customer can
+-- still finish paying at the gateway afterwards. settlePaymentReference
+-- re-verifies attempts closed that way and records a late charge here, so the
+-- cancelled order can be refunded like any other paid order.
+
+-- -----------------------------------------------------------------------------
+-- record_late_payment: a charge that completed after its order was cancelled
+-- -----------------------------------------------------------------------------
+-- Only attempts closed by cancellation (failed without ever being verified)
+-- qualify. The order stays cancelled and no stock is reserved; only its
+-- payment is recorded. Returns the order's payment status.
+CREATE OR REPLACE FUNCTION record_late_payment(
+  p_reference text,
+  p_provider_transaction_id text DEFAULT NULL,
+  p_gateway_response text DEFAULT NULL,
+  p_raw_response jsonb DEFAULT NULL
+) RETURNS payment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx payment_transactions%ROWTYPE;
+  v_order_status payment_status;
+BEGIN
+  SELECT * INTO v_tx
+  FROM payment_transactions
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment reference %', p_reference;
+  END IF;
+
+  PERFORM 1 FROM orders
+  WHERE id = v_tx.order_id
+    AND status = 'cancelled'
+  FOR UPDATE;
+
+  IF FOUND AND v_tx.status = 'failed' AND v_tx.verified_at IS NULL THEN
+    UPDATE payment_transactions
+    SET status = 'completed',
+        provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+        gateway_response = p_gateway_response,
+        raw_response = p_raw_response,
+        verified_at = now(),
+        updated_at = now()
+    WHERE id = v_tx.id;
+
+    UPDATE orders
+    SET payment_status = 'completed',
+        payment_reference = p_reference,
+        paid_at = now(),
+        updated_at = now()
+    WHERE id = v_tx.order_id
+      AND payment_status IN ('pending', 'pay_on_delivery', 'failed');
+  END IF;
+
+  SELECT payment_status INTO v_order_status FROM orders WHERE id = v_tx.order_id;
+  RETURN v_order_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_late_payment FROM PUBLIC, anon, authenticated;
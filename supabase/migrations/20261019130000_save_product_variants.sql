@@ -0,0 +1,86 @@
+-- =============================================================================
+-- Save Product Variants
+-- =============================================================================
+--
+-- The variant matrix editor used to save in several requests (options, then
+-- deletes, then one update or insert per variant), so a failure part way
+-- left the product half saved. save_product_variants applies the whole
+-- matrix in one transaction.
+
+-- -----------------------------------------------------------------------------
+-- save_product_variants: replace a product's option types and variants
+-- -----------------------------------------------------------------------------
+-- p_options: [{ "name", "values" }], already validated by the caller.
+-- p_variants: [{ "id"?, "name", "options", "sku", "price", "discount_price",
+-- "stock_quantity", "images", "is_active", "position" }]. Rows with an id are
+-- updated, rows without one inserted and variants left out deleted.
+CREATE OR REPLACE FUNCTION save_product_variants(
+  p_product_id uuid,
+  p_options jsonb,
+  p_variants jsonb
+) RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF v_product.is_bundle AND jsonb_array_length(p_variants) > 0 THEN
+    RAISE EXCEPTION 'Bundles can''t be sold in variants';
+  END IF;
+
+  UPDATE products
+  SET variant_options = p_options,
+      updated_at = now()
+  WHERE id = p_product_id;
+
+  -- Removed first so a kept combination or SKU never clashes with one going away
+  DELETE FROM product_variants
+  WHERE product_id = p_product_id
+    AND id NOT IN (
+      SELECT (v->>'id')::uuid
+      FROM jsonb_array_elements(p_variants) v
+      WHERE v->>'id' IS NOT NULL
+    );
+
+  UPDATE product_variants pv
+  SET name = r.name,
+      options = r.options,
+      sku = r.sku,
+      price = r.price,
+      discount_price = r.discount_price,
+      stock_quantity = r.stock_quantity,
+      images = COALESCE(r.images, '{}'),
+      is_active = r.is_active,
+      position = r.position,
+      updated_at = now()
+  FROM jsonb_to_recordset(p_variants) AS r(
+    id uuid, name text, options jsonb, sku text, price decimal, discount_price decimal,
+    stock_quantity integer, images text[], is_active boolean, position integer
+  )
+  WHERE pv.id = r.id
+    AND pv.product_id = p_product_id;
+
+  INSERT INTO product_variants (
+    product_id, name, options, sku, price, discount_price, stock_quantity,
+    images, is_active, position
+  )
+  SELECT
+    p_product_id, r.name, r.options, r.sku, r.price, r.discount_price, r.stock_quantity,
+    COALESCE(r.images, '{}'), r.is_active, r.position
+  FROM jsonb_to_recordset(p_variants) AS r(
+    id uuid, name text, options jsonb, sku text, price decimal, discount_price decimal,
+    stock_quantity integer, images text[], is_active boolean, position integer
+  )
+  WHERE r.id IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_product_variants FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,194 @@
+-- =============================================================================
+-- Bundle Component Guards
+-- =============================================================================
+--
+-- Deleting a product or variant used to drop it silently from every bundle
+-- it was in, changing what those bundles sell. Components are now
+-- ON DELETE RESTRICT: staff take them out of the bundle first.
+--
+-- Giving variants to a product that a bundle holds as a whole product would
+-- leave a bundle place_order refuses (the component must name a variant)
+-- while its stock still counts the product, so save_product_variants now
+-- refuses that, and refuses to remove variants a bundle uses.
+--
+-- save_product_bundle replaces a bundle's components in one transaction.
+
+ALTER TABLE product_bundle_items
+  DROP CONSTRAINT IF EXISTS product_bundle_items_component_product_id_fkey,
+  DROP CONSTRAINT IF EXISTS product_bundle_items_component_variant_id_fkey;
+
+ALTER TABLE product_bundle_items
+  ADD CONSTRAINT product_bundle_items_component_product_id_fkey
+    FOREIGN KEY (component_product_id) REFERENCES products(id) ON DELETE RESTRICT,
+  ADD CONSTRAINT product_bundle_items_component_variant_id_fkey
+    FOREIGN KEY (component_variant_id) REFERENCES product_variants(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_product_bundle_items_component_variant
+  ON product_bundle_items(component_variant_id)
+  WHERE component_variant_id IS NOT NULL;
+
+-- -----------------------------------------------------------------------------
+-- save_product_variants: keep bundles that use the product valid
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION save_product_variants(
+  p_product_id uuid,
+  p_options jsonb,
+  p_variants jsonb
+) RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_bundle_name text;
+  v_variant_name text;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF v_product.is_bundle AND jsonb_array_length(p_variants) > 0 THEN
+    RAISE EXCEPTION 'Bundles can''t be sold in variants';
+  END IF;
+
+  -- A bundle holding the whole product can't say which variant it contains
+  IF jsonb_array_length(p_variants) > 0 THEN
+    SELECT b.name INTO v_bundle_name
+    FROM product_bundle_items i
+    JOIN products b ON b.id = i.bundle_id
+    WHERE i.component_product_id = p_product_id
+      AND i.component_variant_id IS NULL
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION '% is in the % bundle; take it out of the bundle before adding variants',
+        v_product.name, v_bundle_name;
+    END IF;
+  END IF;
+
+  SELECT b.name, v.name INTO v_bundle_name, v_variant_name
+  FROM product_bundle_items i
+  JOIN products b ON b.id = i.bundle_id
+  JOIN product_variants v ON v.id = i.component_variant_id
+  WHERE i.component_product_id = p_product_id
+    AND i.component_variant_id NOT IN (
+      SELECT (r->>'id')::uuid
+      FROM jsonb_array_elements(p_variants) r
+      WHERE r->>'id' IS NOT NULL
+    )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% (%) is in the % bundle; take it out of the bundle before removing it',
+      v_product.name, v_variant_name, v_bundle_name;
+  END IF;
+
+  UPDATE products
+  SET variant_options = p_options,
+      updated_at = now()
+  WHERE id = p_product_id;
+
+  -- Removed first so a kept combination or SKU never clashes with one going away
+  DELETE FROM product_variants
+  WHERE product_id = p_product_id
+    AND id NOT IN (
+      SELECT (v->>'id')::uuid
+      FROM jsonb_array_elements(p_variants) v
+      WHERE v->>'id' IS NOT NULL
+    );
+
+  UPDATE product_variants pv
+  SET name = r.name,
+      options = r.options,
+      sku = r.sku,
+      price = r.price,
+      discount_price = r.discount_price,
+      stock_quantity = r.stock_quantity,
+      images = COALESCE(r.images, '{}'),
+      is_active = r.is_active,
+      position = r.position,
+      updated_at = now()
+  FROM jsonb_to_recordset(p_variants) AS r(
+    id uuid, name text, options jsonb, sku text, price decimal, discount_price decimal,
+    stock_quantity integer, images text[], is_active boolean, position integer
+  )
+  WHERE pv.id = r.id
+    AND pv.product_id = p_product_id;
+
+  INSERT INTO product_variants (
+    product_id, name, options, sku, price, discount_price, stock_quantity,
+    images, is_active, position
+  )
+  SELECT
+    p_product_id, r.name, r.options, r.sku, r.price, r.discount_price, r.stock_quantity,
+    COALESCE(r.images, '{}'), r.is_active, r.position
+  FROM jsonb_to_recordset(p_variants) AS r(
+    id uuid, name text, options jsonb, sku text, price decimal, discount_price decimal,
+    stock_quantity integer, images text[], is_active boolean, position integer
+  )
+  WHERE r.id IS NULL;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- save_product_bundle: replace a bundle's components
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "component_product_id", "component_variant_id", "quantity",
+-- "position" }], already validated by the caller. Kept components are
+-- updated in place, new ones added and any left out removed; an empty list
+-- turns the bundle back into a plain product.
+CREATE OR REPLACE FUNCTION save_product_bundle(
+  p_bundle_id uuid,
+  p_items jsonb
+) RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM products WHERE id = p_bundle_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  DELETE FROM product_bundle_items i
+  WHERE i.bundle_id = p_bundle_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_items) AS r(component_product_id uuid, component_variant_id uuid)
+      WHERE r.component_product_id = i.component_product_id
+        AND r.component_variant_id IS NOT DISTINCT FROM i.component_variant_id
+    );
+
+  UPDATE product_bundle_items i
+  SET quantity = r.quantity,
+      position = r.position
+  FROM jsonb_to_recordset(p_items) AS r(
+    component_product_id uuid, component_variant_id uuid, quantity integer, position integer
+  )
+  WHERE i.bundle_id = p_bundle_id
+    AND i.component_product_id = r.component_product_id
+    AND i.component_variant_id IS NOT DISTINCT FROM r.component_variant_id;
+
+  INSERT INTO product_bundle_items (
+    bundle_id, component_product_id, component_variant_id, quantity, position
+  )
+  SELECT p_bundle_id, r.component_product_id, r.component_variant_id, r.quantity, r.position
+  FROM jsonb_to_recordset(p_items) AS r(
+    component_product_id uuid, component_variant_id uuid, quantity integer, position integer
+  )
+  WHERE NOT EXISTS (
+    SELECT 1 FROM product_bundle_items i
+    WHERE i.bundle_id = p_bundle_id
+      AND i.component_product_id = r.component_product_id
+      AND i.component_variant_id IS NOT DISTINCT FROM r.component_variant_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_product_variants FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION save_product_bundle FROM PUBLIC, anon, authenticated;
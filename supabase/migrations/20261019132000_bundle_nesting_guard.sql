@@ -0,0 +1,136 @@
+-- =============================================================================
+-- Bundle Nesting Guard
+-- =============================================================================
+--
+-- saveProductBundle checked its components before calling
+-- save_product_bundle, but nothing stopped a product that is already another
+-- bundle's component from becoming a bundle itself. The outer bundle then
+-- held a bundle: place_order takes no stock from bundle rows, so it could
+-- never be sold, and its stock stopped following the inner bundle's.
+--
+-- save_product_bundle now checks the bundle and every component itself,
+-- with the rows locked, so a concurrent save can't slip past either check.
+
+-- -----------------------------------------------------------------------------
+-- save_product_bundle: replace a bundle's components
+-- -----------------------------------------------------------------------------
+-- p_items: [{ "component_product_id", "component_variant_id", "quantity",
+-- "position" }]. Kept components are updated in place, new ones added and
+-- any left out removed; an empty list turns the bundle back into a plain
+-- product.
+CREATE OR REPLACE FUNCTION save_product_bundle(
+  p_bundle_id uuid,
+  p_items jsonb
+) RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bundle products%ROWTYPE;
+  v_component products%ROWTYPE;
+  v_item record;
+  v_outer_name text;
+BEGIN
+  SELECT * INTO v_bundle FROM products WHERE id = p_bundle_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF jsonb_array_length(p_items) > 0 THEN
+    IF v_bundle.has_variants THEN
+      RAISE EXCEPTION 'Products sold in variants can''t be bundles';
+    END IF;
+
+    SELECT b.name INTO v_outer_name
+    FROM product_bundle_items i
+    JOIN products b ON b.id = i.bundle_id
+    WHERE i.component_product_id = p_bundle_id
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION '% is in the % bundle and can''t be a bundle itself',
+        v_bundle.name, v_outer_name;
+    END IF;
+  END IF;
+
+  -- Components locked in a fixed order, so they can't become bundles or
+  -- gain variants until this save commits
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS r(
+      component_product_id uuid, component_variant_id uuid, quantity integer, position integer
+    )
+    ORDER BY r.component_product_id
+  LOOP
+    SELECT * INTO v_component
+    FROM products
+    WHERE id = v_item.component_product_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Choose a product for each item';
+    END IF;
+
+    IF v_component.id = p_bundle_id THEN
+      RAISE EXCEPTION 'A bundle can''t contain itself';
+    END IF;
+
+    IF v_component.is_bundle THEN
+      RAISE EXCEPTION '% is a bundle and can''t go in another bundle', v_component.name;
+    END IF;
+
+    IF v_component.has_variants AND v_item.component_variant_id IS NULL THEN
+      RAISE EXCEPTION 'Choose which % goes in the bundle', v_component.name;
+    END IF;
+
+    IF v_item.component_variant_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM product_variants
+      WHERE id = v_item.component_variant_id
+        AND product_id = v_component.id
+    ) THEN
+      RAISE EXCEPTION 'A chosen variant no longer exists';
+    END IF;
+
+    IF v_item.quantity IS NULL OR v_item.quantity < 1 THEN
+      RAISE EXCEPTION '% needs a quantity of 1 or more', v_component.name;
+    END IF;
+  END LOOP;
+
+  DELETE FROM product_bundle_items i
+  WHERE i.bundle_id = p_bundle_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_items) AS r(component_product_id uuid, component_variant_id uuid)
+      WHERE r.component_product_id = i.component_product_id
+        AND r.component_variant_id IS NOT DISTINCT FROM i.component_variant_id
+    );
+
+  UPDATE product_bundle_items i
+  SET quantity = r.quantity,
+      position = r.position
+  FROM jsonb_to_recordset(p_items) AS r(
+    component_product_id uuid, component_variant_id uuid, quantity integer, position integer
+  )
+  WHERE i.bundle_id = p_bundle_id
+    AND i.component_product_id = r.component_product_id
+    AND i.component_variant_id IS NOT DISTINCT FROM r.component_variant_id;
+
+  INSERT INTO product_bundle_items (
+    bundle_id, component_product_id, component_variant_id, quantity, position
+  )
+  SELECT p_bundle_id, r.component_product_id, r.component_variant_id, r.quantity, r.position
+  FROM jsonb_to_recordset(p_items) AS r(
+    component_product_id uuid, component_variant_id uuid, quantity integer, position integer
+  )
+  WHERE NOT EXISTS (
+    SELECT 1 FROM product_bundle_items i
+    WHERE i.bundle_id = p_bundle_id
+      AND i.component_product_id = r.component_product_id
+      AND i.component_variant_id IS NOT DISTINCT FROM r.component_variant_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_product_bundle FROM PUBLIC, anon, authenticated;
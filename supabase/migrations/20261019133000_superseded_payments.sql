@@ -0,0 +1,108 @@
+-- =============================================================================
+-- Superseded Payments
+-- =============================================================================
+--
+-- A retry closes earlier pending attempts as failed without asking the
+-- gateway, so the customer may still complete one of them afterwards. Such
+-- a charge used to be ignored unless the order had been cancelled, leaving
+-- the customer charged while the order stayed unpaid. record_late_payment
+-- now takes any attempt closed that way (failed, never verified) and:
+--
+-- - settles the order with it when the order is still unpaid
+-- - records it as the order's payment when the order was cancelled, so it
+--   can be refunded like any paid order
+-- - marks it verified when another attempt already paid the order; that
+--   duplicate charge is refunded on its own, outside the order's refunds
+
+DROP FUNCTION IF EXISTS record_late_payment(text, text, text, jsonb);
+
+-- -----------------------------------------------------------------------------
+-- record_late_payment: a charge on an attempt that was closed unanswered
+-- -----------------------------------------------------------------------------
+-- Returns what was done: 'settled', 'cancelled' (recorded on a cancelled
+-- order, to be refunded), 'duplicate' (the order was already paid) or 'none'
+-- (the attempt was not one closed unanswered, or was handled meanwhile).
+CREATE OR REPLACE FUNCTION record_late_payment(
+  p_reference text,
+  p_provider_transaction_id text DEFAULT NULL,
+  p_gateway_response text DEFAULT NULL,
+  p_raw_response jsonb DEFAULT NULL
+) RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx payment_transactions%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tx
+  FROM payment_transactions
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment reference %', p_reference;
+  END IF;
+
+  IF v_tx.status <> 'failed' OR v_tx.verified_at IS NOT NULL THEN
+    RETURN 'none';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_tx.order_id FOR UPDATE;
+
+  IF v_order.payment_status IN ('completed', 'partially_refunded', 'refunded') THEN
+    -- Stays failed: it isn't the order's payment and never counts towards it
+    UPDATE payment_transactions
+    SET provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+        gateway_response = 'Duplicate payment: order already paid',
+        raw_response = p_raw_response,
+        verified_at = now(),
+        updated_at = now()
+    WHERE id = v_tx.id;
+
+    RETURN 'duplicate';
+  END IF;
+
+  UPDATE payment_transactions
+  SET status = 'completed',
+      provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+      gateway_response = p_gateway_response,
+      raw_response = p_raw_response,
+      verified_at = now(),
+      updated_at = now()
+  WHERE id = v_tx.id;
+
+  UPDATE orders
+  SET payment_status = 'completed',
+      payment_reference = p_reference,
+      paid_at = now(),
+      updated_at = now()
+  WHERE id = v_tx.order_id;
+
+  IF v_order.status = 'cancelled' THEN
+    RETURN 'cancelled';
+  END IF;
+
+  -- The retry still open is now a duplicate; if it completes too it comes
+  -- back through here and is refunded
+  UPDATE payment_transactions
+  SET status = 'failed',
+      gateway_response = 'Superseded: order paid by an earlier attempt',
+      updated_at = now()
+  WHERE order_id = v_tx.order_id
+    AND status = 'pending';
+
+  -- As settle_payment_transaction: keep the payment even if stock ran out
+  BEGIN
+    PERFORM reserve_order_stock(v_tx.order_id, NULL);
+  EXCEPTION WHEN others THEN
+    NULL;
+  END;
+  UPDATE orders SET reservation_expires_at = NULL WHERE id = v_tx.order_id;
+
+  RETURN 'settled';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_late_payment FROM PUBLIC, anon, authenticated;